@@ -4,7 +4,7 @@
  *
  *   ?mode=bloom-iframe   Embedded in Bloom as an <iframe> overlay. Talk to the host
  *                        over postMessage via `createIframeBloomHostBridge()` and
- *                        render <BloomHostedImageEditor>. This is the production path.
+ *                        render <HostedImageEditor>. This is the production path.
  *   ?mode=bloom-harness  Standalone dev/e2e with a *fake* Bloom (BloomHostHarness),
  *                        which seeds demo data and an in-memory bridge.
  *   (no mode)            Plain standalone editor (<StandaloneImageEditor>), e.g. the demo
@@ -17,7 +17,7 @@
 import React, { useEffect, useMemo } from "react";
 import { ENV_KEY_SKIP_FLAG } from "./lib/authFlags";
 import { useLastDragDelayMs } from "./components/dndDragState";
-import { BloomHostedImageEditor } from "./components/BloomHostedImageEditor";
+import { HostedImageEditor } from "./components/HostedImageEditor";
 import { BloomHostHarness } from "./components/BloomHostHarness";
 import { createIframeBloomHostBridge } from "./services/host/BloomHostBridge";
 import { StandaloneImageEditor } from "./components/StandaloneImageEditor";
@@ -116,10 +116,7 @@ export default function App() {
       {isBloomHarness ? (
         <BloomHostHarness />
       ) : bloomBridge ? (
-        <BloomHostedImageEditor
-          bridge={bloomBridge}
-          onCommitComplete={() => bloomBridge.cancel()}
-        />
+        <HostedImageEditor bridge={bloomBridge} onCommitComplete={() => bloomBridge.cancel()} />
       ) : (
         <StandaloneImageEditor envApiKey={envApiKey} bloomFeatures={standaloneBloomFeatures} />
       )}
@@ -11,6 +11,13 @@ import {
   Paper,
   Button,
   Alert,
+  TextField,
+  MenuItem,
+  Slider,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress,
+  Tooltip,
 } from "@mui/material";
 import { ThemeProvider } from "@mui/material/styles";
 import { IMAGE_TOOLS_FS_IMAGES_DIR } from "../services/persistence/constants";
@@ -19,6 +26,29 @@ import { Icon, Icons } from "./Icons";
 import { OpenRouterConnect } from "./OpenRouterConnect";
 import { useBrandedDarkTheme } from "./materialUITheme";
 import { theme as appTheme } from "../themes";
+import { SpendBudget, SpendTotals } from "../lib/spendBudget";
+import {
+  encodeImageForOutput,
+  EncodedOutputImage,
+  formatByteSize,
+  getDataUrlByteSize,
+  COMMIT_RESIZE_MODES,
+  CommitResizeMode,
+  IMAGE_OUTPUT_FORMATS,
+  ImageOutputFormat,
+  ImageOutputSettings,
+  MAX_IMAGE_OUTPUT_QUALITY,
+  MIN_COMMIT_LONG_EDGE,
+  MIN_IMAGE_OUTPUT_QUALITY,
+} from "../lib/imageOutputFormat";
+import { ensureDataUrl } from "../lib/imageUtils";
+import { getToolById } from "../lib/toolHelpers";
+import { ImageRecord } from "../types";
+import {
+  BrowserStorageEstimate,
+  HistoryStorageBreakdown,
+  StoragePinSettings,
+} from "../lib/browserStorage";
 
 interface OpenRouterSectionProps {
   isAuthenticated: boolean;
@@ -34,6 +64,12 @@ interface OpenRouterSectionProps {
   demoOnly?: boolean;
 }
 
+/** A key for models served by OpenAI's Images API rather than OpenRouter. */
+interface OpenAIKeySectionProps {
+  apiKey: string | null;
+  onProvideKey: (key: string) => void;
+}
+
 interface HistorySectionProps {
   isSupported: boolean;
   isLoading: boolean;
@@ -42,15 +78,54 @@ interface HistorySectionProps {
   error: string | null;
   onEnableFolder: () => void;
   onDisableFolder: () => void;
+  /** Opens the deleted images that can still be restored. */
+  onOpenRecentlyDeleted?: () => void;
+}
+
+interface BudgetSectionProps {
+  budget: SpendBudget;
+  totals: SpendTotals;
+  onChange: (budget: SpendBudget) => void;
+  onOpenUsageReport: () => void;
+}
+
+interface ImageOutputSectionProps {
+  settings: ImageOutputSettings;
+  onChange: (settings: ImageOutputSettings) => void;
+  /** The image the size preview is worked out for; no preview when null. */
+  previewImageData: string | null;
+  /** Shows the commit-size choice; only meaningful when replacing book images. */
+  showCommitResize?: boolean;
+  /** Why the host won't take the chosen format for the book, when it can't. */
+  hostNotice?: string;
+}
+
+interface StorageSectionProps {
+  /** Null while loading, or where the browser can't tell. */
+  estimate: BrowserStorageEstimate | null;
+  breakdown: HistoryStorageBreakdown | null;
+  /** The history, to show the images the breakdown lists. */
+  imagesById: Record<string, ImageRecord>;
+  pins: StoragePinSettings;
+  onPinsChange: (pins: StoragePinSettings) => void;
+  onRequestPersistence: () => void;
 }
 
 interface AIImageToolsSettingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
   openRouter: OpenRouterSectionProps;
+  /** Shown only when the model catalog has models on OpenAI's Images API. */
+  openAI?: OpenAIKeySectionProps;
   /** History-storage section config. Omitted when the host (e.g. Bloom) supplies its
    *  own history mechanism, in which case the section is not shown at all. */
   history?: HistorySectionProps;
+  /** Spending-limit section config; the section is hidden when omitted. */
+  budget?: BudgetSectionProps;
+  /** Output-format section config; the section is hidden when omitted. */
+  imageOutput?: ImageOutputSectionProps;
+  /** Browser-storage section config; omitted when the host stores history. */
+  storage?: StorageSectionProps;
 }
 
 const folderPathFromName = (name: string | null) => {
@@ -88,13 +163,175 @@ const primaryContainedButtonStyles = {
 
 const dialogBackground = "#000";
 
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+// Blank (or anything that isn't a non-negative number) means "no cap".
+const parseCapInput = (value: string): number | null => {
+  const parsed = Number.parseFloat(value);
+  return value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// Encoding a large image takes a moment, so wait for the slider to settle.
+const SIZE_PREVIEW_DELAY_MS = 300;
+
+const ImageOutputSizePreview: React.FC<{
+  imageData: string;
+  settings: ImageOutputSettings;
+}> = ({ imageData, settings }) => {
+  const [preview, setPreview] = React.useState<{
+    sourceByteSize: number;
+    encoded: EncodedOutputImage;
+  } | null>(null);
+  const [failed, setFailed] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const timeoutId = window.setTimeout(() => {
+      // Book images arrive as URLs; measure and encode the actual bytes.
+      ensureDataUrl(imageData)
+        .then(async (dataUrl) => ({
+          sourceByteSize: getDataUrlByteSize(dataUrl),
+          encoded: await encodeImageForOutput(dataUrl, settings),
+        }))
+        .then((result) => {
+          if (!cancelled) {
+            setPreview(result);
+            setFailed(false);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setFailed(true);
+        });
+    }, SIZE_PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, [imageData, settings]);
+
+  if (failed) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Can't preview the size for the current image.
+      </Typography>
+    );
+  }
+  if (!preview) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Working out the size…
+      </Typography>
+    );
+  }
+  const format = preview.encoded.mimeType.replace("image/", "").toUpperCase();
+  return (
+    <Typography variant="body2" color="text.secondary" data-testid="image-output-size-preview">
+      Current image: {formatByteSize(preview.sourceByteSize)} now,{" "}
+      {formatByteSize(preview.encoded.byteSize)} as {format}.
+    </Typography>
+  );
+};
+
+const MAX_STORAGE_THUMBNAILS = 24;
+
+const describeStoredImage = (record: ImageRecord): string =>
+  record.name || record.caption || getToolById(record.toolId)?.title || record.toolId;
+
+/** Images stored in full that eviction may take, oldest (first to go) first. */
+const getEvictableIds = (breakdown: HistoryStorageBreakdown): string[] => {
+  const pinned = new Set(breakdown.pinnedIds);
+  return breakdown.cachedIds.filter((id) => !pinned.has(id));
+};
+
+/** One group of the storage breakdown; an image whose bytes are gone shows as a blank tile. */
+const StorageImageList: React.FC<{
+  label: string;
+  ids: string[];
+  imagesById: Record<string, ImageRecord>;
+  testId: string;
+}> = ({ label, ids, imagesById, testId }) => {
+  const records = ids.flatMap((id) => (imagesById[id] ? [imagesById[id]] : []));
+  if (!records.length) return null;
+  const hidden = records.length - MAX_STORAGE_THUMBNAILS;
+  return (
+    <Box data-testid={testId}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+        {label} ({records.length})
+      </Typography>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, alignItems: "center" }}>
+        {records.slice(0, MAX_STORAGE_THUMBNAILS).map((record) => (
+          <Tooltip key={record.id} title={describeStoredImage(record)}>
+            <Box
+              data-testid={`${testId}-item-${record.id}`}
+              sx={{
+                width: 40,
+                height: 40,
+                borderRadius: 1,
+                overflow: "hidden",
+                backgroundColor: "rgba(255, 255, 255, 0.08)",
+              }}
+            >
+              {record.imageData && (
+                <img
+                  src={record.imageData}
+                  alt=""
+                  style={{ width: "100%", height: "100%", objectFit: "cover" }}
+                />
+              )}
+            </Box>
+          </Tooltip>
+        ))}
+        {hidden > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            and {hidden} more
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+const OpenAIKeyField: React.FC<OpenAIKeySectionProps> = ({ apiKey, onProvideKey }) => {
+  const [draft, setDraft] = React.useState(apiKey ?? "");
+  React.useEffect(() => setDraft(apiKey ?? ""), [apiKey]);
+  const isChanged = draft.trim() !== (apiKey ?? "");
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="flex-start">
+      <TextField
+        label="OpenAI API key"
+        type="password"
+        size="small"
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        helperText="Used only for models that run on OpenAI's Images API."
+        sx={{ flex: 1 }}
+        inputProps={{ "data-testid": "openai-api-key-input", autoComplete: "off" }}
+      />
+      <Button
+        variant="outlined"
+        disabled={!isChanged}
+        onClick={() => onProvideKey(draft)}
+        data-testid="openai-api-key-save"
+      >
+        {draft.trim() ? "Save" : "Remove"}
+      </Button>
+    </Stack>
+  );
+};
+
 export const AIImageToolsSettingsDialog: React.FC<AIImageToolsSettingsDialogProps> = ({
   isOpen,
   onClose,
   openRouter,
+  openAI,
   history,
+  budget,
+  imageOutput,
+  storage,
 }) => {
   const darkTheme = useBrandedDarkTheme();
+  const [maxLongEdgeDraft, setMaxLongEdgeDraft] = React.useState<string | null>(null);
   const folderPath = history ? folderPathFromName(history.directoryName) : null;
   const historyLoadingLabel = history?.isLoading ? "Working..." : undefined;
 
@@ -188,6 +425,7 @@ export const AIImageToolsSettingsDialog: React.FC<AIImageToolsSettingsDialogProp
                       onOpenExternalUrl={openRouter.onOpenExternalUrl}
                       demoOnly={openRouter.demoOnly}
                     />
+                    {openAI && <OpenAIKeyField {...openAI} />}
                   </Stack>
                 </Box>
               </Stack>
@@ -277,6 +515,17 @@ export const AIImageToolsSettingsDialog: React.FC<AIImageToolsSettingsDialogProp
                     </Button>
                   )}
 
+                  {history.onOpenRecentlyDeleted && (
+                    <Button
+                      variant="outlined"
+                      onClick={history.onOpenRecentlyDeleted}
+                      data-testid="open-recently-deleted"
+                      sx={{ borderRadius: 999, fontWeight: 600, alignSelf: "flex-start" }}
+                    >
+                      Recently deleted…
+                    </Button>
+                  )}
+
                   {history.error && (
                     <Alert severity="error" sx={{ mt: 1 }}>
                       {history.error}
@@ -285,6 +534,343 @@ export const AIImageToolsSettingsDialog: React.FC<AIImageToolsSettingsDialogProp
                 </Stack>
               </Paper>
             )}
+            {budget && (
+              <Paper
+                elevation={0}
+                square
+                sx={sectionCardStyles}
+                aria-labelledby="budget-section-title"
+              >
+                <Stack spacing={2}>
+                  <Stack direction="row" spacing={2} alignItems="flex-start">
+                    <Icon path={Icons.Wallet} width={20} height={20} />
+                    <Box>
+                      <Typography id="budget-section-title" variant="subtitle1" fontWeight={600}>
+                        Spending limits
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        Stop generating before a run would go over a limit. Leave a limit blank for
+                        no limit.
+                      </Typography>
+                    </Box>
+                  </Stack>
+
+                  <Box sx={nestedCardStyles}>
+                    <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+                      <TextField
+                        label="Limit per session (USD)"
+                        type="number"
+                        size="small"
+                        value={budget.budget.sessionCapUsd ?? ""}
+                        onChange={(event) =>
+                          budget.onChange({
+                            ...budget.budget,
+                            sessionCapUsd: parseCapInput(event.target.value),
+                          })
+                        }
+                        helperText={`Spent since opening: ${formatUsd(budget.totals.sessionUsd)}`}
+                        inputProps={{ min: 0, step: 0.5, "data-testid": "budget-session-cap" }}
+                      />
+                      <TextField
+                        label="Limit for this book (USD)"
+                        type="number"
+                        size="small"
+                        value={budget.budget.bookCapUsd ?? ""}
+                        onChange={(event) =>
+                          budget.onChange({
+                            ...budget.budget,
+                            bookCapUsd: parseCapInput(event.target.value),
+                          })
+                        }
+                        helperText={`Spent in total: ${formatUsd(budget.totals.bookUsd)}`}
+                        inputProps={{ min: 0, step: 0.5, "data-testid": "budget-book-cap" }}
+                      />
+                    </Stack>
+                  </Box>
+
+                  <Button
+                    variant="outlined"
+                    onClick={budget.onOpenUsageReport}
+                    data-testid="open-usage-report"
+                    sx={{ alignSelf: "flex-start", borderRadius: 999 }}
+                  >
+                    Usage report…
+                  </Button>
+                </Stack>
+              </Paper>
+            )}
+            {imageOutput && (
+              <Paper
+                elevation={0}
+                square
+                sx={sectionCardStyles}
+                aria-labelledby="image-output-section-title"
+              >
+                <Stack spacing={2}>
+                  <Stack direction="row" spacing={2} alignItems="flex-start">
+                    <Icon path={Icons.Save} width={20} height={20} />
+                    <Box>
+                      <Typography
+                        id="image-output-section-title"
+                        variant="subtitle1"
+                        fontWeight={600}
+                      >
+                        Image format
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        The format images are saved to the book and downloaded in. JPEG and WebP
+                        make photographic art much smaller.
+                      </Typography>
+                      {imageOutput.hostNotice && (
+                        <Typography
+                          variant="body2"
+                          color="warning.main"
+                          sx={{ mt: 1 }}
+                          data-testid="image-output-host-notice"
+                        >
+                          {imageOutput.hostNotice}
+                        </Typography>
+                      )}
+                    </Box>
+                  </Stack>
+
+                  <Box sx={nestedCardStyles}>
+                    <Stack spacing={2}>
+                      <TextField
+                        select
+                        label="Format"
+                        size="small"
+                        value={imageOutput.settings.format}
+                        onChange={(event) =>
+                          imageOutput.onChange({
+                            ...imageOutput.settings,
+                            format: event.target.value as ImageOutputFormat,
+                          })
+                        }
+                        inputProps={{ "data-testid": "image-output-format" }}
+                        sx={{ maxWidth: 360 }}
+                      >
+                        {IMAGE_OUTPUT_FORMATS.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                      {imageOutput.settings.format !== "png" && (
+                        <Box sx={{ maxWidth: 360 }}>
+                          <Typography variant="body2" id="image-output-quality-label">
+                            Quality: {Math.round(imageOutput.settings.quality * 100)}
+                          </Typography>
+                          <Slider
+                            aria-labelledby="image-output-quality-label"
+                            min={MIN_IMAGE_OUTPUT_QUALITY}
+                            max={MAX_IMAGE_OUTPUT_QUALITY}
+                            step={0.01}
+                            value={imageOutput.settings.quality}
+                            onChange={(_, value) =>
+                              imageOutput.onChange({
+                                ...imageOutput.settings,
+                                quality: Array.isArray(value) ? value[0] : value,
+                              })
+                            }
+                            data-testid="image-output-quality"
+                          />
+                        </Box>
+                      )}
+                      {imageOutput.showCommitResize && (
+                        <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+                          <TextField
+                            select
+                            label="When replacing a book image"
+                            size="small"
+                            value={imageOutput.settings.commitResize}
+                            onChange={(event) =>
+                              imageOutput.onChange({
+                                ...imageOutput.settings,
+                                commitResize: event.target.value as CommitResizeMode,
+                              })
+                            }
+                            helperText="History keeps the full-size image."
+                            inputProps={{ "data-testid": "image-output-commit-resize" }}
+                            sx={{ minWidth: 300 }}
+                          >
+                            {COMMIT_RESIZE_MODES.map((option) => (
+                              <MenuItem key={option.value} value={option.value}>
+                                {option.label}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                          {imageOutput.settings.commitResize !== "off" && (
+                            <TextField
+                              label="Maximum long edge (px)"
+                              type="number"
+                              size="small"
+                              value={maxLongEdgeDraft ?? imageOutput.settings.maxLongEdge}
+                              onChange={(event) => {
+                                // Keep what's typed while it's on its way to a usable size.
+                                setMaxLongEdgeDraft(event.target.value);
+                                const value = Number.parseInt(event.target.value, 10);
+                                if (Number.isFinite(value) && value >= MIN_COMMIT_LONG_EDGE) {
+                                  imageOutput.onChange({
+                                    ...imageOutput.settings,
+                                    maxLongEdge: value,
+                                  });
+                                }
+                              }}
+                              onBlur={() => setMaxLongEdgeDraft(null)}
+                              helperText={
+                                imageOutput.settings.commitResize === "book-image"
+                                  ? "Used when the book image's size isn't known."
+                                  : undefined
+                              }
+                              inputProps={{
+                                min: MIN_COMMIT_LONG_EDGE,
+                                step: 100,
+                                "data-testid": "image-output-max-long-edge",
+                              }}
+                            />
+                          )}
+                        </Stack>
+                      )}
+                      {imageOutput.previewImageData && (
+                        <ImageOutputSizePreview
+                          imageData={imageOutput.previewImageData}
+                          settings={imageOutput.settings}
+                        />
+                      )}
+                    </Stack>
+                  </Box>
+                </Stack>
+              </Paper>
+            )}
+            {storage && (
+              <Paper
+                elevation={0}
+                square
+                sx={sectionCardStyles}
+                aria-labelledby="storage-section-title"
+                data-testid="storage-section"
+              >
+                <Stack spacing={2}>
+                  <Stack direction="row" spacing={2} alignItems="flex-start">
+                    <Icon path={Icons.History} width={20} height={20} />
+                    <Box>
+                      <Typography id="storage-section-title" variant="subtitle1" fontWeight={600}>
+                        Browser storage
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        Without a history folder, images are kept in this browser. When it runs out
+                        of room, the oldest images lose their full-resolution copy and only their
+                        details are kept.
+                      </Typography>
+                    </Box>
+                  </Stack>
+
+                  <Box sx={nestedCardStyles}>
+                    <Stack spacing={2}>
+                      {storage.estimate ? (
+                        <Box data-testid="storage-usage">
+                          <Typography variant="body2">
+                            Using {formatByteSize(storage.estimate.usageBytes)} of{" "}
+                            {formatByteSize(storage.estimate.quotaBytes)} available.
+                          </Typography>
+                          <LinearProgress
+                            variant="determinate"
+                            value={
+                              storage.estimate.quotaBytes
+                                ? Math.min(
+                                    100,
+                                    (storage.estimate.usageBytes / storage.estimate.quotaBytes) *
+                                      100,
+                                  )
+                                : 0
+                            }
+                            sx={{ mt: 1, borderRadius: 999 }}
+                          />
+                        </Box>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">
+                          This browser doesn't say how much storage is in use.
+                        </Typography>
+                      )}
+                      {storage.breakdown && (
+                        <Stack spacing={1.5}>
+                          <Typography variant="body2" data-testid="storage-breakdown">
+                            {storage.breakdown.cachedIds.length} images stored in full,{" "}
+                            {storage.breakdown.pinnedIds.length} of them kept from eviction;{" "}
+                            {storage.breakdown.metadataOnlyIds.length} with details only.
+                          </Typography>
+                          <StorageImageList
+                            label="Details only, the full image is gone"
+                            ids={storage.breakdown.metadataOnlyIds}
+                            imagesById={storage.imagesById}
+                            testId="storage-metadata-only"
+                          />
+                          <StorageImageList
+                            label="Kept from eviction"
+                            ids={storage.breakdown.pinnedIds}
+                            imagesById={storage.imagesById}
+                            testId="storage-pinned"
+                          />
+                          <StorageImageList
+                            label="Given up first when space runs out"
+                            ids={getEvictableIds(storage.breakdown)}
+                            imagesById={storage.imagesById}
+                            testId="storage-evictable"
+                          />
+                        </Stack>
+                      )}
+                      <Stack>
+                        <FormControlLabel
+                          control={
+                            <Checkbox
+                              checked={storage.pins.starred}
+                              onChange={(event) =>
+                                storage.onPinsChange({
+                                  ...storage.pins,
+                                  starred: event.target.checked,
+                                })
+                              }
+                              data-testid="storage-pin-starred"
+                            />
+                          }
+                          label="Never evict starred images"
+                        />
+                        <FormControlLabel
+                          control={
+                            <Checkbox
+                              checked={storage.pins.characters}
+                              onChange={(event) =>
+                                storage.onPinsChange({
+                                  ...storage.pins,
+                                  characters: event.target.checked,
+                                })
+                              }
+                              data-testid="storage-pin-characters"
+                            />
+                          }
+                          label="Never evict images in the Characters strip"
+                        />
+                      </Stack>
+                      {storage.estimate?.persisted ? (
+                        <Typography variant="body2" color="text.secondary">
+                          The browser has agreed not to clear this storage on its own.
+                        </Typography>
+                      ) : (
+                        <Button
+                          variant="outlined"
+                          onClick={storage.onRequestPersistence}
+                          data-testid="storage-request-persistence"
+                          sx={{ alignSelf: "flex-start", borderRadius: 999 }}
+                        >
+                          Ask the browser to keep this storage
+                        </Button>
+                      )}
+                    </Stack>
+                  </Box>
+                </Stack>
+              </Paper>
+            )}
           </Stack>
         </DialogContent>
 
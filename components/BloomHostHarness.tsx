@@ -6,15 +6,19 @@
  * component stands in for everything the C# host + overlay JS would normally provide,
  * so we can develop and e2e-test the Bloom integration in a plain browser.
  *
- * It builds a `createHarnessBloomHostBridge` (in-memory files, synchronous init) seeded
+ * It builds a `createHarnessBloomHostBridge` (the host-neutral in-memory bridge from
+ * hostBridge.ts: in-memory files, immediate init, change pushes) seeded
  * with a realistic `init` payload — a sample book, whole-book images including an empty
  * placeholder slot, and an enumerated history folder (with one sidecar-less "orphan" to
- * exercise recovery) — then renders <BloomHostedImageEditor> around it. The on-screen panel
- * surfaces what a real host would receive: the commit payload, ready-call count, and
- * cancel state, which the Playwright specs assert against (tests/bloom-host-harness.spec.ts).
+ * exercise recovery) — then renders <HostedImageEditor> around it. The on-screen panel
+ * surfaces what a real host would receive: the commit payload, applied-replacement
+ * count, ready-call count, and cancel state, which the Playwright specs assert against (tests/bloom-host-harness.spec.ts).
  *
  * The `?seed=` query selects alternate starting states (current-result, stale-reopen)
- * to test load/rehydration edge cases.
+ * to test load/rehydration edge cases, and `?protocol=legacy` plays a Bloom that
+ * predates protocol versioning. "Push History" plays another Bloom window adding an
+ * image to the history folder while the editor is open, and "Request Close" plays Bloom
+ * closing the overlay.
  */
 import React from "react";
 import { Box, Button, Stack, Typography } from "@mui/material";
@@ -27,8 +31,9 @@ import {
   IBloomHostHistoryImage,
   createHarnessBloomHostBridge,
 } from "../services/host/BloomHostBridge";
+import { getEditorHandshake } from "../services/host/hostProtocol";
 import { ImageCredits, PersistedImageToolsState } from "../types";
-import { BloomHostedImageEditor } from "./BloomHostedImageEditor";
+import { HostedImageEditor } from "./HostedImageEditor";
 import { theme } from "../themes";
 
 const HARNESS_BOOK_ID = "sample-book";
@@ -42,6 +47,25 @@ const HARNESS_BOOK_ID = "sample-book";
 const HARNESS_UNUSED_HTTP_BASE = "https://bloom-host.invalid/bloom/api/aiImageEditor";
 const SEEDED_RESULT_HISTORY_ID = "history-seeded-result-1";
 
+// What "Push History" adds to the folder, as another writer would.
+const PUSHED_HISTORY_IMAGE: IBloomHostHistoryImage = {
+  id: "history-pushed-1",
+  url: watercolorDream,
+  metadata: {
+    id: "history-pushed-1",
+    parentId: null,
+    toolId: "edit-image",
+    parameters: { prompt: "Watercolor wash" },
+    durationMs: 900,
+    cost: 0.01,
+    model: "google/gemini-2.5-flash-image",
+    timestamp: 3000,
+    promptUsed: "Watercolor wash",
+    sourceSummary: "Made in another window",
+    origin: "generated",
+  },
+};
+
 // IP credits for some book-image slots (others deliberately have none).
 const HARNESS_BOOK_IMAGE_CREDITS: Record<string, ImageCredits> = {
   "book-image-1": {
@@ -234,6 +258,7 @@ const createStaleReopenState = (): PersistedImageToolsState => ({
 
 export const BloomHostHarness: React.FC = () => {
   const [commitPayload, setCommitPayload] = React.useState<IBloomCommitReplacement[]>([]);
+  const [appliedCount, setAppliedCount] = React.useState(0);
   const [wasCancelled, setWasCancelled] = React.useState(false);
   const [readyCount, setReadyCount] = React.useState(0);
   const requestCloseListenersRef = React.useRef<Array<() => void>>([]);
@@ -244,6 +269,10 @@ export const BloomHostHarness: React.FC = () => {
   const showDeveloperTools =
     typeof window === "undefined" ||
     new URLSearchParams(window.location.search).get("devtools") !== "off";
+  // A current Bloom speaks the editor's own protocol version with every capability.
+  const isLegacyHost =
+    typeof window !== "undefined" &&
+    new URLSearchParams(window.location.search).get("protocol") === "legacy";
   const initialFiles = React.useMemo(() => {
     if (seedMode === "current-result") {
       return { "state.json": JSON.stringify(createSeededResultUiState()) };
@@ -296,20 +325,27 @@ export const BloomHostHarness: React.FC = () => {
           // Simulate launching on a specific image: it should land in "Image to Edit".
           selectedBookImageId: "book-image-3",
           showDeveloperTools,
+          ...(isLegacyHost ? {} : getEditorHandshake()),
         },
         initialFiles,
         onCommit(replacements) {
           setCommitPayload(replacements);
           setWasCancelled(false);
         },
+        onApply() {
+          setAppliedCount((count) => count + 1);
+        },
         onCancel() {
           setWasCancelled(true);
         },
         onReady() {
           setReadyCount((count) => count + 1);
         },
+        onProgress(progress) {
+          console.info("[BloomHarness] progress", progress);
+        },
       }),
-    [initialFiles, historyImages, showDeveloperTools],
+    [initialFiles, historyImages, isLegacyHost, showDeveloperTools],
   );
 
   React.useEffect(() => {
@@ -352,6 +388,20 @@ export const BloomHostHarness: React.FC = () => {
           >
             Reset State
           </Button>
+          <Button
+            data-testid="bloom-harness-push-history"
+            variant="outlined"
+            onClick={() => bridge.pushHistoryChanged([...historyImages, PUSHED_HISTORY_IMAGE])}
+          >
+            Push History
+          </Button>
+          <Button
+            data-testid="bloom-harness-request-close"
+            variant="outlined"
+            onClick={() => bridge.requestClose()}
+          >
+            Request Close
+          </Button>
         </Stack>
         <Typography
           data-testid="bloom-harness-ready-count"
@@ -367,6 +417,13 @@ export const BloomHostHarness: React.FC = () => {
         >
           cancelled: {wasCancelled ? "yes" : "no"}
         </Typography>
+        <Typography
+          data-testid="bloom-harness-applied-count"
+          variant="caption"
+          sx={{ color: theme.colors.textPrimary }}
+        >
+          applied: {appliedCount}
+        </Typography>
         <Box
           data-testid="bloom-harness-commit-payload"
           sx={{
@@ -382,7 +439,7 @@ export const BloomHostHarness: React.FC = () => {
           {JSON.stringify(commitPayload, null, 2)}
         </Box>
       </Box>
-      <BloomHostedImageEditor bridge={bridge} />
+      <HostedImageEditor bridge={bridge} />
     </Box>
   );
 };
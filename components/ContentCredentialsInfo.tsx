@@ -0,0 +1,96 @@
+import React from "react";
+import {
+  ContentCredentialsVerification,
+  verifyImageContentCredentials,
+} from "../lib/contentCredentials";
+import { getModelNameById } from "../lib/modelsCatalog";
+import { theme } from "../themes";
+
+interface ContentCredentialsInfoProps {
+  imageData: string;
+}
+
+const describeStatus = (
+  verification: ContentCredentialsVerification,
+): { label: string; color: string } => {
+  switch (verification.status) {
+    case "valid":
+      return { label: "Verified", color: theme.colors.success };
+    case "image-changed":
+      return { label: "Image changed since signing", color: theme.colors.danger };
+    default:
+      return { label: "Signature does not match", color: theme.colors.danger };
+  }
+};
+
+/**
+ * The signed content credentials an image carries (see lib/contentCredentials),
+ * checked when shown. Renders nothing for images without any.
+ */
+export const ContentCredentialsInfo: React.FC<ContentCredentialsInfoProps> = ({ imageData }) => {
+  const [verification, setVerification] = React.useState<ContentCredentialsVerification | null>(
+    null,
+  );
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setVerification(null);
+    void verifyImageContentCredentials(imageData).then((result) => {
+      if (!cancelled) setVerification(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageData]);
+
+  if (!verification) return null;
+
+  const { claim } = verification;
+  const status = describeStatus(verification);
+  const action = claim.actions[0];
+
+  return (
+    <div
+      data-testid="content-credentials"
+      style={{
+        marginTop: 8,
+        paddingTop: 8,
+        borderTop: `1px solid ${theme.colors.border}`,
+      }}
+    >
+      <span
+        style={{
+          display: "block",
+          marginBottom: 4,
+          color: theme.colors.textMuted,
+        }}
+      >
+        Content credentials:
+      </span>
+      <div style={{ color: theme.colors.textSecondary, fontSize: "11px", lineHeight: 1.4 }}>
+        <div data-testid="content-credentials-status" style={{ color: status.color }}>
+          {status.label}
+          {verification.signedHere ? " · signed on this computer" : ""}
+        </div>
+        {action && (
+          <div>
+            {action.action === "c2pa.edited" ? "Edited" : "Created"} with AI
+            {action.softwareAgent
+              ? ` (${getModelNameById(action.softwareAgent) || action.softwareAgent})`
+              : ""}
+            {action.when ? `, ${new Date(action.when).toLocaleString()}` : ""}
+          </div>
+        )}
+        {claim.ingredients.map((ingredient, index) => (
+          <div key={`${ingredient.relationship}-${index}`}>
+            {ingredient.relationship === "parentOf" ? "From" : "Reference"}: {ingredient.title}
+            {ingredient.credits?.creator ? ` by ${ingredient.credits.creator}` : ""}
+          </div>
+        ))}
+        <div style={{ color: theme.colors.textMuted }}>
+          {claim.claimGenerator} · key {verification.keyFingerprint}
+        </div>
+      </div>
+    </div>
+  );
+};
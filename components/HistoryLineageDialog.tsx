@@ -0,0 +1,218 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  ButtonBase,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import ReplayIcon from "@mui/icons-material/Replay";
+import { ImageRecord } from "../types";
+import { getToolById } from "../lib/toolHelpers";
+import { buildLineageTree, collectBranchIds, flattenLineageTree } from "../lib/historyLineage";
+import { theme } from "../themes";
+import { TRANSPARENCY_BACKGROUND_STYLE } from "./transparencyBackground";
+
+const INDENT_PX = 20;
+
+export interface HistoryLineageDialogProps {
+  open: boolean;
+  items: ImageRecord[];
+  /** The image whose lineage is shown; highlighted in the tree. */
+  focusId: string | null;
+  onClose: () => void;
+  /** Show this image in the Result pane. */
+  onSelect: (id: string) => void;
+  /** Load this image's tool and settings (and its source as the Image to Edit) for another run. */
+  onRerun: (id: string) => void;
+  /** Delete this image and everything made from it. */
+  onDeleteBranch: (id: string) => void;
+}
+
+const describeStep = (item: ImageRecord): string => {
+  if (!item.parentId && item.origin && item.origin !== "generated") {
+    return item.origin === "uploaded" ? "Added" : "From the book";
+  }
+  return getToolById(item.toolId)?.title ?? item.toolId;
+};
+
+const describeEdge = (item: ImageRecord): string =>
+  [
+    item.model || null,
+    item.cost > 0 ? `$${item.cost.toFixed(4)}` : null,
+    item.timestamp ? new Date(item.timestamp).toLocaleString() : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * The edit tree an image belongs to: its oldest known ancestor and every
+ * result made from it, following `parentId`. Each row is the step that made
+ * that image (tool, model, cost, time).
+ */
+export const HistoryLineageDialog: React.FC<HistoryLineageDialogProps> = ({
+  open,
+  items,
+  focusId,
+  onClose,
+  onSelect,
+  onRerun,
+  onDeleteBranch,
+}) => {
+  const nodes = React.useMemo(() => {
+    const root = open && focusId ? buildLineageTree(items, focusId) : null;
+    return root ? flattenLineageTree(root) : [];
+  }, [open, focusId, items]);
+
+  return (
+    <Dialog
+      open={open && nodes.length > 0}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        "data-testid": "history-lineage-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        Edit history
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers sx={{ p: 1 }}>
+        {nodes.map(({ item, depth }) => {
+          const isFocus = item.id === focusId;
+          const canRerun = !!item.parentId && !!getToolById(item.toolId);
+          return (
+            <Box
+              key={item.id}
+              data-testid={`lineage-node-${item.id}`}
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                gap: 1,
+                pl: `${depth * INDENT_PX}px`,
+                borderLeft: depth > 0 ? `1px solid ${theme.colors.border}` : "none",
+                ml: depth > 0 ? 1 : 0,
+              }}
+            >
+              <ButtonBase
+                onClick={() => onSelect(item.id)}
+                sx={{
+                  flex: 1,
+                  minWidth: 0,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "flex-start",
+                  gap: 1.5,
+                  p: 0.75,
+                  borderRadius: 2,
+                  textAlign: "left",
+                  outline: isFocus ? `2px solid ${theme.colors.accent}` : "none",
+                }}
+              >
+                <Box
+                  sx={{
+                    width: 48,
+                    height: 48,
+                    flexShrink: 0,
+                    borderRadius: 1,
+                    overflow: "hidden",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                  }}
+                >
+                  {item.imageData ? (
+                    <img
+                      src={item.imageData}
+                      alt=""
+                      loading="lazy"
+                      style={{
+                        ...TRANSPARENCY_BACKGROUND_STYLE,
+                        maxWidth: "100%",
+                        maxHeight: "100%",
+                        objectFit: "contain",
+                      }}
+                    />
+                  ) : (
+                    <Typography variant="caption" sx={{ color: theme.colors.textMuted }}>
+                      ??
+                    </Typography>
+                  )}
+                </Box>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ fontWeight: isFocus ? 700 : 500 }} noWrap>
+                    {describeStep(item)}
+                  </Typography>
+                  <Typography
+                    variant="caption"
+                    sx={{ color: theme.colors.textSecondary, display: "block" }}
+                    noWrap
+                  >
+                    {describeEdge(item)}
+                  </Typography>
+                </Box>
+              </ButtonBase>
+              {canRerun && (
+                <Tooltip title="Run this step again with different settings">
+                  <IconButton
+                    size="small"
+                    aria-label="Run again"
+                    data-testid={`lineage-rerun-${item.id}`}
+                    onClick={() => onRerun(item.id)}
+                  >
+                    <ReplayIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <Tooltip title="Delete this image and everything made from it">
+                <IconButton
+                  size="small"
+                  aria-label="Delete branch"
+                  data-testid={`lineage-delete-${item.id}`}
+                  onClick={() => {
+                    const count = collectBranchIds(items, item.id).length;
+                    const message =
+                      count > 1
+                        ? `Delete this image and the ${count - 1} made from it?`
+                        : "Delete this image?";
+                    if (window.confirm(message)) {
+                      onDeleteBranch(item.id);
+                    }
+                  }}
+                >
+                  <DeleteOutlineIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
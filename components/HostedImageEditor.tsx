@@ -0,0 +1,445 @@
+/**
+ * HostedImageEditor — the editor's top-level component when it is embedded in a host.
+ * =================================================================================
+ *
+ * This is the editor side of a host integration, Bloom's first: the adapter that sits
+ * between an `IHostBridge` (how we talk to the host — see services/host/hostBridge.ts)
+ * and the actual `ImageToolsWorkspace` UI. Its job:
+ *
+ *   1. Call `bridge.ready()` once, then wait for the host's `init` payload (book info,
+ *      whole-book images, enumerated history, httpBase + sessionToken), and work out
+ *      from its protocol version and capabilities which optional features to use.
+ *   2. Build a host-file persistence layer so state/history land in the book's
+ *      `.ai-image-editor/` folder over HTTP instead of in localStorage.
+ *   3. Render `ImageToolsWorkspace` wired to that persistence, the host's book-image
+ *      strip, and the host OAuth shim.
+ *   4. Keep the book-image strip and history current when the host pushes changes
+ *      (`book-images-changed` / `history-changed`) while the editor is open.
+ *   5. Turn the user's "replace in book" actions into `bridge.commit(...)` calls, or
+ *      `bridge.applyReplacement(...)` for one slot at a time when the host can.
+ *      Image bytes are written to the history folder first and referenced by id, so
+ *      they never cross the postMessage bridge (see `buildReplacement`).
+ *
+ * App.tsx renders this when the URL says `?mode=bloom-iframe` (real Bloom) and
+ * BloomHostHarness.tsx renders it around a fake bridge for standalone dev/e2e. Other
+ * hosts get it from the library, with their own `hostName`.
+ * Named "Embedded" — not "Host" — because this runs in the *guest* (the editor),
+ * talking *to* the host.
+ */
+import React from "react";
+import { Box, Typography } from "@mui/material";
+import { GenerationProgressState, ImageRecord } from "../types";
+import { createHostFilePersistence } from "../services/persistence/hostFilePersistence";
+import {
+  IHostBookImage,
+  IHostBridge,
+  IHostCommitReplacement,
+  IHostInitPayload,
+  IHostProgress,
+} from "../services/host/hostBridge";
+import { hostSupports, negotiateHostProtocol } from "../services/host/hostProtocol";
+import { ImageToolsWorkspace } from "./ImageToolsWorkspace";
+import { setHostDeveloperToolsEnabled } from "../lib/localModels";
+import { theme } from "../themes";
+
+/** A replacement ready to send, and how to clean up the file written for it. */
+interface BuiltReplacement {
+  replacement: IHostCommitReplacement;
+  release: () => Promise<void>;
+}
+
+export interface HostedImageEditorProps {
+  bridge: IHostBridge;
+  /** What the host is called in messages to the user. Defaults to "Bloom". */
+  hostName?: string;
+  onCommitComplete?: (replacements: IHostCommitReplacement[]) => void;
+  onCancelComplete?: () => void;
+}
+
+export const HostedImageEditor: React.FC<HostedImageEditorProps> = ({
+  bridge,
+  hostName = "Bloom",
+  onCommitComplete,
+  onCancelComplete,
+}) => {
+  const [initPayload, setInitPayload] = React.useState<IHostInitPayload | null>(null);
+  // From init, then from `book-images-changed`. Kept apart from initPayload so a
+  // push doesn't rebuild the persistence (and its record of what's on disk).
+  const [bookImages, setBookImages] = React.useState<IHostBookImage[]>([]);
+  const [replacementMap, setReplacementMap] = React.useState<Record<string, ImageRecord | null>>(
+    {},
+  );
+  const [status, setStatus] = React.useState<string>("Waiting for host init...");
+  const lastInitSignatureRef = React.useRef<string | null>(null);
+  // Prevent bridge.ready() from firing more than once across React StrictMode
+  // double-invocations of the effect, which would cause Bloom to send multiple
+  // init messages.
+  const readySentRef = React.useRef(false);
+  const lastProgressSignatureRef = React.useRef<string | null>(null);
+
+  const buildInitSignature = React.useCallback((payload: IHostInitPayload) => {
+    const imageSignature = payload.bookImages.map((image) => `${image.id}:${image.src}`).join("|");
+    return `${payload.sessionToken}::${payload.book.id}::${payload.httpBase}::${imageSignature}`;
+  }, []);
+
+  React.useEffect(() => {
+    const unsubscribeInit = bridge.onInit((payload) => {
+      const signature = buildInitSignature(payload);
+      if (signature === lastInitSignatureRef.current) {
+        return;
+      }
+
+      lastInitSignatureRef.current = signature;
+      // Hosted mode: the host's verdict (absent = false) decides whether
+      // developer-only affordances like the local dummy model are offered.
+      setHostDeveloperToolsEnabled(Boolean(payload.showDeveloperTools));
+      setInitPayload(payload);
+      setBookImages(payload.bookImages);
+      const protocol = negotiateHostProtocol(payload);
+      if (protocol.mismatchMessage) {
+        console.warn(`[HostedImageEditor] ${protocol.mismatchMessage}`);
+        bridge.log(protocol.degraded ? "warn" : "info", protocol.mismatchMessage);
+      }
+      setStatus(
+        protocol.degraded
+          ? `This version of ${hostName} is older than the image editor, so some features are off.`
+          : ``,
+      );
+      //setStatus(`Connected to ${payload.book.title}`);
+    });
+    const unsubscribeRequestClose = bridge.onRequestClose(() => {
+      bridge.cancel();
+      onCancelComplete?.();
+      setStatus("Host requested close. Sent cancel.");
+    });
+
+    if (!readySentRef.current) {
+      readySentRef.current = true;
+      bridge.ready();
+    }
+
+    return () => {
+      unsubscribeInit();
+      unsubscribeRequestClose();
+    };
+  }, [bridge, buildInitSignature, hostName, onCancelComplete]);
+
+  const protocol = React.useMemo(
+    () => (initPayload ? negotiateHostProtocol(initPayload) : null),
+    [initPayload],
+  );
+  const hostReadsResultFiles = hostSupports(protocol, "commit-result-file");
+  const hostCommitsSingleImage = hostSupports(protocol, "commit-single-image");
+  const hostShowsProgress = hostSupports(protocol, "progress-events");
+  const hostAppliesReplacements = hostSupports(protocol, "apply-replacement");
+
+  const persistence = React.useMemo(() => {
+    if (!initPayload) {
+      return null;
+    }
+    return createHostFilePersistence(bridge, {
+      historyImages: initPayload.history ?? [],
+      hostReadsResultFiles,
+    });
+  }, [bridge, hostReadsResultFiles, initPayload]);
+
+  React.useEffect(() => {
+    if (!persistence) {
+      return;
+    }
+    const unsubscribeBookImages = bridge.onBookImagesChanged(setBookImages);
+    const unsubscribeHistory = bridge.onHistoryChanged((history) =>
+      persistence.applyHostHistory(history),
+    );
+    return () => {
+      unsubscribeBookImages();
+      unsubscribeHistory();
+    };
+  }, [bridge, persistence]);
+
+  const hostBookImages = React.useMemo(
+    () =>
+      bookImages.map((image) => ({
+        id: image.id,
+        src: image.src,
+        isPlaceholder: image.isPlaceholder,
+        credits: image.credits ?? null,
+      })),
+    [bookImages],
+  );
+
+  const hostBookImageUrls = React.useMemo(() => bookImages.map((image) => image.src), [bookImages]);
+
+  // Build the commit payload for the assigned slots. Image *bytes* never cross the
+  // postMessage bridge: a generated/uploaded result (a base64 data URL) is written
+  // to the per-book folder over the binary HTTP file endpoint and referenced by
+  // `resultId` and `resultFileName` (it may be .jpg or .webp, or a commit-sized
+  // copy; see writeCommitImage). A host without "commit-result-file" ignores
+  // resultFileName and reads `history/<resultId>.png`, which is then the only
+  // file persistence writes. An image that already has a host-served URL
+  // (e.g. another book image reused as a replacement) is referenced by that
+  // `sourceUrl`. Returns null for items that have neither (nothing to apply).
+  const buildReplacement = React.useCallback(
+    async (incomingId: string, item: ImageRecord): Promise<BuiltReplacement | null> => {
+      if (item.imageData?.startsWith("data:image/") && persistence) {
+        // Ensure the bytes are on disk for the host to read, in the user's output
+        // format and, if they asked, no bigger than the book image being
+        // replaced. The persistence layer normally writes the history file
+        // already (and then reuses it); this guarantees presence without racing
+        // the debounced save.
+        const bookImage = bookImages.find((image) => image.id === incomingId);
+        const commitImage = await persistence.writeCommitImage(item.id, item.imageData, bookImage);
+        return {
+          replacement: {
+            incomingId,
+            resultId: item.id,
+            resultFileName: commitImage.fileName,
+            credits: item.credits ?? null,
+          },
+          release: commitImage.release,
+        };
+      }
+      if (item.imageData && !item.imageData.startsWith("data:")) {
+        return {
+          replacement: { incomingId, sourceUrl: item.imageData, credits: item.credits ?? null },
+          release: async () => {},
+        };
+      }
+      return null;
+    },
+    [bookImages, persistence],
+  );
+
+  // Sends the replacements, then removes any commit-only files: the host has
+  // copied them into the book by the time commit resolves.
+  const commitBuiltReplacements = React.useCallback(
+    async (built: BuiltReplacement[]): Promise<IHostCommitReplacement[]> => {
+      const replacements = built.map((entry) => entry.replacement);
+      try {
+        await bridge.commit(replacements);
+      } finally {
+        await Promise.all(built.map((entry) => entry.release()));
+      }
+      return replacements;
+    },
+    [bridge],
+  );
+
+  const collectAssignedEntries = React.useCallback(
+    (incomingIds?: Iterable<string>) => {
+      const allowedIncomingIds = incomingIds ? new Set(incomingIds) : null;
+      return Object.entries(replacementMap)
+        .filter(([incomingId, item]) => {
+          if (!item?.imageData) {
+            return false;
+          }
+          return !allowedIncomingIds || allowedIncomingIds.has(incomingId);
+        })
+        .map(([incomingId, item]) => ({ incomingId, item: item as ImageRecord }));
+    },
+    [replacementMap],
+  );
+
+  const handleCommit = React.useCallback(
+    async (incomingIds?: Iterable<string>) => {
+      if (!initPayload) {
+        return;
+      }
+
+      const entries = collectAssignedEntries(incomingIds);
+      const built = (
+        await Promise.all(entries.map(({ incomingId, item }) => buildReplacement(incomingId, item)))
+      ).filter((entry): entry is BuiltReplacement => entry !== null);
+
+      const replacements = await commitBuiltReplacements(built);
+      onCommitComplete?.(replacements);
+    },
+    [
+      buildReplacement,
+      collectAssignedEntries,
+      commitBuiltReplacements,
+      initPayload,
+      onCommitComplete,
+    ],
+  );
+
+  const handleCommitCurrentResult = React.useCallback(
+    async (item: ImageRecord) => {
+      if (!item.incomingSlotId || !item.imageData) {
+        return;
+      }
+
+      try {
+        const built = await buildReplacement(item.incomingSlotId, item);
+        if (!built) {
+          return;
+        }
+        const replacements = await commitBuiltReplacements([built]);
+        onCommitComplete?.(replacements);
+        setStatus("Committed 1 replacement.");
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : "Commit failed.");
+      }
+    },
+    [buildReplacement, commitBuiltReplacements, onCommitComplete],
+  );
+
+  // Puts one replacement into the book while the editor stays open. Undo comes
+  // through here too, with the slot's "bookOriginal" snapshot as the item.
+  // Errors go back to the workspace, which shows them.
+  const handleApplyReplacement = React.useCallback(
+    async (incomingId: string, item: ImageRecord) => {
+      const built = await buildReplacement(incomingId, item);
+      if (!built) {
+        throw new Error("This image has nothing to apply.");
+      }
+      try {
+        await bridge.applyReplacement(built.replacement);
+      } finally {
+        await built.release();
+      }
+      setStatus(
+        item.origin === "bookOriginal" ? "Put the original image back." : "Applied 1 replacement.",
+      );
+    },
+    [bridge, buildReplacement],
+  );
+
+  const handleCommitAll = React.useCallback(async () => {
+    const count = collectAssignedEntries().length;
+    if (!count) {
+      setStatus("No book image replacements are assigned yet.");
+      return;
+    }
+
+    setStatus(`Committing ${count} replacement${count === 1 ? "" : "s"}...`);
+    try {
+      await handleCommit();
+      setStatus(`Committed ${count} replacement${count === 1 ? "" : "s"}.`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Commit failed.");
+    }
+  }, [collectAssignedEntries, handleCommit]);
+
+  // Sent only when something the host would show changes, not on every streamed chunk.
+  const handleGenerationProgressChange = React.useCallback(
+    (progress: GenerationProgressState | null) => {
+      const next: IHostProgress = progress
+        ? {
+            active: true,
+            phaseLabel: progress.phaseLabel,
+            estimatedDurationMs: progress.estimatedDurationMs,
+          }
+        : { active: false };
+      const signature = JSON.stringify(next);
+      if (signature === lastProgressSignatureRef.current) {
+        return;
+      }
+      lastProgressSignatureRef.current = signature;
+      bridge.reportProgress(next);
+    },
+    [bridge],
+  );
+
+  const handleCancel = React.useCallback(() => {
+    bridge.cancel();
+    onCancelComplete?.();
+    setStatus("Cancelled.");
+  }, [bridge, onCancelComplete]);
+
+  if (!initPayload || !persistence) {
+    return (
+      <Box
+        sx={{
+          minHeight: "100vh",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          backgroundColor: theme.colors.appBackground,
+          color: theme.colors.textPrimary,
+        }}
+      >
+        <Typography data-testid="bloom-host-status">{status}</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ position: "relative" }}>
+      <Box
+        sx={{
+          position: "fixed",
+          top: 12,
+          right: 12,
+          zIndex: 1200,
+          display: "flex",
+          flexDirection: "column",
+          gap: 1,
+          alignItems: "flex-end",
+        }}
+      >
+        <Typography
+          data-testid="bloom-host-status"
+          variant="caption"
+          sx={{
+            px: 1.5,
+            py: 0.75,
+            borderRadius: 999,
+            backgroundColor: "rgba(15, 23, 42, 0.76)",
+            color: "#fff",
+          }}
+        >
+          {status}
+        </Typography>
+      </Box>
+      <ImageToolsWorkspace
+        persistence={persistence}
+        initialApiKey={initPayload.apiKey || ""}
+        demoOnly={initPayload.demoOnly ?? false}
+        bookId={initPayload.book.id}
+        onCredentialsChange={(creds) => bridge.saveCredentials(creds)}
+        onTrackEvent={(event, properties) => bridge.trackEvent(event, properties)}
+        bookImages={hostBookImages}
+        bookImageUrls={hostBookImageUrls}
+        bookImagesStripMode="host"
+        hostManagesHistory
+        selectedBookImageId={initPayload.selectedBookImageId}
+        oauthHost={{
+          httpBase: initPayload.httpBase,
+          sessionToken: initPayload.sessionToken,
+          openExternalUrl: (url) => bridge.openExternalUrl(url),
+        }}
+        onReplacementsChange={setReplacementMap}
+        // A host that can't take a single image keeps the workspace's default:
+        // "Use this Image" assigns the result to its slot for "Replace".
+        onCommitCurrentResult={
+          hostCommitsSingleImage ? (item) => void handleCommitCurrentResult(item) : undefined
+        }
+        onApplyReplacement={hostAppliesReplacements ? handleApplyReplacement : undefined}
+        currentResultActionLabel="Use this Image"
+        currentResultActionTestId="bloom-host-commit-current-result"
+        onCancel={handleCancel}
+        cancelActionLabel="Cancel"
+        cancelActionTestId="bloom-host-cancel"
+        onCommitBookImages={() => void handleCommitAll()}
+        bookImagesActionLabel="Replace"
+        bookImagesActionTip="Replace images in your book with these images"
+        bookImagesActionTestId="bloom-host-commit-book-images"
+        onGenerationProgressChange={hostShowsProgress ? handleGenerationProgressChange : undefined}
+        imageOutputHostNotice={
+          hostReadsResultFiles
+            ? undefined
+            : `This version of ${hostName} only takes full-size PNG images, so that is what goes into the book. Downloads still use the format chosen here.`
+        }
+        thumbnailStripConfigOverrides={{
+          bookImages: {
+            label: "Book Images",
+            allowDrop: false,
+            allowRemove: false,
+            allowReorder: false,
+          },
+        }}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,242 @@
+import React from "react";
+import { Box, Slider, Stack, ToggleButton, ToggleButtonGroup, Typography } from "@mui/material";
+import type { CompareMode } from "../types";
+import { theme } from "../themes";
+import { LensPoint, MagnifiableImage } from "./MagnifiableImage";
+import { TRANSPARENCY_BACKGROUND_STYLE } from "./transparencyBackground";
+
+const COMPARE_MODE_LABELS: Record<CompareMode, string> = {
+  swipe: "Swipe",
+  "side-by-side": "Side by side",
+  "onion-skin": "Onion skin",
+};
+
+type ImageBox = { left: number; top: number; width: number; height: number };
+
+export interface ImageCompareViewProps {
+  /** The image the result was made from (its parentId). */
+  sourceSrc: string;
+  resultSrc: string;
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  /** Mirrors the slot's magnifier toggle; every visible image gets a lens at the same spot. */
+  enableLens: boolean;
+}
+
+const imageStyle: React.CSSProperties = {
+  maxHeight: "100%",
+  maxWidth: "100%",
+  objectFit: "contain",
+  display: "block",
+  ...TRANSPARENCY_BACKGROUND_STYLE,
+};
+
+const captionStyle = {
+  position: "absolute",
+  top: 6,
+  px: 1,
+  py: 0.25,
+  borderRadius: "999px",
+  fontSize: "0.7rem",
+  fontWeight: 600,
+  color: "#fff",
+  backgroundColor: "rgba(7, 12, 20, 0.6)",
+  pointerEvents: "none",
+  zIndex: 3,
+} as const;
+
+/**
+ * Result-vs-source comparison for the Result pane. Swipe and onion skin stack
+ * the source over the result, stretched to the result's box so the same pixel
+ * lines up even if the model returned a different size; side by side shows
+ * both with their magnifier lenses kept in step.
+ */
+export const ImageCompareView: React.FC<ImageCompareViewProps> = ({
+  sourceSrc,
+  resultSrc,
+  mode,
+  onModeChange,
+  enableLens,
+}) => {
+  const [swipePercent, setSwipePercent] = React.useState(50);
+  const [sourceOpacity, setSourceOpacity] = React.useState(50);
+  const [lensPoint, setLensPoint] = React.useState<LensPoint | null>(null);
+  const resultImageRef = React.useRef<HTMLImageElement | null>(null);
+  const [resultBox, setResultBox] = React.useState<ImageBox | null>(null);
+
+  React.useEffect(() => {
+    if (!enableLens) {
+      setLensPoint(null);
+    }
+  }, [enableLens]);
+
+  // The stacked modes overlay the source exactly on the rendered result, which
+  // is letterboxed inside the pane, so track where the result actually sits.
+  React.useEffect(() => {
+    const image = resultImageRef.current;
+    if (!image || mode === "side-by-side") return;
+    const measure = () =>
+      setResultBox({
+        left: image.offsetLeft,
+        top: image.offsetTop,
+        width: image.offsetWidth,
+        height: image.offsetHeight,
+      });
+    measure();
+    image.addEventListener("load", measure);
+    const observer = typeof ResizeObserver === "undefined" ? null : new ResizeObserver(measure);
+    observer?.observe(image);
+    return () => {
+      image.removeEventListener("load", measure);
+      observer?.disconnect();
+    };
+  }, [mode, resultSrc]);
+
+  const renderStacked = () => (
+    <Box sx={{ position: "relative", width: "100%", height: "100%" }}>
+      <MagnifiableImage
+        ref={resultImageRef}
+        src={resultSrc}
+        alt="Result"
+        enableLens={enableLens}
+        decoding="async"
+        style={imageStyle}
+      />
+      {resultBox && (
+        <Box
+          data-testid="compare-source-overlay"
+          sx={{
+            position: "absolute",
+            left: resultBox.left,
+            top: resultBox.top,
+            width: resultBox.width,
+            height: resultBox.height,
+            pointerEvents: "none",
+            overflow: "hidden",
+            clipPath: mode === "swipe" ? `inset(0 ${100 - swipePercent}% 0 0)` : undefined,
+            opacity: mode === "onion-skin" ? sourceOpacity / 100 : 1,
+          }}
+        >
+          <img
+            src={sourceSrc}
+            alt="Source"
+            draggable={false}
+            style={{
+              ...TRANSPARENCY_BACKGROUND_STYLE,
+              display: "block",
+              width: "100%",
+              height: "100%",
+              objectFit: "fill",
+            }}
+          />
+        </Box>
+      )}
+      {resultBox && mode === "swipe" && (
+        <Box
+          aria-hidden="true"
+          sx={{
+            position: "absolute",
+            top: resultBox.top,
+            height: resultBox.height,
+            left: resultBox.left + (resultBox.width * swipePercent) / 100 - 1,
+            width: 2,
+            backgroundColor: "#fff",
+            boxShadow: "0 0 6px rgba(0,0,0,0.6)",
+            pointerEvents: "none",
+          }}
+        />
+      )}
+      {mode === "swipe" && (
+        <>
+          <Box sx={{ ...captionStyle, left: 6 }}>Source</Box>
+          <Box sx={{ ...captionStyle, right: 6 }}>Result</Box>
+        </>
+      )}
+    </Box>
+  );
+
+  const renderSideBySide = () => (
+    <Box sx={{ display: "flex", gap: 1, width: "100%", height: "100%", minHeight: 0 }}>
+      {[
+        { src: sourceSrc, label: "Source" },
+        { src: resultSrc, label: "Result" },
+      ].map(({ src, label }) => (
+        <Box
+          key={label}
+          data-testid={`compare-pane-${label.toLowerCase()}`}
+          sx={{ position: "relative", flex: 1, minWidth: 0, minHeight: 0, display: "flex" }}
+        >
+          <Box sx={{ ...captionStyle, left: 6 }}>{label}</Box>
+          <MagnifiableImage
+            src={src}
+            alt={label}
+            enableLens={enableLens}
+            lensPoint={lensPoint}
+            onLensPointChange={setLensPoint}
+            decoding="async"
+            style={imageStyle}
+          />
+        </Box>
+      ))}
+    </Box>
+  );
+
+  return (
+    <Box
+      data-testid="image-compare-view"
+      data-compare-mode={mode}
+      sx={{ display: "flex", flexDirection: "column", width: "100%", height: "100%", gap: 1 }}
+    >
+      <Box sx={{ flex: 1, minHeight: 0, display: "flex" }}>
+        {mode === "side-by-side" ? renderSideBySide() : renderStacked()}
+      </Box>
+      <Stack
+        direction="row"
+        spacing={2}
+        alignItems="center"
+        justifyContent="center"
+        sx={{ flexWrap: "wrap", rowGap: 1 }}
+        // Keep slider drags from starting a dnd-kit drag of the Result image.
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={mode}
+          onChange={(_event, next: CompareMode | null) => {
+            if (next) onModeChange(next);
+          }}
+        >
+          {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map((value) => (
+            <ToggleButton
+              key={value}
+              value={value}
+              data-testid={`compare-mode-${value}`}
+              sx={{ textTransform: "none", py: 0.25 }}
+            >
+              {COMPARE_MODE_LABELS[value]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {mode !== "side-by-side" && (
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 180 }}>
+            <Typography variant="caption" sx={{ color: theme.colors.textSecondary }}>
+              {mode === "swipe" ? "Divider" : "Source"}
+            </Typography>
+            <Slider
+              size="small"
+              min={0}
+              max={100}
+              value={mode === "swipe" ? swipePercent : sourceOpacity}
+              onChange={(_event, value) =>
+                (mode === "swipe" ? setSwipePercent : setSourceOpacity)(value as number)
+              }
+              aria-label={mode === "swipe" ? "Swipe position" : "Source opacity"}
+              data-testid="compare-slider"
+            />
+          </Stack>
+        )}
+      </Stack>
+    </Box>
+  );
+};
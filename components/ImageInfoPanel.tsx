@@ -1,11 +1,13 @@
 import React from "react";
 import { Button, IconButton, Tooltip } from "@mui/material";
 import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import ReplayIcon from "@mui/icons-material/Replay";
 import { ImageRecord } from "../types";
-import { TOOLS } from "./tools/tools-registry";
+import { getAllTools } from "../lib/customTools";
 import { theme } from "../themes";
 import { getArtStyleById, isClearArtStyleId } from "../lib/artStyles";
 import { copyTextToClipboard } from "../lib/textClipboard";
+import { ContentCredentialsInfo } from "./ContentCredentialsInfo";
 
 const rowStyle: React.CSSProperties = {
   display: "grid",
@@ -24,6 +26,8 @@ const valueStyle: React.CSSProperties = {
 
 interface ImageInfoPanelProps {
   item: ImageRecord;
+  /** Shows a Regenerate button; leave unset where the panel is only a hover tooltip. */
+  onRegenerate?: () => void;
 }
 
 const formatReasoningLevel = (value: ImageRecord["reasoningLevel"]): string | null => {
@@ -63,8 +67,8 @@ const resolveStyleSummary = (item: ImageRecord): string | null => {
 // grow taller than the viewport and run off the screen.
 const PROMPT_COLLAPSE_THRESHOLD = 280;
 
-export const ImageInfoPanel: React.FC<ImageInfoPanelProps> = ({ item }) => {
-  const tool = TOOLS.find((t) => t.id === item.toolId);
+export const ImageInfoPanel: React.FC<ImageInfoPanelProps> = ({ item, onRegenerate }) => {
+  const tool = getAllTools().find((t) => t.id === item.toolId);
   const promptContent =
     item.promptUsed && item.promptUsed.length ? item.promptUsed : "Prompt unavailable.";
   const isPromptLong = promptContent.length > PROMPT_COLLAPSE_THRESHOLD;
@@ -203,6 +207,18 @@ export const ImageInfoPanel: React.FC<ImageInfoPanelProps> = ({ item }) => {
           {tool?.title || "Import"}
         </span>
       </div>
+      {onRegenerate && (
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<ReplayIcon fontSize="small" />}
+          onClick={onRegenerate}
+          data-testid="image-info-regenerate"
+          sx={{ alignSelf: "flex-start", mb: 0.5 }}
+        >
+          Regenerate…
+        </Button>
+      )}
       {rows
         .filter((row) => row.value !== null && row.value !== undefined)
         .map((row) => (
@@ -237,6 +253,8 @@ export const ImageInfoPanel: React.FC<ImageInfoPanelProps> = ({ item }) => {
         </div>
       )}
 
+      <ContentCredentialsInfo imageData={item.imageData} />
+
       <div
         style={{
           marginTop: 8,
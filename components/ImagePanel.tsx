@@ -33,6 +33,8 @@ export type ImagePanelSlot = {
   draggableImageId?: string;
   dndDropId?: string;
   dndDragId?: string;
+  onClick?: () => void;
+  overlayContent?: React.ReactNode;
 };
 
 type SingleImagePanelProps = {
@@ -59,6 +61,8 @@ type SingleImagePanelProps = {
   dndDropId?: string;
   dndDragId?: string;
   needsImage?: boolean;
+  /** Replaces the plain image; see ImageSlotProps.renderImage. */
+  renderImage?: ImageSlotProps["renderImage"];
   /** When set, replaces the normal empty-state (upload prompt / placeholder
    *  graphic) with this centered message. Used for the "Image to Edit" panel
    *  while one or more book images are ticked for a batch run. */
@@ -193,6 +197,8 @@ export const ImagePanel: React.FC<ImagePanelProps> = (props) => {
                       }
                       controls={slotControls}
                       variant="tile"
+                      onClick={slot.onClick}
+                      overlayContent={slot.overlayContent}
                       rolePill={slot.rolePill}
                       dropLabel={slot.dropLabel ?? "Drop to add"}
                       dataTestId={slot.dataTestId}
@@ -239,6 +245,7 @@ export const ImagePanel: React.FC<ImagePanelProps> = (props) => {
     isAnyDndDragging = false,
     needsImage = false,
     emptyStateMessage,
+    renderImage,
   } = props;
 
   const starState =
@@ -394,6 +401,7 @@ export const ImagePanel: React.FC<ImagePanelProps> = (props) => {
           remove: !!onClear,
         }}
         renderEmptyState={renderEmptyState}
+        renderImage={renderImage}
         actionLabels={
           onClear
             ? {
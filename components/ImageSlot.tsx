@@ -14,7 +14,12 @@ import { ImageSlotLoadingOverlay } from "./ImageSlotLoadingOverlay";
 import { ImageSlotContextMenu } from "./ImageSlotContextMenu";
 import { ImageSlotThumbnailStatusBadge, ThumbnailStatus } from "./ImageSlotThumbnailStatusBadge";
 import { ImageSlotInfoDialog } from "./ImageSlotInfoDialog";
+import { RegenerateDialog } from "./RegenerateDialog";
+import { useRegenerateImageHandler } from "./regenerateAction";
+import { useFindSimilarImagesHandler } from "./findSimilarAction";
+import { canRegenerate } from "../lib/regenerateSetup";
 import { processImageForThumbnail, saveArtStyleThumbnail } from "../lib/imageProcessing";
+import { isCustomArtStyleId } from "../lib/customArtStyles";
 import { isClearArtStyleId } from "../lib/artStyles";
 import {
   emitDragDebugLog,
@@ -24,10 +29,10 @@ import {
   setInternalImageDragData,
 } from "./dragConstants";
 import { recordDragDelayMs } from "./dndDragState";
-import { getTypeFromFileName, handlePaste as pasteImageFromClipboard } from "../lib/clipboardUtils";
-import { getImageFileExtensionFromMimeType, getMimeTypeFromUrl } from "../lib/imageUtils";
+import { handlePaste as pasteImageFromClipboard } from "../lib/clipboardUtils";
 import { hasImageFilePayload, getImageFileFromDataTransfer } from "../lib/dragUtils";
 import { copyImageRecordWithFeedback } from "./copyImageRecordToClipboard";
+import { downloadImageRecord } from "./imageRecordExport";
 import { TRANSPARENCY_BACKGROUND_STYLE } from "./transparencyBackground";
 import { subscribeToImageCopyFeedback } from "../lib/imageCopyFeedback";
 
@@ -85,6 +90,9 @@ export interface ImageSlotProps {
   variant?: "panel" | "tile" | "thumb";
   rolePill?: { label: string; kind?: RoleKind; testId?: string };
   renderEmptyState?: (args: RenderEmptyStateArgs) => React.ReactNode;
+  /** Replaces the plain image (e.g. with the Result pane's compare view).
+   *  `enableLens` follows the slot's magnifier toggle. */
+  renderImage?: (args: { enableLens: boolean }) => React.ReactNode;
   dropLabel?: string;
   dataTestId?: string;
   headerActions?: React.ReactNode;
@@ -253,6 +261,7 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
   variant = "panel",
   rolePill,
   renderEmptyState,
+  renderImage,
   dropLabel = "Drop image",
   dataTestId,
   headerActions: customHeaderActions,
@@ -280,6 +289,9 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
   const [thumbnailStatus, setThumbnailStatus] = React.useState<ThumbnailStatus>("idle");
   const [isMagnifierPinned, setIsMagnifierPinned] = React.useState(false);
   const [isInfoDialogOpen, setIsInfoDialogOpen] = React.useState(false);
+  const [isRegenerateDialogOpen, setIsRegenerateDialogOpen] = React.useState(false);
+  const regenerateImage = useRegenerateImageHandler();
+  const findSimilarImages = useFindSimilarImagesHandler();
 
   const debugLog = React.useCallback((...args: any[]) => {
     try {
@@ -408,18 +420,7 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
 
   const handleDownload = () => {
     if (!image || !mergedControls.download) return;
-
-    const extension = image.imageFileName
-      ? getTypeFromFileName(image.imageFileName) ||
-        getImageFileExtensionFromMimeType(getMimeTypeFromUrl(image.imageData))
-      : getImageFileExtensionFromMimeType(getMimeTypeFromUrl(image.imageData));
-
-    const link = document.createElement("a");
-    link.href = image.imageData;
-    link.download = `bloom-ai-${image.id}.${extension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    void downloadImageRecord(image);
   };
 
   const handleRemove = () => {
@@ -556,9 +557,19 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
     setIsInfoDialogOpen(false);
   };
 
-  // Get the art style ID from the image's metadata (parameters)
+  const canRegenerateImage = !!image && !!regenerateImage && canRegenerate(image);
+
+  const handleOpenRegenerate = () => {
+    setIsInfoDialogOpen(false);
+    setIsRegenerateDialogOpen(true);
+  };
+
+  const canFindSimilar = !!image?.imageData && !!findSimilarImages;
+
+  // Get the art style ID from the image's metadata (parameters). The dev-only
+  // thumbnail endpoint edits the bundled catalog, so house styles are left out.
   const imageArtStyleId = getArtStyleIdForImage(image);
-  const hasValidArtStyle = !!imageArtStyleId;
+  const hasValidArtStyle = !!imageArtStyleId && !isCustomArtStyleId(imageArtStyleId);
 
   const canContextCopy = !!image && mergedControls.copy;
   const canContextPaste = !!onUpload && mergedControls.paste;
@@ -566,7 +577,15 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
   const handleContextMenu = (event: React.MouseEvent) => {
     if (disabled) return;
     // Show the menu whenever there's at least one applicable action.
-    if (!canContextCopy && !canContextPaste && !hasValidArtStyle) return;
+    if (
+      !canContextCopy &&
+      !canContextPaste &&
+      !hasValidArtStyle &&
+      !canRegenerateImage &&
+      !canFindSimilar
+    ) {
+      return;
+    }
     event.preventDefault();
     setContextMenu({ x: event.clientX, y: event.clientY });
   };
@@ -789,25 +808,29 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
                     maxHeight: "100%",
                   }}
                 >
-                  <MagnifiableImage
-                    src={image.imageData}
-                    alt={label || "Reference"}
-                    enableLens={isMagnifierPinned}
-                    // For book-image strips that can hold an entire book's worth of
-                    // images, let the browser defer fetching off-screen thumbnails
-                    // instead of firing every request on mount.
-                    loading={variant === "thumb" ? "lazy" : undefined}
-                    decoding="async"
-                    style={{
-                      maxHeight: "100%",
-                      maxWidth: "100%",
-                      objectFit: variant === "thumb" ? "cover" : "contain",
-                      display: "block",
-                      ...TRANSPARENCY_BACKGROUND_STYLE,
-                    }}
-                    draggable={!!draggableImageId}
-                    onDragStart={handleImageDragStart}
-                  />
+                  {renderImage ? (
+                    renderImage({ enableLens: isMagnifierPinned })
+                  ) : (
+                    <MagnifiableImage
+                      src={image.imageData}
+                      alt={label || "Reference"}
+                      enableLens={isMagnifierPinned}
+                      // For book-image strips that can hold an entire book's worth of
+                      // images, let the browser defer fetching off-screen thumbnails
+                      // instead of firing every request on mount.
+                      loading={variant === "thumb" ? "lazy" : undefined}
+                      decoding="async"
+                      style={{
+                        maxHeight: "100%",
+                        maxWidth: "100%",
+                        objectFit: variant === "thumb" ? "cover" : "contain",
+                        display: "block",
+                        ...TRANSPARENCY_BACKGROUND_STYLE,
+                      }}
+                      draggable={!!draggableImageId}
+                      onDragStart={handleImageDragStart}
+                    />
+                  )}
                 </div>
               ) : (
                 // Image record exists but its bytes haven't been loaded yet
@@ -936,6 +959,8 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
           onPaste={handlePaste}
           canSetThumbnail={hasValidArtStyle}
           onSetThumbnail={handleSetThumbnail}
+          onRegenerate={canRegenerateImage ? handleOpenRegenerate : undefined}
+          onFindSimilar={canFindSimilar && image ? () => findSimilarImages?.(image.id) : undefined}
         />
 
         <ImageSlotThumbnailStatusBadge status={thumbnailStatus} />
@@ -946,6 +971,16 @@ export const ImageSlot: React.FC<ImageSlotProps> = ({
         image={image}
         label={label}
         onClose={handleCloseInfo}
+        onRegenerate={canRegenerateImage ? handleOpenRegenerate : undefined}
+      />
+
+      <RegenerateDialog
+        open={isRegenerateDialogOpen}
+        image={image}
+        onClose={() => setIsRegenerateDialogOpen(false)}
+        onRegenerate={(runCount) => {
+          if (image && regenerateImage) regenerateImage(image.id, runCount);
+        }}
       />
     </>
   );
@@ -17,6 +17,10 @@ export interface ImageSlotContextMenuProps {
   onPaste: () => void;
   canSetThumbnail?: boolean;
   onSetThumbnail?: () => void;
+  /** Opens the Regenerate dialog; omitted when the image can't be regenerated. */
+  onRegenerate?: () => void;
+  /** Looks for similar images in the history; omitted outside the workspace. */
+  onFindSimilar?: () => void;
 }
 
 export const ImageSlotContextMenu: React.FC<ImageSlotContextMenuProps> = ({
@@ -28,6 +32,8 @@ export const ImageSlotContextMenu: React.FC<ImageSlotContextMenuProps> = ({
   onPaste,
   canSetThumbnail = false,
   onSetThumbnail,
+  onRegenerate,
+  onFindSimilar,
 }) => {
   const runAndClose = (action: () => void) => () => {
     onClose();
@@ -108,6 +114,34 @@ export const ImageSlotContextMenu: React.FC<ImageSlotContextMenuProps> = ({
           </ListItemText>
         </MenuItem>
       ) : null}
+
+      {onRegenerate ? (
+        <MenuItem
+          data-testid="context-menu-regenerate"
+          onClick={runAndClose(onRegenerate)}
+          sx={menuItemSx}
+        >
+          <ListItemIcon sx={iconSx}>
+            <Icon path={Icons.Refresh} width={MENU_ICON_SIZE} height={MENU_ICON_SIZE} />
+          </ListItemIcon>
+          <ListItemText primaryTypographyProps={{ fontSize: "0.85rem" }}>Regenerate…</ListItemText>
+        </MenuItem>
+      ) : null}
+
+      {onFindSimilar ? (
+        <MenuItem
+          data-testid="context-menu-find-similar"
+          onClick={runAndClose(onFindSimilar)}
+          sx={menuItemSx}
+        >
+          <ListItemIcon sx={iconSx}>
+            <Icon path={Icons.Magnifier} width={MENU_ICON_SIZE} height={MENU_ICON_SIZE} />
+          </ListItemIcon>
+          <ListItemText primaryTypographyProps={{ fontSize: "0.85rem" }}>
+            Find similar…
+          </ListItemText>
+        </MenuItem>
+      ) : null}
     </Menu>
   );
 };
@@ -19,6 +19,7 @@ export interface ImageSlotInfoDialogProps {
   image: ImageRecord | null;
   label?: string;
   onClose: () => void;
+  onRegenerate?: () => void;
 }
 
 export const ImageSlotInfoDialog: React.FC<ImageSlotInfoDialogProps> = ({
@@ -26,6 +27,7 @@ export const ImageSlotInfoDialog: React.FC<ImageSlotInfoDialogProps> = ({
   image,
   label,
   onClose,
+  onRegenerate,
 }) => {
   const [promptCopied, setPromptCopied] = React.useState(false);
   const copyResetTimeoutRef = React.useRef<number | null>(null);
@@ -104,7 +106,9 @@ export const ImageSlotInfoDialog: React.FC<ImageSlotInfoDialogProps> = ({
           <CloseIcon />
         </IconButton>
       </DialogTitle>
-      <DialogContent dividers>{image ? <ImageInfoPanel item={image} /> : null}</DialogContent>
+      <DialogContent dividers>
+        {image ? <ImageInfoPanel item={image} onRegenerate={onRegenerate} /> : null}
+      </DialogContent>
       <DialogActions>
         <Button onClick={onClose} variant="contained">
           Close
@@ -1,7 +1,7 @@
 import React from "react";
 import { CircularProgress } from "@mui/material";
 import { theme } from "../themes";
-import { GenerationProgressState } from "../types";
+import { GenerationProgressState, GenerationStreamProgress } from "../types";
 
 export interface ImageSlotLoadingOverlayProps {
   isVisible: boolean;
@@ -23,6 +23,25 @@ const formatElapsed = (elapsedMs: number): string => {
   return `${minutes}:${seconds.toString().padStart(2, "0")}`;
 };
 
+// Reasoning arrives as text; ~4 characters per token is close enough for a
+// "still working" readout.
+const describeStreamStage = (stream: GenerationStreamProgress): string => {
+  switch (stream.stage) {
+    case "waiting":
+      return "Waiting for the model…";
+    case "thinking": {
+      const tokens = Math.round(stream.reasoningChars / 4);
+      return `Thinking… ~${tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : tokens} tokens`;
+    }
+    case "writing":
+      return "Writing…";
+    case "image":
+      return "Receiving image…";
+  }
+};
+
+const PARTIAL_TEXT_PREVIEW_CHARS = 160;
+
 export const ImageSlotLoadingOverlay: React.FC<ImageSlotLoadingOverlayProps> = ({
   isVisible,
   borderRadius,
@@ -86,6 +105,12 @@ export const ImageSlotLoadingOverlay: React.FC<ImageSlotLoadingOverlayProps> = (
     progress?.phaseLabel && progress.phaseCount && progress.phaseCount > 1
       ? `Step ${progress.phaseIndex}/${progress.phaseCount}: ${progress.phaseLabel}`
       : null;
+  const stream = progress?.stream;
+  const streamedText = stream?.text.trim() ?? "";
+  const partialText =
+    streamedText.length > PARTIAL_TEXT_PREVIEW_CHARS
+      ? `…${streamedText.slice(-PARTIAL_TEXT_PREVIEW_CHARS)}`
+      : streamedText;
   return (
     <div
       style={{
@@ -148,7 +173,35 @@ export const ImageSlotLoadingOverlay: React.FC<ImageSlotLoadingOverlayProps> = (
             padding: 24,
             textAlign: "center",
           }}
-        ></div>
+        >
+          {stream && (
+            <div
+              data-testid="generation-stream-stage"
+              style={{
+                fontSize: "0.85rem",
+                fontWeight: 600,
+                color: theme.colors.textPrimary,
+              }}
+            >
+              {describeStreamStage(stream)}
+            </div>
+          )}
+          {partialText && (
+            <div
+              style={{
+                maxWidth: Math.round(spinnerSize * 0.8),
+                fontSize: "0.75rem",
+                fontStyle: "italic",
+                lineHeight: 1.35,
+                color: theme.colors.textPrimary,
+                opacity: 0.75,
+                overflowWrap: "anywhere",
+              }}
+            >
+              {partialText}
+            </div>
+          )}
+        </div>
         <div
           style={{
             position: "absolute",
@@ -19,7 +19,9 @@ import {
 } from "@dnd-kit/core";
 import {
   AppState,
+  ArtStyleDefinition,
   BatchRunState,
+  CustomToolSpec,
   GenerationProgressState,
   ImageRecord,
   MeasuredStats,
@@ -31,11 +33,16 @@ import {
 import { ImageTool } from "./tools/ImageTool";
 import { Workspace } from "./Workspace";
 import { ThumbnailStripsCollection } from "./thumbnailStrips/ThumbnailStripsCollection";
-import type { BookImageBatchSelection } from "./thumbnailStrips/ThumbnailStrip";
+import type { HistorySearchQuery } from "../lib/historySearch";
+import type {
+  BookImageApplyControls,
+  BookImageBatchSelection,
+} from "./thumbnailStrips/ThumbnailStrip";
 import { theme } from "../themes";
 import { emitDragDebugLog, isDragDebugEnabled } from "./dragConstants";
 import { Icon, Icons } from "./Icons";
 import type { ThumbnailStripConfig } from "../lib/thumbnailStrips";
+import { getMaskParamName, getToolById } from "../lib/toolHelpers";
 
 const DRAG_PREVIEW_SIZE = 112;
 
@@ -413,13 +420,17 @@ interface ImageToolsPanelBar {
   appState: AppState;
   modelByTool: Record<string, string>;
   reasoningByTool: Record<string, ModelReasoningLevel>;
+  variantsByTool: Record<string, number>;
   measuredStatsByKey: Record<string, MeasuredStats>;
   onToolModelChange: (toolId: string, modelId: string) => void;
   onToolReasoningChange: (toolId: string, level: ModelReasoningLevel) => void;
+  onToolVariantsChange: (toolId: string, count: number) => void;
   targetImage: ImageRecord | null;
   referenceImages: ImageRecord[];
   rightImage: ImageRecord | null;
   resultImages?: ImageRecord[];
+  /** Set while `resultImages` are variants to pick one of. */
+  onChooseResult?: (imageId: string) => void;
   replacementItemsByIncomingId?: Record<string, ImageRecord | null>;
   bookImagesAction?: {
     label: string;
@@ -434,6 +445,9 @@ interface ImageToolsPanelBar {
   onOpenStripPreview: (stripId: ThumbnailStripId, itemIds: string[]) => void;
   thumbnailStrips: ThumbnailStripsSnapshot;
   thumbnailStripConfigs?: Record<ThumbnailStripId, ThumbnailStripConfig>;
+  historySearch: HistorySearchQuery;
+  onHistorySearchChange: (query: HistorySearchQuery) => void;
+  onFindDuplicates?: () => void;
   onStripItemDrop: (
     stripId: ThumbnailStripId,
     dropIndex: number,
@@ -452,6 +466,18 @@ interface ImageToolsPanelBar {
   /** Batch runner entry point (PLAN-batch-processing.md WP4), used instead of
    *  onApplyTool whenever one or more book images are ticked. */
   onApplyBatchTool: (toolId: string, params: Record<string, string>) => void;
+  /** User-defined tools, shown in the tool panel's "My Tools" group. */
+  customTools: CustomToolSpec[];
+  onSaveCustomTool: (spec: CustomToolSpec) => void;
+  onDeleteCustomTool: (toolId: string) => void;
+  onImportCustomTools: (file: File) => void;
+  onExportCustomTools: () => void;
+  /** House art styles, offered in the art style chooser. */
+  customArtStyles: ArtStyleDefinition[];
+  onSaveCustomArtStyle: (style: ArtStyleDefinition) => void;
+  onDeleteCustomArtStyle: (styleId: string) => void;
+  onImportCustomArtStyles: (file: File) => void;
+  onExportCustomArtStyles: () => void;
   onCancelProcessing: () => void;
   onToolSelect: (toolId: string | null) => void;
   onParamChange: (toolId: string, paramName: string, value: string) => void;
@@ -479,6 +505,9 @@ interface ImageToolsPanelBar {
   onSelectBookImageCurrent?: (id: string) => void;
   onToggleHistoryStar: (id: string) => void;
   onRenameHistoryItem: (id: string, name: string) => void;
+  /** Edit-history (lineage) dialog actions; see Workspace. */
+  onRerunFromHistory: (id: string) => void;
+  onDeleteHistoryBranch: (id: string) => void;
   onAddCharacterImage: (file: File) => void;
   hasHiddenHistory: boolean;
   onRequestHistoryAccess: () => void;
@@ -487,6 +516,8 @@ interface ImageToolsPanelBar {
   onDismissError: () => void;
   /** bookImages strip only: present when the active tool supports batch runs. */
   batchSelection?: BookImageBatchSelection;
+  /** bookImages strip only: present when the host can apply single replacements. */
+  bookImageApplyControls?: BookImageApplyControls;
   /** Count of ticked book images; morphs the tool's action button and cost estimate. */
   batchTickedCount?: number;
   /** Set while one or more book images are ticked; shown in place of the
@@ -511,13 +542,16 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
   appState,
   modelByTool,
   reasoningByTool,
+  variantsByTool,
   measuredStatsByKey,
   onToolModelChange,
   onToolReasoningChange,
+  onToolVariantsChange,
   targetImage,
   referenceImages,
   rightImage,
   resultImages = [],
+  onChooseResult,
   replacementItemsByIncomingId = {},
   bookImagesAction,
   activeToolId,
@@ -526,6 +560,9 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
   onOpenStripPreview,
   thumbnailStrips,
   thumbnailStripConfigs,
+  historySearch,
+  onHistorySearchChange,
+  onFindDuplicates,
   onStripItemDrop,
   onStripRemoveItem,
   onAssignReplacement,
@@ -537,6 +574,16 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
   selectedArtStyleId,
   onApplyTool,
   onApplyBatchTool,
+  customTools,
+  onSaveCustomTool,
+  onDeleteCustomTool,
+  onImportCustomTools,
+  onExportCustomTools,
+  customArtStyles,
+  onSaveCustomArtStyle,
+  onDeleteCustomArtStyle,
+  onImportCustomArtStyles,
+  onExportCustomArtStyles,
   onCancelProcessing,
   onToolSelect,
   onParamChange,
@@ -562,6 +609,8 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
   onSelectBookImageCurrent,
   onToggleHistoryStar,
   onRenameHistoryItem,
+  onRerunFromHistory,
+  onDeleteHistoryBranch,
   onAddCharacterImage,
   hasHiddenHistory,
   onRequestHistoryAccess,
@@ -569,6 +618,7 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
   previewSelectionImageIds = [],
   onDismissError,
   batchSelection,
+  bookImageApplyControls,
   batchTickedCount = 0,
   batchSelectionMessage = null,
   isBatchRunning = false,
@@ -578,6 +628,23 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
 }) => {
   const majorElementGap = { xs: 1.5, md: 3.75 } as const;
   const hasTargetImage = !!targetImage;
+  const maskParamName = getMaskParamName(getToolById(activeToolId));
+  const compareSourceImage = React.useMemo(
+    () =>
+      rightImage?.parentId
+        ? (historyItems.find((item) => item.id === rightImage.parentId) ?? null)
+        : null,
+    [historyItems, rightImage?.parentId],
+  );
+  const targetMask =
+    activeToolId && maskParamName ? (toolParams[activeToolId]?.[maskParamName] ?? "") : "";
+  const handleTargetMaskChange = React.useCallback(
+    (maskDataUrl: string) => {
+      if (!activeToolId || !maskParamName) return;
+      onParamChange(activeToolId, maskParamName, maskDataUrl);
+    },
+    [activeToolId, maskParamName, onParamChange],
+  );
   const debugLog = React.useCallback((...args: any[]) => {
     try {
       if (isDragDebugEnabled()) {
@@ -794,6 +861,16 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
           <ImageTool
             onApplyTool={onApplyTool}
             onApplyBatchTool={onApplyBatchTool}
+            customTools={customTools}
+            onSaveCustomTool={onSaveCustomTool}
+            onDeleteCustomTool={onDeleteCustomTool}
+            onImportCustomTools={onImportCustomTools}
+            onExportCustomTools={onExportCustomTools}
+            customArtStyles={customArtStyles}
+            onSaveCustomArtStyle={onSaveCustomArtStyle}
+            onDeleteCustomArtStyle={onDeleteCustomArtStyle}
+            onImportCustomArtStyles={onImportCustomArtStyles}
+            onExportCustomArtStyles={onExportCustomArtStyles}
             isProcessing={appState.isProcessing}
             onCancelProcessing={onCancelProcessing}
             onToolSelect={onToolSelect}
@@ -803,9 +880,11 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
             isAuthenticated={appState.isAuthenticated}
             modelByTool={modelByTool}
             reasoningByTool={reasoningByTool}
+            variantsByTool={variantsByTool}
             measuredStatsByKey={measuredStatsByKey}
             onToolModelChange={onToolModelChange}
             onToolReasoningChange={onToolReasoningChange}
+            onToolVariantsChange={onToolVariantsChange}
             activeToolId={activeToolId}
             paramsByTool={toolParams}
             onParamChange={onParamChange}
@@ -911,6 +990,7 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
               referenceImages={referenceImages}
               rightImage={rightImage}
               resultImages={resultImages}
+              onChooseResult={onChooseResult}
               onSetTarget={onSetTarget}
               onSetReferenceAt={onSetReferenceAt}
               onSetRight={onSetRight}
@@ -934,6 +1014,12 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
               isBatchRunning={isBatchRunning}
               isInspectorPinned={isInspectorPinned}
               onUnpinInspector={onUnpinInspector}
+              targetMask={targetMask}
+              onTargetMaskChange={maskParamName ? handleTargetMaskChange : undefined}
+              compareSourceImage={compareSourceImage}
+              historyItems={historyItems}
+              onRerunFromHistory={onRerunFromHistory}
+              onDeleteHistoryBranch={onDeleteHistoryBranch}
             />
 
             <ThumbnailStripsCollection
@@ -945,6 +1031,9 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
               previewModifierActive={previewModifierActive}
               previewSelectionImageIds={previewSelectionImageIds}
               stripConfigs={thumbnailStripConfigs}
+              search={historySearch}
+              onSearchChange={onHistorySearchChange}
+              onFindDuplicates={onFindDuplicates}
               onOpenPreview={onOpenStripPreview}
               onSelect={onSelectHistoryItem}
               onSelectBookImageCurrent={onSelectBookImageCurrent}
@@ -962,6 +1051,7 @@ export const ImageToolsBar: React.FC<ImageToolsPanelBar> = ({
               onTogglePin={onStripPinToggle}
               onDragActivateStrip={onStripDragActivate}
               batchSelection={batchSelection}
+              applyControls={bookImageApplyControls}
             />
           </Box>
 
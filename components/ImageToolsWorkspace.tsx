@@ -4,7 +4,9 @@ import { ThemeProvider } from "@mui/material/styles";
 import { keyframes } from "@emotion/react";
 import {
   AppState,
+  ArtStyleDefinition,
   BatchRunState,
+  CustomToolSpec,
   GenerationProgressState,
   GenerationTimingState,
   ImageCredits,
@@ -16,12 +18,12 @@ import {
   ThumbnailStripId,
   ThumbnailStripsSnapshot,
   ToolParamsById,
+  TrashedImageRecord,
 } from "../types";
 import { ImageToolsBar } from "./ImageToolsBar";
 import { OpenRouterApiError, OPENROUTER_KEYS_URL } from "../services/openRouterService";
 import { BREAK_COMIC_MERGE_MARGIN_RATIO } from "../lib/breakComic";
 import { fetchOpenRouterKeyStatus, OpenRouterKeyStatus } from "../lib/openRouterKeyStatus";
-import { TOOLS } from "./tools/tools-registry";
 import { theme } from "../themes";
 import { useBrandedDarkTheme } from "./materialUITheme";
 import {
@@ -32,25 +34,107 @@ import {
   initiateOAuthFlow,
   pollOAuthCodeFromBloomHost,
 } from "../lib/openRouterOAuth";
-import { canUseLocalDummyModelWithoutApiKey } from "../lib/localModels";
+import {
+  getAllTools,
+  mergeCustomToolSpecs,
+  normalizeCustomToolSpecs,
+  parseCustomToolsFile,
+  registerCustomTools,
+  serializeCustomTools,
+} from "../lib/customTools";
 import {
   buildMeasuredStatKey,
   DEFAULT_MODEL,
+  getEstimatedCostPerImageUsd,
   getModelInfoById,
   isModelReasoningLevel,
   MODEL_CATALOG,
+  modelRequiresOpenRouterKey,
   resolveToolModelId,
 } from "../lib/modelsCatalog";
+import {
+  AppliedReplacements,
+  applyBookImageReplacement,
+  isReplacementPending,
+  runBookSlotUpdate,
+  withAppliedReplacement,
+  withoutAppliedReplacement,
+} from "../lib/bookImageApply";
+import {
+  appendSpendLedgerEntries,
+  checkSpendBudget,
+  DEFAULT_SPEND_BUDGET,
+  describeBudgetStop,
+  failedAttemptLedgerEntry,
+  getRunOrigin,
+  getSpendTotals,
+  mergeSpendLedgers,
+  normalizeSpendBudget,
+  normalizeSpendLedger,
+  SpendBudget,
+  SpendLedgerEntry,
+} from "../lib/spendBudget";
+import {
+  DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  ImageOutputSettings,
+  normalizeImageOutputSettings,
+} from "../lib/imageOutputFormat";
+import {
+  BrowserStorageEstimate,
+  DEFAULT_STORAGE_PIN_SETTINGS,
+  estimateBrowserStorage,
+  getPinnedImageIds,
+  HistoryStorageBreakdown,
+  normalizeStoragePinSettings,
+  requestPersistentStorage,
+  StoragePinSettings,
+} from "../lib/browserStorage";
+import {
+  EMPTY_HISTORY_SEARCH,
+  HistorySearchQuery,
+  normalizeHistorySearchQuery,
+} from "../lib/historySearch";
+import {
+  applyStripChanges,
+  DeletedImage,
+  diffThumbnailStrips,
+  EMPTY_UNDO_HISTORY,
+  ImageMetadataEdit,
+  pickChangeSide,
+  recordUndoEntry,
+  restoreDeletedImages,
+  takeUndoEntry,
+  UndoDirection,
+  withDeletedImageBytes,
+  WorkspaceChange,
+  WorkspaceUndoHistory,
+} from "../lib/workspaceUndo";
+import { loadUndoHistory, saveUndoHistory } from "../services/persistence/undoHistoryStore";
+import {
+  createHistoryTrash,
+  forgetBrowserTrash,
+  trashBrowserHistoryItems,
+} from "../services/persistence/historyTrash";
 import { OpenRouterWelcomeDialog } from "./OpenRouterWelcomeDialog";
 import { OpenRouterCreditsHeader } from "./OpenRouterCreditsHeader";
 import { AIImageToolsSettingsDialog } from "./AIImageToolsSettingsDialog";
+import { UsageReportDialog } from "./UsageReportDialog";
+import { RecentlyDeletedDialog } from "./RecentlyDeletedDialog";
+import { SimilarImagesContent, SimilarImagesDialog } from "./SimilarImagesDialog";
+import { setFindSimilarImagesHandler } from "./findSimilarAction";
 import { ImagePreviewDialog, ImagePreviewDialogItem } from "./ImagePreviewDialog";
+import { setRegenerateImageHandler } from "./regenerateAction";
 import { TextFieldContextMenu } from "./TextFieldContextMenu";
 import { Icon, Icons } from "./Icons";
 import bloomLogo from "../assets/bloom.svg";
 import imagePlaceholder from "../assets/image_placeholder.svg";
-import { createToolParamDefaults, mergeParamsWithDefaults } from "./tools/toolParams";
+import {
+  clearMaskParams,
+  createToolParamDefaults,
+  mergeParamsWithDefaults,
+} from "./tools/toolParams";
 import { copyImageRecordWithFeedback } from "./copyImageRecordToClipboard";
+import { registerImageOutputSettings, registerImageRecordHistory } from "./imageRecordExport";
 import { API_KEY_STORAGE_KEY, AUTH_METHOD_STORAGE_KEY } from "../lib/authStorage";
 import { WELCOME_DIALOG_SKIP_FLAG } from "../lib/authFlags";
 import {
@@ -61,6 +145,7 @@ import {
   collectHistoryImageDebugInfo,
   FileSystemImageBinding,
   deletePersistedHistoryItem,
+  deletePersistedHistoryItems,
   deriveImageFileName,
   forgetFileSystemImageBinding,
   listHistoryImageFiles,
@@ -69,11 +154,22 @@ import {
   reconnectFileSystemImageBinding,
   requestFileSystemImageBinding,
   restoreFileSystemImageBinding,
+  restorePersistedHistoryItems,
   supportsFileSystemAccess,
   writeFolderAppState,
   writeHistoryImageRecord,
 } from "../services/persistence/fileSystemAccess";
-import { getStyleIdFromParams, getStyleIdFromImageRecord } from "../lib/artStyles";
+import {
+  getStyleIdFromParams,
+  getStyleIdFromImageRecord,
+  registerCustomArtStyles,
+} from "../lib/artStyles";
+import {
+  mergeCustomArtStyles,
+  normalizeCustomArtStyles,
+  parseCustomArtStylesFile,
+  serializeCustomArtStyles,
+} from "../lib/customArtStyles";
 import {
   ensureDataUrl,
   getImageDimensions,
@@ -83,9 +179,28 @@ import {
 import {
   getReferenceConstraints,
   getToolReferenceMode,
+  MAX_TOOL_VARIANTS,
+  resolveToolVariantCount,
   toolSupportsBatch,
+  withoutMaskParams,
 } from "../lib/toolHelpers";
+import { collectBranchIds } from "../lib/historyLineage";
+import {
+  computePerceptualHash,
+  findSimilarImages,
+  getPerceptualHash,
+  groupNearDuplicates,
+  suggestDuplicatesToDelete,
+} from "../lib/perceptualHash";
+import { restoreImageRecordFieldsFromFile } from "../lib/imageProvenance";
+import {
+  mergeRegenerateParams,
+  RegenerateInputs,
+  RegenerateSetup,
+  resolveRegenerateSetup,
+} from "../lib/regenerateSetup";
 import { formatCreditsValue, formatSourceSummary } from "../lib/formatters";
+import { downloadBlob } from "../lib/fileDownload";
 import {
   captionLeadingNumber,
   parseCaptionArray,
@@ -107,6 +222,7 @@ import {
 import {
   BATCH_CONCURRENCY,
   BATCH_RATE_LIMIT_MAX_RETRIES,
+  BatchPoolConfig,
   resolveBatchRetryDelaysMs,
   runBatchPool,
 } from "../lib/batchPool";
@@ -224,6 +340,52 @@ const normalizeReasoningByTool = (value: unknown): Record<string, ModelReasoning
   return normalized;
 };
 
+const normalizeVariantsByTool = (value: unknown): Record<string, number> => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const normalized: Record<string, number> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([toolId, count]) => {
+    const cleanToolId = toolId.trim();
+    if (cleanToolId && typeof count === "number" && Number.isInteger(count) && count > 1) {
+      normalized[cleanToolId] = Math.min(count, MAX_TOOL_VARIANTS);
+    }
+  });
+
+  return normalized;
+};
+
+// Pool settings shared by batch runs and variant runs: OpenRouter rate limits
+// back off and retry; a cancel stops the pool.
+const createBatchPoolConfig = (signal: AbortSignal): BatchPoolConfig => ({
+  concurrency: BATCH_CONCURRENCY,
+  retryDelaysMs: resolveBatchRetryDelaysMs(),
+  maxRetries: BATCH_RATE_LIMIT_MAX_RETRIES,
+  signal,
+  isRateLimited: (error) => error instanceof OpenRouterApiError && error.reason === "rate-limited",
+  isAbortError: (error) =>
+    error instanceof DOMException
+      ? error.name === "AbortError"
+      : (error as any)?.name === "AbortError",
+  wait: (ms, waitSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (waitSignal.aborted) {
+        reject(new DOMException("Generation cancelled.", "AbortError"));
+        return;
+      }
+      const timeoutId = setTimeout(resolve, ms);
+      waitSignal.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timeoutId);
+          reject(new DOMException("Generation cancelled.", "AbortError"));
+        },
+        { once: true },
+      );
+    }),
+});
+
 const normalizeMeasuredStatsByKey = (value: unknown): Record<string, MeasuredStats> => {
   if (!value || typeof value !== "object") {
     return {};
@@ -338,6 +500,9 @@ export interface ImageToolsWorkspaceProps {
   /** Demo context (e.g. a Bloom Playground/template book): the user may use an
    *  already-supplied key but must not set, change, or clear OpenRouter credentials. */
   demoOnly?: boolean;
+  /** The host's id for the book being edited. Stamped on results and spend so
+   *  the usage report can leave out history copied along with another book. */
+  bookId?: string | null;
   bookImageUrls?: string[];
   bookImages?: Array<{
     id: string;
@@ -367,6 +532,11 @@ export interface ImageToolsWorkspaceProps {
     openRouterUser?: string | null;
   }) => void;
   onCommitCurrentResult?: (item: ImageRecord) => void;
+  /** When provided (a host that applies replacements one at a time), each assigned
+   *  book-image replacement gets an "Apply" button that calls this, and an applied
+   *  one can be undone, which calls it with the slot's original image. Resolves once
+   *  the host has the image; applied slots are left out of onReplacementsChange. */
+  onApplyReplacement?: (incomingId: string, item: ImageRecord) => Promise<void>;
   currentResultActionLabel?: string;
   currentResultActionTestId?: string;
   /** When provided (e.g. in Bloom host mode), shows a "Cancel" button beside the
@@ -385,6 +555,12 @@ export interface ImageToolsWorkspaceProps {
    *  on to Segment). Optional: with no host to tell, nothing is recorded and nothing breaks.
    *  Never pass prompt text or anything else the user typed -- see IBloomHostControl. */
   onTrackEvent?: (event: string, properties?: Record<string, string | number | boolean>) => void;
+  /** Called whenever the loading overlay's progress changes (null when nothing runs),
+   *  so a host can show that the editor is busy. */
+  onGenerationProgressChange?: (progress: GenerationProgressState | null) => void;
+  /** Shown in the "Image format" settings when the host can't take the chosen format
+   *  for the book; the commit-size choice is hidden then too. */
+  imageOutputHostNotice?: string;
 }
 
 export function ImageToolsWorkspace({
@@ -392,6 +568,7 @@ export function ImageToolsWorkspace({
   envApiKey: envApiKeyProp = "",
   initialApiKey: initialApiKeyProp = "",
   demoOnly = false,
+  bookId = null,
   bookImageUrls = [],
   bookImages = [],
   selectedBookImageId,
@@ -401,6 +578,7 @@ export function ImageToolsWorkspace({
   onReplacementsChange,
   onCredentialsChange,
   onCommitCurrentResult,
+  onApplyReplacement,
   currentResultActionLabel,
   currentResultActionTestId,
   onCancel,
@@ -412,6 +590,8 @@ export function ImageToolsWorkspace({
   bookImagesActionTestId,
   thumbnailStripConfigOverrides,
   onTrackEvent,
+  onGenerationProgressChange,
+  imageOutputHostNotice,
 }: ImageToolsWorkspaceProps) {
   // Rebuilds the MUI theme from the current brand override (set by the dev Theme
   // Tuner) so primary-colored UI and brand-tinted text re-skin from one color.
@@ -438,6 +618,8 @@ export function ImageToolsWorkspace({
   const [paramsByTool, setParamsByTool] = useState<ToolParamsById>(() => createToolParamDefaults());
   const [selectedArtStyleId, setSelectedArtStyleId] = useState<string | null>(null);
   const [apiKey, setApiKey] = useState<string | null>(null);
+  // The user's OpenAI key, for catalog models on OpenAI's Images API.
+  const [openAIApiKey, setOpenAIApiKey] = useState<string | null>(null);
   const [authMethod, setAuthMethod] = useState<"oauth" | "manual" | null>(null);
   const [authLoading, setAuthLoading] = useState(false);
   const [activeToolId, setActiveToolId] = useState<string | null>(null);
@@ -445,7 +627,35 @@ export function ImageToolsWorkspace({
   // reasoning level; `measuredStatsByKey` powers the indicator's cost/time tooltip.
   const [modelByTool, setModelByTool] = useState<Record<string, string>>({});
   const [reasoningByTool, setReasoningByTool] = useState<Record<string, ModelReasoningLevel>>({});
+  // toolId -> candidates per run; absent = 1 (no chooser).
+  const [variantsByTool, setVariantsByTool] = useState<Record<string, number>>({});
   const [measuredStatsByKey, setMeasuredStatsByKey] = useState<Record<string, MeasuredStats>>({});
+  // User-defined tools ("Save as tool"). Always change them through
+  // applyCustomTools so lib/customTools' registry stays in step.
+  const [customTools, setCustomTools] = useState<CustomToolSpec[]>([]);
+  // House art styles, likewise changed only through applyCustomArtStyles.
+  const [customArtStyles, setCustomArtStyles] = useState<ArtStyleDefinition[]>([]);
+  // Spending caps (see lib/spendBudget). The ledger ref is written together
+  // with the state so concurrent batch runs check against every cost so far,
+  // not the last render's.
+  const [spendBudget, setSpendBudget] = useState<SpendBudget>(DEFAULT_SPEND_BUDGET);
+  const [spendLedger, setSpendLedger] = useState<SpendLedgerEntry[]>([]);
+  const spendLedgerRef = useRef(spendLedger);
+  const [imageOutput, setImageOutput] = useState<ImageOutputSettings>(
+    DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  );
+  // Which strips' images the browser history cache never evicts (see lib/browserStorage).
+  const [storagePins, setStoragePins] = useState<StoragePinSettings>(DEFAULT_STORAGE_PIN_SETTINGS);
+  // Search box and facet chips that filter the thumbnail strips (see lib/historySearch).
+  const [historySearch, setHistorySearch] = useState<HistorySearchQuery>(EMPTY_HISTORY_SEARCH);
+  // Undo/redo for slot assignments, strip edits, deletions and metadata edits
+  // (lib/workspaceUndo.ts). Kept across reloads of this tab, per book.
+  const [undoHistory, setUndoHistory] = useState<WorkspaceUndoHistory>(EMPTY_UNDO_HISTORY);
+  const undoHistoryRef = useRef(undoHistory);
+  const undoHistoryLoadedRef = useRef(false);
+  const [storageEstimate, setStorageEstimate] = useState<BrowserStorageEstimate | null>(null);
+  const [storageBreakdown, setStorageBreakdown] = useState<HistoryStorageBreakdown | null>(null);
+  const [sessionStartedAt] = useState(() => Date.now());
   const [generationTiming, setGenerationTiming] = useState<GenerationTimingState>({
     lastDurationMs: null,
     promptDurationsByKey: {},
@@ -470,6 +680,9 @@ export function ImageToolsWorkspace({
     isInspectorPinnedRef.current = isInspectorPinned;
   }, [isInspectorPinned]);
   const [resultImageIds, setResultImageIds] = useState<string[]>([]);
+  // The candidates of the last variant run. While the Result pane still shows
+  // (some of) them, it is a pick-one chooser rather than a result collection.
+  const [variantCandidateIds, setVariantCandidateIds] = useState<string[]>([]);
   const [replacementImageIdByIncomingId, setReplacementImageIdByIncomingId] = useState<
     Record<string, string | null>
   >({});
@@ -477,6 +690,11 @@ export function ImageToolsWorkspace({
   // keyed the same way. Backs the grace period in the validation effect below —
   // see its comment for why this exists.
   const replacementAssignedAtRef = useRef<Record<string, number>>({});
+  // Slots whose replacement the host has already applied (onApplyReplacement).
+  // Session-only, like host-mode assignments: each launch starts from the book.
+  const [appliedReplacementByIncomingId, setAppliedReplacementByIncomingId] =
+    useState<AppliedReplacements>({});
+  const [applyingIncomingIds, setApplyingIncomingIds] = useState<Set<string>>(() => new Set());
   // Book images ticked for a batch run (see PLAN-batch-processing.md WP3).
   // Deliberately independent of state.targetImageId: ticking never touches the
   // target, so clearing all ticks needs no "restore" logic — the previously
@@ -496,6 +714,20 @@ export function ImageToolsWorkspace({
     bookImages: [],
   });
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
+  const [isUsageReportOpen, setIsUsageReportOpen] = useState(false);
+  const [isRecentlyDeletedOpen, setIsRecentlyDeletedOpen] = useState(false);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<TrashedImageRecord[]>([]);
+  const [recentlyDeletedLoading, setRecentlyDeletedLoading] = useState(false);
+  // "Find similar" (from an image's context menu) and "Near-duplicates", both
+  // over the history strip's images (see lib/perceptualHash).
+  const [isSimilarImagesOpen, setIsSimilarImagesOpen] = useState(false);
+  const [similarImagesView, setSimilarImagesView] = useState<
+    { kind: "similar"; imageId: string } | { kind: "duplicates" }
+  >({ kind: "duplicates" });
+  const [similarHashProgress, setSimilarHashProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
   const [isWelcomeDialogOpen, setIsWelcomeDialogOpen] = useState(false);
   const hasShownWelcomeRef = useRef(false);
   // Guards the one-time auto-selection of the host's current book image into the
@@ -523,16 +755,17 @@ export function ImageToolsWorkspace({
   const envApiKey = envApiKeyProp?.trim() || "";
   const initialApiKey = initialApiKeyProp?.trim() || "";
   const effectiveApiKey = apiKey || envApiKey;
+  const providerApiKeys = { "openai-images": openAIApiKey ?? "" };
   const activeTool = useMemo(
-    () => (activeToolId ? TOOLS.find((t) => t.id === activeToolId) || null : null),
-    [activeToolId],
+    () => (activeToolId ? getAllTools().find((t) => t.id === activeToolId) || null : null),
+    [activeToolId, customTools],
   );
   // The active tool's resolved model decides whether we can run without an API
   // key (only the localhost dummy model qualifies).
   const activeToolModelId = activeTool
     ? resolveToolModelId(activeTool, modelByTool)
     : DEFAULT_MODEL?.id || "";
-  const canUseSelectedModelWithoutApiKey = canUseLocalDummyModelWithoutApiKey(activeToolModelId);
+  const canUseSelectedModelWithoutApiKey = !modelRequiresOpenRouterKey(activeToolModelId);
   const usingEnvKey = !!(envApiKey && !apiKey);
   // Batch-selection eligibility: only in the hosted book-images strip, and only
   // while the active tool is one that supports batch runs (PLAN-batch-processing.md).
@@ -791,7 +1024,7 @@ export function ImageToolsWorkspace({
         let mutated = false;
         const next: ToolParamsById = { ...prev };
 
-        TOOLS.forEach((tool) => {
+        getAllTools().forEach((tool) => {
           const artStyleParams = tool.parameters.filter((param) => param.type === "art-style");
           if (!artStyleParams.length) {
             return;
@@ -1018,17 +1251,32 @@ export function ImageToolsWorkspace({
       return;
     }
 
+    // Already-applied replacements are in the book; only pending ones are reported.
     onReplacementsChange(
       Object.fromEntries(
-        bookImageSlotIds.map((incomingId) => [
-          incomingId,
-          replacementImageIdByIncomingId[incomingId]
-            ? historyItemsById[replacementImageIdByIncomingId[incomingId] as string] || null
-            : null,
-        ]),
+        bookImageSlotIds.map((incomingId) => {
+          const replacementId = replacementImageIdByIncomingId[incomingId];
+          return [
+            incomingId,
+            replacementId &&
+            replacementId !== appliedReplacementByIncomingId[incomingId]?.replacementId
+              ? historyItemsById[replacementId] || null
+              : null,
+          ];
+        }),
       ),
     );
-  }, [bookImageSlotIds, historyItemsById, onReplacementsChange, replacementImageIdByIncomingId]);
+  }, [
+    appliedReplacementByIncomingId,
+    bookImageSlotIds,
+    historyItemsById,
+    onReplacementsChange,
+    replacementImageIdByIncomingId,
+  ]);
+
+  useEffect(() => {
+    onGenerationProgressChange?.(generationProgress);
+  }, [generationProgress, onGenerationProgressChange]);
 
   useEffect(() => {
     const referencedIds = new Set<string>();
@@ -1051,6 +1299,11 @@ export function ImageToolsWorkspace({
         referencedIds.add(id);
       }
     });
+    // Undo needs the original of every applied slot, even if it's off every strip.
+    Object.values(appliedReplacementByIncomingId).forEach((applied) => {
+      referencedIds.add(applied.replacementId);
+      referencedIds.add(applied.originalId);
+    });
 
     // Leave very fresh entries alone: multi-item tools create their records
     // across several awaits before referencing them in a strip, and this
@@ -1091,6 +1344,7 @@ export function ImageToolsWorkspace({
       return removeItemsFromAllStrips(prev, orphanedIds);
     });
   }, [
+    appliedReplacementByIncomingId,
     deleteHistoryImageFromFolder,
     replacementImageIdByIncomingId,
     state.history,
@@ -1202,6 +1456,74 @@ export function ImageToolsWorkspace({
     [],
   );
 
+  // Near-duplicates never suggest (or allow) deleting these: images in another
+  // strip, which the history strip won't delete either, and images in use as
+  // the edit target, a reference or a book image's replacement.
+  const similarKeepIds = useMemo(() => {
+    const ids = new Set<string>(state.referenceImageIds);
+    if (state.targetImageId) ids.add(state.targetImageId);
+    THUMBNAIL_STRIP_ORDER.forEach((stripId) => {
+      if (stripId === "history") return;
+      (thumbnailStrips.itemIdsByStrip[stripId] || []).forEach((id) => ids.add(id));
+    });
+    Object.values(replacementImageIdByIncomingId).forEach((id) => {
+      if (id) ids.add(id);
+    });
+    return ids;
+  }, [
+    replacementImageIdByIncomingId,
+    state.referenceImageIds,
+    state.targetImageId,
+    thumbnailStrips,
+  ]);
+
+  // Grouping compares every pair, so it's only worked out while the dialog is
+  // open; the last result stays up while it fades out.
+  const lastSimilarImagesContentRef = useRef<SimilarImagesContent>({
+    kind: "duplicates",
+    groups: [],
+  });
+  const openSimilarImagesContent = useMemo((): SimilarImagesContent | null => {
+    if (!isSimilarImagesOpen) return null;
+    const byId = new Map(state.history.map((item) => [item.id, item] as const));
+    const candidateIds = thumbnailStrips.itemIdsByStrip.history || [];
+    const hashesById = Object.fromEntries(
+      state.history.map((item) => [item.id, getPerceptualHash(item)] as const),
+    );
+    const toItems = <T extends { id: string }>(matches: T[]) =>
+      matches.flatMap((match) => {
+        const record = byId.get(match.id);
+        return record ? [{ ...match, record }] : [];
+      });
+    return similarImagesView.kind === "similar"
+      ? {
+          kind: "similar",
+          target: byId.get(similarImagesView.imageId) ?? null,
+          matches: toItems(findSimilarImages(similarImagesView.imageId, candidateIds, hashesById)),
+        }
+      : {
+          kind: "duplicates",
+          groups: groupNearDuplicates(candidateIds, hashesById).map((ids) => {
+            const items = toItems(ids.map((id) => ({ id })));
+            return {
+              items,
+              suggestedIds: suggestDuplicatesToDelete(
+                items.map((item) => item.record),
+                similarKeepIds,
+              ),
+            };
+          }),
+        };
+  }, [isSimilarImagesOpen, similarImagesView, similarKeepIds, state.history, thumbnailStrips]);
+
+  useEffect(() => {
+    if (openSimilarImagesContent) {
+      lastSimilarImagesContentRef.current = openSimilarImagesContent;
+    }
+  }, [openSimilarImagesContent]);
+
+  const similarImagesContent = openSimilarImagesContent ?? lastSimilarImagesContentRef.current;
+
   const hydrateCandidateIds = useMemo(() => {
     const ids = new Set<string>();
     const addId = (id: string | null | undefined) => {
@@ -1227,9 +1549,21 @@ export function ImageToolsWorkspace({
         addId(replacementImageIdByIncomingId[incomingId]);
       });
     }
+    if (isSimilarImagesOpen) {
+      if (similarImagesContent.kind === "similar") {
+        addId(similarImagesContent.target?.id);
+        similarImagesContent.matches.forEach((match) => addId(match.record.id));
+      } else {
+        similarImagesContent.groups.forEach((group) =>
+          group.items.forEach((item) => addId(item.record.id)),
+        );
+      }
+    }
 
     return Array.from(ids);
   }, [
+    isSimilarImagesOpen,
+    similarImagesContent,
     replacementImageIdByIncomingId,
     resultImageIds,
     state.referenceImageIds,
@@ -1383,6 +1717,14 @@ export function ImageToolsWorkspace({
               ? persisted.selectedArtStyleId
               : null;
 
+          // Register user tools first so their params get defaults below.
+          const persistedCustomTools = normalizeCustomToolSpecs(persisted.customTools);
+          registerCustomTools(persistedCustomTools);
+          setCustomTools(persistedCustomTools);
+          const persistedCustomArtStyles = normalizeCustomArtStyles(persisted.customArtStyles);
+          registerCustomArtStyles(persistedCustomArtStyles);
+          setCustomArtStyles(persistedCustomArtStyles);
+
           const mergedParams = mergeParamsWithDefaults(persisted.paramsByTool);
           const fallbackStyleId =
             Object.values(mergedParams)
@@ -1415,8 +1757,16 @@ export function ImageToolsWorkspace({
 
           setModelByTool(normalizeModelByTool(persisted.modelByTool));
           setReasoningByTool(normalizeReasoningByTool(persisted.reasoningByTool));
+          setVariantsByTool(normalizeVariantsByTool(persisted.variantsByTool));
+          setSpendBudget(normalizeSpendBudget(persisted.spendBudget));
+          setImageOutput(normalizeImageOutputSettings(persisted.imageOutput));
+          setStoragePins(normalizeStoragePinSettings(persisted.storagePins));
+          setHistorySearch(normalizeHistorySearchQuery(persisted.historySearch));
+          spendLedgerRef.current = normalizeSpendLedger(persisted.spendLedger);
+          setSpendLedger(spendLedgerRef.current);
           setMeasuredStatsByKey(normalizeMeasuredStatsByKey(persisted.measuredStatsByKey));
           setGenerationTiming(normalizeGenerationTiming(persisted.generationTiming));
+          setOpenAIApiKey(persisted.auth?.openAIApiKey?.trim() || null);
           if (persisted.auth?.apiKey) {
             setApiKey(persisted.auth.apiKey);
             setAuthMethod(persisted.auth.authMethod ?? null);
@@ -1486,20 +1836,33 @@ export function ImageToolsWorkspace({
   const paramsByToolRef = useRef(paramsByTool);
   const activeToolIdRef = useRef(activeToolId);
   const modelByToolRef = useRef(modelByTool);
+  const customToolsRef = useRef(customTools);
+  const customArtStylesRef = useRef(customArtStyles);
   const reasoningByToolRef = useRef(reasoningByTool);
+  const variantsByToolRef = useRef(variantsByTool);
+  const spendBudgetRef = useRef(spendBudget);
+  const imageOutputRef = useRef(imageOutput);
+  const storagePinsRef = useRef(storagePins);
+  const historySearchRef = useRef(historySearch);
   const measuredStatsByKeyRef = useRef(measuredStatsByKey);
   const generationTimingRef = useRef(generationTiming);
   const selectedArtStyleIdRef = useRef(selectedArtStyleId);
   const apiKeyRef = useRef(apiKey);
+  const openAIApiKeyRef = useRef(openAIApiKey);
   const authMethodRef = useRef(authMethod);
   const thumbnailStripsRef = useRef(thumbnailStrips);
   const replacementImageIdByIncomingIdRef = useRef(replacementImageIdByIncomingId);
+  const resultImageIdsRef = useRef(resultImageIds);
+  const appliedReplacementByIncomingIdRef = useRef(appliedReplacementByIncomingId);
   const fsManifestHandleRef = useRef<FileSystemDirectoryHandle | null>(null);
   const fsManifestReadyHandleRef = useRef<FileSystemDirectoryHandle | null>(null);
 
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
+  // Copies and downloads from any ImageSlot write lineage from this history.
+  useEffect(() => registerImageRecordHistory(() => stateRef.current.history), []);
+  useEffect(() => registerImageOutputSettings(() => imageOutputRef.current), []);
   useEffect(() => {
     fsBindingRef.current = fsBinding;
   }, [fsBinding]);
@@ -1512,9 +1875,81 @@ export function ImageToolsWorkspace({
   useEffect(() => {
     modelByToolRef.current = modelByTool;
   }, [modelByTool]);
+  useEffect(() => {
+    customToolsRef.current = customTools;
+  }, [customTools]);
+  useEffect(() => {
+    customArtStylesRef.current = customArtStyles;
+  }, [customArtStyles]);
   useEffect(() => {
     reasoningByToolRef.current = reasoningByTool;
   }, [reasoningByTool]);
+  useEffect(() => {
+    variantsByToolRef.current = variantsByTool;
+  }, [variantsByTool]);
+  useEffect(() => {
+    spendBudgetRef.current = spendBudget;
+  }, [spendBudget]);
+  useEffect(() => {
+    imageOutputRef.current = imageOutput;
+  }, [imageOutput]);
+  useEffect(() => {
+    storagePinsRef.current = storagePins;
+  }, [storagePins]);
+  useEffect(() => {
+    historySearchRef.current = historySearch;
+  }, [historySearch]);
+  // Browser storage keeps pinned images' bytes when it has to evict.
+  const evictionPinsSignatureRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isHydrated || hostManagesHistory || !persistence.setEvictionPins) return;
+    const pinnedIds = getPinnedImageIds(thumbnailStrips, storagePins);
+    const signature = pinnedIds.join("|");
+    if (signature === evictionPinsSignatureRef.current) return;
+    evictionPinsSignatureRef.current = signature;
+    void persistence.setEvictionPins(pinnedIds);
+  }, [hostManagesHistory, isHydrated, persistence, storagePins, thumbnailStrips]);
+
+  const refreshStorageStatus = useCallback(async () => {
+    const [estimate, breakdown] = await Promise.all([
+      estimateBrowserStorage(),
+      persistence.storageBreakdown?.() ?? null,
+    ]);
+    setStorageEstimate(estimate);
+    setStorageBreakdown(breakdown);
+  }, [persistence]);
+
+  useEffect(() => {
+    if (!isSettingsDialogOpen || hostManagesHistory) return;
+    void refreshStorageStatus();
+  }, [hostManagesHistory, isSettingsDialogOpen, refreshStorageStatus]);
+
+  const handleRequestPersistentStorage = useCallback(async () => {
+    await requestPersistentStorage();
+    await refreshStorageStatus();
+  }, [refreshStorageStatus]);
+
+  useEffect(() => {
+    if (!isHydrated || undoHistoryLoadedRef.current) return;
+    let cancelled = false;
+    void loadUndoHistory(bookId ?? "").then((saved) => {
+      if (cancelled) return;
+      undoHistoryLoadedRef.current = true;
+      // Anything undoable done while this loaded wins over the saved stack.
+      const current = undoHistoryRef.current;
+      if (current.undo.length || current.redo.length) return;
+      undoHistoryRef.current = saved;
+      setUndoHistory(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, isHydrated]);
+
+  useEffect(() => {
+    if (!undoHistoryLoadedRef.current) return;
+    void saveUndoHistory(bookId ?? "", undoHistory);
+  }, [bookId, undoHistory]);
   useEffect(() => {
     measuredStatsByKeyRef.current = measuredStatsByKey;
   }, [measuredStatsByKey]);
@@ -1527,6 +1962,9 @@ export function ImageToolsWorkspace({
   useEffect(() => {
     apiKeyRef.current = apiKey;
   }, [apiKey]);
+  useEffect(() => {
+    openAIApiKeyRef.current = openAIApiKey;
+  }, [openAIApiKey]);
   useEffect(() => {
     authMethodRef.current = authMethod;
   }, [authMethod]);
@@ -1536,6 +1974,72 @@ export function ImageToolsWorkspace({
   useEffect(() => {
     replacementImageIdByIncomingIdRef.current = replacementImageIdByIncomingId;
   }, [replacementImageIdByIncomingId]);
+  useEffect(() => {
+    resultImageIdsRef.current = resultImageIds;
+  }, [resultImageIds]);
+  useEffect(() => {
+    appliedReplacementByIncomingIdRef.current = appliedReplacementByIncomingId;
+  }, [appliedReplacementByIncomingId]);
+
+  // Someone else (e.g. a second Bloom window) changed the stored history while
+  // this editor is open. Merge it in without disturbing work in progress: an
+  // entry they deleted stays while it is the target, a reference, a result or a
+  // book-image replacement here.
+  useEffect(() => {
+    if (!isHydrated || !persistence.onExternalHistoryChange) {
+      return;
+    }
+    return persistence.onExternalHistoryChange((change) => {
+      const current = stateRef.current;
+      const inUseIds = new Set<string>([
+        ...current.referenceImageIds,
+        ...resultImageIdsRef.current,
+      ]);
+      [current.targetImageId, current.rightPanelImageId].forEach((id) => {
+        if (id) {
+          inUseIds.add(id);
+        }
+      });
+      Object.values(replacementImageIdByIncomingIdRef.current).forEach((id) => {
+        if (id) {
+          inUseIds.add(id);
+        }
+      });
+      Object.values(appliedReplacementByIncomingIdRef.current).forEach((applied) => {
+        inUseIds.add(applied.replacementId);
+        inUseIds.add(applied.originalId);
+      });
+
+      const removedIds = new Set(change.removedIds.filter((id) => !inUseIds.has(id)));
+      const updatedById = new Map(change.upserted.map((record) => [record.id, record]));
+      const knownIds = new Set(current.history.map((item) => item.id));
+      const added = change.upserted.filter((record) => !knownIds.has(record.id));
+
+      setState((prev) => {
+        const prevIds = new Set(prev.history.map((item) => item.id));
+        return {
+          ...prev,
+          history: [
+            ...prev.history
+              .filter((item) => !removedIds.has(item.id))
+              .map((item) => {
+                const updated = updatedById.get(item.id);
+                // Only the metadata changed; keep the bytes already loaded here.
+                return updated ? { ...updated, imageData: item.imageData } : item;
+              }),
+            ...added.filter((record) => !prevIds.has(record.id)),
+          ],
+        };
+      });
+      setThumbnailStrips((prev) => {
+        let next = removedIds.size ? removeItemsFromAllStrips(prev, removedIds) : prev;
+        added.forEach((record) => {
+          next = addItemToStrip(next, "history", record.id, 0);
+        });
+        return next;
+      });
+    });
+  }, [isHydrated, persistence]);
 
   useEffect(() => {
     if (!fsBinding) {
@@ -1571,6 +2075,8 @@ export function ImageToolsWorkspace({
           allowFileBackedEntries: true,
         });
         incomingStrips = folderState.thumbnailStrips;
+        spendLedgerRef.current = mergeSpendLedgers(spendLedgerRef.current, folderState.spendLedger);
+        setSpendLedger(spendLedgerRef.current);
       } else if (stateRef.current.history.length === 0) {
         const files = await listHistoryImageFiles(fsBinding);
         if (cancelled) {
@@ -1700,18 +2206,27 @@ export function ImageToolsWorkspace({
           history: historyForPersistence,
         },
         replacementImageIdByIncomingId: replacementImageIdByIncomingIdRef.current,
-        paramsByTool: paramsByToolRef.current,
+        paramsByTool: clearMaskParams(paramsByToolRef.current),
         activeToolId: activeToolIdRef.current,
         modelByTool: modelByToolRef.current,
         reasoningByTool: reasoningByToolRef.current,
+        variantsByTool: variantsByToolRef.current,
         measuredStatsByKey: measuredStatsByKeyRef.current,
         generationTiming: generationTimingRef.current,
         selectedArtStyleId: selectedArtStyleIdRef.current ?? null,
         auth: {
           apiKey: apiKeyRef.current,
           authMethod: authMethodRef.current,
+          openAIApiKey: openAIApiKeyRef.current,
         },
         thumbnailStrips: thumbnailStripsRef.current,
+        customTools: customToolsRef.current,
+        customArtStyles: customArtStylesRef.current,
+        spendBudget: spendBudgetRef.current,
+        spendLedger: spendLedgerRef.current,
+        imageOutput: imageOutputRef.current,
+        storagePins: storagePinsRef.current,
+        historySearch: historySearchRef.current,
       };
     };
 
@@ -1723,6 +2238,7 @@ export function ImageToolsWorkspace({
       activeToolId: activeToolIdRef.current,
       modelByTool: modelByToolRef.current,
       selectedArtStyleId: selectedArtStyleIdRef.current ?? null,
+      spendLedger: spendLedgerRef.current,
     });
 
     const scheduleSave = (debounceMs = 250) => {
@@ -1822,9 +2338,18 @@ export function ImageToolsWorkspace({
     activeToolId,
     modelByTool,
     reasoningByTool,
+    variantsByTool,
     measuredStatsByKey,
+    customTools,
+    customArtStyles,
+    spendBudget,
+    spendLedger,
+    imageOutput,
+    storagePins,
+    historySearch,
     selectedArtStyleId,
     apiKey,
+    openAIApiKey,
     authMethod,
     thumbnailStrips,
     replacementImageIdByIncomingId,
@@ -1914,6 +2439,13 @@ export function ImageToolsWorkspace({
         existingFolderState?.thumbnailStrips,
         nextHistory,
       );
+      if (existingFolderState) {
+        spendLedgerRef.current = mergeSpendLedgers(
+          spendLedgerRef.current,
+          existingFolderState.spendLedger,
+        );
+        setSpendLedger(spendLedgerRef.current);
+      }
       fsManifestHandleRef.current = binding.directoryHandle;
       fsManifestReadyHandleRef.current = binding.directoryHandle;
       setFsBinding(binding);
@@ -2120,7 +2652,7 @@ export function ImageToolsWorkspace({
   };
 
   // Book images (origin "bookImages") are re-supplied by the host each launch
-  // and are never written into history/ (see bloomHostPersistence), so once a
+  // and are never written into history/ (see hostFilePersistence), so once a
   // committed replacement overwrites the book file, the pre-edit image would
   // survive nowhere. The first time a tool edits a book image, snapshot its
   // bytes into history as a persistable "bookOriginal" record; results parent
@@ -2226,6 +2758,20 @@ export function ImageToolsWorkspace({
     };
     try {
       const result = await runToolOnImage(args);
+      // Free runs are recorded too: they made images the usage report has to count.
+      spendLedgerRef.current = appendSpendLedgerEntries(spendLedgerRef.current, [
+        {
+          id: uuid(),
+          at: Date.now(),
+          costUsd: Number.isFinite(result.cost) ? result.cost : 0,
+          toolId: args.tool.id,
+          model: result.model,
+          bookId,
+          imageCount: result.processedImages.length,
+          origin: getRunOrigin(args.targetImage),
+        },
+      ]);
+      setSpendLedger(spendLedgerRef.current);
       report({
         result: "success",
         attemptNumber: ++generationAttemptCountRef.current,
@@ -2251,38 +2797,125 @@ export function ImageToolsWorkspace({
             ? generationAttemptCountRef.current
             : ++generationAttemptCountRef.current,
       });
+      // Same rule for the usage report's failed attempts.
+      if (outcome !== "no api key") {
+        spendLedgerRef.current = appendSpendLedgerEntries(spendLedgerRef.current, [
+          failedAttemptLedgerEntry(
+            {
+              id: uuid(),
+              at: Date.now(),
+              toolId: args.tool.id,
+              model: common.model,
+              bookId,
+              origin: getRunOrigin(args.targetImage),
+              failure: outcome,
+            },
+            error,
+          ),
+        ]);
+        setSpendLedger(spendLedgerRef.current);
+      }
       throw error;
     }
   };
 
-  const handleApplyTool = async (toolId: string, params: Record<string, string>) => {
-    const tool = TOOLS.find((t) => t.id === toolId);
-    if (!tool) return;
+  /**
+   * Null when a run estimated at `estimatedCostUsd` fits the spending caps,
+   * otherwise the message to show. Reads refs, so a batch that has been
+   * running for minutes checks against what it has spent so far.
+   */
+  const getSpendBudgetStop = (estimatedCostUsd: number, pendingUsd = 0): string | null =>
+    describeBudgetStop(
+      checkSpendBudget(
+        spendBudgetRef.current,
+        getSpendTotals(spendLedgerRef.current, sessionStartedAt, bookId),
+        estimatedCostUsd,
+        pendingUsd,
+      ),
+    );
+
+  /**
+   * Make `count` candidates for one run, as parallel requests through the
+   * batch pool (same rate-limit backoff and cancel handling as a batch run).
+   * Resolves with the runs that succeeded, in request order; rejects with the
+   * first failure only when none did, so a missing key or a cancel surfaces
+   * the same way as for a single run.
+   */
+  const runToolVariants = async (
+    args: RunToolOnImageArgs,
+    count: number,
+  ): Promise<[RunToolOnImageResult, ...RunToolOnImageResult[]]> => {
+    const ids = Array.from({ length: count }, (_, index) => `variant-${index}`);
+    const resultsById = new Map<string, RunToolOnImageResult>();
+    let firstError: unknown = null;
+    await runBatchPool(
+      ids,
+      (id) =>
+        runToolOnImageTracked(
+          // Every variant streams (so cancel stops them all), but the overlay
+          // follows only the first.
+          id === ids[0] || !args.onStreamProgress ? args : { ...args, onStreamProgress: () => {} },
+          false,
+        ),
+      createBatchPoolConfig(args.signal),
+      {
+        onSuccess: (id, result) => resultsById.set(id, result),
+        onFailure: (id, error) => {
+          console.error(`Variant ${id} failed:`, error);
+          firstError ??= error;
+        },
+      },
+    );
+    const [first, ...rest] = ids.flatMap((id) => resultsById.get(id) ?? []);
+    if (!first) {
+      throw firstError ?? new DOMException("Generation cancelled.", "AbortError");
+    }
+    return [first, ...rest];
+  };
+
+  // Resolves to true once a result is committed. `inputs` replaces the
+  // workspace's current target, references, model and reasoning, for runs
+  // (Regenerate) that must not depend on state set in the same tick.
+  const handleApplyTool = async (
+    toolId: string,
+    params: Record<string, string>,
+    inputs?: RegenerateInputs,
+  ): Promise<boolean> => {
+    const tool = getAllTools().find((t) => t.id === toolId);
+    if (!tool) return false;
 
     if (tool.localOnly && tool.id === "pdf_to_images") {
       await runPdfToImages(params);
-      return;
+      return true;
     }
 
     // Each tool runs on its own selected model (see modelByTool), defaulting to
     // the tool's first recommended model.
-    const toolModel = getModelInfoById(resolveToolModelId(tool, modelByTool)) ?? DEFAULT_MODEL;
+    const toolModel =
+      getModelInfoById(inputs?.modelId ?? resolveToolModelId(tool, modelByTool)) ?? DEFAULT_MODEL;
+    const toolReasoningByTool = inputs?.reasoningLevel
+      ? { ...reasoningByTool, [tool.id]: inputs.reasoningLevel }
+      : reasoningByTool;
+    const targetImageId = inputs ? inputs.targetImageId : state.targetImageId;
+    const referenceImageIds = inputs ? inputs.referenceImageIds : state.referenceImageIds;
+
+    const variantCount = resolveToolVariantCount(tool, variantsByTool);
 
     const requiresEditImage = tool.editImage !== false;
     const targetImage =
-      requiresEditImage && state.targetImageId
-        ? state.history.find((h) => h.id === state.targetImageId) || null
+      requiresEditImage && targetImageId
+        ? state.history.find((h) => h.id === targetImageId) || null
         : null;
     if (requiresEditImage && !targetImage) {
       setState((prev) => ({
         ...prev,
         error: "Select an image to edit before applying this tool.",
       }));
-      return;
+      return false;
     }
 
     const { min, max } = getReferenceConstraints(tool.referenceImages);
-    const referenceItems = state.referenceImageIds
+    const referenceItems = referenceImageIds
       .map((id) => state.history.find((h) => h.id === id) || null)
       .filter((h): h is ImageRecord => !!h);
 
@@ -2292,10 +2925,20 @@ export function ImageToolsWorkspace({
         ...prev,
         error: "Please add a reference image for this tool (drag from history or upload).",
       }));
-      return;
+      return false;
     }
 
-    if (state.isProcessing) return;
+    if (state.isProcessing) return false;
+
+    const estimatedCostPerImageUsd = getEstimatedCostPerImageUsd(
+      tool,
+      toolModel ? { ...modelByTool, [tool.id]: toolModel.id } : modelByTool,
+    );
+    const budgetStop = getSpendBudgetStop((estimatedCostPerImageUsd ?? 0) * variantCount);
+    if (budgetStop) {
+      setState((prev) => ({ ...prev, error: budgetStop }));
+      return false;
+    }
 
     setResultImageIds([]);
     setState((prev) => ({
@@ -2362,28 +3005,36 @@ export function ImageToolsWorkspace({
         );
       };
 
+      const runArgs: RunToolOnImageArgs = {
+        tool,
+        toolModel,
+        requiresEditImage,
+        targetImage,
+        params,
+        constrainedReferences,
+        reasoningByTool: toolReasoningByTool,
+        generationTiming: generationTimingRef.current,
+        resolvedApiKey: effectiveApiKey,
+        providerApiKeys,
+        useEnvDefaultModelId: Boolean(envApiKey && !apiKey),
+        signal: abortController.signal,
+        onProgressStart: (estimatedDurationMs) => {
+          setGenerationProgress({ startedAt: getNowMs(), estimatedDurationMs });
+        },
+        onPhase: setPhase,
+        onStreamProgress: (stream) => {
+          setGenerationProgress((prev) => (prev ? { ...prev, stream } : prev));
+        },
+      };
       let runResult: RunToolOnImageResult;
+      // The other candidates of a variant run; the first one is `runResult`.
+      let otherVariantResults: RunToolOnImageResult[] = [];
       try {
-        runResult = await runToolOnImageTracked(
-          {
-            tool,
-            toolModel,
-            requiresEditImage,
-            targetImage,
-            params,
-            constrainedReferences,
-            reasoningByTool,
-            generationTiming: generationTimingRef.current,
-            resolvedApiKey: effectiveApiKey,
-            useEnvDefaultModelId: Boolean(envApiKey && !apiKey),
-            signal: abortController.signal,
-            onProgressStart: (estimatedDurationMs) => {
-              setGenerationProgress({ startedAt: getNowMs(), estimatedDurationMs });
-            },
-            onPhase: setPhase,
-          },
-          false,
-        );
+        if (variantCount > 1) {
+          [runResult, ...otherVariantResults] = await runToolVariants(runArgs, variantCount);
+        } else {
+          runResult = await runToolOnImageTracked(runArgs, false);
+        }
       } catch (error) {
         if (error instanceof MissingApiKeyError) {
           setGenerationProgress(null);
@@ -2392,7 +3043,7 @@ export function ImageToolsWorkspace({
             isProcessing: false,
             error: error.message,
           }));
-          return;
+          return false;
         }
         throw error;
       }
@@ -2478,10 +3129,13 @@ export function ImageToolsWorkspace({
               : requiresEditImage && targetImage
                 ? editSourceParentId
                 : constrainedReferences[0]?.id || null,
+          referenceImageIds: constrainedReferences.length
+            ? constrainedReferences.map((reference) => reference.id)
+            : null,
           incomingSlotId,
           imageData,
           toolId: tool.id,
-          parameters: params,
+          parameters: withoutMaskParams(tool, params),
           durationMs,
           cost,
           model,
@@ -2496,6 +3150,7 @@ export function ImageToolsWorkspace({
           // reference-only or from-scratch generation is a new work and must
           // not inherit anyone's credits.
           credits: requiresEditImage && targetImage ? (targetImage.credits ?? null) : null,
+          bookId,
           ...extraFields,
         };
 
@@ -2560,7 +3215,7 @@ export function ImageToolsWorkspace({
             rightPanelImageId: newItem.id,
             isProcessing: false,
           }));
-          return;
+          return true;
         }
 
         // Final phase: split the generated sheet into individual images.
@@ -2804,7 +3459,7 @@ export function ImageToolsWorkspace({
               } but ${panelCaptions?.length ?? 0} captions were found, so the text could not be matched to individual images automatically. The full text is on the combined sheet — please check the image/text pairings carefully.`,
             }));
           }
-          return;
+          return true;
         }
 
         const gifImageData = await createAnimatedGif(imageDataItems, {
@@ -2831,11 +3486,23 @@ export function ImageToolsWorkspace({
         }
         appendHistoryEntry(gifItem);
         finalizeDerivedItems(gifSheetItem ? [gifItem, gifSheetItem] : [gifItem]);
-        return;
+        return true;
       }
 
       throwIfCancelled();
       const newItem = await createHistoryItem(processedImageData);
+      const otherVariantItems: ImageRecord[] = [];
+      for (const variant of otherVariantResults) {
+        otherVariantItems.push(
+          await createHistoryItem(variant.processedImageData, undefined, {
+            durationMs: variant.durationMs,
+            cost: variant.cost,
+            model: variant.model,
+            reasoningLevel: variant.reasoningLevelForRequest,
+            promptUsed: variant.prompt,
+          }),
+        );
+      }
 
       if (progressStartedAt > 0) {
         const observedDurationMs = Math.max(1, getNowMs() - progressStartedAt);
@@ -2846,11 +3513,22 @@ export function ImageToolsWorkspace({
 
       appendHistoryEntry(newItem);
       setGenerationProgress(null);
+      if (otherVariantItems.length) {
+        // Every candidate is kept in history, but none becomes the result (or
+        // a "Use this" candidate) until the user picks one from the chooser.
+        otherVariantItems.forEach((item) => appendHistoryEntry(item));
+        const candidateIds = [newItem.id, ...otherVariantItems.map((item) => item.id)];
+        setVariantCandidateIds(candidateIds);
+        setResultImageIds(candidateIds);
+        setState((prev) => ({ ...prev, rightPanelImageId: null, isProcessing: false }));
+        return true;
+      }
       setState((prev) => ({
         ...prev,
         rightPanelImageId: newItem.id, // Result goes to right panel
         isProcessing: false,
       }));
+      return true;
     } catch (error) {
       const isAbortError =
         error instanceof DOMException
@@ -2879,6 +3557,7 @@ export function ImageToolsWorkspace({
           error: errorContent,
         }));
       }
+      return false;
     } finally {
       if (requestAbortControllerRef.current === abortController) {
         requestAbortControllerRef.current = null;
@@ -2895,10 +3574,13 @@ export function ImageToolsWorkspace({
   // ratio, autoSize) still resolve inside runToolOnImage using that image's own
   // resolution. Only ever called for allowBatch tools, which always require an
   // edit-image target — no reference-only/from-scratch branch to handle here.
-  const handleApplyBatchTool = async (toolId: string, params: Record<string, string>) => {
-    const tool = TOOLS.find((t) => t.id === toolId);
+  const handleApplyBatchTool = async (toolId: string, requestedParams: Record<string, string>) => {
+    const tool = getAllTools().find((t) => t.id === toolId);
     if (!tool || !toolSupportsBatch(tool)) return;
     if (state.isProcessing) return;
+    // A mask is drawn on one particular image, so it never carries over to
+    // the ticked book images.
+    const params = withoutMaskParams(tool, requestedParams);
 
     // Book-strip order, not Set insertion order.
     const orderedIncomingIds = bookImageSlotIds.filter((id) => batchTickedIds.has(id));
@@ -2918,6 +3600,15 @@ export function ImageToolsWorkspace({
     }
     const constrainedReferences = referenceItems.slice(0, max);
 
+    // Unpriced models count as free: a used-up cap still stops them, but
+    // nothing is reserved for them.
+    const estimatedCostPerImageUsd = getEstimatedCostPerImageUsd(tool, modelByTool) ?? 0;
+    const budgetStop = getSpendBudgetStop(estimatedCostPerImageUsd);
+    if (budgetStop) {
+      setState((prev) => ({ ...prev, error: budgetStop }));
+      return;
+    }
+
     setResultImageIds([]);
     setState((prev) => ({ ...prev, isProcessing: true, error: null }));
 
@@ -2937,6 +3628,9 @@ export function ImageToolsWorkspace({
     let completedCount = 0;
     let shouldRefreshCredits = false;
     let stoppedByMissingApiKey: string | null = null;
+    let stoppedByBudget: string | null = null;
+    // Estimated cost of the images in flight, which the ledger doesn't have yet.
+    let pendingSpendUsd = 0;
 
     // One image's worth of work, run by the pool (lib/batchPool.ts) with up
     // to BATCH_CONCURRENCY in flight at once. Throws on any failure; the pool
@@ -2951,6 +3645,15 @@ export function ImageToolsWorkspace({
         throw new Error(`Book image ${incomingId} is no longer available.`);
       }
 
+      // Checked per image, not once up front, so a batch stops at the cap
+      // rather than after it. Like a missing key, this ends the whole run.
+      const imageBudgetStop = getSpendBudgetStop(estimatedCostPerImageUsd, pendingSpendUsd);
+      if (imageBudgetStop) {
+        stoppedByBudget ??= imageBudgetStop;
+        abortController.abort();
+        throw new DOMException("Generation cancelled.", "AbortError");
+      }
+
       try {
         const referenceStyleId =
           constrainedReferences
@@ -2963,6 +3666,8 @@ export function ImageToolsWorkspace({
           null;
         const sourceSummary = formatSourceSummary(1, constrainedReferences.length);
 
+        // Reserved until the run settles; from then on its cost is in the ledger.
+        pendingSpendUsd += estimatedCostPerImageUsd;
         const runResult = await runToolOnImageTracked(
           {
             tool,
@@ -2974,15 +3679,21 @@ export function ImageToolsWorkspace({
             reasoningByTool,
             generationTiming: generationTimingRef.current,
             resolvedApiKey: effectiveApiKey,
+            providerApiKeys,
             useEnvDefaultModelId: Boolean(envApiKey && !apiKey),
             signal: abortController.signal,
             // No right-panel loading overlay for batch runs (WP5 owns the
             // dedicated progress bar); these are deliberate no-ops.
             onProgressStart: () => {},
             onPhase: () => {},
+            // Streamed only so that cancelling the batch stops in-flight
+            // generations; there is nowhere to show the progress.
+            onStreamProgress: () => {},
           },
           true,
-        );
+        ).finally(() => {
+          pendingSpendUsd -= estimatedCostPerImageUsd;
+        });
 
         shouldRefreshCredits = shouldRefreshCredits || runResult.shouldRefreshCredits;
 
@@ -3017,6 +3728,9 @@ export function ImageToolsWorkspace({
         let newItem: ImageRecord = {
           id: uuid(),
           parentId,
+          referenceImageIds: constrainedReferences.length
+            ? constrainedReferences.map((reference) => reference.id)
+            : null,
           incomingSlotId,
           imageData: runResult.processedImageData,
           toolId: tool.id,
@@ -3032,6 +3746,7 @@ export function ImageToolsWorkspace({
           resolution,
           isStarred: false,
           credits: targetImage.credits ?? null,
+          bookId,
         };
 
         if (fsBinding) {
@@ -3061,7 +3776,7 @@ export function ImageToolsWorkspace({
         // batchTickedIds (the WP3 effect), so successful images untick
         // themselves as they land.
         if (incomingSlotId) {
-          handleAssignReplacement(incomingSlotId, newItem.id);
+          assignReplacement(incomingSlotId, newItem.id);
         }
 
         // A pinned inspector (the user clicked a strip item to inspect it)
@@ -3091,34 +3806,7 @@ export function ImageToolsWorkspace({
     await runBatchPool(
       orderedIncomingIds,
       processOneImage,
-      {
-        concurrency: BATCH_CONCURRENCY,
-        retryDelaysMs: resolveBatchRetryDelaysMs(),
-        maxRetries: BATCH_RATE_LIMIT_MAX_RETRIES,
-        signal: abortController.signal,
-        isRateLimited: (error) =>
-          error instanceof OpenRouterApiError && error.reason === "rate-limited",
-        isAbortError: (error) =>
-          error instanceof DOMException
-            ? error.name === "AbortError"
-            : (error as any)?.name === "AbortError",
-        wait: (ms, signal) =>
-          new Promise<void>((resolve, reject) => {
-            if (signal.aborted) {
-              reject(new DOMException("Generation cancelled.", "AbortError"));
-              return;
-            }
-            const timeoutId = setTimeout(resolve, ms);
-            signal.addEventListener(
-              "abort",
-              () => {
-                clearTimeout(timeoutId);
-                reject(new DOMException("Generation cancelled.", "AbortError"));
-              },
-              { once: true },
-            );
-          }),
-      },
+      createBatchPoolConfig(abortController.signal),
       {
         onStart: (incomingId) => {
           setBatchRun((prev) =>
@@ -3165,14 +3853,15 @@ export function ImageToolsWorkspace({
       },
     );
 
-    const cancelled = abortController.signal.aborted && !stoppedByMissingApiKey;
+    const stopMessage = stoppedByMissingApiKey ?? stoppedByBudget;
+    const cancelled = abortController.signal.aborted && !stopMessage;
 
     setBatchRun(null);
     setState((prev) => ({
       ...prev,
       isProcessing: false,
-      error: stoppedByMissingApiKey
-        ? stoppedByMissingApiKey
+      error: stopMessage
+        ? stopMessage
         : !cancelled && failedIncomingIds.length
           ? `${completedCount} of ${orderedIncomingIds.length} images processed; ${failedIncomingIds.length} failed — the failed images are still ticked, run again to retry.`
           : prev.error,
@@ -3196,6 +3885,15 @@ export function ImageToolsWorkspace({
     }));
   }, []);
 
+  // A mask is painted over one specific "Image to Edit"; drop it as soon as
+  // the target changes so it can't be applied to a different picture.
+  const maskTargetIdRef = useRef(state.targetImageId);
+  useEffect(() => {
+    if (maskTargetIdRef.current === state.targetImageId) return;
+    maskTargetIdRef.current = state.targetImageId;
+    setParamsByTool((prev) => clearMaskParams(prev));
+  }, [state.targetImageId]);
+
   const handleUpload = useCallback(
     async (file: File, targetPanel: "target" | "right") => {
       try {
@@ -3215,6 +3913,9 @@ export function ImageToolsWorkspace({
           promptUsed: "Original Upload",
           resolution: dimensions,
           isStarred: false,
+          // A file this app exported brings its tool, prompt, credits and
+          // lineage back with it.
+          ...(await restoreImageRecordFieldsFromFile(file, stateRef.current.history)),
         };
 
         if (fsBinding) {
@@ -3276,6 +3977,9 @@ export function ImageToolsWorkspace({
           promptUsed: "Original Upload",
           resolution: dimensions,
           isStarred: false,
+          // A file this app exported brings its tool, prompt, credits and
+          // lineage back with it.
+          ...(await restoreImageRecordFieldsFromFile(file, stateRef.current.history)),
         };
 
         if (fsBinding) {
@@ -3335,6 +4039,9 @@ export function ImageToolsWorkspace({
           promptUsed: "Original Upload",
           resolution: dimensions,
           isStarred: false,
+          // A file this app exported brings its tool, prompt, credits and
+          // lineage back with it.
+          ...(await restoreImageRecordFieldsFromFile(file, stateRef.current.history)),
         };
 
         if (fsBinding) {
@@ -3376,7 +4083,7 @@ export function ImageToolsWorkspace({
         return;
       }
 
-      const tool = activeToolId ? TOOLS.find((t) => t.id === activeToolId) : null;
+      const tool = activeToolId ? getAllTools().find((t) => t.id === activeToolId) : null;
       const requiresEditImage = tool?.editImage !== false;
       const referenceMode = getToolReferenceMode(activeToolId);
       const { max } = getReferenceConstraints(referenceMode);
@@ -3512,6 +4219,11 @@ export function ImageToolsWorkspace({
     setState((prev) => ({ ...prev, isAuthenticated: true }));
   };
 
+  const handleProvideOpenAIKey = (key: string) => {
+    if (demoOnly) return;
+    setOpenAIApiKey(key.trim() || null);
+  };
+
   const handleSetReferenceAt = (index: number, id: string) => {
     const mode = getToolReferenceMode(activeToolId);
     const { max } = getReferenceConstraints(mode);
@@ -3571,17 +4283,51 @@ export function ImageToolsWorkspace({
     setState((prev) => ({ ...prev, rightPanelImageId: id }));
   };
 
+  const recordUndo = useCallback((label: string, changes: WorkspaceChange[]) => {
+    const next = recordUndoEntry(undoHistoryRef.current, { label, changes });
+    if (next === undoHistoryRef.current) return;
+    undoHistoryRef.current = next;
+    setUndoHistory(next);
+  }, []);
+
+  // Applies a strip edit and records it. The edit is worked out against the
+  // latest snapshot so it can be recorded; a queued update that lands first
+  // gets the edit re-applied on top of it instead.
+  const commitStripChange = useCallback(
+    (label: string, update: (prev: ThumbnailStripsSnapshot) => ThumbnailStripsSnapshot) => {
+      const before = thumbnailStripsRef.current;
+      const after = update(before);
+      const changes = diffThumbnailStrips(before, after);
+      if (!changes.length) return;
+      setThumbnailStrips((prev) => (prev === before ? after : update(prev)));
+      recordUndo(label, changes);
+    },
+    [recordUndo],
+  );
+
+  // Automatic assignments (a batch result landing in its slot) go through
+  // here directly and aren't undoable; the user's own go through
+  // handleAssignReplacement.
+  const assignReplacement = useCallback((incomingId: string, replacementId: string | null) => {
+    if (replacementId) {
+      replacementAssignedAtRef.current[`${incomingId}:${replacementId}`] = Date.now();
+    }
+    setReplacementImageIdByIncomingId((prev) => ({
+      ...prev,
+      [incomingId]: replacementId,
+    }));
+  }, []);
+
   const handleAssignReplacement = useCallback(
     (incomingId: string, replacementId: string | null) => {
-      if (replacementId) {
-        replacementAssignedAtRef.current[`${incomingId}:${replacementId}`] = Date.now();
-      }
-      setReplacementImageIdByIncomingId((prev) => ({
-        ...prev,
-        [incomingId]: replacementId,
-      }));
+      const before = replacementImageIdByIncomingIdRef.current[incomingId] ?? null;
+      assignReplacement(incomingId, replacementId);
+      if (before === replacementId) return;
+      recordUndo(replacementId ? "Assign book image" : "Clear book image", [
+        { kind: "slot", incomingId, before, after: replacementId },
+      ]);
     },
-    [],
+    [assignReplacement, recordUndo],
   );
 
   const handleRemoveReferenceAt = (index: number) => {
@@ -3591,6 +4337,12 @@ export function ImageToolsWorkspace({
     }));
   };
 
+  const handleChooseVariant = (imageId: string) => {
+    setResultImageIds([]);
+    setVariantCandidateIds([]);
+    setState((prev) => ({ ...prev, rightPanelImageId: imageId }));
+  };
+
   const handleClearRightPanel = () => {
     setResultImageIds([]);
     setState((prev) => ({ ...prev, rightPanelImageId: null }));
@@ -3762,50 +4514,70 @@ export function ImageToolsWorkspace({
     setIsInspectorPinned(false);
   }, []);
 
-  const handleRenameImage = useCallback((id: string, name: string) => {
-    const trimmed = name.trim();
-    setState((prev) => {
-      let changed = false;
-      const nextHistory = prev.history.map((item) => {
-        if (item.id !== id) {
-          return item;
-        }
-        const nextName = trimmed.length > 0 ? trimmed : null;
-        if ((item.name ?? null) === nextName) {
-          return item;
-        }
-        changed = true;
-        return { ...item, name: nextName };
-      });
-      return changed ? { ...prev, history: nextHistory } : prev;
-    });
-  }, []);
-
-  const handleToggleHistoryStar = useCallback((id: string) => {
-    let toggled: boolean | null = null;
-    setState((prev) => {
-      let changed = false;
-      const nextHistory = prev.history.map((item) => {
-        if (item.id !== id) {
-          return item;
-        }
-        changed = true;
-        toggled = !item.isStarred;
-        return { ...item, isStarred: toggled };
+  const handleRenameImage = useCallback(
+    (id: string, name: string) => {
+      const trimmed = name.trim();
+      const nextName = trimmed.length > 0 ? trimmed : null;
+      const item = stateRef.current.history.find((entry) => entry.id === id);
+      if (item && (item.name ?? null) !== nextName) {
+        recordUndo("Rename image", [
+          {
+            kind: "metadata",
+            imageId: id,
+            before: { name: item.name ?? null },
+            after: { name: nextName },
+          },
+        ]);
+      }
+      setState((prev) => {
+        let changed = false;
+        const nextHistory = prev.history.map((item) => {
+          if (item.id !== id) {
+            return item;
+          }
+          if ((item.name ?? null) === nextName) {
+            return item;
+          }
+          changed = true;
+          return { ...item, name: nextName };
+        });
+        return changed ? { ...prev, history: nextHistory } : prev;
       });
-      return changed ? { ...prev, history: nextHistory } : prev;
-    });
+    },
+    [recordUndo],
+  );
 
-    if (toggled === null) {
-      return;
-    }
-    setThumbnailStrips((prev) => {
-      if (toggled) {
-        return addItemToStrip(prev, "starred", id);
+  const handleToggleHistoryStar = useCallback(
+    (id: string) => {
+      const item = stateRef.current.history.find((entry) => entry.id === id);
+      if (!item) {
+        return;
       }
-      return removeItemFromStrip(prev, "starred", id);
-    });
-  }, []);
+      const toggled = !item.isStarred;
+      setState((prev) => ({
+        ...prev,
+        history: prev.history.map((entry) =>
+          entry.id === id ? { ...entry, isStarred: toggled } : entry,
+        ),
+      }));
+
+      const stripsBefore = thumbnailStripsRef.current;
+      const updateStrips = (prev: ThumbnailStripsSnapshot) =>
+        toggled ? addItemToStrip(prev, "starred", id) : removeItemFromStrip(prev, "starred", id);
+      const stripsAfter = updateStrips(stripsBefore);
+      setThumbnailStrips((prev) => (prev === stripsBefore ? stripsAfter : updateStrips(prev)));
+      recordUndo(toggled ? "Star image" : "Unstar image", [
+        {
+          kind: "metadata",
+          imageId: id,
+          before: { isStarred: !!item.isStarred },
+          after: { isStarred: toggled },
+        },
+        ...diffThumbnailStrips(stripsBefore, stripsAfter),
+      ]);
+    },
+    [recordUndo],
+  );
 
   const handleStripItemDrop = useCallback(
     (
@@ -3825,7 +4597,10 @@ export function ImageToolsWorkspace({
       if (!exists) {
         return;
       }
-      setThumbnailStrips((prev) => {
+      const isReorder = (thumbnailStripsRef.current.itemIdsByStrip[stripId] || []).includes(
+        draggedId,
+      );
+      commitStripChange(isReorder ? "Reorder strip" : "Add to strip", (prev) => {
         const current = prev.itemIdsByStrip[stripId] || [];
         if (current.includes(draggedId)) {
           if (!config.allowReorder) {
@@ -3836,15 +4611,18 @@ export function ImageToolsWorkspace({
         return addItemToStrip(prev, stripId, draggedId, dropIndex);
       });
     },
-    [state.history, resolvedThumbnailStripConfigs],
+    [state.history, resolvedThumbnailStripConfigs, commitStripChange],
   );
 
-  const handleStripPinToggle = useCallback((stripId: ThumbnailStripId) => {
-    setThumbnailStrips((prev) => {
-      const isPinned = prev.pinnedStripIds.includes(stripId);
-      return setStripPinState(prev, stripId, !isPinned);
-    });
-  }, []);
+  const handleStripPinToggle = useCallback(
+    (stripId: ThumbnailStripId) => {
+      const isPinned = thumbnailStripsRef.current.pinnedStripIds.includes(stripId);
+      commitStripChange(isPinned ? "Unpin strip" : "Pin strip", (prev) =>
+        setStripPinState(prev, stripId, !prev.pinnedStripIds.includes(stripId)),
+      );
+    },
+    [commitStripChange],
+  );
 
   const handleStripActivate = useCallback((stripId: ThumbnailStripId) => {
     setThumbnailStrips((prev) => setActiveStrip(prev, stripId));
@@ -3852,23 +4630,259 @@ export function ImageToolsWorkspace({
 
   const handleStripDragActivate = handleStripActivate;
 
-  const handleDeleteFromHistory = useCallback(
-    (imageId: string) => {
-      const entry = state.history.find((item) => item.id === imageId);
-      if (entry) {
-        void deleteHistoryImageFromFolder(entry);
+  // Removes history images without recording anything (also the redo of a
+  // recorded deletion).
+  const removeHistoryItems = useCallback(
+    (imageIds: string[]) => {
+      const doomed = new Set(imageIds);
+      const entries = stateRef.current.history.filter((item) => doomed.has(item.id));
+      if (fsBinding && entries.length) {
+        void deletePersistedHistoryItems(fsBinding, entries);
+      } else if (!hostManagesHistory && entries.length) {
+        trashBrowserHistoryItems(entries).catch((error) => {
+          console.error("Failed to keep deleted images in the trash", error);
+        });
       }
       setState((prev) => ({
         ...prev,
-        history: prev.history.filter((item) => item.id !== imageId),
-        targetImageId: prev.targetImageId === imageId ? null : prev.targetImageId,
-        rightPanelImageId: prev.rightPanelImageId === imageId ? null : prev.rightPanelImageId,
-        referenceImageIds: prev.referenceImageIds.filter((id) => id !== imageId),
+        history: prev.history.filter((item) => !doomed.has(item.id)),
+        targetImageId:
+          prev.targetImageId && doomed.has(prev.targetImageId) ? null : prev.targetImageId,
+        rightPanelImageId:
+          prev.rightPanelImageId && doomed.has(prev.rightPanelImageId)
+            ? null
+            : prev.rightPanelImageId,
+        referenceImageIds: prev.referenceImageIds.filter((id) => !doomed.has(id)),
       }));
-      setResultImageIds((prev) => prev.filter((id) => id !== imageId));
-      setThumbnailStrips((prev) => removeItemsFromAllStrips(prev, [imageId]));
+      setResultImageIds((prev) => prev.filter((id) => !doomed.has(id)));
+      setThumbnailStrips((prev) => removeItemsFromAllStrips(prev, imageIds));
+    },
+    [fsBinding, hostManagesHistory],
+  );
+
+  // The undo of removeHistoryItems: the images go back where they were, and
+  // into the linked folder again.
+  const restoreHistoryItems = useCallback(
+    (images: DeletedImage[]) => {
+      setState((prev) => {
+        const referenceImageIds = [...prev.referenceImageIds];
+        images
+          .filter((image) => image.referenceIndex >= 0)
+          .sort((a, b) => a.referenceIndex - b.referenceIndex)
+          .forEach(({ record, referenceIndex }) => {
+            if (referenceImageIds.includes(record.id)) return;
+            referenceImageIds.splice(
+              Math.min(referenceIndex, referenceImageIds.length),
+              0,
+              record.id,
+            );
+          });
+        return {
+          ...prev,
+          history: restoreDeletedImages(prev.history, images),
+          targetImageId:
+            prev.targetImageId ?? images.find((image) => image.wasTarget)?.record.id ?? null,
+          rightPanelImageId:
+            prev.rightPanelImageId ??
+            images.find((image) => image.wasRightPanel)?.record.id ??
+            null,
+          referenceImageIds,
+        };
+      });
+      const stored = images.map((image) => image.record).filter((item) => !!item.imageFileName);
+      if (fsBinding && stored.length) {
+        restorePersistedHistoryItems(fsBinding, stored).catch((error) => {
+          console.error("Failed to restore history images to folder", error);
+          setFsError("Could not restore image to folder.");
+        });
+      } else if (!fsBinding && !hostManagesHistory) {
+        forgetBrowserTrash(images.map((image) => image.record.id)).catch((error) => {
+          console.error("Failed to take restored images out of the trash", error);
+        });
+      }
+    },
+    [fsBinding, hostManagesHistory],
+  );
+
+  const deleteHistoryItems = useCallback(
+    (imageIds: string[]) => {
+      const current = stateRef.current;
+      const doomed = new Set(imageIds);
+      const stripsBefore = thumbnailStripsRef.current;
+      const slotChanges: WorkspaceChange[] = Object.entries(
+        replacementImageIdByIncomingIdRef.current,
+      ).flatMap(([incomingId, replacementId]) =>
+        replacementId && doomed.has(replacementId)
+          ? [{ kind: "slot" as const, incomingId, before: replacementId, after: null }]
+          : [],
+      );
+      const deleted = current.history.flatMap((record, historyIndex) =>
+        doomed.has(record.id)
+          ? [
+              {
+                record,
+                historyIndex,
+                wasTarget: current.targetImageId === record.id,
+                wasRightPanel: current.rightPanelImageId === record.id,
+                referenceIndex: current.referenceImageIds.indexOf(record.id),
+              },
+            ]
+          : [],
+      );
+      if (!deleted.length) {
+        return;
+      }
+      const label = deleted.length > 1 ? `Delete ${deleted.length} images` : "Delete image";
+      const stripChanges = diffThumbnailStrips(
+        stripsBefore,
+        removeItemsFromAllStrips(stripsBefore, imageIds),
+      );
+
+      const commit = (images: DeletedImage[]) => {
+        recordUndo(label, [{ kind: "delete", images }, ...stripChanges, ...slotChanges]);
+        removeHistoryItems(imageIds);
+      };
+      if (deleted.every((image) => image.record.imageData || !image.record.imageFileName)) {
+        commit(deleted);
+        return;
+      }
+      // The folder copy can be purged from the trash before an undo, so bytes
+      // that were never loaded are read first; undo writes them back.
+      void Promise.all(
+        deleted.map(async (image) => ({
+          ...image,
+          record: await loadHistoryImageFromFolder(image.record),
+        })),
+      ).then(commit);
     },
-    [state.history, deleteHistoryImageFromFolder],
+    [loadHistoryImageFromFolder, recordUndo, removeHistoryItems],
+  );
+
+  // "Recently deleted": deleted images stay in the trash of wherever history
+  // lives (the linked folder, or the browser) until their tombstone expires.
+  const historyTrash = useMemo(() => createHistoryTrash(fsBinding), [fsBinding]);
+
+  const refreshRecentlyDeleted = useCallback(async () => {
+    setRecentlyDeletedLoading(true);
+    try {
+      setRecentlyDeleted(await historyTrash.list());
+    } catch (error) {
+      console.error("Failed to list recently deleted images", error);
+      setRecentlyDeleted([]);
+    } finally {
+      setRecentlyDeletedLoading(false);
+    }
+  }, [historyTrash]);
+
+  useEffect(() => {
+    if (!isRecentlyDeletedOpen) return;
+    void refreshRecentlyDeleted();
+  }, [isRecentlyDeletedOpen, refreshRecentlyDeleted]);
+
+  const handleRestoreDeleted = useCallback(
+    async (id: string) => {
+      try {
+        const record = await historyTrash.restore(id);
+        if (record && !stateRef.current.history.some((item) => item.id === id)) {
+          appendHistoryEntry(record);
+        }
+      } catch (error) {
+        console.error("Failed to restore deleted image", error);
+        if (fsBinding) {
+          setFsError("Could not restore image from folder.");
+        }
+      }
+      await refreshRecentlyDeleted();
+    },
+    [appendHistoryEntry, fsBinding, historyTrash, refreshRecentlyDeleted],
+  );
+
+  const handleDeletePermanently = useCallback(
+    async (id: string) => {
+      try {
+        await historyTrash.purge(id);
+      } catch (error) {
+        console.error("Failed to delete image permanently", error);
+        if (fsBinding) {
+          setFsError("Could not delete image from folder.");
+        }
+      }
+      await refreshRecentlyDeleted();
+    },
+    [fsBinding, historyTrash, refreshRecentlyDeleted],
+  );
+
+  useEffect(() => {
+    setFindSimilarImagesHandler((imageId) => {
+      setSimilarImagesView({ kind: "similar", imageId });
+      setIsSimilarImagesOpen(true);
+    });
+    return () => setFindSimilarImagesHandler(null);
+  }, []);
+
+  // Hashes are worked out the first time an image is compared and kept on its
+  // record. Images whose bytes aren't loaded are read from the folder one at a
+  // time and not kept in memory.
+  useEffect(() => {
+    if (!isSimilarImagesOpen) return;
+    const wantedIds = new Set(thumbnailStripsRef.current.itemIdsByStrip.history || []);
+    if (similarImagesView.kind === "similar") wantedIds.add(similarImagesView.imageId);
+    const pending = stateRef.current.history.filter(
+      (item) => wantedIds.has(item.id) && !getPerceptualHash(item),
+    );
+    if (!pending.length) return;
+
+    let cancelled = false;
+    const hashes = new Map<string, string>();
+    const commitHashes = () => {
+      if (!hashes.size) return;
+      const computed = new Map(hashes);
+      hashes.clear();
+      setState((prev) => ({
+        ...prev,
+        history: prev.history.map((item) => {
+          const hash = computed.get(item.id);
+          return hash && item.perceptualHash !== hash ? { ...item, perceptualHash: hash } : item;
+        }),
+      }));
+    };
+    setSimilarHashProgress({ done: 0, total: pending.length });
+    void (async () => {
+      for (const [index, item] of pending.entries()) {
+        if (cancelled) return;
+        try {
+          const loaded = item.imageData ? item : await loadHistoryImageFromFolder(item);
+          const hash = await computePerceptualHash(loaded.imageData);
+          if (hash) hashes.set(item.id, hash);
+        } catch (error) {
+          console.error("Failed to hash history image", item.id, error);
+        }
+        if (!cancelled && (index + 1) % 10 === 0) {
+          setSimilarHashProgress({ done: index + 1, total: pending.length });
+        }
+      }
+      if (cancelled) return;
+      commitHashes();
+      setSimilarHashProgress(null);
+    })();
+
+    return () => {
+      cancelled = true;
+      commitHashes();
+      setSimilarHashProgress(null);
+    };
+  }, [isSimilarImagesOpen, loadHistoryImageFromFolder, similarImagesView]);
+
+  const handleDeleteFromHistory = useCallback(
+    (imageId: string) => deleteHistoryItems([imageId]),
+    [deleteHistoryItems],
+  );
+
+  // Lineage "delete branch": the image and everything made from it, as one
+  // folder operation (all tombstones first).
+  const handleDeleteHistoryBranch = useCallback(
+    (imageId: string) => deleteHistoryItems(collectBranchIds(state.history, imageId)),
+    [deleteHistoryItems, state.history],
   );
 
   const handleStripRemoveItem = useCallback(
@@ -3882,14 +4896,14 @@ export function ImageToolsWorkspace({
         return;
       }
 
-      setThumbnailStrips((prev) => removeItemFromStrip(prev, stripId, imageId));
+      commitStripChange("Remove from strip", (prev) => removeItemFromStrip(prev, stripId, imageId));
     },
-    [handleDeleteFromHistory, resolvedThumbnailStripConfigs],
+    [handleDeleteFromHistory, resolvedThumbnailStripConfigs, commitStripChange],
   );
 
   const handleAssignBookImageCurrent = useCallback(
     (incomingId: string | null, currentImageId: string) => {
-      setThumbnailStrips((prev) => {
+      commitStripChange("Change book image", (prev) => {
         const currentIds = prev.itemIdsByStrip.bookImages || [];
         const nextIds = replaceBookImageStripItem(currentIds, incomingId, currentImageId);
         if (
@@ -3901,13 +4915,164 @@ export function ImageToolsWorkspace({
         return replaceStripItems(prev, "bookImages", nextIds);
       });
     },
-    [],
+    [commitStripChange],
+  );
+
+  const applyUndoChanges = useCallback(
+    (changes: WorkspaceChange[], direction: UndoDirection) => {
+      const deletedImages = changes.flatMap((change) =>
+        change.kind === "delete" ? change.images : [],
+      );
+      const existingIds = new Set(stateRef.current.history.map((item) => item.id));
+      if (deletedImages.length && direction === "undo") {
+        restoreHistoryItems(deletedImages);
+        deletedImages.forEach((image) => existingIds.add(image.record.id));
+      } else if (deletedImages.length) {
+        removeHistoryItems(deletedImages.map((image) => image.record.id));
+        deletedImages.forEach((image) => existingIds.delete(image.record.id));
+      }
+
+      const metadataById = new Map<string, ImageMetadataEdit>();
+      changes.forEach((change) => {
+        if (change.kind === "metadata") {
+          metadataById.set(change.imageId, {
+            ...metadataById.get(change.imageId),
+            ...pickChangeSide(change, direction),
+          });
+        }
+      });
+      if (metadataById.size) {
+        setState((prev) => ({
+          ...prev,
+          history: prev.history.map((item) => {
+            const edit = metadataById.get(item.id);
+            return edit ? { ...item, ...edit } : item;
+          }),
+        }));
+      }
+
+      const slots = changes.flatMap((change) =>
+        change.kind === "slot"
+          ? [{ incomingId: change.incomingId, replacementId: pickChangeSide(change, direction) }]
+          : [],
+      );
+      if (slots.length) {
+        slots.forEach(({ incomingId, replacementId }) => {
+          if (replacementId) {
+            replacementAssignedAtRef.current[`${incomingId}:${replacementId}`] = Date.now();
+          }
+        });
+        setReplacementImageIdByIncomingId((prev) => {
+          const next = { ...prev };
+          slots.forEach(({ incomingId, replacementId }) => {
+            next[incomingId] = replacementId;
+          });
+          return next;
+        });
+      }
+
+      if (changes.some((change) => change.kind === "strip-items" || change.kind === "strip-pin")) {
+        setThumbnailStrips((prev) => applyStripChanges(prev, changes, direction, existingIds));
+      }
+    },
+    [removeHistoryItems, restoreHistoryItems],
   );
 
+  const stepUndoHistory = useCallback(
+    (direction: UndoDirection) => {
+      const taken = takeUndoEntry(undoHistoryRef.current, direction);
+      if (!taken) return;
+      undoHistoryRef.current = taken.history;
+      setUndoHistory(taken.history);
+      applyUndoChanges(withDeletedImageBytes(taken.entry, taken.history).changes, direction);
+    },
+    [applyUndoChanges],
+  );
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own undo.
+  useEffect(() => {
+    const handleUndoShortcut = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      const direction: UndoDirection | null =
+        key === "z" ? (event.shiftKey ? "redo" : "undo") : key === "y" ? "redo" : null;
+      if (!direction) return;
+
+      const target = event.target as HTMLElement | null;
+      const tag = target?.tagName;
+      const isEditable =
+        tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT" || !!target?.isContentEditable;
+      if (isEditable) return;
+
+      event.preventDefault();
+      stepUndoHistory(direction);
+    };
+
+    window.addEventListener("keydown", handleUndoShortcut);
+    return () => {
+      window.removeEventListener("keydown", handleUndoShortcut);
+    };
+  }, [stepUndoHistory]);
+
   const handleDismissError = () => {
     setState((prev) => ({ ...prev, error: null }));
   };
 
+  // Put a recorded run's tool, settings, model and inputs back in place so
+  // the user can tweak them before applying.
+  const restoreRegenerateSetup = (setup: RegenerateSetup) => {
+    const { toolId, modelId, reasoningLevel } = setup;
+    handleToolSelectWithConstraints(toolId);
+    setParamsByTool((prev) => ({ ...prev, [toolId]: mergeRegenerateParams(prev[toolId], setup) }));
+    if (modelId) {
+      setModelByTool((prev) => ({ ...prev, [toolId]: modelId }));
+    }
+    if (reasoningLevel) {
+      setReasoningByTool((prev) => ({ ...prev, [toolId]: reasoningLevel }));
+    }
+    setState((prev) => {
+      const targetImageId = setup.targetImageId ?? prev.targetImageId;
+      return {
+        ...prev,
+        targetImageId,
+        referenceImageIds: setup.referenceImageIds,
+        rightPanelImageId: prev.rightPanelImageId === targetImageId ? null : prev.rightPanelImageId,
+      };
+    });
+  };
+
+  // Regenerate: restore the run that made `imageId`, then optionally run it
+  // `runCount` more times. Each run is handed the recorded inputs directly
+  // (the restore above hasn't rendered yet), so the variants all come out as
+  // siblings under the original's parent. Stops at the first failed or
+  // cancelled run.
+  const handleRegenerate = async (imageId: string, runCount: number) => {
+    const item = state.history.find((entry) => entry.id === imageId);
+    const setup = item ? resolveRegenerateSetup(item, state.history) : null;
+    if (!setup) {
+      return;
+    }
+    restoreRegenerateSetup(setup);
+    const params = mergeRegenerateParams(paramsByTool[setup.toolId], setup);
+    for (let run = 0; run < runCount; run += 1) {
+      if (!(await handleApplyTool(setup.toolId, params, setup))) {
+        break;
+      }
+    }
+  };
+
+  const handleRegenerateRef = useRef(handleRegenerate);
+  useEffect(() => {
+    handleRegenerateRef.current = handleRegenerate;
+  });
+  useEffect(() => {
+    setRegenerateImageHandler((imageId, runCount) => {
+      void handleRegenerateRef.current(imageId, runCount);
+    });
+    return () => setRegenerateImageHandler(null);
+  }, []);
+
   const handleToolModelChange = (toolId: string, modelId: string) => {
     setModelByTool((prev) => ({ ...prev, [toolId]: modelId }));
   };
@@ -3916,6 +5081,86 @@ export function ImageToolsWorkspace({
     setReasoningByTool((prev) => ({ ...prev, [toolId]: level }));
   };
 
+  const handleToolVariantsChange = (toolId: string, count: number) => {
+    setVariantsByTool((prev) => ({ ...prev, [toolId]: count }));
+  };
+
+  const applyCustomTools = (next: CustomToolSpec[]) => {
+    registerCustomTools(next);
+    setCustomTools(next);
+    // New tools (or new params on an edited one) need default values.
+    setParamsByTool((prev) => mergeParamsWithDefaults(prev));
+  };
+
+  const handleSaveCustomTool = (spec: CustomToolSpec) => {
+    applyCustomTools(mergeCustomToolSpecs(customTools, [spec]));
+    setActiveToolId(spec.id);
+  };
+
+  const handleDeleteCustomTool = (toolId: string) => {
+    applyCustomTools(customTools.filter((spec) => spec.id !== toolId));
+    if (activeToolId === toolId) {
+      setActiveToolId(null);
+    }
+  };
+
+  const handleExportCustomTools = () => {
+    downloadBlob(
+      new Blob([serializeCustomTools(customTools)], { type: "application/json5" }),
+      "bloom-ai-tools.json5",
+    );
+  };
+
+  const handleImportCustomTools = (file: File) => {
+    void file
+      .text()
+      .then((text) => {
+        applyCustomTools(mergeCustomToolSpecs(customToolsRef.current, parseCustomToolsFile(text)));
+      })
+      .catch((error: unknown) => {
+        setState((prev) => ({
+          ...prev,
+          error: error instanceof Error ? error.message : "Could not import that tools file.",
+        }));
+      });
+  };
+
+  const applyCustomArtStyles = (next: ArtStyleDefinition[]) => {
+    registerCustomArtStyles(next);
+    setCustomArtStyles(next);
+  };
+
+  const handleSaveCustomArtStyle = (style: ArtStyleDefinition) => {
+    applyCustomArtStyles(mergeCustomArtStyles(customArtStylesRef.current, [style]));
+  };
+
+  const handleDeleteCustomArtStyle = (styleId: string) => {
+    applyCustomArtStyles(customArtStylesRef.current.filter((style) => style.id !== styleId));
+  };
+
+  const handleExportCustomArtStyles = () => {
+    downloadBlob(
+      new Blob([serializeCustomArtStyles(customArtStyles)], { type: "application/json5" }),
+      "bloom-ai-art-styles.json5",
+    );
+  };
+
+  const handleImportCustomArtStyles = (file: File) => {
+    void file
+      .text()
+      .then((text) => {
+        applyCustomArtStyles(
+          mergeCustomArtStyles(customArtStylesRef.current, parseCustomArtStylesFile(text)),
+        );
+      })
+      .catch((error: unknown) => {
+        setState((prev) => ({
+          ...prev,
+          error: error instanceof Error ? error.message : "Could not import that art styles file.",
+        }));
+      });
+  };
+
   const targetImage = state.targetImageId
     ? accessibleHistoryItems.find((h) => h.id === state.targetImageId) || null
     : null;
@@ -3937,10 +5182,106 @@ export function ImageToolsWorkspace({
       ) as Record<string, ImageRecord | null>,
     [historyItemsById, replacementImageIdByIncomingId],
   );
-  const currentResultItem = resultItems[0] || rightItem;
+  const isChoosingVariant =
+    resultImageIds.length > 0 && resultImageIds.every((id) => variantCandidateIds.includes(id));
+  // Nothing is "the" result (to use or commit) until a variant is picked.
+  const currentResultItem = isChoosingVariant ? null : resultItems[0] || rightItem;
   const hasBookImageReplacement = useMemo(
-    () => Object.values(replacementItemsByIncomingId).some((item) => Boolean(item?.imageData)),
-    [replacementItemsByIncomingId],
+    () =>
+      Object.entries(replacementItemsByIncomingId).some(([incomingId, item]) =>
+        isReplacementPending(appliedReplacementByIncomingId, incomingId, item),
+      ),
+    [appliedReplacementByIncomingId, replacementItemsByIncomingId],
+  );
+
+  const runApplyReplacement = useCallback(
+    (incomingId: string, apply: () => Promise<void>) =>
+      runBookSlotUpdate(incomingId, apply, {
+        onBusyChange: (id, busy) =>
+          setApplyingIncomingIds((prev) => {
+            const next = new Set(prev);
+            if (busy) {
+              next.add(id);
+            } else {
+              next.delete(id);
+            }
+            return next;
+          }),
+        onError: (message) => setState((prev) => ({ ...prev, error: message })),
+      }),
+    [],
+  );
+
+  const handleApplyReplacement = useCallback(
+    (incomingId: string) => {
+      const replacement = replacementItemsByIncomingId[incomingId];
+      const bookImage = historyItemsById[incomingId];
+      if (!onApplyReplacement || !replacement?.imageData || !bookImage) {
+        return;
+      }
+      void runApplyReplacement(incomingId, async () => {
+        const applied = await applyBookImageReplacement(
+          {
+            applyToHost: onApplyReplacement,
+            snapshotBookImage: buildBookOriginalSnapshot,
+            addToHistory: appendHistoryEntry,
+          },
+          incomingId,
+          bookImage,
+          replacement,
+        );
+        setAppliedReplacementByIncomingId((prev) =>
+          withAppliedReplacement(prev, incomingId, applied),
+        );
+      });
+    },
+    [
+      appendHistoryEntry,
+      buildBookOriginalSnapshot,
+      historyItemsById,
+      onApplyReplacement,
+      replacementItemsByIncomingId,
+      runApplyReplacement,
+    ],
+  );
+
+  const handleUndoAppliedReplacement = useCallback(
+    (incomingId: string) => {
+      const applied = appliedReplacementByIncomingId[incomingId];
+      const original = applied ? historyItemsById[applied.originalId] : null;
+      if (!onApplyReplacement || !original) {
+        return;
+      }
+      void runApplyReplacement(incomingId, async () => {
+        await onApplyReplacement(incomingId, original);
+        setAppliedReplacementByIncomingId((prev) => withoutAppliedReplacement(prev, incomingId));
+      });
+    },
+    [appliedReplacementByIncomingId, historyItemsById, onApplyReplacement, runApplyReplacement],
+  );
+
+  const bookImageApplyControls = useMemo(
+    () =>
+      onApplyReplacement
+        ? {
+            appliedReplacementIds: Object.fromEntries(
+              Object.entries(appliedReplacementByIncomingId).map(([incomingId, applied]) => [
+                incomingId,
+                applied.replacementId,
+              ]),
+            ),
+            busyIncomingIds: applyingIncomingIds,
+            onApply: handleApplyReplacement,
+            onUndo: handleUndoAppliedReplacement,
+          }
+        : undefined,
+    [
+      appliedReplacementByIncomingId,
+      applyingIncomingIds,
+      handleApplyReplacement,
+      handleUndoAppliedReplacement,
+      onApplyReplacement,
+    ],
   );
 
   const handleUseCurrentResult = useCallback(() => {
@@ -4279,12 +5620,15 @@ export function ImageToolsWorkspace({
             appState={state}
             modelByTool={modelByTool}
             reasoningByTool={reasoningByTool}
+            variantsByTool={variantsByTool}
             measuredStatsByKey={measuredStatsByKey}
             onToolModelChange={handleToolModelChange}
             onToolReasoningChange={handleToolReasoningChange}
+            onToolVariantsChange={handleToolVariantsChange}
             targetImage={batchTickedIds.size > 0 ? null : targetImage}
             batchSelectionMessage={batchSelectionMessage}
             batchSelection={batchSelection}
+            bookImageApplyControls={bookImageApplyControls}
             batchTickedCount={batchTickedIds.size}
             batchRun={batchRun}
             isBatchRunning={batchRun !== null}
@@ -4293,6 +5637,7 @@ export function ImageToolsWorkspace({
             referenceImages={referenceItems}
             rightImage={rightItem}
             resultImages={resultItems}
+            onChooseResult={isChoosingVariant ? handleChooseVariant : undefined}
             replacementItemsByIncomingId={replacementItemsByIncomingId}
             bookImagesAction={
               onCommitBookImages
@@ -4311,6 +5656,12 @@ export function ImageToolsWorkspace({
             onOpenStripPreview={handleOpenStripPreview}
             thumbnailStrips={thumbnailStrips}
             thumbnailStripConfigs={resolvedThumbnailStripConfigs}
+            historySearch={historySearch}
+            onHistorySearchChange={setHistorySearch}
+            onFindDuplicates={() => {
+              setSimilarImagesView({ kind: "duplicates" });
+              setIsSimilarImagesOpen(true);
+            }}
             onStripItemDrop={handleStripItemDrop}
             onStripRemoveItem={handleStripRemoveItem}
             onAssignReplacement={handleAssignReplacement}
@@ -4321,6 +5672,16 @@ export function ImageToolsWorkspace({
             onVisibleStripItemIdsChange={handleVisibleStripItemIdsChange}
             onApplyTool={handleApplyTool}
             onApplyBatchTool={handleApplyBatchTool}
+            customTools={customTools}
+            onSaveCustomTool={handleSaveCustomTool}
+            onDeleteCustomTool={handleDeleteCustomTool}
+            onImportCustomTools={handleImportCustomTools}
+            onExportCustomTools={handleExportCustomTools}
+            customArtStyles={customArtStyles}
+            onSaveCustomArtStyle={handleSaveCustomArtStyle}
+            onDeleteCustomArtStyle={handleDeleteCustomArtStyle}
+            onImportCustomArtStyles={handleImportCustomArtStyles}
+            onExportCustomArtStyles={handleExportCustomArtStyles}
             onCancelProcessing={handleCancelProcessing}
             onToolSelect={handleToolSelectWithConstraints}
             onParamChange={handleParamChange}
@@ -4346,6 +5707,8 @@ export function ImageToolsWorkspace({
             onSelectBookImageCurrent={handleSelectBookImageCurrent}
             onToggleHistoryStar={handleToggleHistoryStar}
             onRenameHistoryItem={handleRenameImage}
+            onRerunFromHistory={(imageId) => void handleRegenerate(imageId, 0)}
+            onDeleteHistoryBranch={handleDeleteHistoryBranch}
             onAddCharacterImage={handleAddCharacterImage}
             hasHiddenHistory={hasHiddenHistory}
             onRequestHistoryAccess={() => {
@@ -4415,6 +5778,11 @@ export function ImageToolsWorkspace({
             onOpenExternalUrl: openExternalLink,
             demoOnly,
           }}
+          openAI={
+            !demoOnly && MODEL_CATALOG.some((model) => model.provider === "openai-images")
+              ? { apiKey: openAIApiKey, onProvideKey: handleProvideOpenAIKey }
+              : undefined
+          }
           history={
             // When hosted in Bloom, the host supplies the history mechanism (the
             // per-book .ai-image-editor/ folder), so the editor's own folder-linking
@@ -4433,8 +5801,61 @@ export function ImageToolsWorkspace({
                   onDisableFolder: () => {
                     void handleDisableFolderStorage();
                   },
+                  onOpenRecentlyDeleted: () => setIsRecentlyDeletedOpen(true),
                 }
           }
+          budget={{
+            budget: spendBudget,
+            totals: getSpendTotals(spendLedger, sessionStartedAt, bookId),
+            onChange: setSpendBudget,
+            onOpenUsageReport: () => setIsUsageReportOpen(true),
+          }}
+          imageOutput={{
+            settings: imageOutput,
+            onChange: setImageOutput,
+            previewImageData: (currentResultItem ?? targetImage)?.imageData || null,
+            showCommitResize: hostManagesHistory && !imageOutputHostNotice,
+            hostNotice: imageOutputHostNotice,
+          }}
+          storage={
+            hostManagesHistory
+              ? undefined
+              : {
+                  estimate: storageEstimate,
+                  breakdown: storageBreakdown,
+                  imagesById: historyItemsById,
+                  pins: storagePins,
+                  onPinsChange: setStoragePins,
+                  onRequestPersistence: () => void handleRequestPersistentStorage(),
+                }
+          }
+        />
+        <RecentlyDeletedDialog
+          open={isRecentlyDeletedOpen}
+          items={recentlyDeleted}
+          isLoading={recentlyDeletedLoading}
+          loadImage={historyTrash.loadImage}
+          onClose={() => setIsRecentlyDeletedOpen(false)}
+          onRestore={(id) => void handleRestoreDeleted(id)}
+          onDeletePermanently={(id) => void handleDeletePermanently(id)}
+        />
+        <SimilarImagesDialog
+          open={isSimilarImagesOpen}
+          content={similarImagesContent}
+          progress={similarHashProgress}
+          keepIds={similarKeepIds}
+          onClose={() => setIsSimilarImagesOpen(false)}
+          onSelect={(id) => {
+            setIsSimilarImagesOpen(false);
+            handleSelectHistoryItem(id);
+          }}
+          onDelete={deleteHistoryItems}
+        />
+        <UsageReportDialog
+          open={isUsageReportOpen}
+          onClose={() => setIsUsageReportOpen(false)}
+          ledger={spendLedger}
+          bookId={bookId}
         />
       </Box>
       <TextFieldContextMenu />
@@ -1,14 +1,23 @@
 import React from "react";
 
+/** A point on the image as fractions of its displayed width and height. */
+export type LensPoint = { x: number; y: number };
+
 /**
  * An image component that shows a magnifying glass lens on hover.
  * The lens follows the cursor and shows a zoomed view of that area.
+ *
+ * Passing `lensPoint` makes the lens controlled: it sits wherever the prop
+ * says, and hover movement is reported through `onLensPointChange` instead.
+ * The compare view uses this to keep lenses on two images in step.
  */
 export type MagnifiableImageProps = React.ImgHTMLAttributes<HTMLImageElement> & {
   zoom?: number;
   lensSize?: number;
   lensBorderColor?: string;
   enableLens?: boolean;
+  lensPoint?: LensPoint | null;
+  onLensPointChange?: (point: LensPoint | null) => void;
 };
 
 type LensStyleState = {
@@ -29,6 +38,8 @@ export const MagnifiableImage = React.forwardRef<HTMLImageElement, MagnifiableIm
       lensBorderColor = "rgba(255,255,255,0.55)",
       src,
       enableLens = false,
+      lensPoint,
+      onLensPointChange,
       className: _unusedClassName,
       ...restImgProps
     } = props;
@@ -73,7 +84,9 @@ export const MagnifiableImage = React.forwardRef<HTMLImageElement, MagnifiableIm
       }
     }, [enableLens]);
 
-    const updateLensPosition = React.useCallback(
+    const isControlled = lensPoint !== undefined;
+
+    const showLensAt = React.useCallback(
       (clientX: number, clientY: number) => {
         if (!imageRef.current || !wrapperRef.current || !src) return;
 
@@ -123,6 +136,31 @@ export const MagnifiableImage = React.forwardRef<HTMLImageElement, MagnifiableIm
       [lensSize, src, zoom],
     );
 
+    React.useEffect(() => {
+      if (!isControlled) return;
+      const imageRect = imageRef.current?.getBoundingClientRect();
+      if (!lensPoint || !enableLens || !imageRect) {
+        setLensVisible(false);
+        return;
+      }
+      showLensAt(
+        imageRect.left + lensPoint.x * imageRect.width,
+        imageRect.top + lensPoint.y * imageRect.height,
+      );
+    }, [enableLens, isControlled, lensPoint, showLensAt]);
+
+    const updateLensPosition = (clientX: number, clientY: number) => {
+      if (!isControlled) {
+        showLensAt(clientX, clientY);
+        return;
+      }
+      const imageRect = imageRef.current?.getBoundingClientRect();
+      if (!imageRect?.width || !imageRect.height) return;
+      const x = (clientX - imageRect.left) / imageRect.width;
+      const y = (clientY - imageRect.top) / imageRect.height;
+      onLensPointChange?.(x < 0 || y < 0 || x > 1 || y > 1 ? null : { x, y });
+    };
+
     const handlePointerEnter = (event: React.PointerEvent<HTMLDivElement>) => {
       if (!src || !enableLens || !isPointerInteraction(event.pointerType)) return;
       updateLensPosition(event.clientX, event.clientY);
@@ -134,6 +172,10 @@ export const MagnifiableImage = React.forwardRef<HTMLImageElement, MagnifiableIm
     };
 
     const handlePointerLeave = () => {
+      if (isControlled) {
+        onLensPointChange?.(null);
+        return;
+      }
       setLensVisible(false);
     };
 
@@ -0,0 +1,346 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Slider,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import BrushOutlinedIcon from "@mui/icons-material/BrushOutlined";
+import GestureOutlinedIcon from "@mui/icons-material/GestureOutlined";
+import AutoFixOffOutlinedIcon from "@mui/icons-material/AutoFixOffOutlined";
+import {
+  MASK_OVERLAY_RGB,
+  maskHasCoverage,
+  maskPixelsToPaintedLayer,
+  paintedLayerToMaskPixels,
+} from "../lib/maskCompositing";
+
+type MaskTool = "brush" | "lasso" | "eraser";
+
+const OVERLAY_COLOR = `rgb(${MASK_OVERLAY_RGB.r}, ${MASK_OVERLAY_RGB.g}, ${MASK_OVERLAY_RGB.b})`;
+const DEFAULT_BRUSH_SIZE = 40;
+
+export interface MaskEditorDialogProps {
+  open: boolean;
+  /** The "Image to Edit" the mask is drawn over. */
+  imageData: string | null;
+  /** Previously saved mask (PNG data URL) to continue editing, or "". */
+  initialMask: string;
+  onClose: () => void;
+  /** Called with the new mask, or "" when nothing is painted. */
+  onSave: (maskDataUrl: string) => void;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for the mask editor."));
+    img.src = src;
+  });
+
+/**
+ * Brush/lasso editor for an inpainting mask. Painting happens on a
+ * full-resolution canvas laid over the image (shown semi-transparent); on
+ * save the painted coverage is converted to the white-on-black mask that
+ * runToolOnImage sends to the model and composites with.
+ */
+export const MaskEditorDialog: React.FC<MaskEditorDialogProps> = ({
+  open,
+  imageData,
+  initialMask,
+  onClose,
+  onSave,
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const [tool, setTool] = React.useState<MaskTool>("brush");
+  const [brushSize, setBrushSize] = React.useState(DEFAULT_BRUSH_SIZE);
+  const [isReady, setIsReady] = React.useState(false);
+  const drawingRef = React.useRef<{
+    points: Array<{ x: number; y: number }>;
+    snapshot: ImageData | null;
+  } | null>(null);
+
+  // Size the canvas to the image's natural resolution and restore any saved mask.
+  React.useEffect(() => {
+    if (!open || !imageData) return;
+    let cancelled = false;
+    setIsReady(false);
+    void (async () => {
+      try {
+        const image = await loadImage(imageData);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (initialMask) {
+          const mask = await loadImage(initialMask);
+          if (cancelled) return;
+          ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+          const maskPixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          maskPixels.data.set(maskPixelsToPaintedLayer(maskPixels.data));
+          ctx.putImageData(maskPixels, 0, 0);
+        }
+        setIsReady(true);
+      } catch (error) {
+        console.error("Failed to prepare the mask editor", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, imageData, initialMask]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / Math.max(1, rect.width),
+      y: ((event.clientY - rect.top) * canvas.height) / Math.max(1, rect.height),
+    };
+  };
+
+  // The slider is in screen pixels so the brush feels the same on any image.
+  const brushSizeInCanvasPx = (canvas: HTMLCanvasElement) => {
+    const rect = canvas.getBoundingClientRect();
+    return (brushSize * canvas.width) / Math.max(1, rect.width);
+  };
+
+  const strokeSegment = (
+    ctx: CanvasRenderingContext2D,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    width: number,
+  ) => {
+    ctx.save();
+    ctx.globalCompositeOperation = tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const drawLassoPreview = (
+    ctx: CanvasRenderingContext2D,
+    points: Array<{ x: number; y: number }>,
+    fill: boolean,
+  ) => {
+    if (points.length < 2) return;
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+    if (fill) {
+      ctx.closePath();
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.fill();
+    } else {
+      ctx.strokeStyle = OVERLAY_COLOR;
+      ctx.lineWidth = Math.max(2, ctx.canvas.width / 400);
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isReady || event.button !== 0) return;
+    const canvas = event.currentTarget;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    canvas.setPointerCapture(event.pointerId);
+    const point = toCanvasPoint(event);
+    drawingRef.current = {
+      points: [point],
+      snapshot: tool === "lasso" ? ctx.getImageData(0, 0, canvas.width, canvas.height) : null,
+    };
+    if (tool !== "lasso") {
+      strokeSegment(ctx, point, point, brushSizeInCanvasPx(canvas));
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drawing = drawingRef.current;
+    if (!drawing) return;
+    const canvas = event.currentTarget;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const point = toCanvasPoint(event);
+    const previous = drawing.points[drawing.points.length - 1];
+    drawing.points.push(point);
+    if (tool === "lasso") {
+      if (drawing.snapshot) ctx.putImageData(drawing.snapshot, 0, 0);
+      drawLassoPreview(ctx, drawing.points, false);
+      return;
+    }
+    strokeSegment(ctx, previous, point, brushSizeInCanvasPx(canvas));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drawing = drawingRef.current;
+    drawingRef.current = null;
+    if (!drawing || tool !== "lasso") return;
+    const ctx = event.currentTarget.getContext("2d");
+    if (!ctx) return;
+    if (drawing.snapshot) ctx.putImageData(drawing.snapshot, 0, 0);
+    drawLassoPreview(ctx, drawing.points, true);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      onClose();
+      return;
+    }
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const maskPixels = paintedLayerToMaskPixels(painted.data);
+    if (!maskHasCoverage(maskPixels)) {
+      onSave("");
+      return;
+    }
+    const output = document.createElement("canvas");
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputCtx = output.getContext("2d");
+    if (!outputCtx) return;
+    const maskImage = outputCtx.createImageData(canvas.width, canvas.height);
+    maskImage.data.set(maskPixels);
+    outputCtx.putImageData(maskImage, 0, 0);
+    onSave(output.toDataURL("image/png"));
+  };
+
+  return (
+    <Dialog
+      open={open && !!imageData}
+      onClose={onClose}
+      maxWidth="lg"
+      PaperProps={{
+        "data-testid": "mask-editor-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        Mark the area to change
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          data-testid="mask-editor-close"
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Stack direction="row" spacing={2} alignItems="center" sx={{ flexWrap: "wrap" }}>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={tool}
+              onChange={(_event, next: MaskTool | null) => {
+                if (next) setTool(next);
+              }}
+            >
+              <ToggleButton value="brush" data-testid="mask-tool-brush" title="Brush">
+                <BrushOutlinedIcon fontSize="small" />
+              </ToggleButton>
+              <ToggleButton value="lasso" data-testid="mask-tool-lasso" title="Lasso">
+                <GestureOutlinedIcon fontSize="small" />
+              </ToggleButton>
+              <ToggleButton value="eraser" data-testid="mask-tool-eraser" title="Eraser">
+                <AutoFixOffOutlinedIcon fontSize="small" />
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 200 }}>
+              <Typography variant="caption" color="text.secondary">
+                Size
+              </Typography>
+              <Slider
+                size="small"
+                min={4}
+                max={160}
+                value={brushSize}
+                disabled={tool === "lasso"}
+                onChange={(_event, next) => setBrushSize(next as number)}
+                aria-label="Brush size"
+              />
+            </Stack>
+            <Button size="small" onClick={handleClear} data-testid="mask-editor-clear">
+              Clear
+            </Button>
+          </Stack>
+          <Typography variant="body2" color="text.secondary">
+            Paint over the part of the image the AI may change. Everything outside the mask is kept
+            exactly as it is.
+          </Typography>
+          <Box sx={{ position: "relative", alignSelf: "center", lineHeight: 0 }}>
+            {imageData ? (
+              <img
+                src={imageData}
+                alt=""
+                draggable={false}
+                style={{ display: "block", maxWidth: "100%", maxHeight: "65vh" }}
+              />
+            ) : null}
+            <canvas
+              ref={canvasRef}
+              data-testid="mask-editor-canvas"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              style={{
+                position: "absolute",
+                inset: 0,
+                width: "100%",
+                height: "100%",
+                opacity: 0.5,
+                cursor: "crosshair",
+                touchAction: "none",
+              }}
+            />
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={!isReady}
+          data-testid="mask-editor-save"
+        >
+          Use Mask
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
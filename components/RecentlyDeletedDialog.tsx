@@ -0,0 +1,221 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import RestoreFromTrashIcon from "@mui/icons-material/RestoreFromTrash";
+import { ImageRecord, TrashedImageRecord } from "../types";
+import { getToolById } from "../lib/toolHelpers";
+import { TOMBSTONE_TTL_MS } from "../services/history/types";
+import { theme } from "../themes";
+import { TRANSPARENCY_BACKGROUND_STYLE } from "./transparencyBackground";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecentlyDeletedDialogProps {
+  open: boolean;
+  items: TrashedImageRecord[];
+  isLoading: boolean;
+  /** Reads a trashed image's bytes for its thumbnail; the list itself has none. */
+  loadImage: (record: ImageRecord) => Promise<Blob | null>;
+  onClose: () => void;
+  onRestore: (id: string) => void;
+  onDeletePermanently: (id: string) => void;
+}
+
+const describeImage = (record: TrashedImageRecord["record"]): string =>
+  record.name || record.caption || getToolById(record.toolId)?.title || record.toolId;
+
+const describeDeletion = (deletedAt: number): string => {
+  const daysLeft = Math.max(0, Math.ceil((deletedAt + TOMBSTONE_TTL_MS - Date.now()) / DAY_MS));
+  const remaining = daysLeft === 1 ? "1 day left" : `${daysLeft} days left`;
+  return `Deleted ${new Date(deletedAt).toLocaleString()} · ${remaining}`;
+};
+
+/** Shows a trashed image from an object URL, released again when the row goes. */
+const TrashedImageThumbnail: React.FC<{
+  record: ImageRecord;
+  loadImage: RecentlyDeletedDialogProps["loadImage"];
+}> = ({ record, loadImage }) => {
+  const [src, setSrc] = React.useState<string | null>(null);
+  const [failed, setFailed] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setSrc(null);
+    setFailed(false);
+    loadImage(record)
+      .then((blob) => {
+        if (cancelled) return;
+        if (!blob) {
+          setFailed(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      })
+      .catch((error) => {
+        console.error("Failed to load deleted image", error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [record, loadImage]);
+
+  if (src) {
+    return (
+      <img
+        src={src}
+        alt=""
+        style={{
+          ...TRANSPARENCY_BACKGROUND_STYLE,
+          maxWidth: "100%",
+          maxHeight: "100%",
+          objectFit: "contain",
+        }}
+      />
+    );
+  }
+  return failed ? (
+    <Typography variant="caption" sx={{ color: theme.colors.textMuted }}>
+      ??
+    </Typography>
+  ) : (
+    <CircularProgress size={16} />
+  );
+};
+
+/**
+ * Deleted history images that can still be brought back. They are kept for
+ * TOMBSTONE_TTL_MS after deletion, then removed for good.
+ */
+export const RecentlyDeletedDialog: React.FC<RecentlyDeletedDialogProps> = ({
+  open,
+  items,
+  isLoading,
+  loadImage,
+  onClose,
+  onRestore,
+  onDeletePermanently,
+}) => (
+  <Dialog
+    open={open}
+    onClose={onClose}
+    maxWidth="sm"
+    fullWidth
+    PaperProps={{
+      "data-testid": "recently-deleted-dialog",
+      sx: {
+        borderRadius: 3,
+      },
+    }}
+  >
+    <DialogTitle sx={{ pr: 6 }}>
+      Recently deleted
+      <IconButton
+        aria-label="Close"
+        onClick={onClose}
+        sx={{
+          position: "absolute",
+          right: 8,
+          top: 8,
+        }}
+      >
+        <CloseIcon />
+      </IconButton>
+    </DialogTitle>
+    <DialogContent dividers sx={{ p: 1 }}>
+      {isLoading && !items.length ? (
+        <Box sx={{ display: "flex", justifyContent: "center", p: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : !items.length ? (
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ p: 1 }}
+          data-testid="recently-deleted-empty"
+        >
+          Nothing has been deleted in the last {Math.round(TOMBSTONE_TTL_MS / DAY_MS)} days.
+        </Typography>
+      ) : (
+        items.map(({ record, deletedAt }) => (
+          <Box
+            key={record.id}
+            data-testid={`recently-deleted-item-${record.id}`}
+            sx={{ display: "flex", alignItems: "center", gap: 1.5, p: 0.75 }}
+          >
+            <Box
+              sx={{
+                width: 48,
+                height: 48,
+                flexShrink: 0,
+                borderRadius: 1,
+                overflow: "hidden",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <TrashedImageThumbnail record={record} loadImage={loadImage} />
+            </Box>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" sx={{ fontWeight: 500 }} noWrap>
+                {describeImage(record)}
+              </Typography>
+              <Typography
+                variant="caption"
+                sx={{ color: theme.colors.textSecondary, display: "block" }}
+                noWrap
+              >
+                {describeDeletion(deletedAt)}
+              </Typography>
+            </Box>
+            <Tooltip title="Put this image back in the history">
+              <IconButton
+                size="small"
+                aria-label="Restore"
+                data-testid={`recently-deleted-restore-${record.id}`}
+                onClick={() => onRestore(record.id)}
+              >
+                <RestoreFromTrashIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Delete permanently">
+              <IconButton
+                size="small"
+                aria-label="Delete permanently"
+                data-testid={`recently-deleted-purge-${record.id}`}
+                onClick={() => {
+                  if (window.confirm("Delete this image permanently? This can't be undone.")) {
+                    onDeletePermanently(record.id);
+                  }
+                }}
+              >
+                <DeleteForeverIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        ))
+      )}
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose} variant="contained">
+        Close
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
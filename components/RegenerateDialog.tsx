@@ -0,0 +1,105 @@
+import React from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { ImageRecord } from "../types";
+import { getToolById } from "../lib/toolHelpers";
+import { theme } from "../themes";
+
+const MAX_RUNS = 8;
+
+export interface RegenerateDialogProps {
+  open: boolean;
+  image: ImageRecord | null;
+  onClose: () => void;
+  /** 0 = only restore the settings; N > 0 = restore and run N times. */
+  onRegenerate: (runCount: number) => void;
+}
+
+export const RegenerateDialog: React.FC<RegenerateDialogProps> = ({
+  open,
+  image,
+  onClose,
+  onRegenerate,
+}) => {
+  const [runCount, setRunCount] = React.useState(1);
+  const toolTitle = image ? (getToolById(image.toolId)?.title ?? image.toolId) : "";
+
+  const handleRegenerate = (count: number) => {
+    onClose();
+    onRegenerate(count);
+  };
+
+  return (
+    <Dialog
+      open={open && !!image}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      PaperProps={{
+        "data-testid": "regenerate-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        Regenerate
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Puts <strong>{toolTitle}</strong> back in the workspace with the settings, model and
+          images this result was made with.
+        </Typography>
+        <TextField
+          label="Variants to make now"
+          type="number"
+          size="small"
+          value={runCount}
+          onChange={(event) => {
+            const next = Number.parseInt(event.target.value, 10);
+            setRunCount(Number.isFinite(next) ? Math.min(Math.max(next, 1), MAX_RUNS) : 1);
+          }}
+          inputProps={{ min: 1, max: MAX_RUNS, "data-testid": "regenerate-run-count" }}
+        />
+        <Typography
+          variant="caption"
+          sx={{ display: "block", mt: 1, color: theme.colors.textSecondary }}
+        >
+          Each run is billed like a normal one.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => handleRegenerate(0)} data-testid="regenerate-restore-only">
+          Just restore settings
+        </Button>
+        <Button
+          onClick={() => handleRegenerate(runCount)}
+          variant="contained"
+          data-testid="regenerate-run"
+        >
+          {runCount > 1 ? `Regenerate ×${runCount}` : "Regenerate"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
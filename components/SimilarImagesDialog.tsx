@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { ImageRecord } from "../types";
+import { NEAR_DUPLICATE_MAX_DISTANCE } from "../lib/perceptualHash";
+import { theme } from "../themes";
+import { TRANSPARENCY_BACKGROUND_STYLE } from "./transparencyBackground";
+
+/** One image the dialog lists, and how far it is from the one searched for. */
+export interface SimilarImageItem {
+  record: ImageRecord;
+  /** Hamming distance to the searched image; absent in the duplicates view. */
+  distance?: number;
+}
+
+export type SimilarImagesContent =
+  | { kind: "similar"; target: ImageRecord | null; matches: SimilarImageItem[] }
+  | { kind: "duplicates"; groups: { items: SimilarImageItem[]; suggestedIds: string[] }[] };
+
+export interface SimilarImagesDialogProps {
+  open: boolean;
+  content: SimilarImagesContent;
+  /** Set while missing hashes are being worked out. */
+  progress: { done: number; total: number } | null;
+  /** Images in use elsewhere (strips, slots), which can't be deleted from here. */
+  keepIds: ReadonlySet<string>;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const THUMB_SIZE = 96;
+
+const describeDistance = (distance: number): string =>
+  distance === 0
+    ? "Identical"
+    : distance <= NEAR_DUPLICATE_MAX_DISTANCE
+      ? "Near-duplicate"
+      : "Similar";
+
+const Thumb: React.FC<{
+  item: SimilarImageItem;
+  selected: boolean;
+  isKept: boolean;
+  onToggle: () => void;
+  onSelect: () => void;
+}> = ({ item, selected, isKept, onToggle, onSelect }) => {
+  const { record, distance } = item;
+  return (
+    <Box
+      data-testid={`similar-images-item-${record.id}`}
+      sx={{
+        width: THUMB_SIZE,
+        display: "flex",
+        flexDirection: "column",
+        gap: 0.25,
+      }}
+    >
+      <Box
+        role="button"
+        tabIndex={0}
+        aria-label="Show this image"
+        onClick={onSelect}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") onSelect();
+        }}
+        sx={{
+          position: "relative",
+          width: THUMB_SIZE,
+          height: THUMB_SIZE,
+          borderRadius: 1,
+          overflow: "hidden",
+          cursor: "pointer",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          outline: selected ? `2px solid ${theme.colors.danger}` : "none",
+          opacity: selected ? 0.6 : 1,
+        }}
+      >
+        {record.imageData ? (
+          <img
+            src={record.imageData}
+            alt=""
+            loading="lazy"
+            style={{
+              ...TRANSPARENCY_BACKGROUND_STYLE,
+              maxWidth: "100%",
+              maxHeight: "100%",
+              objectFit: "contain",
+            }}
+          />
+        ) : (
+          <Typography variant="caption" sx={{ color: theme.colors.textMuted }}>
+            Loading…
+          </Typography>
+        )}
+      </Box>
+      <Box sx={{ display: "flex", alignItems: "center", minWidth: 0 }}>
+        <Tooltip
+          title={
+            isKept ? "In use or starred, so it's kept" : selected ? "Keep" : "Mark for deletion"
+          }
+        >
+          <span>
+            <Checkbox
+              size="small"
+              checked={selected}
+              disabled={isKept}
+              onChange={onToggle}
+              sx={{ p: 0.25 }}
+              data-testid={`similar-images-select-${record.id}`}
+              inputProps={{ "aria-label": "Mark for deletion" }}
+            />
+          </span>
+        </Tooltip>
+        <Typography
+          variant="caption"
+          noWrap
+          sx={{ color: theme.colors.textSecondary, minWidth: 0 }}
+        >
+          {typeof distance === "number"
+            ? describeDistance(distance)
+            : new Date(record.timestamp).toLocaleDateString()}
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * "Find similar" for one image, and the near-duplicate groups across the
+ * history, with the copies that could go marked for deletion. Deleting goes
+ * through the normal history delete, so it can be undone.
+ */
+export const SimilarImagesDialog: React.FC<SimilarImagesDialogProps> = ({
+  open,
+  content,
+  progress,
+  keepIds,
+  onClose,
+  onSelect,
+  onDelete,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // The duplicates view starts with the suggestions ticked; ticks for images
+  // that are gone (or now in use) drop out.
+  const suggestionKey =
+    content.kind === "duplicates"
+      ? content.groups.flatMap((group) => group.suggestedIds).join(",")
+      : "";
+  useEffect(() => {
+    setSelectedIds(new Set(suggestionKey ? suggestionKey.split(",") : []));
+  }, [open, suggestionKey]);
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+  const listedIds = new Set(
+    content.kind === "similar"
+      ? content.matches.map((item) => item.record.id)
+      : content.groups.flatMap((group) => group.items.map((item) => item.record.id)),
+  );
+  const idsToDelete = [...selectedIds].filter((id) => listedIds.has(id) && !keepIds.has(id));
+
+  const renderThumb = (item: SimilarImageItem) => (
+    <Thumb
+      key={item.record.id}
+      item={item}
+      selected={idsToDelete.includes(item.record.id)}
+      isKept={keepIds.has(item.record.id)}
+      onToggle={() => toggle(item.record.id)}
+      onSelect={() => onSelect(item.record.id)}
+    />
+  );
+
+  const isEmpty = content.kind === "similar" ? !content.matches.length : !content.groups.length;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        "data-testid": "similar-images-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        {content.kind === "similar" ? "Similar images" : "Near-duplicates"}
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        {progress ? (
+          <Box sx={{ py: 2 }} data-testid="similar-images-progress">
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Comparing images… {progress.done} of {progress.total}
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={progress.total ? (progress.done / progress.total) * 100 : 0}
+            />
+          </Box>
+        ) : isEmpty ? (
+          <Typography variant="body2" color="text.secondary" data-testid="similar-images-empty">
+            {content.kind === "similar"
+              ? "No similar images in the history."
+              : "No near-duplicates in the history."}
+          </Typography>
+        ) : content.kind === "similar" ? (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            {content.target?.imageData ? (
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1.5 }}>
+                <img
+                  src={content.target.imageData}
+                  alt=""
+                  style={{
+                    ...TRANSPARENCY_BACKGROUND_STYLE,
+                    width: 48,
+                    height: 48,
+                    objectFit: "contain",
+                    borderRadius: 4,
+                  }}
+                />
+                <Typography variant="body2" color="text.secondary">
+                  Images that look like this one, closest first.
+                </Typography>
+              </Box>
+            ) : null}
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1.5 }}>
+              {content.matches.map(renderThumb)}
+            </Box>
+          </Box>
+        ) : (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              The copies marked are suggested for deletion. The starred, in-use or newest image in
+              each group is kept.
+            </Typography>
+            {content.groups.map((group, index) => (
+              <Box
+                key={group.items[0]?.record.id ?? index}
+                data-testid="similar-images-group"
+                sx={{ display: "flex", flexWrap: "wrap", gap: 1.5 }}
+              >
+                {group.items.map(renderThumb)}
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          color="error"
+          disabled={!idsToDelete.length || !!progress}
+          onClick={() => onDelete(idsToDelete)}
+          data-testid="similar-images-delete"
+        >
+          {idsToDelete.length === 1 ? "Delete 1 image" : `Delete ${idsToDelete.length} images`}
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 /**
  * StandaloneImageEditor — the editor's top-level component when running on its own
- * (no Bloom host), e.g. the demo site. Sibling of BloomHostedImageEditor: same
+ * (no Bloom host), e.g. the demo site. Sibling of HostedImageEditor: same
  * ImageToolsWorkspace, but wired to browser/localStorage persistence.
  *
  * By default the Bloom-specific "Book Images" strip is hidden so the public demo
@@ -0,0 +1,219 @@
+import React from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { downloadBlob } from "../lib/fileDownload";
+import { getToolById } from "../lib/toolHelpers";
+import { getModelNameById } from "../lib/modelsCatalog";
+import { SpendLedgerEntry, SpendLedgerOrigin } from "../lib/spendBudget";
+import {
+  buildUsageReport,
+  USAGE_GROUP_BY_OPTIONS,
+  UsageGroupBy,
+  usageReportToCsv,
+  usageReportToJson,
+} from "../lib/usageReport";
+import { theme } from "../themes";
+
+export interface UsageReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  ledger: SpendLedgerEntry[];
+  /** The host's id for the open book; enables the "this book only" filter. */
+  bookId?: string | null;
+}
+
+const GROUP_BY_LABELS: Record<UsageGroupBy, string> = {
+  tool: "Tool",
+  model: "Model",
+  day: "Day (UTC)",
+  origin: "Origin",
+};
+
+const ORIGIN_LABELS: Record<SpendLedgerOrigin, string> = {
+  blank: "New image",
+  generated: "Generated image",
+  uploaded: "Uploaded image",
+  bookImages: "Book image",
+  bookOriginal: "Book image (original)",
+};
+
+const describeKey = (groupBy: UsageGroupBy, key: string): string => {
+  if (groupBy === "tool") return getToolById(key)?.title ?? key;
+  if (groupBy === "model") return getModelNameById(key) || key;
+  if (groupBy === "origin") return ORIGIN_LABELS[key as SpendLedgerOrigin] ?? key;
+  return key;
+};
+
+/**
+ * Images made, failed attempts and AI spend from the spend ledger, grouped by
+ * tool, model, day or origin, with CSV/JSON export for accounting.
+ */
+export const UsageReportDialog: React.FC<UsageReportDialogProps> = ({
+  open,
+  onClose,
+  ledger,
+  bookId = null,
+}) => {
+  const [groupBy, setGroupBy] = React.useState<UsageGroupBy>("tool");
+  const [thisBookOnly, setThisBookOnly] = React.useState(true);
+  const report = React.useMemo(
+    () =>
+      buildUsageReport({
+        ledger,
+        groupBy,
+        bookId: thisBookOnly ? bookId : null,
+      }),
+    [ledger, groupBy, thisBookOnly, bookId],
+  );
+  const fileStem = `ai-usage-by-${groupBy}`;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        "data-testid": "usage-report-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        Usage report
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={groupBy}
+          onChange={(_event, next: UsageGroupBy | null) => {
+            if (next) setGroupBy(next);
+          }}
+          aria-label="Group by"
+          sx={{ mb: 1 }}
+        >
+          {USAGE_GROUP_BY_OPTIONS.map((option) => (
+            <ToggleButton key={option} value={option} data-testid={`usage-report-group-${option}`}>
+              {GROUP_BY_LABELS[option]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {bookId && (
+          <FormControlLabel
+            sx={{ display: "flex" }}
+            control={
+              <Switch
+                size="small"
+                checked={thisBookOnly}
+                onChange={(event) => setThisBookOnly(event.target.checked)}
+                inputProps={{ "aria-label": "This book only" }}
+              />
+            }
+            label="Leave out usage copied from other books"
+          />
+        )}
+        {report.rows.length ? (
+          <Table size="small" data-testid="usage-report-table">
+            <TableHead>
+              <TableRow>
+                <TableCell>{GROUP_BY_LABELS[groupBy]}</TableCell>
+                <TableCell align="right">Images</TableCell>
+                <TableCell align="right">Failed attempts</TableCell>
+                <TableCell align="right">Cost (USD)</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>{describeKey(groupBy, row.key)}</TableCell>
+                  <TableCell align="right">{row.images}</TableCell>
+                  <TableCell align="right">{row.failedAttempts}</TableCell>
+                  <TableCell align="right">${row.costUsd.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Total</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600 }}>
+                  {report.totals.images}
+                </TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600 }}>
+                  {report.totals.failedAttempts}
+                </TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600 }}>
+                  ${report.totals.costUsd.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        ) : (
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            Nothing has been made yet.
+          </Typography>
+        )}
+        <Typography
+          variant="caption"
+          sx={{ display: "block", mt: 1, color: theme.colors.textSecondary }}
+        >
+          Costs are what OpenRouter reported for each generation, including images since deleted
+          from history. Uploads and book images cost nothing and aren't counted.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() =>
+            downloadBlob(
+              new Blob([usageReportToCsv(report)], { type: "text/csv" }),
+              `${fileStem}.csv`,
+            )
+          }
+          disabled={!report.rows.length}
+          data-testid="usage-report-export-csv"
+        >
+          Export CSV
+        </Button>
+        <Button
+          onClick={() =>
+            downloadBlob(
+              new Blob([usageReportToJson(report)], { type: "application/json" }),
+              `${fileStem}.json`,
+            )
+          }
+          disabled={!report.rows.length}
+          data-testid="usage-report-export-json"
+        >
+          Export JSON
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,13 +1,32 @@
 import React from "react";
-import { Box, Button, Chip } from "@mui/material";
-import { GenerationProgressState, ImageRecord } from "../types";
-import { getReferenceConstraints } from "../lib/toolHelpers";
+import { Box, Button, Chip, IconButton } from "@mui/material";
+import BrushOutlinedIcon from "@mui/icons-material/BrushOutlined";
+import AccountTreeOutlinedIcon from "@mui/icons-material/AccountTreeOutlined";
+import CompareOutlinedIcon from "@mui/icons-material/CompareOutlined";
+import { CompareMode, GenerationProgressState, ImageRecord, ViewMode } from "../types";
+import { getMaskParamName, getReferenceConstraints } from "../lib/toolHelpers";
+import { HistoryLineageDialog } from "./HistoryLineageDialog";
+import { ImageCompareView } from "./ImageCompareView";
 import { ImagePanel, ImagePanelSlot } from "./ImagePanel";
-import { TOOLS } from "./tools/tools-registry";
+import { MaskEditorDialog } from "./MaskEditorDialog";
+import { getAllTools } from "../lib/customTools";
 import { theme } from "../themes";
 
 const SPLITTER_STORAGE_KEY = "workspacePanelSplitters";
 
+// The round icon buttons in the panel headers (mask, compare, edit history);
+// `active` fills them with the accent while their mode is on.
+const getPanelToggleButtonSx = (active: boolean) => ({
+  width: 32,
+  height: 32,
+  borderRadius: "50%",
+  color: active ? theme.colors.textOnAccent : theme.colors.textMuted,
+  bgcolor: active ? theme.colors.accent : "transparent",
+  "&:hover": {
+    bgcolor: active ? theme.colors.accentHover : theme.colors.overlay,
+  },
+});
+
 type SplitterState = {
   horizontal: number;
   vertical: number;
@@ -22,6 +41,23 @@ const HORIZONTAL_LIMITS = { min: 0.25, max: 0.75 } as const;
 const VERTICAL_LIMITS = { min: 0.2, max: 0.8 } as const;
 const KEYBOARD_STEP = 0.02;
 
+// "Pick" badge on each candidate of a variant run (the whole tile is the button).
+const variantPickChipSx = {
+  position: "absolute",
+  left: "50%",
+  bottom: 8,
+  transform: "translateX(-50%)",
+  px: 1.25,
+  py: 0.25,
+  borderRadius: "999px",
+  fontSize: "0.75rem",
+  fontWeight: 600,
+  color: "#fff",
+  backgroundColor: theme.colors.accent,
+  pointerEvents: "none",
+  zIndex: 3,
+} as const;
+
 const clampRatio = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
 const readStoredSplitters = (): SplitterState => {
@@ -119,6 +155,11 @@ interface WorkspaceProps {
   referenceImages: ImageRecord[];
   rightImage: ImageRecord | null;
   resultImages?: ImageRecord[];
+  /**
+   * Set while `resultImages` are the candidates of a variant run: the Result
+   * pane becomes a contact sheet and clicking a candidate makes it the result.
+   */
+  onChooseResult?: (imageId: string) => void;
   onSetTarget: (id: string) => void;
   onSetReferenceAt: (index: number, id: string) => void;
   onSetRight: (id: string) => void;
@@ -156,6 +197,20 @@ interface WorkspaceProps {
   isInspectorPinned?: boolean;
   /** Un-pins the inspector; wired to the "Follow latest" chip. */
   onUnpinInspector?: () => void;
+  /** The active tool's inpainting mask (PNG data URL, "" = none). Only used
+   *  when that tool declares a "mask" parameter. */
+  targetMask?: string;
+  /** Stores a new mask for the active tool; "" clears it. */
+  onTargetMaskChange?: (maskDataUrl: string) => void;
+  /** The image the Result was made from (its parentId), when loaded. Enables
+   *  the Result pane's compare view. */
+  compareSourceImage?: ImageRecord | null;
+  /** All history, for the Result's edit-history (lineage) dialog. */
+  historyItems?: ImageRecord[];
+  /** Loads a history image's tool and settings for another run. */
+  onRerunFromHistory?: (id: string) => void;
+  /** Deletes a history image and everything made from it. */
+  onDeleteHistoryBranch?: (id: string) => void;
 }
 
 export const Workspace: React.FC<WorkspaceProps> = ({
@@ -163,6 +218,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   referenceImages,
   rightImage,
   resultImages = [],
+  onChooseResult,
   onSetTarget,
   onSetReferenceAt,
   onSetRight,
@@ -187,8 +243,14 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   isBatchRunning = false,
   isInspectorPinned = false,
   onUnpinInspector,
+  targetMask = "",
+  onTargetMaskChange,
+  compareSourceImage = null,
+  historyItems = [],
+  onRerunFromHistory,
+  onDeleteHistoryBranch,
 }) => {
-  const tool = activeToolId ? TOOLS.find((t) => t.id === activeToolId) : null;
+  const tool = activeToolId ? getAllTools().find((t) => t.id === activeToolId) : null;
   const referenceMode = tool?.referenceImages ?? "0";
   const { max: maxReferenceCount } = getReferenceConstraints(referenceMode);
   const showReferencePanel = maxReferenceCount > 0;
@@ -202,6 +264,66 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         : "Image to Edit";
   const needsEditImage =
     activeToolId !== null && showTargetPanel && !targetImage && !batchSelectionMessage;
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = React.useState(false);
+  // Masks are per-image, so they're unavailable while ticked book images stand
+  // in for the target (batch mode).
+  const canEditMask =
+    !!getMaskParamName(tool) && !!targetImage && !batchSelectionMessage && !!onTargetMaskChange;
+  const hasMask = canEditMask && !!targetMask;
+  const maskButton = canEditMask ? (
+    <IconButton
+      type="button"
+      size="small"
+      data-testid="target-mask-button"
+      disabled={isProcessing}
+      onClick={() => setIsMaskEditorOpen(true)}
+      title={hasMask ? "Edit the area to change" : "Mark the area to change"}
+      aria-pressed={hasMask}
+      sx={getPanelToggleButtonSx(hasMask)}
+    >
+      <BrushOutlinedIcon fontSize="inherit" />
+    </IconButton>
+  ) : undefined;
+  const [resultViewMode, setResultViewMode] = React.useState<ViewMode>("single");
+  const [compareMode, setCompareMode] = React.useState<CompareMode>("swipe");
+  const canCompare =
+    !!rightImage?.imageData &&
+    !!compareSourceImage?.imageData &&
+    compareSourceImage.id !== rightImage.id &&
+    !resultImages.length;
+  const isComparing = canCompare && resultViewMode === "compare";
+  const compareSources =
+    isComparing && rightImage && compareSourceImage
+      ? { source: compareSourceImage.imageData, result: rightImage.imageData }
+      : null;
+  const compareButton = canCompare ? (
+    <IconButton
+      type="button"
+      size="small"
+      data-testid="result-compare-button"
+      onClick={() => setResultViewMode(isComparing ? "single" : "compare")}
+      title={isComparing ? "Stop comparing" : "Compare with the image it was made from"}
+      aria-pressed={isComparing}
+      sx={getPanelToggleButtonSx(isComparing)}
+    >
+      <CompareOutlinedIcon fontSize="inherit" />
+    </IconButton>
+  ) : undefined;
+  const [isLineageOpen, setIsLineageOpen] = React.useState(false);
+  const canShowLineage =
+    !!rightImage && !resultImages.length && !!onRerunFromHistory && !!onDeleteHistoryBranch;
+  const lineageButton = canShowLineage ? (
+    <IconButton
+      type="button"
+      size="small"
+      data-testid="result-lineage-button"
+      onClick={() => setIsLineageOpen(true)}
+      title="Edit history"
+      sx={getPanelToggleButtonSx(false)}
+    >
+      <AccountTreeOutlinedIcon fontSize="inherit" />
+    </IconButton>
+  ) : undefined;
   const canAddReferenceSlot =
     referenceImages.length < maxReferenceCount || !Number.isFinite(maxReferenceCount);
 
@@ -260,9 +382,16 @@ export const Workspace: React.FC<WorkspaceProps> = ({
       remove: false,
     },
     dropLabel: "",
+    ...(onChooseResult
+      ? {
+          dataTestId: `variant-candidate-${index}`,
+          onClick: () => onChooseResult(image.id),
+          overlayContent: <Box sx={variantPickChipSx}>Pick</Box>,
+        }
+      : {}),
   }));
 
-  const currentResultItem = resultImages[0] ?? rightImage;
+  const currentResultItem = onChooseResult ? null : (resultImages[0] ?? rightImage);
   const resultActionButton =
     currentResultItem?.incomingSlotId && onUseCurrentResult ? (
       <Button
@@ -577,6 +706,17 @@ export const Workspace: React.FC<WorkspaceProps> = ({
                   onToggleStar={targetImage ? () => onToggleHistoryStar(targetImage.id) : undefined}
                   needsImage={needsEditImage}
                   emptyStateMessage={batchSelectionMessage ?? undefined}
+                  headerActions={maskButton}
+                />
+                <MaskEditorDialog
+                  open={isMaskEditorOpen && canEditMask}
+                  imageData={targetImage?.imageData ?? null}
+                  initialMask={targetMask}
+                  onClose={() => setIsMaskEditorOpen(false)}
+                  onSave={(maskDataUrl) => {
+                    onTargetMaskChange?.(maskDataUrl);
+                    setIsMaskEditorOpen(false);
+                  }}
                 />
               </Box>
             )}
@@ -636,7 +776,11 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         >
           {resultSlots.length ? (
             <ImagePanel
-              label={derivedResultLabel}
+              label={
+                onChooseResult
+                  ? `Pick one of ${resultImages.length} variants (the rest stay in history)`
+                  : derivedResultLabel
+              }
               layout="grid"
               panelTestId="result-panel"
               slots={resultSlots}
@@ -663,10 +807,45 @@ export const Workspace: React.FC<WorkspaceProps> = ({
               isLoading={isProcessing && !isBatchRunning}
               loadingProgress={generationProgress}
               onToggleStar={rightImage ? () => onToggleHistoryStar(rightImage.id) : undefined}
+              headerActions={
+                compareButton || lineageButton ? (
+                  <>
+                    {compareButton}
+                    {lineageButton}
+                  </>
+                ) : undefined
+              }
+              renderImage={
+                compareSources
+                  ? ({ enableLens }) => (
+                      <ImageCompareView
+                        sourceSrc={compareSources.source}
+                        resultSrc={compareSources.result}
+                        mode={compareMode}
+                        onModeChange={setCompareMode}
+                        enableLens={enableLens}
+                      />
+                    )
+                  : undefined
+              }
             />
           )}
           {resultActionOverlay}
           {followLatestChip}
+          {canShowLineage && (
+            <HistoryLineageDialog
+              open={isLineageOpen}
+              items={historyItems}
+              focusId={rightImage?.id ?? null}
+              onClose={() => setIsLineageOpen(false)}
+              onSelect={onSetRight}
+              onRerun={(id) => {
+                setIsLineageOpen(false);
+                onRerunFromHistory?.(id);
+              }}
+              onDeleteBranch={(id) => onDeleteHistoryBranch?.(id)}
+            />
+          )}
         </Box>
       </Box>
     </Box>
@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { Box, Button, Stack, Typography } from "@mui/material";
-import type { ArtStyle } from "../../types";
+import type { ArtStyle, ArtStyleDefinition } from "../../types";
 import { theme } from "../../themes";
-import { CLEAR_ART_STYLE_ID, loadArtStylePreviewUrl } from "../../lib/artStyles";
+import { CLEAR_ART_STYLE_ID, getAllArtStyles, loadArtStylePreviewUrl } from "../../lib/artStyles";
+import { isCustomArtStyleId } from "../../lib/customArtStyles";
+import { SaveArtStyleDialog } from "./SaveArtStyleDialog";
 
 const DIALOG_MAX_WIDTH = "min(1000px, 92vw)";
 const DIALOG_MAX_HEIGHT = "min(900px, 90vh)";
@@ -15,14 +17,29 @@ interface ArtStyleChooserDialogProps {
   selectedId?: string;
   onSelect: (styleId: string) => void;
   onClose: () => void;
+  /** House styles (lib/customArtStyles): create/edit, delete, import and export. */
+  onSaveCustomStyle?: (style: ArtStyleDefinition) => void;
+  onDeleteCustomStyle?: (styleId: string) => void;
+  onImportCustomStyles?: (file: File) => void;
+  onExportCustomStyles?: () => void;
 }
 
+const toStyleDefinition = ({
+  previewUrl: _previewUrl,
+  previewAssetKey: _previewAssetKey,
+  ...definition
+}: ArtStyle): ArtStyleDefinition => definition;
+
 export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
   isOpen,
   styles,
   selectedId,
   onSelect,
   onClose,
+  onSaveCustomStyle,
+  onDeleteCustomStyle,
+  onImportCustomStyles,
+  onExportCustomStyles,
 }) => {
   // Keep the "None" option pinned to the top of the list for quick access.
   const displayStyles = useMemo(() => {
@@ -41,8 +58,13 @@ export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
       : undefined;
 
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const previewCacheRef = useRef<Map<string, string>>(new Map());
   const [, setPreviewCacheVersion] = useState(0);
+  // House style being created ("new") or edited in SaveArtStyleDialog.
+  const [styleDraft, setStyleDraft] = useState<ArtStyleDefinition | "new" | null>(null);
+
+  const canEditCustomStyles = !!onSaveCustomStyle;
 
   // Resolve previews lazily: local assets are only imported when the dialog opens.
   useEffect(() => {
@@ -52,12 +74,16 @@ export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
     let hasSyncUpdates = false;
 
     displayStyles.forEach((style) => {
-      if (previewCacheRef.current.has(style.id)) {
+      // Compare direct URLs rather than skip cached ids: an edited house
+      // style keeps its id but gets a new sample image.
+      if (style.previewUrl) {
+        if (previewCacheRef.current.get(style.id) !== style.previewUrl) {
+          previewCacheRef.current.set(style.id, style.previewUrl);
+          hasSyncUpdates = true;
+        }
         return;
       }
-      if (style.previewUrl) {
-        previewCacheRef.current.set(style.id, style.previewUrl);
-        hasSyncUpdates = true;
+      if (previewCacheRef.current.has(style.id)) {
         return;
       }
       pending.push(style);
@@ -98,8 +124,17 @@ export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
     }
   }, [isOpen, normalizedSelectedId]);
 
+  useEffect(() => {
+    if (!isOpen) setStyleDraft(null);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const hasCustomStyles = getAllArtStyles().some((style) => isCustomArtStyleId(style.id));
+  const knownCategories = [
+    ...new Set(getAllArtStyles().flatMap((style) => style.categories ?? [])),
+  ].sort();
+
   const handleSelect = (styleId: string) => {
     onSelect(styleId);
     onClose();
@@ -169,15 +204,65 @@ export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
               >
                 Choose an Art Style
               </Typography>
-              <Button
-                variant="outlined"
-                size="small"
-                onClick={onClose}
-                sx={{ borderRadius: "999px" }}
-              >
-                Close
-              </Button>
+              <Stack direction="row" spacing={1} alignItems="center">
+                {canEditCustomStyles && (
+                  <>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => setStyleDraft("new")}
+                      data-testid="art-style-create-button"
+                      sx={{ borderRadius: "999px" }}
+                    >
+                      Create style from image
+                    </Button>
+                    {onImportCustomStyles && (
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => importInputRef.current?.click()}
+                        data-testid="art-style-import-button"
+                      >
+                        Import…
+                      </Button>
+                    )}
+                    {onExportCustomStyles && (
+                      <Button
+                        variant="text"
+                        size="small"
+                        disabled={!hasCustomStyles}
+                        onClick={onExportCustomStyles}
+                        data-testid="art-style-export-button"
+                      >
+                        Export…
+                      </Button>
+                    )}
+                  </>
+                )}
+                <Button
+                  variant="outlined"
+                  size="small"
+                  onClick={onClose}
+                  sx={{ borderRadius: "999px" }}
+                >
+                  Close
+                </Button>
+              </Stack>
             </Stack>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json5,.json"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                // Reset so picking the same file again still fires onChange.
+                event.target.value = "";
+                if (file) {
+                  onImportCustomStyles?.(file);
+                }
+              }}
+            />
           </Box>
           <Box sx={{ flex: 1, minHeight: 0, overflowY: "auto", p: 4 }} ref={scrollAreaRef}>
             <Box
@@ -195,100 +280,151 @@ export const ArtStyleChooserDialog: React.FC<ArtStyleChooserDialogProps> = ({
                 const isSelected = normalizedSelectedId ? style.id === normalizedSelectedId : false;
                 const previewSrc = previewCacheRef.current.get(style.id);
                 const hasPreviewSource = Boolean(style.previewUrl || style.previewAssetKey);
+                const isCustomStyle = isCustomArtStyleId(style.id);
                 return (
                   <Box
                     key={style.id}
-                    data-style-id={style.id}
-                    onClick={() => handleSelect(style.id)}
-                    component="button"
-                    sx={{
-                      display: "flex",
-                      flexDirection: "column",
-                      textAlign: "left",
-                      borderRadius: 3,
-                      border: `3px solid ${isSelected ? theme.colors.accent : theme.colors.border}`,
-                      overflow: "hidden",
-                      backgroundColor: isSelected
-                        ? SELECTED_CARD_BACKGROUND
-                        : theme.colors.surfaceAlt,
-                      p: "5px",
-                      transition: "transform 120ms ease",
-                      cursor: "pointer",
-                      color: theme.colors.textPrimary,
-                      "&:hover": {
-                        backgroundColor: SELECTED_CARD_BACKGROUND,
-                      },
-                    }}
+                    sx={{ display: "flex", flexDirection: "column", minWidth: 0 }}
                   >
                     <Box
+                      data-style-id={style.id}
+                      onClick={() => handleSelect(style.id)}
+                      component="button"
                       sx={{
-                        position: "relative",
-                        width: "100%",
-                        paddingBottom: "100%",
-                        borderRadius: 2,
+                        display: "flex",
+                        flexDirection: "column",
+                        textAlign: "left",
+                        borderRadius: 3,
+                        border: `3px solid ${isSelected ? theme.colors.accent : theme.colors.border}`,
                         overflow: "hidden",
+                        backgroundColor: isSelected
+                          ? SELECTED_CARD_BACKGROUND
+                          : theme.colors.surfaceAlt,
+                        p: "5px",
+                        transition: "transform 120ms ease",
+                        cursor: "pointer",
+                        color: theme.colors.textPrimary,
+                        "&:hover": {
+                          backgroundColor: SELECTED_CARD_BACKGROUND,
+                        },
                       }}
                     >
-                      {/* Preview image resolves once the dialog is visible to avoid eager network requests. */}
-                      {previewSrc ? (
-                        <img
-                          src={previewSrc}
-                          alt={`${style.name} preview`}
-                          style={{
-                            position: "absolute",
-                            inset: 0,
-                            width: "100%",
-                            height: "100%",
-                            objectFit: "cover",
-                            borderRadius: "inherit",
-                          }}
-                          loading="lazy"
-                        />
-                      ) : (
-                        <Box
+                      <Box
+                        sx={{
+                          position: "relative",
+                          width: "100%",
+                          paddingBottom: "100%",
+                          borderRadius: 2,
+                          overflow: "hidden",
+                        }}
+                      >
+                        {/* Preview image resolves once the dialog is visible to avoid eager network requests. */}
+                        {previewSrc ? (
+                          <img
+                            src={previewSrc}
+                            alt={`${style.name} preview`}
+                            style={{
+                              position: "absolute",
+                              inset: 0,
+                              width: "100%",
+                              height: "100%",
+                              objectFit: "cover",
+                              borderRadius: "inherit",
+                            }}
+                            loading="lazy"
+                          />
+                        ) : (
+                          <Box
+                            sx={{
+                              position: "absolute",
+                              inset: 0,
+                              display: "flex",
+                              alignItems: "center",
+                              justifyContent: "center",
+                              fontSize: "0.75rem",
+                              color: theme.colors.textSecondary,
+                            }}
+                          >
+                            {hasPreviewSource ? "Loading preview" : "No preview"}
+                          </Box>
+                        )}
+                      </Box>
+                      <Box
+                        sx={{
+                          p: 3,
+                          display: "flex",
+                          flexDirection: "column",
+                          gap: 1.5,
+                        }}
+                      >
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="subtitle1" fontWeight={600} flex={1}>
+                            {style.name}
+                          </Typography>
+                        </Stack>
+                        <Typography
+                          variant="body2"
                           sx={{
-                            position: "absolute",
-                            inset: 0,
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "center",
-                            fontSize: "0.75rem",
                             color: theme.colors.textSecondary,
+                            lineHeight: 1.4,
                           }}
                         >
-                          {hasPreviewSource ? "Loading preview" : "No preview"}
-                        </Box>
-                      )}
-                    </Box>
-                    <Box
-                      sx={{
-                        p: 3,
-                        display: "flex",
-                        flexDirection: "column",
-                        gap: 1.5,
-                      }}
-                    >
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        <Typography variant="subtitle1" fontWeight={600} flex={1}>
-                          {style.name}
+                          {style.description || style.promptDetail}
                         </Typography>
-                      </Stack>
-                      <Typography
-                        variant="body2"
-                        sx={{
-                          color: theme.colors.textSecondary,
-                          lineHeight: 1.4,
-                        }}
-                      >
-                        {style.description || style.promptDetail}
-                      </Typography>
+                        {isCustomStyle && (
+                          <Typography variant="caption" sx={{ color: theme.colors.accent }}>
+                            House style
+                          </Typography>
+                        )}
+                      </Box>
                     </Box>
+                    {isCustomStyle && canEditCustomStyles && (
+                      <Stack direction="row" spacing={1} justifyContent="center">
+                        <Button
+                          size="small"
+                          variant="text"
+                          data-testid={`art-style-edit-${style.id}`}
+                          onClick={() => setStyleDraft(toStyleDefinition(style))}
+                          sx={{ fontWeight: 400 }}
+                        >
+                          Edit
+                        </Button>
+                        {onDeleteCustomStyle && (
+                          <Button
+                            size="small"
+                            variant="text"
+                            color="inherit"
+                            data-testid={`art-style-delete-${style.id}`}
+                            onClick={() => {
+                              if (window.confirm(`Delete the art style "${style.name}"?`)) {
+                                onDeleteCustomStyle(style.id);
+                              }
+                            }}
+                            sx={{ fontWeight: 400, color: theme.colors.textSecondary }}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </Stack>
+                    )}
                   </Box>
                 );
               })}
             </Box>
           </Box>
         </Box>
+        {canEditCustomStyles && (
+          <SaveArtStyleDialog
+            open={styleDraft !== null}
+            initialStyle={styleDraft === "new" ? null : styleDraft}
+            knownCategories={knownCategories}
+            onClose={() => setStyleDraft(null)}
+            onSave={(style) => {
+              setStyleDraft(null);
+              onSaveCustomStyle?.(style);
+            }}
+          />
+        )}
       </Box>
     </Box>
   );
@@ -1,7 +1,7 @@
 import React, { Suspense, useEffect, useMemo, useRef, useState } from "react";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import { Box, Stack, Typography, Button } from "@mui/material";
-import type { ArtStyle } from "../../types";
+import type { ArtStyle, ArtStyleDefinition } from "../../types";
 import { theme } from "../../themes";
 import { CLEAR_ART_STYLE_ID, loadArtStylePreviewUrl } from "../../lib/artStyles";
 
@@ -15,6 +15,11 @@ interface ArtStylePickerProps {
   value?: string;
   onChange: (styleId: string) => void;
   disabled?: boolean;
+  /** House style actions; without onSaveCustomStyle the chooser can't create styles. */
+  onSaveCustomStyle?: (style: ArtStyleDefinition) => void;
+  onDeleteCustomStyle?: (styleId: string) => void;
+  onImportCustomStyles?: (file: File) => void;
+  onExportCustomStyles?: () => void;
   "data-testid"?: string;
 }
 
@@ -25,6 +30,10 @@ export const ArtStylePicker: React.FC<ArtStylePickerProps> = ({
   value,
   onChange,
   disabled = false,
+  onSaveCustomStyle,
+  onDeleteCustomStyle,
+  onImportCustomStyles,
+  onExportCustomStyles,
   "data-testid": dataTestId,
 }) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -253,6 +262,10 @@ export const ArtStylePicker: React.FC<ArtStylePickerProps> = ({
             selectedId={value}
             onSelect={handleSelect}
             onClose={handleClose}
+            onSaveCustomStyle={onSaveCustomStyle}
+            onDeleteCustomStyle={onDeleteCustomStyle}
+            onImportCustomStyles={onImportCustomStyles}
+            onExportCustomStyles={onExportCustomStyles}
           />
         </Suspense>
       )}
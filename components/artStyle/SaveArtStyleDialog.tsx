@@ -0,0 +1,231 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import type { ArtStyleDefinition } from "../../types";
+import {
+  createCustomArtStyleId,
+  normalizeCustomArtStyle,
+  parseArtStyleCategories,
+} from "../../lib/customArtStyles";
+import { blobToBase64 } from "../../lib/imageUtils";
+import { processImageForThumbnail } from "../../lib/imageProcessing";
+
+export interface SaveArtStyleDialogProps {
+  open: boolean;
+  /** House style being edited, or null to create a new one. */
+  initialStyle: ArtStyleDefinition | null;
+  /** Categories other styles use, offered as a hint. */
+  knownCategories: string[];
+  onClose: () => void;
+  onSave: (style: ArtStyleDefinition) => void;
+}
+
+type ThumbnailStatus = "idle" | "processing" | "error";
+
+/**
+ * "Create style from image": a name, the prompt text the style adds, and a
+ * sample image that is cropped and shrunk to a chooser thumbnail.
+ */
+export const SaveArtStyleDialog: React.FC<SaveArtStyleDialogProps> = ({
+  open,
+  initialStyle,
+  knownCategories,
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = React.useState("");
+  const [promptDetail, setPromptDetail] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [categories, setCategories] = React.useState("");
+  const [sampleImageUrl, setSampleImageUrl] = React.useState("");
+  const [thumbnailStatus, setThumbnailStatus] = React.useState<ThumbnailStatus>("idle");
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setName(initialStyle?.name ?? "");
+    setPromptDetail(initialStyle?.promptDetail ?? "");
+    setDescription(initialStyle?.description ?? "");
+    setCategories(initialStyle?.categories?.join(", ") ?? "");
+    setSampleImageUrl(initialStyle?.sampleImageUrl ?? "");
+    setThumbnailStatus("idle");
+  }, [open, initialStyle]);
+
+  const handleImageFile = async (file: File) => {
+    setThumbnailStatus("processing");
+    try {
+      setSampleImageUrl(await processImageForThumbnail(await blobToBase64(file)));
+      setThumbnailStatus("idle");
+    } catch (error) {
+      console.error("Failed to make an art style thumbnail:", error);
+      setThumbnailStatus("error");
+    }
+  };
+
+  const style = React.useMemo(
+    () =>
+      normalizeCustomArtStyle({
+        id: initialStyle?.id ?? createCustomArtStyleId(name),
+        name,
+        promptDetail,
+        description,
+        categories: parseArtStyleCategories(categories),
+        sampleImageUrl,
+      }),
+    [initialStyle, name, promptDetail, description, categories, sampleImageUrl],
+  );
+  const canSave = !!style && !!style.sampleImageUrl && thumbnailStatus !== "processing";
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        "data-testid": "save-art-style-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        {initialStyle ? "Edit art style" : "Create style from image"}
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Box
+              sx={{
+                width: 96,
+                height: 96,
+                flexShrink: 0,
+                borderRadius: 2,
+                overflow: "hidden",
+                border: 1,
+                borderColor: "divider",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              {sampleImageUrl ? (
+                <img
+                  src={sampleImageUrl}
+                  alt="Sample"
+                  style={{ width: "100%", height: "100%", objectFit: "cover" }}
+                />
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  {thumbnailStatus === "processing" ? "Preparing…" : "No image"}
+                </Typography>
+              )}
+            </Box>
+            <Stack spacing={0.5}>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={thumbnailStatus === "processing"}
+                data-testid="art-style-sample-image-button"
+              >
+                {sampleImageUrl ? "Change sample image…" : "Choose sample image…"}
+              </Button>
+              <Typography
+                variant="caption"
+                color={thumbnailStatus === "error" ? "error" : "text.secondary"}
+              >
+                {thumbnailStatus === "error"
+                  ? "That image could not be read."
+                  : "An example picture in this style, shown in the style chooser."}
+              </Typography>
+            </Stack>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              hidden
+              data-testid="art-style-sample-image-input"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                // Reset so picking the same file again still fires onChange.
+                event.target.value = "";
+                if (file) {
+                  void handleImageFile(file);
+                }
+              }}
+            />
+          </Stack>
+          <TextField
+            label="Name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            size="small"
+            autoFocus
+            inputProps={{ "data-testid": "art-style-name" }}
+          />
+          <TextField
+            label="Prompt detail"
+            value={promptDetail}
+            onChange={(event) => setPromptDetail(event.target.value)}
+            multiline
+            minRows={3}
+            helperText="Added to prompts as the art direction, e.g. “soft watercolor washes, warm paper texture”."
+            inputProps={{ "data-testid": "art-style-prompt-detail" }}
+          />
+          <TextField
+            label="Description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            size="small"
+          />
+          <TextField
+            label="Categories (comma-separated)"
+            value={categories}
+            onChange={(event) => setCategories(event.target.value)}
+            size="small"
+            helperText={
+              knownCategories.length
+                ? `Tools that only offer some categories show the style if it has one of them. In use: ${knownCategories.join(", ")}.`
+                : undefined
+            }
+            inputProps={{ "data-testid": "art-style-categories" }}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!canSave}
+          onClick={() => style && onSave(style)}
+          data-testid="art-style-save"
+        >
+          Save Style
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
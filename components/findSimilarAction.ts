@@ -0,0 +1,14 @@
+import { createHandlerRegistry } from "./handlerRegistry";
+
+// The workspace registers how to look for images similar to one in the
+// history, so any ImageSlot's context menu can offer "Find similar" without
+// the callback being threaded through. No handler registered (e.g. a slot
+// rendered outside the workspace) = no action shown.
+
+export type FindSimilarImagesHandler = (imageId: string) => void;
+
+const registry = createHandlerRegistry<FindSimilarImagesHandler>();
+
+export const setFindSimilarImagesHandler = registry.set;
+
+export const useFindSimilarImagesHandler = registry.useHandler;
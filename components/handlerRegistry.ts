@@ -0,0 +1,33 @@
+import React from "react";
+
+// One module-level callback that the workspace registers and any component
+// can read, so actions like "Regenerate" don't have to be threaded through
+// every ImageSlot. Components re-render when the handler is set or cleared.
+
+type Listener = () => void;
+
+export const createHandlerRegistry = <T>() => {
+  let handler: T | null = null;
+  const listeners = new Set<Listener>();
+
+  const set = (next: T | null) => {
+    if (handler === next) {
+      return;
+    }
+    handler = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getSnapshot = () => handler;
+
+  const useHandler = () => React.useSyncExternalStore(subscribe, getSnapshot, () => null);
+
+  return { set, useHandler };
+};
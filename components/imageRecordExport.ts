@@ -0,0 +1,120 @@
+import { ImageRecord } from "../types";
+import {
+  convertBlobToPngWithFallback,
+  getNormalizedImageBlob,
+  getTypeFromFileName,
+} from "../lib/clipboardUtils";
+import {
+  ensureDataUrl,
+  getImageFileExtensionFromMimeType,
+  getMimeTypeFromUrl,
+} from "../lib/imageUtils";
+import { getModelNameById } from "../lib/modelsCatalog";
+import { getAllTools } from "../lib/customTools";
+import { injectPngMetadataIntoBlob, type PngMetadata } from "../lib/pngMetadata";
+import { buildImageProvenance, imageProvenanceToPngMetadata } from "../lib/imageProvenance";
+import {
+  DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  encodeImageForOutput,
+  ImageOutputSettings,
+} from "../lib/imageOutputFormat";
+
+// The workspace registers its history here so a copy or download started from
+// any ImageSlot can write the image's lineage, without threading history
+// through every panel and strip.
+let getHistory: () => readonly ImageRecord[] = () => [];
+
+export const registerImageRecordHistory = (source: () => readonly ImageRecord[]): (() => void) => {
+  getHistory = source;
+  return () => {
+    if (getHistory === source) getHistory = () => [];
+  };
+};
+
+// Likewise the output format the user picked in settings, for downloads.
+let getOutputSettings: () => ImageOutputSettings = () => DEFAULT_IMAGE_OUTPUT_SETTINGS;
+
+export const registerImageOutputSettings = (source: () => ImageOutputSettings): (() => void) => {
+  getOutputSettings = source;
+  return () => {
+    if (getOutputSettings === source) getOutputSettings = () => DEFAULT_IMAGE_OUTPUT_SETTINGS;
+  };
+};
+
+// The originating model and reasoning level as plain tEXt (what Bloom reads),
+// plus the full provenance as iTXt JSON and XMP.
+export const buildImageRecordPngMetadata = async (image: ImageRecord): Promise<PngMetadata> => {
+  const tool = getAllTools().find((t) => t.id === image.toolId) || null;
+  const isNewImageTool = tool?.editImage === false;
+  const modelId = (image.model || "").trim();
+  const modelName = getModelNameById(modelId) || modelId;
+  const reasoningLevel = (image.reasoningLevel || "").trim();
+  const text = modelId
+    ? isNewImageTool
+      ? {
+          IllustratorModel: modelName,
+          IllustratorModelId: modelId,
+          IllustratorReasoningLevel: reasoningLevel,
+        }
+      : {
+          EditorModel: modelName,
+          EditorModelId: modelId,
+          EditorReasoningLevel: reasoningLevel,
+        }
+    : undefined;
+
+  let provenance: PngMetadata = {};
+  try {
+    provenance = imageProvenanceToPngMetadata(await buildImageProvenance(image, getHistory()));
+  } catch (error) {
+    console.warn("Could not build image provenance; exporting without it.", error);
+  }
+  return { text, internationalText: provenance.internationalText };
+};
+
+/**
+ * Saves the image in the chosen output format. A PNG carries its provenance;
+ * JPEG and WebP go without (the metadata is PNG chunks). Falls back to the
+ * stored bytes as they are (no metadata) if the image can't be converted.
+ */
+export const downloadImageRecord = async (image: ImageRecord): Promise<void> => {
+  let href = image.imageData;
+  let extension = image.imageFileName
+    ? getTypeFromFileName(image.imageFileName) ||
+      getImageFileExtensionFromMimeType(getMimeTypeFromUrl(image.imageData))
+    : getImageFileExtensionFromMimeType(getMimeTypeFromUrl(image.imageData));
+  let objectUrl: string | null = null;
+
+  try {
+    const settings = getOutputSettings();
+    const encoded =
+      settings.format === "png"
+        ? null
+        : await encodeImageForOutput(await ensureDataUrl(image.imageData), settings);
+    if (encoded && encoded.mimeType !== "image/png") {
+      href = encoded.dataUrl;
+      extension = getImageFileExtensionFromMimeType(encoded.mimeType);
+    } else {
+      const png = await convertBlobToPngWithFallback(await getNormalizedImageBlob(image.imageData));
+      objectUrl = URL.createObjectURL(
+        await injectPngMetadataIntoBlob(png, await buildImageRecordPngMetadata(image)),
+      );
+      href = objectUrl;
+      extension = "png";
+    }
+  } catch (error) {
+    console.warn("Could not embed provenance in the download; saving the image as is.", error);
+  }
+
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = `bloom-ai-${image.id}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  if (objectUrl) {
+    const url = objectUrl;
+    // Give the browser a moment to start the download before the URL goes.
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
@@ -0,0 +1,15 @@
+import { createHandlerRegistry } from "./handlerRegistry";
+
+// The workspace registers how to regenerate an image from its record, so
+// every ImageSlot (Result pane, strips, info dialog) can offer "Regenerate"
+// without the callback being threaded through each of them. No handler
+// registered (e.g. a slot rendered outside the workspace) = no action shown.
+
+/** `runCount` 0 only restores the run's settings; N > 0 also runs it N times. */
+export type RegenerateImageHandler = (imageId: string, runCount: number) => void;
+
+const registry = createHandlerRegistry<RegenerateImageHandler>();
+
+export const setRegenerateImageHandler = registry.set;
+
+export const useRegenerateImageHandler = registry.useHandler;
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import IconButton from "@mui/material/IconButton";
+import InputAdornment from "@mui/material/InputAdornment";
+import TextField from "@mui/material/TextField";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import ClearIcon from "@mui/icons-material/Clear";
+import ControlPointDuplicateIcon from "@mui/icons-material/ControlPointDuplicate";
+import FilterListIcon from "@mui/icons-material/FilterList";
+import SearchIcon from "@mui/icons-material/Search";
+import StarIcon from "@mui/icons-material/Star";
+import { ImageRecord } from "../../types";
+import {
+  collectHistorySearchFacets,
+  EMPTY_HISTORY_SEARCH,
+  HISTORY_COST_RANGES,
+  HistorySearchQuery,
+  IMAGE_ORIGIN_LABELS,
+  isHistorySearchActive,
+  toggleFacetValue,
+} from "../../lib/historySearch";
+import { getModelNameById } from "../../lib/modelsCatalog";
+import { getToolById } from "../../lib/toolHelpers";
+import { theme } from "../../themes";
+
+interface HistorySearchBarProps {
+  query: HistorySearchQuery;
+  entries: ImageRecord[];
+  /** How many thumbnails match across the strips, shown while searching. */
+  matchCount: number;
+  onChange: (query: HistorySearchQuery) => void;
+  onFindDuplicates?: () => void;
+}
+
+const FacetGroup: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <Box sx={{ display: "flex", alignItems: "center", flexWrap: "wrap", gap: 0.5 }}>
+    <Typography variant="caption" sx={{ color: theme.colors.textSecondary, mr: 0.5 }}>
+      {label}
+    </Typography>
+    {children}
+  </Box>
+);
+
+const FacetChip: React.FC<{
+  label: React.ReactNode;
+  selected: boolean;
+  testId: string;
+  onClick: () => void;
+}> = ({ label, selected, testId, onClick }) => (
+  <Chip
+    label={label}
+    size="small"
+    clickable
+    color={selected ? "primary" : "default"}
+    variant={selected ? "filled" : "outlined"}
+    onClick={onClick}
+    data-testid={testId}
+    aria-pressed={selected}
+  />
+);
+
+/**
+ * Search box and facet chips above the thumbnail strips. Every strip shows
+ * only the images that match; the query itself lives in the workspace state.
+ */
+export const HistorySearchBar: React.FC<HistorySearchBarProps> = ({
+  query,
+  entries,
+  matchCount,
+  onChange,
+  onFindDuplicates,
+}) => {
+  const hasFacetSelection =
+    query.toolIds.length > 0 ||
+    query.models.length > 0 ||
+    query.origins.length > 0 ||
+    query.starredOnly ||
+    query.costRanges.length > 0;
+  const [showFacets, setShowFacets] = useState(hasFacetSelection);
+  // Open the chips when facets are in use (e.g. a saved query loads), so it's
+  // clear why images are missing.
+  useEffect(() => {
+    if (hasFacetSelection) setShowFacets(true);
+  }, [hasFacetSelection]);
+  const facets = useMemo(() => collectHistorySearchFacets(entries), [entries]);
+  const isActive = isHistorySearchActive(query);
+
+  // Keep selected values offered even when no image has them any more, so
+  // they can still be turned off.
+  const toolIds = [...new Set([...facets.toolIds, ...query.toolIds])];
+  const models = [...new Set([...facets.models, ...query.models])];
+  const origins = [...new Set([...facets.origins, ...query.origins])];
+  const costRanges = HISTORY_COST_RANGES.filter(
+    (range) => facets.costRanges.includes(range.id) || query.costRanges.includes(range.id),
+  );
+
+  return (
+    <Box
+      data-testid="history-search"
+      sx={{ display: "flex", flexDirection: "column", gap: 0.75, width: "100%" }}
+    >
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <TextField
+          size="small"
+          placeholder="Search prompts, captions, names, tools, models, styles, dates"
+          value={query.text}
+          onChange={(event) => onChange({ ...query, text: event.target.value })}
+          onKeyDown={(event) => {
+            if (event.key === "Escape" && query.text) {
+              event.stopPropagation();
+              onChange({ ...query, text: "" });
+            }
+          }}
+          sx={{ flex: 1, maxWidth: 480 }}
+          slotProps={{
+            htmlInput: { "data-testid": "history-search-input", "aria-label": "Search history" },
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <Tooltip title={showFacets ? "Hide filters" : "Filter by tool, model, origin and cost"}>
+          <IconButton
+            size="small"
+            aria-label="Filters"
+            aria-pressed={showFacets}
+            color={hasFacetSelection ? "primary" : "default"}
+            onClick={() => setShowFacets((value) => !value)}
+            data-testid="history-search-toggle-filters"
+          >
+            <FilterListIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        {onFindDuplicates && (
+          <Tooltip title="Group near-duplicate images">
+            <IconButton
+              size="small"
+              aria-label="Near-duplicates"
+              onClick={onFindDuplicates}
+              data-testid="history-find-duplicates"
+            >
+              <ControlPointDuplicateIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {isActive && (
+          <>
+            <Typography
+              variant="caption"
+              sx={{ color: theme.colors.textSecondary }}
+              data-testid="history-search-count"
+            >
+              {matchCount === 1 ? "1 match" : `${matchCount} matches`}
+            </Typography>
+            <Tooltip title="Clear search and filters">
+              <IconButton
+                size="small"
+                aria-label="Clear search"
+                onClick={() => onChange(EMPTY_HISTORY_SEARCH)}
+                data-testid="history-search-clear"
+              >
+                <ClearIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </>
+        )}
+      </Box>
+      {showFacets && (
+        <Box
+          data-testid="history-search-facets"
+          sx={{ display: "flex", flexWrap: "wrap", columnGap: 2, rowGap: 0.75 }}
+        >
+          <FacetGroup label="Starred">
+            <FacetChip
+              label={<StarIcon sx={{ fontSize: 14, display: "block" }} />}
+              selected={query.starredOnly}
+              testId="history-facet-starred"
+              onClick={() => onChange({ ...query, starredOnly: !query.starredOnly })}
+            />
+          </FacetGroup>
+          {toolIds.length > 0 && (
+            <FacetGroup label="Tool">
+              {toolIds.map((toolId) => (
+                <FacetChip
+                  key={toolId}
+                  label={getToolById(toolId)?.title ?? toolId}
+                  selected={query.toolIds.includes(toolId)}
+                  testId={`history-facet-tool-${toolId}`}
+                  onClick={() =>
+                    onChange({ ...query, toolIds: toggleFacetValue(query.toolIds, toolId) })
+                  }
+                />
+              ))}
+            </FacetGroup>
+          )}
+          {models.length > 0 && (
+            <FacetGroup label="Model">
+              {models.map((model) => (
+                <FacetChip
+                  key={model}
+                  label={getModelNameById(model) || model}
+                  selected={query.models.includes(model)}
+                  testId={`history-facet-model-${model}`}
+                  onClick={() =>
+                    onChange({ ...query, models: toggleFacetValue(query.models, model) })
+                  }
+                />
+              ))}
+            </FacetGroup>
+          )}
+          {origins.length > 0 && (
+            <FacetGroup label="Origin">
+              {origins.map((origin) => (
+                <FacetChip
+                  key={origin}
+                  label={IMAGE_ORIGIN_LABELS[origin]}
+                  selected={query.origins.includes(origin)}
+                  testId={`history-facet-origin-${origin}`}
+                  onClick={() =>
+                    onChange({ ...query, origins: toggleFacetValue(query.origins, origin) })
+                  }
+                />
+              ))}
+            </FacetGroup>
+          )}
+          {costRanges.length > 0 && (
+            <FacetGroup label="Cost">
+              {costRanges.map((range) => (
+                <FacetChip
+                  key={range.id}
+                  label={range.label}
+                  selected={query.costRanges.includes(range.id)}
+                  testId={`history-facet-cost-${range.id}`}
+                  onClick={() =>
+                    onChange({
+                      ...query,
+                      costRanges: toggleFacetValue(query.costRanges, range.id),
+                    })
+                  }
+                />
+              ))}
+            </FacetGroup>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -33,6 +33,20 @@ export interface BookImageBatchSelection {
   failedIncomingIds?: Set<string>;
 }
 
+/** "Apply now" wiring for the book-images strip, present when the host puts
+ *  single replacements into the book while the editor stays open. A slot is
+ *  pending while its assigned replacement isn't the one in the book, and
+ *  applied once it is. */
+export interface BookImageApplyControls {
+  /** Incoming id → id of the replacement now in the book. */
+  appliedReplacementIds: Record<string, string>;
+  /** Incoming ids with an apply or undo in flight. */
+  busyIncomingIds: Set<string>;
+  onApply: (incomingId: string) => void;
+  /** Puts the slot's original book image back. */
+  onUndo: (incomingId: string) => void;
+}
+
 interface ThumbnailStripProps {
   stripId: ThumbnailStripId;
   itemIds: string[];
@@ -77,6 +91,8 @@ interface ThumbnailStripProps {
   isAnyDndDragging?: boolean;
   /** bookImages strip only: present when the active tool supports batch runs. */
   batchSelection?: BookImageBatchSelection;
+  /** bookImages strip only: present when the host can apply single replacements. */
+  applyControls?: BookImageApplyControls;
 }
 
 const stripShellStyles: React.CSSProperties = {
@@ -342,6 +358,88 @@ const BatchFailedBadge: React.FC = () => (
   </div>
 );
 
+// Stops the press reaching the dnd-kit draggable underneath (see BatchTickToggle).
+const stopDragPropagation = {
+  onPointerDown: (event: React.PointerEvent) => event.stopPropagation(),
+  onMouseDown: (event: React.MouseEvent) => event.stopPropagation(),
+};
+
+// Over a book image's replacement slot: "Apply" while the replacement is
+// pending, or an "Applied" mark with an undo once the book has it.
+const ReplacementApplyControl: React.FC<{
+  incomingId: string;
+  status: "pending" | "applied";
+  busy: boolean;
+  onApply: () => void;
+  onUndo: () => void;
+}> = ({ incomingId, status, busy, onApply, onUndo }) => (
+  <div
+    data-testid={`book-image-apply-state-${incomingId}`}
+    data-apply-status={status}
+    style={{
+      position: "absolute",
+      top: 10,
+      left: 10,
+      zIndex: 3,
+      display: "flex",
+      alignItems: "center",
+      gap: 4,
+    }}
+  >
+    {busy ? (
+      <CircularProgress size={18} sx={{ color: kWarningColor }} />
+    ) : status === "pending" ? (
+      <Tooltip title="Put this image into the book now" arrow placement="top">
+        <Button
+          size="small"
+          variant="contained"
+          onClick={(event) => {
+            event.stopPropagation();
+            onApply();
+          }}
+          {...stopDragPropagation}
+          data-testid={`book-image-apply-${incomingId}`}
+          sx={{ minWidth: 0, px: 1, py: 0.25, fontSize: 12, lineHeight: 1.4 }}
+        >
+          Apply
+        </Button>
+      </Tooltip>
+    ) : (
+      <>
+        <Tooltip title="This image is in the book" arrow placement="top">
+          <div
+            style={{
+              display: "flex",
+              color: theme.colors.accent,
+              filter: "drop-shadow(0 0 2px rgba(0, 0, 0, 0.7))",
+            }}
+          >
+            <Icon path={Icons.Check} width={18} height={18} />
+          </div>
+        </Tooltip>
+        <Tooltip title="Put the original image back in the book" arrow placement="top">
+          <IconButton
+            size="small"
+            onClick={(event) => {
+              event.stopPropagation();
+              onUndo();
+            }}
+            {...stopDragPropagation}
+            data-testid={`book-image-undo-apply-${incomingId}`}
+            sx={{
+              padding: "3px",
+              color: theme.colors.textPrimary,
+              backgroundColor: theme.colors.overlayStrong,
+            }}
+          >
+            <Icon path={Icons.History} width={14} height={14} />
+          </IconButton>
+        </Tooltip>
+      </>
+    )}
+  </div>
+);
+
 const BookImageStripLabels: React.FC = () => (
   <div
     style={{
@@ -827,6 +925,8 @@ const BookImagePairThumb: React.FC<{
   /** Present only when the active tool supports batch runs (see
    *  BookImageBatchSelection); renders a tick checkbox over the "Current" slot. */
   batchSelection?: BookImageBatchSelection;
+  /** Present only when the host can apply single replacements. */
+  applyControls?: BookImageApplyControls;
 }> = ({
   stripId,
   item,
@@ -843,7 +943,17 @@ const BookImagePairThumb: React.FC<{
   onRemove,
   onClearReplacement,
   batchSelection,
+  applyControls,
 }) => {
+  const appliedReplacementId = applyControls?.appliedReplacementIds[item.id];
+  // An applied slot stays undoable even after its replacement is cleared.
+  const applyStatus: "pending" | "applied" | null = !applyControls
+    ? null
+    : replacement && replacement.id !== appliedReplacementId
+      ? "pending"
+      : appliedReplacementId
+        ? "applied"
+        : null;
   const currentDroppable = useDroppable({
     id: buildBookImageCurrentSlotId(item.id),
     data: {
@@ -979,6 +1089,15 @@ const BookImagePairThumb: React.FC<{
             opacity: outgoingDraggable.isDragging ? 0.35 : 1,
           }}
         >
+          {applyControls && applyStatus && (
+            <ReplacementApplyControl
+              incomingId={item.id}
+              status={applyStatus}
+              busy={applyControls.busyIncomingIds.has(item.id)}
+              onApply={() => applyControls.onApply(item.id)}
+              onUndo={() => applyControls.onUndo(item.id)}
+            />
+          )}
           {(() => {
             const indicators = getReplacementCompatibilityIndicators(item, replacement);
             if (!indicators.length) {
@@ -1284,6 +1403,7 @@ export const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({
   onVisibleItemIdsChange,
   isAnyDndDragging = false,
   batchSelection,
+  applyControls,
 }) => {
   const stripContentRef = React.useRef<HTMLDivElement | null>(null);
   const lastPublishedVisibleIdsRef = React.useRef<string[] | null>(null);
@@ -1528,6 +1648,7 @@ export const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({
                 onToggleStar={() => onToggleStar(item.id)}
                 onRemove={allowRemove ? () => onRemoveItem?.(item.id) : undefined}
                 batchSelection={batchSelection}
+                applyControls={applyControls}
                 onClearReplacement={() => onAssignReplacement?.(item.id, null)}
               />
             ))}
@@ -7,8 +7,20 @@ import {
   ThumbnailStripConfig,
   THUMBNAIL_STRIP_CONFIGS,
 } from "../../lib/thumbnailStrips";
-import { BookImageBatchSelection, ThumbnailStrip } from "./ThumbnailStrip";
+import { BookImageApplyControls, BookImageBatchSelection, ThumbnailStrip } from "./ThumbnailStrip";
 import { ThumbnailStripTabs } from "./ThumbnailStripTabs";
+import { HistorySearchBar } from "./HistorySearchBar";
+import {
+  createHistorySearchMatcher,
+  filterItemIdsBySearch,
+  HistorySearchQuery,
+  isHistorySearchActive,
+} from "../../lib/historySearch";
+
+// The book's pages are the book, not history: the search leaves them whole.
+const SEARCHED_STRIP_IDS: ThumbnailStripId[] = THUMBNAIL_STRIP_ORDER.filter(
+  (stripId) => stripId !== "bookImages",
+);
 
 interface ThumbnailStripsCollectionProps {
   snapshot: ThumbnailStripsSnapshot;
@@ -25,6 +37,11 @@ interface ThumbnailStripsCollectionProps {
   previewModifierActive?: boolean;
   previewSelectionImageIds?: string[];
   stripConfigs?: Record<ThumbnailStripId, ThumbnailStripConfig>;
+  /** Filters every strip but the book's; the search box is only shown when a handler is given. */
+  search?: HistorySearchQuery;
+  onSearchChange?: (query: HistorySearchQuery) => void;
+  /** Opens the near-duplicates view; shown next to the search box. */
+  onFindDuplicates?: () => void;
   onOpenPreview: (stripId: ThumbnailStripId, itemIds: string[]) => void;
   onSelect: (id: string) => void;
   /** Overrides onSelect for the "Current" book image (sends it to the edit
@@ -51,6 +68,8 @@ interface ThumbnailStripsCollectionProps {
   isAnyDndDragging?: boolean;
   /** bookImages strip only: present when the active tool supports batch runs. */
   batchSelection?: BookImageBatchSelection;
+  /** bookImages strip only: present when the host can apply single replacements. */
+  applyControls?: BookImageApplyControls;
 }
 
 export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps> = ({
@@ -62,6 +81,9 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
   previewModifierActive = false,
   previewSelectionImageIds = [],
   stripConfigs,
+  search,
+  onSearchChange,
+  onFindDuplicates,
   onOpenPreview,
   onSelect,
   onSelectBookImageCurrent,
@@ -80,6 +102,7 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
   onDragActivateStrip,
   isAnyDndDragging = false,
   batchSelection,
+  applyControls,
 }) => {
   const resolvedStripConfigs = stripConfigs ?? THUMBNAIL_STRIP_CONFIGS;
   const pinnedStripIds = new Set(snapshot.pinnedStripIds);
@@ -92,6 +115,28 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
     return map;
   }, [entries]);
 
+  const isSearchActive = !!search && isHistorySearchActive(search);
+
+  // While searching, each strip shows only its matching images, in their usual order.
+  const itemIdsByStrip = useMemo(() => {
+    if (!search || !isSearchActive) return snapshot.itemIdsByStrip;
+    const matches = createHistorySearchMatcher(search);
+    const filtered = { ...snapshot.itemIdsByStrip };
+    SEARCHED_STRIP_IDS.forEach((stripId) => {
+      filtered[stripId] = filterItemIdsBySearch(
+        snapshot.itemIdsByStrip[stripId] || [],
+        entriesById,
+        matches,
+      );
+    });
+    return filtered;
+  }, [entriesById, isSearchActive, search, snapshot.itemIdsByStrip]);
+
+  const searchMatchCount = useMemo(
+    () => new Set(SEARCHED_STRIP_IDS.flatMap((stripId) => itemIdsByStrip[stripId] || [])).size,
+    [itemIdsByStrip],
+  );
+
   const isStripVisible = (stripId: ThumbnailStripId) => !resolvedStripConfigs[stripId]?.hidden;
 
   const visiblePinnedStripIds = THUMBNAIL_STRIP_ORDER.filter(
@@ -138,9 +183,10 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
 
   const renderStrip = (stripId: ThumbnailStripId, activeOverride?: boolean) => {
     const config = resolvedStripConfigs[stripId];
-    const itemIds = snapshot.itemIdsByStrip[stripId] || [];
+    const itemIds = itemIdsByStrip[stripId] || [];
     const tipSource = STRIP_TIPS[stripId];
     const tip = typeof tipSource === "function" ? tipSource(config) : tipSource;
+    const isFiltered = isSearchActive && SEARCHED_STRIP_IDS.includes(stripId);
 
     return (
       <ThumbnailStrip
@@ -156,9 +202,11 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
         selectedId={selectedId}
         previewModifierActive={previewModifierActive}
         previewSelectionImageIds={previewSelectionImageIds}
-        allowDrop={config.allowDrop}
+        // Drop positions are worked out against the whole strip, so dropping
+        // into or reordering a filtered strip would put items in the wrong place.
+        allowDrop={config.allowDrop && !isFiltered}
         allowRemove={config.allowRemove}
-        allowReorder={config.allowReorder}
+        allowReorder={config.allowReorder && !isFiltered}
         pinned={pinnedStripIds.has(stripId)}
         isActive={activeOverride ?? snapshot.activeStripId === stripId}
         hasHiddenHistory={stripId === "history" && hasHiddenHistory}
@@ -176,6 +224,7 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
         onVisibleItemIdsChange={onVisibleItemIdsChange}
         isAnyDndDragging={isAnyDndDragging}
         batchSelection={stripId === "bookImages" ? batchSelection : undefined}
+        applyControls={stripId === "bookImages" ? applyControls : undefined}
       />
     );
   };
@@ -208,6 +257,15 @@ export const ThumbnailStripsCollection: React.FC<ThumbnailStripsCollectionProps>
         boxSizing: "border-box",
       }}
     >
+      {search && onSearchChange && (
+        <HistorySearchBar
+          query={search}
+          entries={entries}
+          matchCount={searchMatchCount}
+          onChange={onSearchChange}
+          onFindDuplicates={onFindDuplicates}
+        />
+      )}
       {visiblePinnedStripIds.map((stripId) => (
         <div key={`pinned-${stripId}`} style={rowShellStyles}>
           <div style={stripColumnStyles}>{renderStrip(stripId)}</div>
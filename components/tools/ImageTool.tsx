@@ -18,15 +18,19 @@ import {
 } from "@mui/material";
 import { alpha, useTheme } from "@mui/material/styles";
 import type {
+  ArtStyleDefinition,
   BatchRunState,
+  CustomToolSpec,
   MeasuredStats,
   ModelReasoningLevel,
   ToolDefinition,
   ToolParameter,
   ToolParamsById,
 } from "../../types";
-import { TOOLS } from "./tools-registry";
+import { getAllTools, isCustomToolId } from "../../lib/customTools";
 import { Icon, Icons } from "../Icons";
+import { SaveCustomToolDialog } from "./SaveCustomToolDialog";
+import { TOOLS } from "./tools-registry";
 import { ART_STYLES, getArtStylesByCategories } from "../../lib/artStyles";
 import { ArtStylePicker } from "../artStyle/ArtStylePicker";
 import { AspectRatioPicker } from "./AspectRatioPicker";
@@ -36,11 +40,11 @@ import {
   getDefaultAspectRatioValue,
   resolveAspectRatioValue,
 } from "../../lib/aspectRatios";
-import { canUseLocalDummyModelWithoutApiKey } from "../../lib/localModels";
 import { getReferenceConstraints, toolRequiresEditImage } from "../../lib/toolHelpers";
 import {
   getEstimatedCostPerImageUsd,
   getModelInfoById,
+  modelRequiresOpenRouterKey,
   resolveToolModelId,
 } from "../../lib/modelsCatalog";
 import { DEFAULT_SIZE_TOKEN, pickSizeTokenForLongEdge } from "../../lib/imageSizes";
@@ -59,19 +63,21 @@ const LOCALIZE_TOOL_ORDER = [
   "apply_localized_characters",
 ] as const;
 const isGamesTool = (toolId: string | null) =>
-  TOOLS.some((tool) => tool.id === toolId && tool.group === "games");
+  getAllTools().some((tool) => tool.id === toolId && tool.group === "games");
 
 const isEnhanceTool = (toolId: string | null) =>
-  TOOLS.some((tool) => tool.id === toolId && tool.group === "enhance");
+  getAllTools().some((tool) => tool.id === toolId && tool.group === "enhance");
 
 const isAdvancedTool = (toolId: string | null) =>
-  TOOLS.some((tool) => tool.id === toolId && tool.group === "more");
+  getAllTools().some((tool) => tool.id === toolId && tool.group === "more");
 
 const isLocalizedTool = (toolId: string | null) =>
-  TOOLS.some((tool) => tool.id === toolId && tool.group === "localize");
+  getAllTools().some((tool) => tool.id === toolId && tool.group === "localize");
 
 const isTextTool = (toolId: string | null) =>
-  TOOLS.some((tool) => tool.id === toolId && tool.group === "text");
+  getAllTools().some((tool) => tool.id === toolId && tool.group === "text");
+
+const isCustomGroupTool = (toolId: string | null) => isCustomToolId(toolId);
 
 const getOrderedSizeOptions = (
   options: string[] | undefined,
@@ -101,6 +107,18 @@ interface ToolPanelProps {
   /** Batch runner entry point (PLAN-batch-processing.md WP4): fired instead of
    *  onApplyTool while one or more book images are ticked. */
   onApplyBatchTool: (toolId: string, params: Record<string, string>) => void;
+  /** User-defined tools ("My Tools"); see lib/customTools. */
+  customTools: CustomToolSpec[];
+  onSaveCustomTool: (spec: CustomToolSpec) => void;
+  onDeleteCustomTool: (toolId: string) => void;
+  onImportCustomTools: (file: File) => void;
+  onExportCustomTools: () => void;
+  /** House art styles; see lib/customArtStyles. */
+  customArtStyles: ArtStyleDefinition[];
+  onSaveCustomArtStyle: (style: ArtStyleDefinition) => void;
+  onDeleteCustomArtStyle: (styleId: string) => void;
+  onImportCustomArtStyles: (file: File) => void;
+  onExportCustomArtStyles: () => void;
   isProcessing: boolean;
   onCancelProcessing: () => void;
   onToolSelect: (toolId: string | null) => void;
@@ -110,9 +128,11 @@ interface ToolPanelProps {
   isAuthenticated: boolean;
   modelByTool: Record<string, string>;
   reasoningByTool: Record<string, ModelReasoningLevel>;
+  variantsByTool: Record<string, number>;
   measuredStatsByKey: Record<string, MeasuredStats>;
   onToolModelChange: (toolId: string, modelId: string) => void;
   onToolReasoningChange: (toolId: string, level: ModelReasoningLevel) => void;
+  onToolVariantsChange: (toolId: string, count: number) => void;
   activeToolId: string | null;
   paramsByTool: ToolParamsById;
   onParamChange: (toolId: string, paramName: string, value: string) => void;
@@ -404,6 +424,16 @@ const ParamTextInput = React.memo(function ParamTextInputComponent({
 const ImageToolComponent: React.FC<ToolPanelProps> = ({
   onApplyTool,
   onApplyBatchTool,
+  customTools,
+  onSaveCustomTool,
+  onDeleteCustomTool,
+  onImportCustomTools,
+  onExportCustomTools,
+  customArtStyles,
+  onSaveCustomArtStyle,
+  onDeleteCustomArtStyle,
+  onImportCustomArtStyles,
+  onExportCustomArtStyles,
   isProcessing,
   onCancelProcessing,
   onToolSelect,
@@ -413,9 +443,11 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
   isAuthenticated,
   modelByTool,
   reasoningByTool,
+  variantsByTool,
   measuredStatsByKey,
   onToolModelChange,
   onToolReasoningChange,
+  onToolVariantsChange,
   activeToolId,
   paramsByTool,
   onParamChange,
@@ -432,6 +464,10 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
   const [isGamesOpen, setIsGamesOpen] = useState(() => isGamesTool(activeToolId));
   const [isEnhanceOpen, setIsEnhanceOpen] = useState(() => isEnhanceTool(activeToolId));
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(() => isAdvancedTool(activeToolId));
+  const [isCustomOpen, setIsCustomOpen] = useState(() => isCustomGroupTool(activeToolId));
+  // null = closed; otherwise the tool being edited, or "new" for "Save as tool".
+  const [customToolDialog, setCustomToolDialog] = useState<CustomToolSpec | "new" | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     if (isLocalizedTool(activeToolId)) {
@@ -449,11 +485,14 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
     if (isAdvancedTool(activeToolId)) {
       setIsAdvancedOpen(true);
     }
+    if (isCustomGroupTool(activeToolId)) {
+      setIsCustomOpen(true);
+    }
   }, [activeToolId]);
 
   const artStyleOptionsByParam = useMemo(() => {
     const map = new Map<string, ReturnType<typeof getArtStylesByCategories>>();
-    TOOLS.forEach((tool) => {
+    getAllTools().forEach((tool) => {
       tool.parameters.forEach((param) => {
         if (param.type !== "art-style") return;
         const cacheKey = `${tool.id}:${param.name}`;
@@ -467,7 +506,9 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
       });
     });
     return map;
-  }, []);
+    // customTools: user tools can have art-style params too; customArtStyles:
+    // the workspace registers them with lib/artStyles.
+  }, [customTools, customArtStyles]);
 
   const handleToolSelect = (toolId: string) => {
     const timingLabel = `tool-panel-open:${toolId}`;
@@ -553,6 +594,12 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
 
   const advancedTools = useMemo(() => TOOLS.filter((tool) => tool.group === "more"), []);
 
+  const userTools = useMemo(
+    () => getAllTools().filter((tool) => tool.group === "custom"),
+    // getAllTools() reflects the customTools prop (the workspace registers it).
+    [customTools],
+  );
+
   const hasUnfilledRequiredParams = (tool: ToolDefinition) => {
     const toolParams = paramsByTool[tool.id] || {};
     return tool.parameters.some((param) => {
@@ -636,6 +683,10 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
               styles={stylesForPicker}
               value={pickerValue}
               onChange={onArtStyleChange}
+              onSaveCustomStyle={onSaveCustomArtStyle}
+              onDeleteCustomStyle={onDeleteCustomArtStyle}
+              onImportCustomStyles={onImportCustomArtStyles}
+              onExportCustomStyles={onExportCustomArtStyles}
               disabled={isProcessing || stylesForPicker.length === 0 || ART_STYLES.length === 0}
               data-testid={inputTestId}
             />
@@ -774,6 +825,52 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
         );
       }
 
+      if (param.type === "mask") {
+        // The mask itself is painted on the "Image to Edit" panel (brush
+        // button in its header); the tool card only reports and clears it.
+        const hasMask = !!value;
+        return (
+          <Stack
+            key={param.name}
+            direction="row"
+            spacing={1}
+            alignItems="center"
+            justifyContent="space-between"
+            data-testid={inputTestId}
+          >
+            <Stack spacing={0.25} sx={{ minWidth: 0 }}>
+              <Typography
+                variant="caption"
+                sx={{
+                  fontWeight: 600,
+                  letterSpacing: "0.08em",
+                  textTransform: "uppercase",
+                  color: muiTheme.palette.text.secondary,
+                }}
+              >
+                {param.label}
+              </Typography>
+              <Typography variant="caption" sx={{ color: muiTheme.palette.text.secondary }}>
+                {hasMask
+                  ? "Only the painted area will change."
+                  : "Whole image. Use the brush on Image to Edit to limit the change."}
+              </Typography>
+            </Stack>
+            {hasMask ? (
+              <Button
+                type="button"
+                size="small"
+                disabled={isProcessing}
+                onClick={() => handleParamChange(tool.id, param.name, "")}
+                data-testid={`${inputTestId}-clear`}
+              >
+                Clear
+              </Button>
+            ) : null}
+          </Stack>
+        );
+      }
+
       if (param.type === "select") {
         return (
           <TextField
@@ -819,6 +916,10 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
       isProcessing,
       muiTheme.palette.text.secondary,
       onArtStyleChange,
+      onSaveCustomArtStyle,
+      onDeleteCustomArtStyle,
+      onImportCustomArtStyles,
+      onExportCustomArtStyles,
       selectedArtStyleId,
       modelByTool,
       handleParamChange,
@@ -868,7 +969,7 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
     const requiresOpenRouter =
       tool.id !== "remove_background" &&
       !tool.localOnly &&
-      !canUseLocalDummyModelWithoutApiKey(resolveToolModelId(tool, modelByTool));
+      modelRequiresOpenRouterKey(resolveToolModelId(tool, modelByTool));
     const referenceConstraints = getReferenceConstraints(tool.referenceImages);
     const needsReference = referenceConstraints.min > referenceImageCount;
     const needsTarget = toolRequiresEditImage(tool) && !hasTargetImage && !isBatchModeForTool;
@@ -934,10 +1035,12 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
               tool={tool}
               modelByTool={modelByTool}
               reasoningByTool={reasoningByTool}
+              variantsByTool={variantsByTool}
               measuredStatsByKey={measuredStatsByKey}
               sizeToken={resolveToolSizeToken(tool)}
               onModelChange={(modelId) => onToolModelChange(tool.id, modelId)}
               onReasoningChange={(level) => onToolReasoningChange(tool.id, level)}
+              onVariantsChange={(count) => onToolVariantsChange(tool.id, count)}
               disabled={isProcessing}
             />
           </Box>
@@ -1195,6 +1298,50 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
                   </>
                 )}
               </Stack>
+
+              {tool.id === "custom" && !isProcessing && (
+                <Button
+                  type="button"
+                  size="small"
+                  variant="text"
+                  data-testid="save-as-tool-button"
+                  onClick={() => setCustomToolDialog("new")}
+                  sx={{ alignSelf: "center", fontWeight: 400 }}
+                >
+                  Save as tool
+                </Button>
+              )}
+              {isCustomToolId(tool.id) && !isProcessing && (
+                <Stack direction="row" spacing={1} justifyContent="center">
+                  <Button
+                    type="button"
+                    size="small"
+                    variant="text"
+                    data-testid="edit-custom-tool-button"
+                    onClick={() =>
+                      setCustomToolDialog(customTools.find((spec) => spec.id === tool.id) ?? null)
+                    }
+                    sx={{ fontWeight: 400 }}
+                  >
+                    Edit tool
+                  </Button>
+                  <Button
+                    type="button"
+                    size="small"
+                    variant="text"
+                    color="inherit"
+                    data-testid="delete-custom-tool-button"
+                    onClick={() => {
+                      if (window.confirm(`Delete the tool "${tool.title}"?`)) {
+                        onDeleteCustomTool(tool.id);
+                      }
+                    }}
+                    sx={{ fontWeight: 400, color: theme.colors.textSecondary }}
+                  >
+                    Delete
+                  </Button>
+                </Stack>
+              )}
             </Stack>
           </Box>
         )}
@@ -1363,7 +1510,86 @@ const ImageToolComponent: React.FC<ToolPanelProps> = ({
             {isAdvancedOpen && advancedTools.map(renderToolCard)}
           </Stack>
         )}
+
+        <Stack spacing={1.25} data-testid="my-tools-section">
+          <ButtonBase
+            onClick={() => setIsCustomOpen((current) => !current)}
+            sx={{
+              width: "100%",
+              px: 0.5,
+              py: 0.75,
+              borderRadius: 2,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              color: alpha(muiTheme.palette.text.secondary, 0.9),
+            }}
+          >
+            {renderSectionHeader("My Tools")}
+            <ExpandMoreIcon
+              sx={{
+                transition: "transform 0.2s ease",
+                transform: isCustomOpen ? "rotate(0deg)" : "rotate(-90deg)",
+              }}
+            />
+          </ButtonBase>
+          {isCustomOpen && (
+            <>
+              {userTools.length === 0 && (
+                <Typography variant="body2" sx={{ px: 0.5, color: theme.colors.textSecondary }}>
+                  Use "Save as tool" on Custom Edit to keep a prompt as a tool.
+                </Typography>
+              )}
+              {userTools.map(renderToolCard)}
+              <Stack direction="row" spacing={1} justifyContent="center">
+                <Button
+                  size="small"
+                  variant="text"
+                  data-testid="import-custom-tools-button"
+                  onClick={() => importInputRef.current?.click()}
+                  sx={{ fontWeight: 400 }}
+                >
+                  Import…
+                </Button>
+                <Button
+                  size="small"
+                  variant="text"
+                  data-testid="export-custom-tools-button"
+                  disabled={userTools.length === 0}
+                  onClick={onExportCustomTools}
+                  sx={{ fontWeight: 400 }}
+                >
+                  Export…
+                </Button>
+              </Stack>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json5,.json"
+                hidden
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  // Reset so picking the same file again still fires onChange.
+                  event.target.value = "";
+                  if (file) {
+                    onImportCustomTools(file);
+                  }
+                }}
+              />
+            </>
+          )}
+        </Stack>
       </Box>
+      <SaveCustomToolDialog
+        open={customToolDialog !== null}
+        initialSpec={customToolDialog === "new" ? null : customToolDialog}
+        initialPrompt={paramsByTool.custom?.prompt ?? ""}
+        onClose={() => setCustomToolDialog(null)}
+        onSave={(spec) => {
+          setCustomToolDialog(null);
+          onSaveCustomTool(spec);
+        }}
+      />
     </Box>
   );
 };
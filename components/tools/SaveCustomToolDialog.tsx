@@ -0,0 +1,319 @@
+import React from "react";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import type { CustomToolSpec, ToolParameter } from "../../types";
+import {
+  createCustomToolId,
+  extractTemplatePlaceholders,
+  normalizeCustomToolSpec,
+} from "../../lib/customTools";
+
+type EditableParamType = "text" | "textarea" | "select" | "checkbox" | "art-style";
+
+const PARAM_TYPE_LABELS: Record<EditableParamType, string> = {
+  text: "Short text",
+  textarea: "Long text",
+  select: "Choice",
+  checkbox: "Checkbox",
+  "art-style": "Art style",
+};
+
+const REFERENCE_MODE_LABELS: Record<CustomToolSpec["referenceImages"], string> = {
+  "0": "None",
+  "0+": "Optional",
+  "1": "Exactly one",
+  "1+": "One or more",
+};
+
+interface ParamDraft {
+  label: string;
+  type: EditableParamType;
+  /** Comma-separated, for "select". */
+  options: string;
+  optional: boolean;
+}
+
+const toParamDraft = (param: ToolParameter | undefined, name: string): ParamDraft => ({
+  label: param?.label ?? name,
+  type: (Object.keys(PARAM_TYPE_LABELS) as EditableParamType[]).includes(
+    param?.type as EditableParamType,
+  )
+    ? (param?.type as EditableParamType)
+    : "text",
+  options: param?.options?.join(", ") ?? "",
+  optional: param?.optional ?? false,
+});
+
+export interface SaveCustomToolDialogProps {
+  open: boolean;
+  /** Tool being edited, or null to create a new one. */
+  initialSpec: CustomToolSpec | null;
+  /** Prompt to start a new tool from (e.g. the current Custom Edit instructions). */
+  initialPrompt: string;
+  onClose: () => void;
+  onSave: (spec: CustomToolSpec) => void;
+}
+
+/**
+ * "Save as tool": turns a prompt into a reusable tool. Every `{{name}}` in the
+ * prompt becomes a field on the new tool card; here the user picks each
+ * field's label and kind.
+ */
+export const SaveCustomToolDialog: React.FC<SaveCustomToolDialogProps> = ({
+  open,
+  initialSpec,
+  initialPrompt,
+  onClose,
+  onSave,
+}) => {
+  const [title, setTitle] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [promptTemplate, setPromptTemplate] = React.useState("");
+  const [paramDrafts, setParamDrafts] = React.useState<Record<string, ParamDraft>>({});
+  const [referenceImages, setReferenceImages] =
+    React.useState<CustomToolSpec["referenceImages"]>("0");
+  const [editImage, setEditImage] = React.useState(true);
+  const [allowBatch, setAllowBatch] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setTitle(initialSpec?.title ?? "");
+    setDescription(initialSpec?.description ?? "");
+    setPromptTemplate(initialSpec?.promptTemplate ?? initialPrompt);
+    const drafts: Record<string, ParamDraft> = {};
+    initialSpec?.parameters.forEach((param) => {
+      drafts[param.name] = toParamDraft(param, param.name);
+    });
+    setParamDrafts(drafts);
+    setReferenceImages(initialSpec?.referenceImages ?? "0");
+    setEditImage(initialSpec?.editImage !== false);
+    setAllowBatch(initialSpec?.allowBatch ?? false);
+  }, [open, initialSpec, initialPrompt]);
+
+  const placeholders = React.useMemo(
+    () => extractTemplatePlaceholders(promptTemplate),
+    [promptTemplate],
+  );
+
+  const getDraft = (name: string) => paramDrafts[name] ?? toParamDraft(undefined, name);
+  const updateDraft = (name: string, patch: Partial<ParamDraft>) =>
+    setParamDrafts((prev) => ({ ...prev, [name]: { ...getDraft(name), ...patch } }));
+
+  const spec = React.useMemo(
+    () =>
+      normalizeCustomToolSpec({
+        id: initialSpec?.id ?? createCustomToolId(title),
+        title,
+        description,
+        promptTemplate,
+        parameters: placeholders.map((name) => {
+          const draft = paramDrafts[name] ?? toParamDraft(undefined, name);
+          return {
+            name,
+            label: draft.label,
+            type: draft.type,
+            options: draft.options.split(","),
+            optional: draft.optional,
+          };
+        }),
+        referenceImages,
+        editImage,
+        allowBatch,
+      }),
+    [
+      initialSpec,
+      title,
+      description,
+      promptTemplate,
+      placeholders,
+      paramDrafts,
+      referenceImages,
+      editImage,
+      allowBatch,
+    ],
+  );
+  // normalizeCustomToolSpec drops a "Choice" field with no options; block save instead.
+  const isMissingOptions = placeholders.some(
+    (name) => getDraft(name).type === "select" && !getDraft(name).options.trim(),
+  );
+  const canSave = !!spec && !isMissingOptions;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        "data-testid": "save-custom-tool-dialog",
+        sx: {
+          borderRadius: 3,
+        },
+      }}
+    >
+      <DialogTitle sx={{ pr: 6 }}>
+        {initialSpec ? "Edit tool" : "Save as tool"}
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            position: "absolute",
+            right: 8,
+            top: 8,
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <TextField
+            label="Title"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            size="small"
+            autoFocus
+            inputProps={{ "data-testid": "custom-tool-title" }}
+          />
+          <TextField
+            label="Description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            size="small"
+          />
+          <TextField
+            label="Prompt"
+            value={promptTemplate}
+            onChange={(event) => setPromptTemplate(event.target.value)}
+            multiline
+            minRows={4}
+            helperText="Write {{name}} where a value should be filled in each time, e.g. {{season}}."
+            inputProps={{ "data-testid": "custom-tool-prompt" }}
+          />
+
+          {placeholders.map((name) => {
+            const draft = getDraft(name);
+            return (
+              <Stack
+                key={name}
+                spacing={1}
+                data-testid={`custom-tool-param-${name}`}
+                sx={{ pl: 1.5, borderLeft: 2, borderColor: "divider" }}
+              >
+                <Typography variant="caption" sx={{ fontFamily: "monospace" }}>
+                  {`{{${name}}}`}
+                </Typography>
+                <Stack direction="row" spacing={1}>
+                  <TextField
+                    label="Label"
+                    value={draft.label}
+                    onChange={(event) => updateDraft(name, { label: event.target.value })}
+                    size="small"
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    select
+                    label="Kind"
+                    value={draft.type}
+                    onChange={(event) =>
+                      updateDraft(name, { type: event.target.value as EditableParamType })
+                    }
+                    size="small"
+                    sx={{ width: 140 }}
+                  >
+                    {(Object.keys(PARAM_TYPE_LABELS) as EditableParamType[]).map((type) => (
+                      <MenuItem key={type} value={type}>
+                        {PARAM_TYPE_LABELS[type]}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Stack>
+                {draft.type === "select" && (
+                  <TextField
+                    label="Choices (comma-separated)"
+                    value={draft.options}
+                    onChange={(event) => updateDraft(name, { options: event.target.value })}
+                    size="small"
+                    error={!draft.options.trim()}
+                  />
+                )}
+                {draft.type !== "checkbox" && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={draft.optional}
+                        onChange={(event) => updateDraft(name, { optional: event.target.checked })}
+                      />
+                    }
+                    label="Optional"
+                  />
+                )}
+              </Stack>
+            );
+          })}
+
+          <TextField
+            select
+            label="Reference images"
+            value={referenceImages}
+            onChange={(event) =>
+              setReferenceImages(event.target.value as CustomToolSpec["referenceImages"])
+            }
+            size="small"
+          >
+            {(Object.keys(REFERENCE_MODE_LABELS) as CustomToolSpec["referenceImages"][]).map(
+              (mode) => (
+                <MenuItem key={mode} value={mode}>
+                  {REFERENCE_MODE_LABELS[mode]}
+                </MenuItem>
+              ),
+            )}
+          </TextField>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={editImage}
+                onChange={(event) => setEditImage(event.target.checked)}
+              />
+            }
+            label="Edits the Image to Edit (untick to create new images)"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={editImage && allowBatch}
+                disabled={!editImage}
+                onChange={(event) => setAllowBatch(event.target.checked)}
+              />
+            }
+            label="Can run on several ticked images at once"
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!canSave}
+          onClick={() => spec && onSave(spec)}
+          data-testid="custom-tool-save"
+        >
+          Save Tool
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -25,17 +25,24 @@ import {
   resolveToolModelId,
   resolveToolReasoningLevel,
 } from "../../lib/modelsCatalog";
+import {
+  MAX_TOOL_VARIANTS,
+  resolveToolVariantCount,
+  toolSupportsVariants,
+} from "../../lib/toolHelpers";
 import { theme } from "../../themes";
 
 interface ToolModelPickerProps {
   tool: ToolDefinition;
   modelByTool: Record<string, string>;
   reasoningByTool: Record<string, ModelReasoningLevel>;
+  variantsByTool: Record<string, number>;
   measuredStatsByKey: Record<string, MeasuredStats>;
   /** The output size token this tool would request now (drives the cost lookup). */
   sizeToken: string;
   onModelChange: (modelId: string) => void;
   onReasoningChange: (level: ModelReasoningLevel) => void;
+  onVariantsChange: (count: number) => void;
   disabled?: boolean;
 }
 
@@ -76,10 +83,12 @@ export const ToolModelPicker: React.FC<ToolModelPickerProps> = ({
   tool,
   modelByTool,
   reasoningByTool,
+  variantsByTool,
   measuredStatsByKey,
   sizeToken,
   onModelChange,
   onReasoningChange,
+  onVariantsChange,
   disabled = false,
 }) => {
   const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
@@ -95,6 +104,7 @@ export const ToolModelPicker: React.FC<ToolModelPickerProps> = ({
   const showNotRecommended = hasRecommendation && !recommendedSet.has(selectedId);
 
   const reasoningLevel = resolveToolReasoningLevel(tool, selectedModel, reasoningByTool);
+  const variantCount = resolveToolVariantCount(tool, variantsByTool);
   const measuredStats = getMeasuredStats(
     tool.id,
     selectedId,
@@ -118,6 +128,11 @@ export const ToolModelPicker: React.FC<ToolModelPickerProps> = ({
           When last measured, this cost {formatStats(measuredStats)}
         </Typography>
       )}
+      {variantCount > 1 && (
+        <Typography variant="caption" component="div">
+          Makes {variantCount} variants per run (each billed)
+        </Typography>
+      )}
     </Box>
   );
 
@@ -208,6 +223,24 @@ export const ToolModelPicker: React.FC<ToolModelPickerProps> = ({
               ))}
             </Select>
           </FormControl>
+          {toolSupportsVariants(tool) && (
+            <FormControl fullWidth size="small" sx={{ mt: 1.5 }}>
+              <InputLabel id={`variants-label-${tool.id}`}>Variants per run</InputLabel>
+              <Select
+                labelId={`variants-label-${tool.id}`}
+                label="Variants per run"
+                value={variantCount}
+                data-testid={`tool-variants-${tool.id}`}
+                onChange={(event) => onVariantsChange(Number(event.target.value))}
+              >
+                {Array.from({ length: MAX_TOOL_VARIANTS }, (_, index) => index + 1).map((count) => (
+                  <MenuItem key={count} value={count}>
+                    {count === 1 ? "1 (no chooser)" : `${count}, pick one`}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
         </Box>
       </Menu>
     </>
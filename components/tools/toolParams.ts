@@ -1,9 +1,10 @@
 import { ToolParamsById } from "../../types";
-import { TOOLS } from "./tools-registry";
+import { withoutMaskParams } from "../../lib/toolHelpers";
+import { getAllTools } from "../../lib/customTools";
 
 const buildDefaults = (): ToolParamsById => {
   const defaults: ToolParamsById = {};
-  TOOLS.forEach((tool) => {
+  getAllTools().forEach((tool) => {
     const toolDefaults: Record<string, string> = {};
     tool.parameters.forEach((param) => {
       if (typeof param.defaultValue === "string") {
@@ -36,7 +37,7 @@ export const mergeParamsWithDefaults = (existing?: ToolParamsById): ToolParamsBy
   // A persisted select value can be an option label from an older build (e.g.
   // a renamed method). Reset such values to the default so the select widget
   // doesn't render blank.
-  TOOLS.forEach((tool) => {
+  getAllTools().forEach((tool) => {
     tool.parameters.forEach((param) => {
       if (param.type !== "select" || !param.options?.length) return;
       const value = merged[tool.id]?.[param.name];
@@ -48,3 +49,23 @@ export const mergeParamsWithDefaults = (existing?: ToolParamsById): ToolParamsBy
 
   return merged;
 };
+
+/**
+ * Drop every tool's inpainting mask. Masks belong to one specific "Image to
+ * Edit", so they're cleared when the target changes and never persisted.
+ * Returns `paramsByTool` unchanged when no tool has a mask.
+ */
+export const clearMaskParams = (paramsByTool: ToolParamsById): ToolParamsById => {
+  let changed = false;
+  const next: ToolParamsById = { ...paramsByTool };
+  getAllTools().forEach((tool) => {
+    const current = paramsByTool[tool.id];
+    if (!current) return;
+    const cleared = withoutMaskParams(tool, current);
+    if (cleared !== current) {
+      next[tool.id] = cleared;
+      changed = true;
+    }
+  });
+  return changed ? next : paramsByTool;
+};
@@ -94,6 +94,30 @@ const appendOptionalInstructions = (
   return `${basePrompt}\n\n${prefix} ${trimmedInstructions}`;
 };
 
+/**
+ * Append the shared "Shape" picker to image tools that don't declare their
+ * own. Also applied to user-defined tools (lib/customTools).
+ */
+export const withAspectRatioParameter = (tool: ToolDefinition): ToolDefinition => {
+  if (!shouldExposeAspectRatio(tool)) {
+    return tool;
+  }
+
+  if (tool.parameters.some((parameter) => parameter.name === "aspectRatio")) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    parameters: [
+      ...tool.parameters,
+      createAspectRatioParameter(
+        tool.editImage === false ? DEFAULT_CREATE_ASPECT_RATIO : AUTO_ASPECT_RATIO,
+      ),
+    ],
+  };
+};
+
 export const TOOLS: ToolDefinition[] = (
   [
     {
@@ -563,6 +587,12 @@ export const TOOLS: ToolDefinition[] = (
           type: "textarea",
           placeholder: "Describe how to change the image...",
         },
+        {
+          name: "mask",
+          label: "Area to Change",
+          type: "mask",
+          optional: true,
+        },
       ],
       promptTemplate: (params: Record<string, string>) => params.prompt,
       referenceImages: "0+",
@@ -649,6 +679,12 @@ export const TOOLS: ToolDefinition[] = (
           type: "text",
           placeholder: "e.g. the red ball, background clutter",
         },
+        {
+          name: "mask",
+          label: "Area to Change",
+          type: "mask",
+          optional: true,
+        },
       ],
       promptTemplate: (params: Record<string, string>) =>
         `Clean up the image by removing ${params.target}. Infill the area naturally to match the surrounding background.`,
@@ -667,22 +703,4 @@ export const TOOLS: ToolDefinition[] = (
       allowBatch: true,
     },
   ] as ToolDefinition[]
-).map((tool) => {
-  if (!shouldExposeAspectRatio(tool)) {
-    return tool;
-  }
-
-  if (tool.parameters.some((parameter) => parameter.name === "aspectRatio")) {
-    return tool;
-  }
-
-  return {
-    ...tool,
-    parameters: [
-      ...tool.parameters,
-      createAspectRatioParameter(
-        tool.editImage === false ? DEFAULT_CREATE_ASPECT_RATIO : AUTO_ASPECT_RATIO,
-      ),
-    ],
-  };
-});
+).map(withAspectRatioParameter);
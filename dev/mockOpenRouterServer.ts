@@ -0,0 +1,288 @@
+/**
+ * A local stand-in for the OpenRouter API that answers with scripted responses,
+ * so the real HTTP path (retries, OpenRouterApiError reasons, fallback-model
+ * failover, cost parsing) can be exercised without a network or a paid key.
+ * The Local Dummy model skips that path entirely; this doesn't.
+ *
+ * From vitest: `startMockOpenRouterServer()`, then point the app code at
+ * `server.url` via `window.__bloomOpenRouterBaseUrl` (see getOpenRouterBaseUrl)
+ * and queue responses with `server.script(...)`.
+ *
+ * From Playwright or by hand: `node dev/mockOpenRouterServer.ts [port]` (Node
+ * 22.18+ runs TypeScript directly), then set `window.__bloomOpenRouterBaseUrl`
+ * in an init script, or start the dev server with `VITE_OPENROUTER_BASE_URL`.
+ * A spec in another process scripts the server over HTTP:
+ *   POST /__mock/script   body: MockOpenRouterResponse[] — appended to the queue
+ *   GET  /__mock/requests — the requests received so far
+ *   POST /__mock/reset    — empty the queue and the request log
+ *
+ * Each request to /chat/completions takes the first queued response whose
+ * `model` is unset or matches the requested model; with nothing queued it
+ * answers with a tiny image at no cost. A request with `stream: true` gets a
+ * 200 response as server-sent events: reasoning, text and images as separate
+ * deltas, then the finish reason, then usage. /key and /credits always succeed.
+ *
+ * Self-contained (Node built-ins only) so it runs without a bundler.
+ */
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+
+export interface MockOpenRouterResponse {
+  /** HTTP status; defaults to 200. */
+  status?: number;
+  /** JSON body. */
+  body: unknown;
+  /** Only answer requests for this model id. */
+  model?: string;
+  delayMs?: number;
+}
+
+export interface MockOpenRouterRequest {
+  method: string;
+  path: string;
+  /** Parsed JSON body, or null for GETs and unparsable bodies. */
+  body: any;
+}
+
+export interface MockOpenRouterServer {
+  /** Base URL to use in place of OPENROUTER_BASE_URL (no trailing slash). */
+  url: string;
+  requests: MockOpenRouterRequest[];
+  script: (...responses: MockOpenRouterResponse[]) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+/** A 1×1 transparent PNG. */
+export const MOCK_IMAGE_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+interface CompletionOptions {
+  model?: string;
+  cost?: number;
+  /** Reasoning text; streamed before anything else. */
+  reasoning?: string;
+  finishReason?: string;
+}
+
+const completion = (message: Record<string, unknown>, options: CompletionOptions) => ({
+  id: "gen-mock",
+  model: options.model ?? "mock/model",
+  choices: [
+    {
+      finish_reason: options.finishReason ?? "stop",
+      message: {
+        role: "assistant",
+        content: "",
+        ...(options.reasoning ? { reasoning: options.reasoning } : {}),
+        ...message,
+      },
+    },
+  ],
+  usage: { cost: options.cost ?? 0 },
+});
+
+/** Splits a completion body into the chunks OpenRouter would stream. */
+const toStreamChunks = (body: any): unknown[] => {
+  if (!Array.isArray(body?.choices)) return [body];
+  const { choices, usage, ...rest } = body;
+  const choice = choices[0] ?? {};
+  const message = choice.message ?? {};
+  const delta = (part: Record<string, unknown>, finishReason: string | null = null) => ({
+    ...rest,
+    choices: [{ index: 0, delta: part, finish_reason: finishReason }],
+  });
+  return [
+    ...(message.reasoning ? [delta({ role: "assistant", reasoning: message.reasoning })] : []),
+    ...(message.content ? [delta({ content: message.content })] : []),
+    ...(message.images?.length ? [delta({ images: message.images })] : []),
+    delta({}, choice.finish_reason ?? "stop"),
+    { ...rest, choices: [], usage },
+  ];
+};
+
+const errorBody = (code: number, message: string) => ({ error: { code, message } });
+
+/** Builders for the responses OpenRouter is known to give. */
+export const mockResponses = {
+  image: (options: CompletionOptions & { imageDataUrl?: string } = {}): MockOpenRouterResponse => ({
+    body: completion(
+      {
+        images: [
+          { type: "image_url", image_url: { url: options.imageDataUrl ?? MOCK_IMAGE_DATA_URL } },
+        ],
+      },
+      options,
+    ),
+  }),
+  /** A successful answer with text but no image (e.g. a refusal or a description). */
+  textOnly: (text: string, options: CompletionOptions = {}): MockOpenRouterResponse => ({
+    body: completion({ content: text }, options),
+  }),
+  /** 200 with nothing in it: Gemini's transient hiccup, worth retrying. */
+  empty: (options: CompletionOptions = {}): MockOpenRouterResponse => ({
+    body: completion({}, options),
+  }),
+  /** The output budget ran out (on reasoning) before the image. */
+  truncated: (options: CompletionOptions = {}): MockOpenRouterResponse => ({
+    body: completion({}, { ...options, finishReason: "length" }),
+  }),
+  insufficientCredits: (): MockOpenRouterResponse => ({
+    status: 402,
+    body: errorBody(402, "Insufficient credits. Add more using https://openrouter.ai/credits"),
+  }),
+  rateLimited: (): MockOpenRouterResponse => ({
+    status: 429,
+    body: errorBody(429, "Provider returned error: temporarily rate-limited upstream"),
+  }),
+  /** A 200 whose body is an error: how a streamed request reports a provider failure. */
+  midStreamError: (): MockOpenRouterResponse => ({
+    body: errorBody(502, "Provider returned error: upstream connection reset"),
+  }),
+  /** What a retired or renamed model key gets; only answers requests for that key. */
+  modelNotFound: (modelId: string): MockOpenRouterResponse => ({
+    status: 404,
+    model: modelId,
+    body: errorBody(404, "No endpoints found that support the requested output modalities"),
+  }),
+};
+
+const readBody = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const sendStream = (res: ServerResponse, chunks: unknown[]) => {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.write(": OPENROUTER PROCESSING\n\n");
+  for (const chunk of chunks) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end("data: [DONE]\n\n");
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+export const startMockOpenRouterServer = async (
+  options: { port?: number; host?: string } = {},
+): Promise<MockOpenRouterServer> => {
+  const host = options.host ?? "127.0.0.1";
+  const queue: MockOpenRouterResponse[] = [];
+  const requests: MockOpenRouterRequest[] = [];
+
+  const takeResponse = (model: unknown): MockOpenRouterResponse | null => {
+    const index = queue.findIndex((response) => !response.model || response.model === model);
+    return index < 0 ? null : (queue.splice(index, 1)[0] ?? null);
+  };
+
+  const server = createServer((req, res) => {
+    // The app calls from the dev server's origin with an Authorization header,
+    // so every request is preflighted.
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Authorization, Content-Type, HTTP-Referer, X-Title",
+    );
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    void (async () => {
+      const method = req.method ?? "GET";
+      const path = new URL(req.url ?? "/", "http://mock").pathname.replace(/^\/api\/v1/, "");
+      const body = await readBody(req);
+
+      if (path === "/__mock/script" && method === "POST") {
+        queue.push(...(Array.isArray(body) ? body : []));
+        sendJson(res, 200, { queued: queue.length });
+        return;
+      }
+      if (path === "/__mock/requests") {
+        sendJson(res, 200, requests);
+        return;
+      }
+      if (path === "/__mock/reset" && method === "POST") {
+        queue.length = 0;
+        requests.length = 0;
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      requests.push({ method, path, body });
+
+      if (path === "/chat/completions" && method === "POST") {
+        const response = takeResponse(body?.model) ?? mockResponses.image();
+        if (response.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+        }
+        const status = response.status ?? 200;
+        if (body?.stream === true && status === 200) {
+          sendStream(res, toStreamChunks(response.body));
+        } else {
+          sendJson(res, status, response.body);
+        }
+        return;
+      }
+      if (path === "/key") {
+        sendJson(res, 200, { data: { label: "mock", limit: null, usage: 0 } });
+        return;
+      }
+      if (path === "/credits") {
+        sendJson(res, 200, { data: { total_credits: 10, total_usage: 0 } });
+        return;
+      }
+      sendJson(res, 404, errorBody(404, `Mock OpenRouter has no ${method} ${path}`));
+    })().catch((error: unknown) => {
+      sendJson(res, 500, errorBody(500, error instanceof Error ? error.message : String(error)));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}/api/v1`,
+    requests,
+    script: (...responses) => {
+      queue.push(...responses);
+    },
+    reset: () => {
+      queue.length = 0;
+      requests.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number.parseInt(process.argv[2] ?? "", 10) || 3099;
+  void startMockOpenRouterServer({ port }).then((server) => {
+    console.log(`Mock OpenRouter listening at ${server.url}`);
+  });
+}
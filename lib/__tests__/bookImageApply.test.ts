@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vite-plus/test";
+import {
+  applyBookImageReplacement,
+  isReplacementPending,
+  runBookSlotUpdate,
+  withAppliedReplacement,
+  withoutAppliedReplacement,
+  type AppliedReplacements,
+  type BookImageApplyDeps,
+} from "../bookImageApply";
+import type { ImageRecord } from "../../types";
+
+const record = (id: string, over: Partial<ImageRecord> = {}): ImageRecord => ({
+  id,
+  parentId: null,
+  imageData: `data:image/png;base64,${id}`,
+  toolId: "generate",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "test",
+  timestamp: 0,
+  promptUsed: "",
+  ...over,
+});
+
+const bookImage = record("book-1", { origin: "bookImages" });
+
+/** A host and history in memory; the snapshot is made once per slot, as in the workspace. */
+const createDeps = (options: { hostError?: string } = {}) => {
+  const history: ImageRecord[] = [];
+  const applied: Array<[string, string]> = [];
+  const deps: BookImageApplyDeps = {
+    applyToHost: vi.fn(async (incomingId: string, item: ImageRecord) => {
+      if (options.hostError) throw new Error(options.hostError);
+      applied.push([incomingId, item.id]);
+    }),
+    snapshotBookImage: async (image) => {
+      const existing = history.find((item) => item.incomingSlotId === image.id);
+      if (existing) return { parentId: existing.id, snapshot: null };
+      const snapshot = record(`original-${image.id}`, {
+        incomingSlotId: image.id,
+        origin: "bookOriginal",
+      });
+      return { parentId: snapshot.id, snapshot };
+    },
+    addToHistory: (item) => history.push(item),
+  };
+  return { deps, history, applied };
+};
+
+const runSlot = async (update: () => Promise<void>) => {
+  const busy: boolean[] = [];
+  const errors: string[] = [];
+  await runBookSlotUpdate("book-1", update, {
+    onBusyChange: (_id, value) => busy.push(value),
+    onError: (message) => errors.push(message),
+  });
+  return { busy, errors };
+};
+
+describe("book image apply", () => {
+  it("snapshots the book image, applies the replacement and marks the slot applied", async () => {
+    const { deps, history, applied } = createDeps();
+    const replacement = record("result-1");
+    let state: AppliedReplacements = {};
+    expect(isReplacementPending(state, "book-1", replacement)).toBe(true);
+
+    const { busy, errors } = await runSlot(async () => {
+      const entry = await applyBookImageReplacement(deps, "book-1", bookImage, replacement);
+      state = withAppliedReplacement(state, "book-1", entry);
+    });
+
+    expect(busy).toEqual([true, false]);
+    expect(errors).toEqual([]);
+    expect(history.map((item) => item.id)).toEqual(["original-book-1"]);
+    expect(applied).toEqual([["book-1", "result-1"]]);
+    expect(state).toEqual({
+      "book-1": { replacementId: "result-1", originalId: "original-book-1" },
+    });
+    expect(isReplacementPending(state, "book-1", replacement)).toBe(false);
+  });
+
+  it("undoes by applying the original, leaving the assignment pending again", async () => {
+    const { deps, applied } = createDeps();
+    const replacement = record("result-1");
+    let state = withAppliedReplacement(
+      {},
+      "book-1",
+      await applyBookImageReplacement(deps, "book-1", bookImage, replacement),
+    );
+
+    await runSlot(async () => {
+      await deps.applyToHost("book-1", record(state["book-1"].originalId));
+      state = withoutAppliedReplacement(state, "book-1");
+    });
+
+    expect(applied.at(-1)).toEqual(["book-1", "original-book-1"]);
+    expect(state).toEqual({});
+    expect(isReplacementPending(state, "book-1", replacement)).toBe(true);
+    expect(withoutAppliedReplacement(state, "book-1")).toBe(state);
+  });
+
+  it("re-applies a reassigned slot against the first original", async () => {
+    const { deps, history } = createDeps();
+    let state = withAppliedReplacement(
+      {},
+      "book-1",
+      await applyBookImageReplacement(deps, "book-1", bookImage, record("result-1")),
+    );
+    const reassigned = record("result-2");
+    expect(isReplacementPending(state, "book-1", reassigned)).toBe(true);
+
+    state = withAppliedReplacement(
+      state,
+      "book-1",
+      await applyBookImageReplacement(deps, "book-1", bookImage, reassigned),
+    );
+
+    expect(history).toHaveLength(1);
+    expect(state["book-1"]).toEqual({ replacementId: "result-2", originalId: "original-book-1" });
+    expect(isReplacementPending(state, "book-1", null)).toBe(false);
+  });
+
+  it("reports a failed host ack and leaves the slot as it was", async () => {
+    const { deps } = createDeps({ hostError: "Document is locked." });
+    let state: AppliedReplacements = {};
+
+    const { busy, errors } = await runSlot(async () => {
+      const entry = await applyBookImageReplacement(deps, "book-1", bookImage, record("result-1"));
+      state = withAppliedReplacement(state, "book-1", entry);
+    });
+
+    expect(errors).toEqual(["Could not update the book: Document is locked."]);
+    expect(busy).toEqual([true, false]);
+    expect(state).toEqual({});
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  DEFAULT_STORAGE_PIN_SETTINGS,
+  getPinnedImageIds,
+  isQuotaError,
+  normalizeStoragePinSettings,
+  pickEvictionVictim,
+  summarizeHistoryStorage,
+} from "../browserStorage";
+import type { ThumbnailStripsSnapshot } from "../../types";
+
+const strips: ThumbnailStripsSnapshot = {
+  activeStripId: "history",
+  pinnedStripIds: [],
+  itemIdsByStrip: {
+    history: ["a", "b", "c", "d"],
+    starred: ["b"],
+    reference: ["a"],
+    bookImages: [],
+    characters: ["c", "b"],
+  },
+};
+
+describe("normalizeStoragePinSettings", () => {
+  it("falls back to the defaults field by field", () => {
+    expect(normalizeStoragePinSettings(null)).toEqual(DEFAULT_STORAGE_PIN_SETTINGS);
+    expect(normalizeStoragePinSettings({ starred: false, characters: "yes" })).toEqual({
+      starred: false,
+      characters: true,
+    });
+  });
+});
+
+describe("getPinnedImageIds", () => {
+  it("pins the starred and characters strips as chosen", () => {
+    expect(getPinnedImageIds(strips, { starred: true, characters: true })).toEqual(["b", "c"]);
+    expect(getPinnedImageIds(strips, { starred: false, characters: true })).toEqual(["c", "b"]);
+    expect(getPinnedImageIds(strips, { starred: false, characters: false })).toEqual([]);
+  });
+});
+
+describe("pickEvictionVictim", () => {
+  it("takes the least recently used image that isn't pinned", () => {
+    expect(pickEvictionVictim(["a", "b", "c"], [])).toBe("a");
+    expect(pickEvictionVictim(["a", "b", "c"], ["a", "b"])).toBe("c");
+    expect(pickEvictionVictim(["a", "b"], ["a", "b"])).toBeNull();
+  });
+});
+
+describe("summarizeHistoryStorage", () => {
+  it("splits entries into cached and metadata-only, counting only cached pins", () => {
+    expect(summarizeHistoryStorage(["a", "b", "c", "d"], ["d", "b"], ["b", "c"])).toEqual({
+      cachedIds: ["b", "d"],
+      metadataOnlyIds: ["a", "c"],
+      pinnedIds: ["b"],
+    });
+  });
+});
+
+describe("isQuotaError", () => {
+  it("recognizes the browser's out-of-room errors only", () => {
+    expect(isQuotaError(new DOMException("full", "QuotaExceededError"))).toBe(true);
+    expect(isQuotaError(new DOMException("full", "NS_ERROR_DOM_QUOTA_REACHED"))).toBe(true);
+    expect(isQuotaError(new DOMException("gone", "NotFoundError"))).toBe(false);
+    expect(isQuotaError(new Error("QuotaExceededError"))).toBe(false);
+  });
+});
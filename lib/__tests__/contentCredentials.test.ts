@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  CONTENT_CREDENTIALS_KEY_STORAGE_KEY,
+  readContentCredentials,
+  signContentCredentials,
+  verifyContentCredentials,
+} from "../contentCredentials";
+import { injectPngMetadata } from "../pngMetadata";
+
+const toBytes = (base64: string): Uint8Array => new Uint8Array(Buffer.from(base64, "base64"));
+
+// 1x1 transparent PNG
+const PNG_1X1_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/6Xk5GQAAAAASUVORK5CYII=";
+const PNG_DATA_URL = `data:image/png;base64,${PNG_1X1_BASE64}`;
+
+const createMemoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+  };
+};
+
+const details = {
+  model: "google/gemini-2.5-flash-image",
+  toolId: "change_style",
+  description: "Change Style",
+  when: Date.UTC(2026, 0, 2),
+  sources: [
+    {
+      title: "Page 3",
+      relationship: "parentOf" as const,
+      imageData: PNG_DATA_URL,
+      credits: { creator: "Jane Artist" },
+    },
+  ],
+};
+
+// Flips one byte inside the IDAT chunk's compressed data.
+const changePicture = (png: Uint8Array): Uint8Array => {
+  const copy = new Uint8Array(png);
+  const idat = Buffer.from(copy).indexOf("IDAT");
+  copy[idat + 6] ^= 0xff;
+  return copy;
+};
+
+describe("content credentials", () => {
+  it("signs a claim naming the action, model and source, and verifies it", async () => {
+    const storage = createMemoryStorage();
+    const signed = await signContentCredentials(toBytes(PNG_1X1_BASE64), details, storage);
+
+    const verification = await verifyContentCredentials(signed, storage);
+    expect(verification?.status).toBe("valid");
+    expect(verification?.signedHere).toBe(true);
+    expect(verification?.claim.actions[0]).toMatchObject({
+      action: "c2pa.edited",
+      softwareAgent: "google/gemini-2.5-flash-image",
+    });
+    expect(verification?.claim.ingredients).toEqual([
+      expect.objectContaining({
+        title: "Page 3",
+        relationship: "parentOf",
+        credits: { creator: "Jane Artist" },
+      }),
+    ]);
+    // The key is kept for next time, and the manifest only carries the public half.
+    expect(storage.getItem(CONTENT_CREDENTIALS_KEY_STORAGE_KEY)).toBeTruthy();
+    expect(readContentCredentials(signed)?.publicKey).not.toHaveProperty("d");
+  });
+
+  it("stays valid when other metadata is added after signing", async () => {
+    const storage = createMemoryStorage();
+    const signed = await signContentCredentials(toBytes(PNG_1X1_BASE64), details, storage);
+    const exported = injectPngMetadata(signed, { internationalText: { Caption: "A cat" } });
+
+    expect((await verifyContentCredentials(exported, storage))?.status).toBe("valid");
+  });
+
+  it("reports a changed picture and a tampered claim", async () => {
+    const storage = createMemoryStorage();
+    const signed = await signContentCredentials(toBytes(PNG_1X1_BASE64), details, storage);
+
+    expect((await verifyContentCredentials(changePicture(signed), storage))?.status).toBe(
+      "image-changed",
+    );
+
+    const manifest = readContentCredentials(signed);
+    const tampered = injectPngMetadata(signed, {
+      internationalText: {
+        "bloom-ai-image-tools:content-credentials": JSON.stringify({
+          ...manifest,
+          claim: manifest?.claim.replace("gemini-2.5-flash-image", "hand-drawn"),
+        }),
+      },
+    });
+    expect((await verifyContentCredentials(tampered, storage))?.status).toBe("invalid-signature");
+  });
+
+  it("says when a manifest was signed with another computer's key", async () => {
+    const signed = await signContentCredentials(
+      toBytes(PNG_1X1_BASE64),
+      { ...details, sources: [] },
+      createMemoryStorage(),
+    );
+
+    const verification = await verifyContentCredentials(signed, createMemoryStorage());
+    expect(verification?.status).toBe("valid");
+    expect(verification?.signedHere).toBe(false);
+    expect(verification?.claim.actions[0].action).toBe("c2pa.created");
+  });
+
+  it("returns null for images without credentials", async () => {
+    expect(await verifyContentCredentials(toBytes(PNG_1X1_BASE64), createMemoryStorage())).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from "vite-plus/test";
+import type { ArtStyleDefinition } from "../../types";
+import {
+  mergeCustomArtStyles,
+  normalizeCustomArtStyle,
+  parseArtStyleCategories,
+  parseCustomArtStylesFile,
+  serializeCustomArtStyles,
+} from "../customArtStyles";
+import {
+  ART_STYLES,
+  applyArtStyleToPrompt,
+  getArtStyleById,
+  getArtStylesByCategories,
+  registerCustomArtStyles,
+} from "../artStyles";
+
+const makeStyle = (over: Partial<ArtStyleDefinition> = {}): ArtStyleDefinition => ({
+  id: "user:house-watercolor-abcd",
+  name: "House watercolor",
+  promptDetail: "Soft watercolor washes, warm paper texture.",
+  description: "",
+  categories: ["Line Art"],
+  sampleImageUrl: "data:image/png;base64,AAAA",
+  ...over,
+});
+
+describe("normalizeCustomArtStyle", () => {
+  it("rejects styles without the user: id prefix, name or prompt detail", () => {
+    expect(normalizeCustomArtStyle(makeStyle({ id: "watercolor" }))).toBeNull();
+    expect(normalizeCustomArtStyle(makeStyle({ name: " " }))).toBeNull();
+    expect(normalizeCustomArtStyle(makeStyle({ promptDetail: "" }))).toBeNull();
+  });
+
+  it("drops unusable sample images and duplicate categories", () => {
+    const style = normalizeCustomArtStyle({
+      ...makeStyle({ sampleImageUrl: "javascript:alert(1)" }),
+      categories: ["Line Art", " line art ", "Educational", 3],
+    });
+
+    expect(style?.sampleImageUrl).toBeUndefined();
+    expect(style?.categories).toEqual(["Line Art", "Educational"]);
+  });
+
+  it("splits comma-separated categories", () => {
+    expect(parseArtStyleCategories("Line Art, , Educational")).toEqual(["Line Art", "Educational"]);
+  });
+});
+
+describe("custom art styles file", () => {
+  it("round-trips through serialize and parse", () => {
+    const styles = [makeStyle()];
+    expect(parseCustomArtStylesFile(serializeCustomArtStyles(styles))).toEqual(styles);
+  });
+
+  it("throws on unreadable or empty files", () => {
+    expect(() => parseCustomArtStylesFile("{ nope")).toThrow(/JSON5/);
+    expect(() => parseCustomArtStylesFile("{ version: 1, styles: [] }")).toThrow(/any art styles/);
+  });
+
+  it("merges imports by id, keeping existing order", () => {
+    const merged = mergeCustomArtStyles(
+      [makeStyle({ id: "user:a", name: "A" }), makeStyle({ id: "user:b", name: "B" })],
+      [makeStyle({ id: "user:a", name: "A2" }), makeStyle({ id: "user:c", name: "C" })],
+    );
+
+    expect(merged.map((style) => style.name)).toEqual(["A2", "B", "C"]);
+  });
+});
+
+describe("custom art style registry", () => {
+  afterEach(() => {
+    registerCustomArtStyles([]);
+  });
+
+  it("exposes registered styles to lookups, filters and prompts", () => {
+    registerCustomArtStyles([makeStyle()]);
+
+    expect(getArtStyleById("user:house-watercolor-abcd")?.previewUrl).toBe(
+      "data:image/png;base64,AAAA",
+    );
+    expect(getArtStylesByCategories().length).toBe(ART_STYLES.length + 1);
+    expect(getArtStylesByCategories("line art").some((style) => style.id === makeStyle().id)).toBe(
+      true,
+    );
+    expect(applyArtStyleToPrompt("Draw a fox.", "user:house-watercolor-abcd")).toBe(
+      "Draw a fox.\n\nArt direction (House watercolor): Soft watercolor washes, warm paper texture.",
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from "vite-plus/test";
+import type { CustomToolSpec } from "../../types";
+import { TOOLS } from "../../components/tools/tools-registry";
+import {
+  customToolToDefinition,
+  extractTemplatePlaceholders,
+  getAllTools,
+  mergeCustomToolSpecs,
+  normalizeCustomToolSpec,
+  parseCustomToolsFile,
+  registerCustomTools,
+  renderPromptTemplate,
+  serializeCustomTools,
+} from "../customTools";
+import { getToolById } from "../toolHelpers";
+
+const makeSpec = (over: Partial<CustomToolSpec> = {}): CustomToolSpec => ({
+  id: "user:make-it-snow-abcd",
+  title: "Make it snow",
+  promptTemplate: "Add {{amount}} snow to the scene.\n\n{{extra}}",
+  parameters: [
+    { name: "amount", label: "Amount", type: "select", options: ["light", "heavy"] },
+    { name: "extra", label: "Extra", type: "textarea", optional: true },
+  ],
+  referenceImages: "0",
+  editImage: true,
+  allowBatch: true,
+  ...over,
+});
+
+describe("custom tool templates", () => {
+  it("lists each placeholder once, in order", () => {
+    expect(extractTemplatePlaceholders("{{a}} {{ b }} {{a}} {{c-d}} {not}")).toEqual([
+      "a",
+      "b",
+      "c-d",
+    ]);
+  });
+
+  it("fills placeholders and drops blank lines left by empty ones", () => {
+    const spec = makeSpec();
+    expect(renderPromptTemplate(spec.promptTemplate, spec.parameters, { amount: "heavy" })).toBe(
+      "Add heavy snow to the scene.",
+    );
+  });
+
+  it("never inlines a mask value", () => {
+    expect(
+      renderPromptTemplate("Fix {{area}}", [{ name: "area", label: "Area", type: "mask" }], {
+        area: "data:image/png;base64,AAAA",
+      }),
+    ).toBe("Fix");
+  });
+});
+
+describe("normalizeCustomToolSpec", () => {
+  it("rejects specs without the user: id prefix, title or prompt", () => {
+    expect(normalizeCustomToolSpec(makeSpec({ id: "custom" }))).toBeNull();
+    expect(normalizeCustomToolSpec(makeSpec({ title: "  " }))).toBeNull();
+    expect(normalizeCustomToolSpec(makeSpec({ promptTemplate: "" }))).toBeNull();
+  });
+
+  it("drops invalid parameters and batch on non-editing tools", () => {
+    const spec = normalizeCustomToolSpec({
+      ...makeSpec({ editImage: false }),
+      parameters: [
+        { name: "amount", type: "select", options: [] },
+        { name: "bad name", type: "text" },
+        { name: "mood", type: "text" },
+      ],
+    });
+
+    expect(spec?.parameters).toEqual([{ name: "mood", label: "mood", type: "text" }]);
+    expect(spec?.allowBatch).toBe(false);
+  });
+});
+
+describe("custom tools file", () => {
+  it("round-trips through serialize and parse", () => {
+    const specs = [makeSpec()];
+    expect(parseCustomToolsFile(serializeCustomTools(specs))).toEqual(specs);
+  });
+
+  it("throws on unreadable or empty files", () => {
+    expect(() => parseCustomToolsFile("{ nope")).toThrow(/JSON5/);
+    expect(() => parseCustomToolsFile("{ version: 1, tools: [] }")).toThrow(/any tools/);
+  });
+
+  it("merges imports by id, keeping existing order", () => {
+    const first = makeSpec({ id: "user:a", title: "A" });
+    const second = makeSpec({ id: "user:b", title: "B" });
+    const merged = mergeCustomToolSpecs(
+      [first, second],
+      [makeSpec({ id: "user:a", title: "A2" }), makeSpec({ id: "user:c", title: "C" })],
+    );
+
+    expect(merged.map((spec) => spec.title)).toEqual(["A2", "B", "C"]);
+  });
+});
+
+describe("custom tool registry", () => {
+  afterEach(() => {
+    registerCustomTools([]);
+  });
+
+  it("exposes registered tools to id lookups", () => {
+    registerCustomTools([makeSpec()]);
+
+    expect(getAllTools()).toHaveLength(TOOLS.length + 1);
+    expect(getToolById("user:make-it-snow-abcd")?.group).toBe("custom");
+  });
+
+  it("gives creation tools the aspect-ratio picker", () => {
+    const definition = customToolToDefinition(makeSpec({ editImage: false }));
+
+    expect(definition.parameters.some((param) => param.type === "aspect-ratio")).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  buildLineageTree,
+  collectBranchIds,
+  flattenLineageTree,
+  getAncestorIds,
+  type LineageItem,
+} from "../historyLineage";
+
+// upload -> a -> a1
+//        \-> b    (b made after a)
+// a -> a2 (made after a1)
+const items: LineageItem[] = [
+  { id: "a2", parentId: "a", timestamp: 5 },
+  { id: "upload", parentId: null, timestamp: 1 },
+  { id: "b", parentId: "upload", timestamp: 3 },
+  { id: "a", parentId: "upload", timestamp: 2 },
+  { id: "a1", parentId: "a", timestamp: 4 },
+  { id: "stray", parentId: "deleted-long-ago", timestamp: 6 },
+];
+
+describe("history lineage", () => {
+  it("walks parentId up to the oldest known ancestor", () => {
+    expect(getAncestorIds(items, "a1")).toEqual(["a1", "a", "upload"]);
+    expect(getAncestorIds(items, "stray")).toEqual(["stray"]);
+    expect(getAncestorIds(items, "missing")).toEqual([]);
+  });
+
+  it("builds the whole tree from any node, children oldest first", () => {
+    const root = buildLineageTree(items, "a2");
+    expect(root?.item.id).toBe("upload");
+    expect(flattenLineageTree(root!).map(({ item, depth }) => `${depth}:${item.id}`)).toEqual([
+      "0:upload",
+      "1:a",
+      "2:a1",
+      "2:a2",
+      "1:b",
+    ]);
+  });
+
+  it("treats an image whose parent is gone as a root", () => {
+    expect(buildLineageTree(items, "stray")?.children).toEqual([]);
+    expect(buildLineageTree(items, "missing")).toBeNull();
+  });
+
+  it("collects a branch, parents before children", () => {
+    expect(collectBranchIds(items, "a")).toEqual(["a", "a1", "a2"]);
+    expect(collectBranchIds(items, "b")).toEqual(["b"]);
+    expect(collectBranchIds(items, "missing")).toEqual([]);
+  });
+
+  it("survives a parentId cycle", () => {
+    const cyclic: LineageItem[] = [
+      { id: "x", parentId: "y", timestamp: 1 },
+      { id: "y", parentId: "x", timestamp: 2 },
+    ];
+    expect(getAncestorIds(cyclic, "x")).toEqual(["x", "y"]);
+    expect(collectBranchIds(cyclic, "x")).toEqual(["x", "y"]);
+    expect(flattenLineageTree(buildLineageTree(cyclic, "x")!)).toHaveLength(2);
+  });
+});
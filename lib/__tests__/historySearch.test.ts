@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  EMPTY_HISTORY_SEARCH,
+  collectHistorySearchFacets,
+  createHistorySearchMatcher,
+  filterItemIdsBySearch,
+  getCostRange,
+  isHistorySearchActive,
+  normalizeHistorySearchQuery,
+  toggleFacetValue,
+} from "../historySearch";
+import type { ImageRecord } from "../../types";
+
+const record = (id: string, overrides: Partial<ImageRecord> = {}): ImageRecord => ({
+  id,
+  parentId: null,
+  imageData: "",
+  toolId: "generate",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "test/model",
+  timestamp: new Date(2026, 9, 19, 12).getTime(),
+  promptUsed: "",
+  ...overrides,
+});
+
+const items = [
+  record("a", { promptUsed: "A red fox in the snow", cost: 0.02, isStarred: true }),
+  record("b", {
+    caption: "The fox ran away",
+    toolId: "edit",
+    model: "other/model",
+    cost: 0.1,
+    origin: "uploaded",
+  }),
+  record("c", {
+    name: "Maria",
+    parameters: { mood: "cheerful" },
+    sourceStyleId: "watercolor",
+    timestamp: new Date(2025, 0, 2).getTime(),
+  }),
+];
+
+const search = (query: Partial<typeof EMPTY_HISTORY_SEARCH>) =>
+  items.filter(createHistorySearchMatcher({ ...EMPTY_HISTORY_SEARCH, ...query })).map((i) => i.id);
+
+describe("createHistorySearchMatcher", () => {
+  it("matches every word against prompt, caption, name, parameters, style and date", () => {
+    expect(search({ text: "fox" })).toEqual(["a", "b"]);
+    expect(search({ text: "FOX snow" })).toEqual(["a"]);
+    expect(search({ text: "maria cheerful" })).toEqual(["c"]);
+    expect(search({ text: "watercolor" })).toEqual(["c"]);
+    expect(search({ text: "2025-01-02" })).toEqual(["c"]);
+    expect(search({ text: "october 2026" })).toEqual(["a", "b"]);
+    expect(search({ text: "other/model" })).toEqual(["b"]);
+  });
+
+  it("requires every facet in use, any value within a facet", () => {
+    expect(search({ toolIds: ["edit", "generate"] })).toEqual(["a", "b", "c"]);
+    expect(search({ toolIds: ["generate"], starredOnly: true })).toEqual(["a"]);
+    expect(search({ origins: ["generated"] })).toEqual(["a", "c"]);
+    expect(search({ costRanges: ["free", "medium"] })).toEqual(["b", "c"]);
+    expect(search({ text: "fox", models: ["test/model"] })).toEqual(["a"]);
+  });
+});
+
+describe("getCostRange", () => {
+  it("buckets costs, treating unknown costs as free", () => {
+    expect(getCostRange(0)).toBe("free");
+    expect(getCostRange(Number.NaN)).toBe("free");
+    expect(getCostRange(0.049)).toBe("low");
+    expect(getCostRange(0.05)).toBe("medium");
+    expect(getCostRange(1)).toBe("high");
+  });
+});
+
+describe("collectHistorySearchFacets", () => {
+  it("offers only the values present", () => {
+    expect(collectHistorySearchFacets(items)).toEqual({
+      toolIds: ["edit", "generate"],
+      models: ["other/model", "test/model"],
+      origins: ["generated", "uploaded"],
+      costRanges: ["free", "low", "medium"],
+    });
+  });
+});
+
+describe("filterItemIdsBySearch", () => {
+  it("keeps matching ids in order and drops ids without a loaded image", () => {
+    const byId = Object.fromEntries(items.map((item) => [item.id, item]));
+    const matches = createHistorySearchMatcher({ ...EMPTY_HISTORY_SEARCH, text: "fox" });
+    expect(filterItemIdsBySearch(["b", "missing", "c", "a"], byId, matches)).toEqual(["b", "a"]);
+  });
+});
+
+describe("normalizeHistorySearchQuery", () => {
+  it("drops unknown values and falls back to an empty query", () => {
+    expect(normalizeHistorySearchQuery(undefined)).toEqual(EMPTY_HISTORY_SEARCH);
+    expect(
+      normalizeHistorySearchQuery({
+        text: "fox",
+        toolIds: ["edit", 3],
+        origins: ["uploaded", "alien"],
+        starredOnly: "yes",
+        costRanges: ["low", "cheap"],
+      }),
+    ).toEqual({
+      ...EMPTY_HISTORY_SEARCH,
+      text: "fox",
+      toolIds: ["edit"],
+      origins: ["uploaded"],
+      costRanges: ["low"],
+    });
+  });
+});
+
+describe("isHistorySearchActive", () => {
+  it("treats whitespace-only text as no search", () => {
+    expect(isHistorySearchActive({ ...EMPTY_HISTORY_SEARCH, text: "  " })).toBe(false);
+    expect(isHistorySearchActive({ ...EMPTY_HISTORY_SEARCH, starredOnly: true })).toBe(true);
+  });
+});
+
+describe("toggleFacetValue", () => {
+  it("adds or removes the value", () => {
+    expect(toggleFacetValue(["a", "b"], "a")).toEqual(["b"]);
+    expect(toggleFacetValue(["b"], "a")).toEqual(["b", "a"]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  getDataUrlByteSize,
+  hasTransparentPixels,
+  normalizeImageOutputSettings,
+  resolveCommitLongEdge,
+  resolveOutputMimeType,
+} from "../imageOutputFormat";
+
+describe("normalizeImageOutputSettings", () => {
+  it("falls back to the defaults for anything unreadable", () => {
+    expect(normalizeImageOutputSettings(undefined)).toEqual(DEFAULT_IMAGE_OUTPUT_SETTINGS);
+    expect(normalizeImageOutputSettings({ format: "gif", quality: "high" })).toEqual(
+      DEFAULT_IMAGE_OUTPUT_SETTINGS,
+    );
+  });
+
+  it("keeps a known format and clamps the quality", () => {
+    expect(normalizeImageOutputSettings({ format: "webp", quality: 0.1 })).toMatchObject({
+      format: "webp",
+      quality: 0.5,
+    });
+    expect(normalizeImageOutputSettings({ format: "jpeg", quality: 3 })).toMatchObject({
+      format: "jpeg",
+      quality: 1,
+    });
+  });
+});
+
+describe("resolveCommitLongEdge", () => {
+  const settings = { ...DEFAULT_IMAGE_OUTPUT_SETTINGS, maxLongEdge: 1600 };
+
+  it("commits at full size unless asked", () => {
+    expect(resolveCommitLongEdge(settings, { width: 800, height: 600 })).toBeNull();
+  });
+
+  it("uses the replaced book image's long edge, or the maximum when it is unknown", () => {
+    const bookImage = { ...settings, commitResize: "book-image" as const };
+    expect(resolveCommitLongEdge(bookImage, { width: 800, height: 1200 })).toBe(1200);
+    expect(resolveCommitLongEdge(bookImage, {})).toBe(1600);
+    expect(resolveCommitLongEdge(bookImage, { width: 80, height: 80, isPlaceholder: true })).toBe(
+      1600,
+    );
+    // Tiny book images don't drag a result down to a thumbnail.
+    expect(resolveCommitLongEdge(bookImage, { width: 40, height: 30 })).toBe(256);
+  });
+
+  it("uses the configured maximum", () => {
+    expect(
+      resolveCommitLongEdge({ ...settings, commitResize: "max-long-edge" }, { width: 800 }),
+    ).toBe(1600);
+  });
+});
+
+describe("resolveOutputMimeType", () => {
+  it("uses PNG for auto only when the image has transparency", () => {
+    const auto = { ...DEFAULT_IMAGE_OUTPUT_SETTINGS, format: "auto" as const };
+    expect(resolveOutputMimeType(auto, true)).toBe("image/png");
+    expect(resolveOutputMimeType(auto, false)).toBe("image/jpeg");
+  });
+
+  it("uses the chosen format regardless of transparency otherwise", () => {
+    expect(resolveOutputMimeType({ ...DEFAULT_IMAGE_OUTPUT_SETTINGS, format: "webp" }, true)).toBe(
+      "image/webp",
+    );
+    expect(resolveOutputMimeType({ ...DEFAULT_IMAGE_OUTPUT_SETTINGS, format: "jpeg" }, true)).toBe(
+      "image/jpeg",
+    );
+    expect(resolveOutputMimeType({ ...DEFAULT_IMAGE_OUTPUT_SETTINGS, format: "png" }, false)).toBe(
+      "image/png",
+    );
+  });
+});
+
+describe("hasTransparentPixels", () => {
+  it("looks at every alpha value", () => {
+    expect(hasTransparentPixels([0, 0, 0, 255, 10, 10, 10, 255])).toBe(false);
+    expect(hasTransparentPixels([0, 0, 0, 255, 10, 10, 10, 254])).toBe(true);
+  });
+});
+
+describe("getDataUrlByteSize", () => {
+  it("measures the decoded payload", () => {
+    expect(getDataUrlByteSize(`data:image/png;base64,${btoa("hello")}`)).toBe(5);
+    expect(getDataUrlByteSize(`data:image/png;base64,${btoa("hell")}`)).toBe(4);
+  });
+});
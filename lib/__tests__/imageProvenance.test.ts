@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vite-plus/test";
+import type { ImageRecord } from "../../types";
+import {
+  buildImageProvenance,
+  imageProvenanceToPngMetadata,
+  parseImageProvenance,
+  readImageProvenance,
+  restoreImageRecordFieldsFromFile,
+  XMP_PNG_KEYWORD,
+} from "../imageProvenance";
+import { injectPngMetadata, readPngTextMetadata } from "../pngMetadata";
+
+const PNG_A =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/6Xk5GQAAAAASUVORK5CYII=";
+const PNG_B =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const record = (overrides: Partial<ImageRecord>): ImageRecord => ({
+  id: "img",
+  parentId: null,
+  imageData: `data:image/png;base64,${PNG_A}`,
+  toolId: "original",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "",
+  timestamp: 1,
+  promptUsed: "Original Upload",
+  ...overrides,
+});
+
+const original = record({ id: "orig" });
+const edited = record({
+  id: "edit",
+  parentId: "orig",
+  imageData: `data:image/png;base64,${PNG_B}`,
+  toolId: "remove_object",
+  parameters: { object: "the cat", mask: "data:image/png;base64,AAAA" },
+  model: "google/gemini-3.1-flash-image",
+  reasoningLevel: "low",
+  promptUsed: "Remove the cat",
+  caption: "A quiet room",
+  name: "Room",
+  credits: { creator: "Ana", copyrightNotice: "© Ana" },
+  timestamp: 2,
+  cost: 0.04,
+});
+const history = [original, edited];
+
+const exportedFile = async () => {
+  const provenance = await buildImageProvenance(edited, history);
+  const bytes = injectPngMetadata(
+    Buffer.from(PNG_B, "base64"),
+    imageProvenanceToPngMetadata(provenance),
+  );
+  return new Blob([new Uint8Array(bytes)], { type: "image/png" });
+};
+
+describe("image provenance", () => {
+  it("records the record's fields and its parent chain, leaving out mask images", async () => {
+    const provenance = await buildImageProvenance(edited, history);
+
+    expect(provenance).toMatchObject({
+      version: 1,
+      toolId: "remove_object",
+      promptUsed: "Remove the cat",
+      parameters: { object: "the cat" },
+      caption: "A quiet room",
+      credits: { creator: "Ana" },
+    });
+    expect(provenance.lineage.map((entry) => entry.id)).toEqual(["orig"]);
+    expect(provenance.lineage[0].contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("writes JSON and XMP that read back from the PNG", async () => {
+    const bytes = new Uint8Array(await (await exportedFile()).arrayBuffer());
+
+    expect(readImageProvenance(bytes)?.name).toBe("Room");
+    const xmp = readPngTextMetadata(bytes)[XMP_PNG_KEYWORD];
+    expect(xmp).toContain('<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Room</rdf:li>');
+    expect(xmp).toContain("compositeWithTrainedAlgorithmicMedia");
+    expect(xmp).toContain("© Ana");
+  });
+
+  it("restores fields on import and relinks to the parent when its bytes match", async () => {
+    const file = await exportedFile();
+
+    expect(await restoreImageRecordFieldsFromFile(file, history)).toMatchObject({
+      parentId: "orig",
+      toolId: "remove_object",
+      model: "google/gemini-3.1-flash-image",
+      caption: "A quiet room",
+      origin: "uploaded",
+    });
+    const changedParent = [{ ...original, imageData: edited.imageData }];
+    expect((await restoreImageRecordFieldsFromFile(file, changedParent)).parentId).toBeNull();
+  });
+
+  it("ignores files without provenance and blocks it can't read", async () => {
+    expect(
+      await restoreImageRecordFieldsFromFile(new Blob([Buffer.from(PNG_A, "base64")]), history),
+    ).toEqual({});
+    expect(parseImageProvenance('{"version":0,"toolId":"x"}')).toBeNull();
+    expect(parseImageProvenance("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  compositeMaskedPixels,
+  maskHasCoverage,
+  maskPixelsToEditAlpha,
+  maskPixelsToPaintedLayer,
+  paintedLayerToMaskPixels,
+} from "../maskCompositing";
+
+const pixels = (...values: number[][]) => new Uint8ClampedArray(values.flat());
+
+describe("compositeMaskedPixels", () => {
+  const original = pixels([10, 20, 30, 255], [40, 50, 60, 255], [70, 80, 90, 128]);
+  const edited = pixels([200, 210, 220, 255], [110, 120, 130, 255], [1, 2, 3, 255]);
+
+  it("keeps unmasked pixels bit-identical to the original", () => {
+    const mask = pixels([0, 0, 0, 255], [255, 255, 255, 255], [0, 0, 0, 255]);
+    const out = compositeMaskedPixels(original, edited, mask);
+
+    expect(Array.from(out.slice(0, 4))).toEqual([10, 20, 30, 255]);
+    expect(Array.from(out.slice(8, 12))).toEqual([70, 80, 90, 128]);
+  });
+
+  it("takes masked pixels from the edited image", () => {
+    const mask = pixels([0, 0, 0, 255], [255, 255, 255, 255], [0, 0, 0, 255]);
+    const out = compositeMaskedPixels(original, edited, mask);
+
+    expect(Array.from(out.slice(4, 8))).toEqual([110, 120, 130, 255]);
+  });
+
+  it("blends feathered mask edges", () => {
+    const mask = pixels([0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 0]);
+    mask.set([128, 128, 128, 255], 0);
+    const out = compositeMaskedPixels(original, edited, mask);
+
+    expect(Array.from(out.slice(0, 4))).toEqual([105, 115, 125, 255]);
+  });
+
+  it("treats transparent mask pixels as unmasked", () => {
+    const mask = pixels([255, 255, 255, 0], [255, 255, 255, 0], [255, 255, 255, 0]);
+
+    expect(Array.from(compositeMaskedPixels(original, edited, mask))).toEqual(Array.from(original));
+  });
+
+  it("rejects buffers of different sizes", () => {
+    expect(() => compositeMaskedPixels(original, edited.slice(0, 8), original)).toThrow();
+  });
+});
+
+describe("mask editor layer conversion", () => {
+  it("round-trips painted coverage through the grayscale mask", () => {
+    const painted = pixels([255, 59, 48, 0], [255, 59, 48, 255], [255, 59, 48, 100]);
+    const mask = paintedLayerToMaskPixels(painted);
+
+    expect(Array.from(mask)).toEqual([0, 0, 0, 255, 255, 255, 255, 255, 100, 100, 100, 255]);
+    expect(Array.from(maskPixelsToPaintedLayer(mask))).toEqual(Array.from(painted));
+  });
+
+  it("reports whether any pixel is masked", () => {
+    expect(maskHasCoverage(pixels([0, 0, 0, 255], [0, 0, 0, 255]))).toBe(false);
+    expect(maskHasCoverage(pixels([0, 0, 0, 255], [255, 255, 255, 255]))).toBe(true);
+  });
+
+  it("makes the editable area transparent for alpha-mask providers", () => {
+    const mask = pixels([0, 0, 0, 255], [255, 255, 255, 255], [128, 128, 128, 255]);
+
+    expect(Array.from(maskPixelsToEditAlpha(mask))).toEqual([
+      0, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 127,
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  differenceHashFromGrayscale,
+  downsampleToGrayscale,
+  findSimilarImages,
+  getPerceptualHash,
+  groupNearDuplicates,
+  hammingDistance,
+  suggestDuplicatesToDelete,
+} from "../perceptualHash";
+import type { ImageRecord } from "../../types";
+
+const record = (id: string, overrides: Partial<ImageRecord> = {}): ImageRecord => ({
+  id,
+  parentId: null,
+  imageData: "",
+  toolId: "generate",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "test",
+  timestamp: 0,
+  promptUsed: "",
+  ...overrides,
+});
+
+/** A 9×8 grid whose brightness rises (or falls) left to right. */
+const gradient = (direction: 1 | -1) =>
+  Array.from({ length: 72 }, (_, index) => 128 + direction * ((index % 9) - 4) * 10);
+
+describe("differenceHashFromGrayscale", () => {
+  it("sets a bit where a cell is brighter than its right neighbour", () => {
+    expect(differenceHashFromGrayscale(gradient(1))).toBe("0000000000000000");
+    expect(differenceHashFromGrayscale(gradient(-1))).toBe("ffffffffffffffff");
+  });
+});
+
+describe("downsampleToGrayscale", () => {
+  it("averages equal areas of the source into each cell", () => {
+    // 2×2 RGBA: white, black / black, white -> one cell of mid gray.
+    const rgba = [255, 255, 255, 255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255];
+    expect(downsampleToGrayscale(rgba, 2, 2, 1, 1)[0]).toBeCloseTo(127.5);
+    expect(downsampleToGrayscale(rgba, 2, 2, 2, 1)).toEqual([127.5, 127.5]);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits and rejects malformed hashes", () => {
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+    expect(hammingDistance("nope", "0000000000000000")).toBe(Number.POSITIVE_INFINITY);
+    expect(getPerceptualHash(record("a", { perceptualHash: "XYZ" }))).toBeNull();
+  });
+});
+
+const hashes: Record<string, string | null> = {
+  a: "0000000000000000",
+  b: "0000000000000003",
+  c: "000000000000001f",
+  d: "ffffffffffffffff",
+  e: null,
+};
+
+describe("findSimilarImages", () => {
+  it("returns close images, nearest first, without the image itself", () => {
+    expect(findSimilarImages("c", ["a", "b", "c", "d", "e"], hashes, 5)).toEqual([
+      { id: "b", distance: 3 },
+      { id: "a", distance: 5 },
+    ]);
+    expect(findSimilarImages("e", ["a", "e"], hashes)).toEqual([]);
+  });
+});
+
+describe("groupNearDuplicates", () => {
+  it("links near-duplicates transitively and leaves out singles", () => {
+    expect(groupNearDuplicates(["d", "c", "a", "b", "e"], hashes, 3)).toEqual([["c", "a", "b"]]);
+    expect(groupNearDuplicates(["a", "b", "c"], hashes, 1)).toEqual([]);
+  });
+});
+
+describe("suggestDuplicatesToDelete", () => {
+  it("keeps starred and in-use images, or else the newest", () => {
+    const group = [
+      record("a", { timestamp: 1 }),
+      record("b", { timestamp: 3 }),
+      record("c", { timestamp: 2 }),
+    ];
+    expect(suggestDuplicatesToDelete(group, new Set())).toEqual(["a", "c"]);
+    expect(suggestDuplicatesToDelete(group, new Set(["a"]))).toEqual(["b", "c"]);
+    expect(
+      suggestDuplicatesToDelete([{ ...group[0], isStarred: true }, group[1]], new Set()),
+    ).toEqual(["b"]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vite-plus/test";
-import { injectPngTextMetadata } from "../pngMetadata";
+import { injectPngMetadata, injectPngTextMetadata, readPngTextMetadata } from "../pngMetadata";
 
 const toBytes = (base64: string): Uint8Array => {
   const binary = Buffer.from(base64, "base64");
@@ -72,3 +72,25 @@ describe("injectPngTextMetadata", () => {
     expect(Object.keys(chunks)).toHaveLength(0);
   });
 });
+
+describe("injectPngMetadata / readPngTextMetadata", () => {
+  it("round-trips UTF-8 iTXt alongside tEXt", () => {
+    const updated = injectPngMetadata(toBytes(PNG_1X1_BASE64), {
+      text: { EditorModel: "Some model" },
+      internationalText: { Caption: "Lávate las manos — 手を洗う" },
+    });
+
+    expect(readPngTextMetadata(updated)).toEqual({
+      EditorModel: "Some model",
+      Caption: "Lávate las manos — 手を洗う",
+    });
+  });
+
+  it("replaces a keyword that is already present instead of repeating it", () => {
+    const once = injectPngMetadata(toBytes(PNG_1X1_BASE64), { internationalText: { Note: "old" } });
+    const twice = injectPngMetadata(once, { internationalText: { Note: "new" } });
+
+    expect(readPngTextMetadata(twice)).toEqual({ Note: "new" });
+    expect(twice.length).toBe(once.length);
+  });
+});
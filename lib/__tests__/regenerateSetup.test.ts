@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vite-plus/test";
+import type { ImageRecord } from "../../types";
+import { DEFAULT_MODEL } from "../modelsCatalog";
+import { canRegenerate, mergeRegenerateParams, resolveRegenerateSetup } from "../regenerateSetup";
+
+const record = (overrides: Partial<ImageRecord> & { id: string }): ImageRecord => ({
+  parentId: null,
+  imageData: "",
+  toolId: "remove_object",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "",
+  timestamp: 0,
+  promptUsed: "",
+  ...overrides,
+});
+
+const upload = record({ id: "upload", toolId: "upload", origin: "uploaded" });
+const style = record({ id: "style", toolId: "upload", origin: "uploaded" });
+const edit = record({
+  id: "edit",
+  parentId: "upload",
+  parameters: { target: "the red ball", mask: "data:image/png;base64,AAAA" },
+  model: DEFAULT_MODEL?.id ?? "",
+  reasoningLevel: "high",
+  referenceImageIds: [],
+});
+
+describe("resolveRegenerateSetup", () => {
+  it("restores tool, parameters (minus the mask), model and edit source", () => {
+    expect(resolveRegenerateSetup(edit, [upload, edit])).toEqual({
+      toolId: "remove_object",
+      parameters: { target: "the red ball" },
+      modelId: DEFAULT_MODEL?.id ?? null,
+      reasoningLevel: "high",
+      targetImageId: "upload",
+      referenceImageIds: [],
+    });
+  });
+
+  it("drops inputs that no longer exist and models no longer offered", () => {
+    const setup = resolveRegenerateSetup(
+      { ...edit, model: "retired/model", referenceImageIds: ["gone"] },
+      [edit],
+    );
+    expect(setup?.modelId).toBeNull();
+    expect(setup?.targetImageId).toBeNull();
+    expect(setup?.referenceImageIds).toEqual([]);
+  });
+
+  it("targets the live book image rather than its pre-edit snapshot", () => {
+    const bookImage = record({ id: "book", toolId: "bookImages", origin: "bookImages" });
+    const snapshot = record({
+      id: "snapshot",
+      toolId: "bookImages",
+      origin: "bookOriginal",
+      incomingSlotId: "book",
+    });
+    const result = { ...edit, parentId: "snapshot", incomingSlotId: "book" };
+    const history = [bookImage, snapshot, result];
+    expect(resolveRegenerateSetup(result, history)?.targetImageId).toBe("book");
+    expect(resolveRegenerateSetup(result, [snapshot, result])?.targetImageId).toBe("snapshot");
+  });
+
+  it("restores recorded references, falling back to the parent for older records", () => {
+    const generated = record({
+      id: "generated",
+      toolId: "generate_image",
+      parentId: "upload",
+      referenceImageIds: ["upload", "style"],
+    });
+    const history = [upload, style, generated];
+    expect(resolveRegenerateSetup(generated, history)?.referenceImageIds).toEqual([
+      "upload",
+      "style",
+    ]);
+    expect(
+      resolveRegenerateSetup({ ...generated, referenceImageIds: undefined }, history),
+    ).toMatchObject({ targetImageId: null, referenceImageIds: ["upload"] });
+  });
+
+  it("refuses images no tool made", () => {
+    expect(canRegenerate(upload)).toBe(false);
+    expect(canRegenerate(record({ id: "x", toolId: "no_such_tool" }))).toBe(false);
+    expect(canRegenerate(record({ id: "pdf", toolId: "pdf_to_images" }))).toBe(false);
+    expect(resolveRegenerateSetup(upload, [upload])).toBeNull();
+  });
+});
+
+describe("mergeRegenerateParams", () => {
+  it("drops a mask left in the tool form by an earlier edit", () => {
+    const setup = resolveRegenerateSetup(edit, [upload, edit]);
+    if (!setup) throw new Error("expected a setup");
+
+    expect(
+      mergeRegenerateParams(
+        { target: "the blue cup", mask: "data:image/png;base64,BBBB", extra: "kept" },
+        setup,
+      ),
+    ).toEqual({ target: "the red ball", extra: "kept" });
+    expect(mergeRegenerateParams(undefined, setup)).toEqual({ target: "the red ball" });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  checkSpendBudget,
+  describeBudgetStop,
+  appendSpendLedgerEntries,
+  getSpendTotals,
+  MAX_FAILED_ATTEMPT_ENTRIES,
+  MAX_SPEND_LEDGER_ENTRIES,
+  mergeSpendLedgers,
+  normalizeSpendBudget,
+  normalizeSpendLedger,
+  type SpendLedgerEntry,
+} from "../spendBudget";
+
+const entry = (id: string, at: number, costUsd: number): SpendLedgerEntry => ({
+  id,
+  at,
+  costUsd,
+  toolId: "generate_image",
+  model: "some/model",
+});
+
+const ledger = [entry("old", 100, 0.5), entry("new", 2000, 0.25)];
+
+describe("spend budget", () => {
+  it("totals the session from its start and the book over the whole ledger", () => {
+    expect(getSpendTotals(ledger, 1000)).toEqual({ sessionUsd: 0.25, bookUsd: 0.75 });
+    expect(getSpendTotals([], 1000)).toEqual({ sessionUsd: 0, bookUsd: 0 });
+  });
+
+  it("leaves other books' entries out of the book total", () => {
+    const mixed = [
+      ...ledger,
+      { ...entry("this-book", 3000, 1), bookId: "book-a" },
+      { ...entry("other-book", 3000, 2), bookId: "book-b" },
+    ];
+    expect(getSpendTotals(mixed, 1000, "book-a").bookUsd).toBe(1.75);
+    expect(getSpendTotals(mixed, 1000).bookUsd).toBe(3.75);
+  });
+
+  it("allows runs that fit under every cap", () => {
+    const totals = getSpendTotals(ledger, 1000);
+    expect(checkSpendBudget({ sessionCapUsd: null, bookCapUsd: null }, totals, 100)).toEqual({
+      ok: true,
+    });
+    expect(checkSpendBudget({ sessionCapUsd: 0.5, bookCapUsd: 1 }, totals, 0.25)).toEqual({
+      ok: true,
+    });
+  });
+
+  it("blocks a run that would overshoot, counting runs already in flight", () => {
+    const totals = getSpendTotals(ledger, 1000);
+    expect(checkSpendBudget({ sessionCapUsd: 0.4, bookCapUsd: null }, totals, 0.2)).toEqual({
+      ok: false,
+      scope: "session",
+      capUsd: 0.4,
+      spentUsd: 0.25,
+    });
+    expect(
+      describeBudgetStop(checkSpendBudget({ sessionCapUsd: 0.4, bookCapUsd: null }, totals, 0.2)),
+    ).toContain("$0.25 of the $0.40 allowed for this session");
+    expect(
+      checkSpendBudget({ sessionCapUsd: null, bookCapUsd: 1 }, totals, 0.1, 0.2),
+    ).toMatchObject({ ok: false, scope: "book" });
+  });
+
+  it("blocks runs of unknown price once a cap is used up", () => {
+    const totals = getSpendTotals(ledger, 1000);
+    expect(checkSpendBudget({ sessionCapUsd: null, bookCapUsd: 0.75 }, totals, 0).ok).toBe(false);
+    expect(checkSpendBudget({ sessionCapUsd: 0, bookCapUsd: null }, totals, 0).ok).toBe(false);
+  });
+
+  it("normalizes persisted values and merges ledgers by id", () => {
+    expect(normalizeSpendBudget({ sessionCapUsd: 2, bookCapUsd: -1 })).toEqual({
+      sessionCapUsd: 2,
+      bookCapUsd: null,
+    });
+    expect(normalizeSpendBudget("nope")).toEqual({ sessionCapUsd: null, bookCapUsd: null });
+    expect(normalizeSpendLedger([ledger[0], { id: "bad" }, null])).toEqual([ledger[0]]);
+    expect(mergeSpendLedgers([ledger[1]], [ledger[0], ledger[1]]).map((item) => item.id)).toEqual([
+      "old",
+      "new",
+    ]);
+  });
+
+  it("caps failed attempts separately so they don't push out paid entries", () => {
+    const paid = Array.from({ length: MAX_SPEND_LEDGER_ENTRIES }, (_, index) =>
+      entry(`paid-${index}`, index, 0.01),
+    );
+    const failures = Array.from({ length: MAX_FAILED_ATTEMPT_ENTRIES + 1 }, (_, index) => ({
+      ...entry(`failed-${index}`, MAX_SPEND_LEDGER_ENTRIES + index, 0),
+      failure: "error",
+    }));
+    const trimmed = appendSpendLedgerEntries(paid, failures);
+
+    expect(trimmed.filter((item) => !item.failure)).toHaveLength(MAX_SPEND_LEDGER_ENTRIES);
+    expect(trimmed.filter((item) => item.failure)).toHaveLength(MAX_FAILED_ATTEMPT_ENTRIES);
+    expect(trimmed[0].id).toBe("paid-0");
+    expect(trimmed.at(-1)?.id).toBe(`failed-${MAX_FAILED_ATTEMPT_ENTRIES}`);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vite-plus/test";
 import { TOOLS } from "../../components/tools/tools-registry";
-import { getRequestedAspectRatioValue, getRequestedImageSizeValue } from "../toolHelpers";
+import {
+  getRequestedAspectRatioValue,
+  getRequestedImageSizeValue,
+  MAX_TOOL_VARIANTS,
+  resolveToolVariantCount,
+} from "../toolHelpers";
 
 describe("tool aspect ratio defaults", () => {
   it("inherits the target image shape for edit tools without a shape picker", () => {
@@ -61,3 +66,22 @@ describe("tool aspect ratio defaults", () => {
     ).toBeUndefined();
   });
 });
+
+describe("tool variant counts", () => {
+  const customTool = TOOLS.find((tool) => tool.id === "custom") ?? null;
+
+  it("defaults to a single result and clamps the requested count", () => {
+    expect(resolveToolVariantCount(customTool, {})).toBe(1);
+    expect(resolveToolVariantCount(customTool, { custom: 3 })).toBe(3);
+    expect(resolveToolVariantCount(customTool, { custom: 99 })).toBe(MAX_TOOL_VARIANTS);
+    expect(resolveToolVariantCount(customTool, { custom: 0 })).toBe(1);
+  });
+
+  it("never asks derived-result or local tools for variants", () => {
+    const gifTool = TOOLS.find((tool) => tool.id === "make_gif") ?? null;
+    const removeBackgroundTool = TOOLS.find((tool) => tool.id === "remove_background") ?? null;
+
+    expect(resolveToolVariantCount(gifTool, { make_gif: 3 })).toBe(1);
+    expect(resolveToolVariantCount(removeBackgroundTool, { remove_background: 3 })).toBe(1);
+  });
+});
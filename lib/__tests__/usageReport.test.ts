@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vite-plus/test";
+import type { SpendLedgerEntry } from "../spendBudget";
+import { buildUsageReport, usageReportToCsv, usageReportToJson } from "../usageReport";
+
+const DAY_1 = Date.UTC(2026, 2, 1, 12);
+const DAY_2 = Date.UTC(2026, 2, 2, 12);
+
+const entry = (overrides: Partial<SpendLedgerEntry>): SpendLedgerEntry => ({
+  id: "entry",
+  at: DAY_1,
+  costUsd: 0.25,
+  toolId: "remove_object",
+  model: "model/a",
+  ...overrides,
+});
+
+const ledger: SpendLedgerEntry[] = [
+  entry({ id: "ok", origin: "bookImages" }),
+  entry({
+    id: "panels",
+    toolId: "generate_image",
+    model: "model/b",
+    costUsd: 0.5,
+    at: DAY_2,
+    imageCount: 3,
+    origin: "blank",
+  }),
+  entry({ id: "failed", at: DAY_2, costUsd: 0, failure: "rate limited", origin: "uploaded" }),
+  entry({ id: "other", costUsd: 1, bookId: "other-book" }),
+];
+
+describe("usage report", () => {
+  it("totals images, failed attempts and cost per tool from the ledger", () => {
+    const report = buildUsageReport({ ledger, groupBy: "tool", now: 0 });
+    expect(report.rows).toEqual([
+      { key: "remove_object", images: 2, failedAttempts: 1, costUsd: 1.25 },
+      { key: "generate_image", images: 3, failedAttempts: 0, costUsd: 0.5 },
+    ]);
+    expect(report.totals).toEqual({ images: 5, failedAttempts: 1, costUsd: 1.75 });
+  });
+
+  it("groups by day in order, and by origin", () => {
+    expect(buildUsageReport({ ledger, groupBy: "day" }).rows.map((row) => row.key)).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+    expect(buildUsageReport({ ledger, groupBy: "origin" }).rows).toEqual([
+      { key: "(unknown)", images: 1, failedAttempts: 0, costUsd: 1 },
+      { key: "blank", images: 3, failedAttempts: 0, costUsd: 0.5 },
+      { key: "bookImages", images: 1, failedAttempts: 0, costUsd: 0.25 },
+      { key: "uploaded", images: 0, failedAttempts: 1, costUsd: 0 },
+    ]);
+  });
+
+  it("counts images from free runs", () => {
+    const report = buildUsageReport({
+      ledger: [entry({ costUsd: 0, toolId: "remove_background", origin: "generated" })],
+      groupBy: "tool",
+    });
+    expect(report.rows).toEqual([
+      { key: "remove_background", images: 1, failedAttempts: 0, costUsd: 0 },
+    ]);
+  });
+
+  it("leaves out usage stamped with another book", () => {
+    const report = buildUsageReport({ ledger, groupBy: "model", bookId: "this-book" });
+    expect(report.totals.images).toBe(4);
+    expect(report.totals.costUsd).toBe(0.75);
+    expect(report.bookId).toBe("this-book");
+  });
+
+  it("exports CSV with a total row and JSON with an ISO timestamp", () => {
+    const report = buildUsageReport({
+      ledger: [entry({ model: 'say "hi", model' })],
+      groupBy: "model",
+      now: DAY_1,
+    });
+    expect(usageReportToCsv(report).split("\r\n")).toEqual([
+      "model,images,failed_attempts,cost_usd",
+      '"say ""hi"", model",1,0,0.2500',
+      "total,1,0,0.2500",
+    ]);
+    expect(JSON.parse(usageReportToJson(report)).generatedAt).toBe("2026-03-01T12:00:00.000Z");
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  EMPTY_UNDO_HISTORY,
+  MAX_UNDO_ENTRIES,
+  applyStripChanges,
+  diffThumbnailStrips,
+  normalizeWorkspaceUndoHistory,
+  recordUndoEntry,
+  restoreDeletedImages,
+  takeUndoEntry,
+  withDeletedImageBytes,
+  type DeletedImage,
+  type WorkspaceUndoEntry,
+} from "../workspaceUndo";
+import type { ImageRecord, ThumbnailStripsSnapshot } from "../../types";
+
+const strips: ThumbnailStripsSnapshot = {
+  activeStripId: "history",
+  pinnedStripIds: [],
+  itemIdsByStrip: {
+    history: ["a", "b", "c"],
+    starred: ["b"],
+    reference: [],
+    bookImages: ["book-1"],
+    characters: [],
+  },
+};
+
+const record = (id: string): ImageRecord => ({
+  id,
+  parentId: null,
+  imageData: `data:image/png;base64,${id}`,
+  toolId: "generate",
+  parameters: {},
+  durationMs: 0,
+  cost: 0,
+  model: "test",
+  timestamp: 0,
+  promptUsed: "",
+});
+
+const entry = (label: string): WorkspaceUndoEntry => ({
+  label,
+  changes: [{ kind: "slot", incomingId: "book-1", before: null, after: label }],
+});
+
+describe("undo stacks", () => {
+  it("moves entries between the stacks and drops redo on a new entry", () => {
+    let history = recordUndoEntry(EMPTY_UNDO_HISTORY, entry("one"));
+    history = recordUndoEntry(history, entry("two"));
+
+    const undone = takeUndoEntry(history, "undo");
+    expect(undone?.entry.label).toBe("two");
+    expect(undone?.history.redo.map((item) => item.label)).toEqual(["two"]);
+
+    const redone = takeUndoEntry(undone!.history, "redo");
+    expect(redone?.history.undo.map((item) => item.label)).toEqual(["one", "two"]);
+
+    const branched = recordUndoEntry(undone!.history, entry("three"));
+    expect(branched.redo).toEqual([]);
+    expect(takeUndoEntry(EMPTY_UNDO_HISTORY, "undo")).toBeNull();
+  });
+
+  it("ignores empty entries and keeps only the newest entries", () => {
+    expect(recordUndoEntry(EMPTY_UNDO_HISTORY, { label: "noop", changes: [] })).toBe(
+      EMPTY_UNDO_HISTORY,
+    );
+    let history = EMPTY_UNDO_HISTORY;
+    for (let index = 0; index < MAX_UNDO_ENTRIES + 5; index += 1) {
+      history = recordUndoEntry(history, entry(String(index)));
+    }
+    expect(history.undo).toHaveLength(MAX_UNDO_ENTRIES);
+    expect(history.undo[0].label).toBe("5");
+  });
+});
+
+describe("deleted image bytes", () => {
+  const deletion = (id: string): WorkspaceUndoEntry => ({
+    label: "Delete image",
+    changes: [
+      {
+        kind: "delete",
+        images: [
+          {
+            record: record(id),
+            historyIndex: 0,
+            wasTarget: false,
+            wasRightPanel: false,
+            referenceIndex: -1,
+          },
+        ],
+      },
+    ],
+  });
+  const deletedRecordOf = (item: WorkspaceUndoEntry | undefined) =>
+    item?.changes.flatMap((change): DeletedImage[] =>
+      change.kind === "delete" ? change.images : [],
+    )[0]?.record;
+
+  it("keeps the bytes once by id and puts them back for applying", () => {
+    const history = recordUndoEntry(EMPTY_UNDO_HISTORY, deletion("a"));
+
+    expect(deletedRecordOf(history.undo[0])?.imageData).toBe("");
+    expect(history.images).toEqual({ a: "data:image/png;base64,a" });
+
+    const undone = takeUndoEntry(history, "undo");
+    expect(undone?.history.images).toBe(history.images);
+    const applied = undone && withDeletedImageBytes(undone.entry, undone.history);
+    expect(deletedRecordOf(applied ?? undefined)?.imageData).toBe("data:image/png;base64,a");
+  });
+
+  it("drops bytes no entry refers to any more", () => {
+    let history = recordUndoEntry(EMPTY_UNDO_HISTORY, deletion("a"));
+    const undone = takeUndoEntry(history, "undo");
+    history = recordUndoEntry(undone?.history ?? history, entry("other"));
+    expect(history.images).toEqual({});
+
+    for (let index = 0; index <= MAX_UNDO_ENTRIES; index += 1) {
+      history = recordUndoEntry(history, index === 0 ? deletion("b") : entry(String(index)));
+    }
+    expect(history.images).toEqual({});
+    expect(
+      normalizeWorkspaceUndoHistory({ undo: [deletion("c")], redo: [], images: { c: "x", d: "y" } })
+        .images,
+    ).toEqual({ c: "x" });
+  });
+});
+
+describe("strip changes", () => {
+  it("records item and pin changes, and applies either side", () => {
+    const after: ThumbnailStripsSnapshot = {
+      ...strips,
+      activeStripId: "starred",
+      pinnedStripIds: ["starred"],
+      itemIdsByStrip: { ...strips.itemIdsByStrip, starred: ["b", "c"] },
+    };
+    const changes = diffThumbnailStrips(strips, after);
+    expect(changes).toEqual([
+      { kind: "strip-items", stripId: "starred", before: ["b"], after: ["b", "c"] },
+      { kind: "strip-pin", stripId: "starred", before: false, after: true },
+    ]);
+
+    const existing = new Set(["a", "b", "c"]);
+    const undone = applyStripChanges(after, changes, "undo", existing);
+    expect(undone.itemIdsByStrip.starred).toEqual(["b"]);
+    expect(undone.pinnedStripIds).toEqual([]);
+    expect(applyStripChanges(undone, changes, "redo", existing).itemIdsByStrip.starred).toEqual([
+      "b",
+      "c",
+    ]);
+  });
+
+  it("doesn't bring back images deleted since the change", () => {
+    const changes = diffThumbnailStrips(strips, {
+      ...strips,
+      itemIdsByStrip: { ...strips.itemIdsByStrip, history: ["c", "b", "a"] },
+    });
+    const undone = applyStripChanges(strips, changes, "redo", new Set(["a", "c"]));
+    expect(undone.itemIdsByStrip.history).toEqual(["c", "a"]);
+  });
+});
+
+describe("restoreDeletedImages", () => {
+  it("puts images back at their old positions, skipping ones already present", () => {
+    const history = [record("a"), record("d")];
+    const restored = restoreDeletedImages(history, [
+      {
+        record: record("c"),
+        historyIndex: 2,
+        wasTarget: false,
+        wasRightPanel: false,
+        referenceIndex: -1,
+      },
+      {
+        record: record("b"),
+        historyIndex: 1,
+        wasTarget: true,
+        wasRightPanel: false,
+        referenceIndex: -1,
+      },
+      {
+        record: record("a"),
+        historyIndex: 0,
+        wasTarget: false,
+        wasRightPanel: false,
+        referenceIndex: -1,
+      },
+    ]);
+    expect(restored.map((item) => item.id)).toEqual(["a", "b", "c", "d"]);
+  });
+});
+
+describe("normalizeWorkspaceUndoHistory", () => {
+  it("drops malformed entries", () => {
+    expect(normalizeWorkspaceUndoHistory(null)).toEqual(EMPTY_UNDO_HISTORY);
+    expect(
+      normalizeWorkspaceUndoHistory({ undo: [entry("one"), { label: 3 }], redo: "nope" }),
+    ).toEqual({ undo: [entry("one")], redo: [], images: {} });
+  });
+});
@@ -135,6 +135,26 @@ export const ART_STYLES: ArtStyle[] = styleDefinitions.map((style) => {
   };
 });
 
+let registeredCustomArtStyles: ArtStyle[] = [];
+
+/**
+ * Make these house styles (lib/customArtStyles) visible to every lookup
+ * below. The workspace calls this whenever its list changes, before the new
+ * list reaches React state. Their inline sample image is the preview.
+ */
+export const registerCustomArtStyles = (styles: ArtStyleDefinition[]) => {
+  registeredCustomArtStyles = styles.map((style) => ({
+    ...style,
+    categories: normalizeCategoryList(style.categories),
+    previewUrl: style.sampleImageUrl ?? null,
+    previewAssetKey: null,
+  }));
+};
+
+/** The bundled styles followed by the registered house styles. */
+export const getAllArtStyles = (): ArtStyle[] =>
+  registeredCustomArtStyles.length ? [...ART_STYLES, ...registeredCustomArtStyles] : ART_STYLES;
+
 export const loadArtStylePreviewUrl = async (style: ArtStyle): Promise<string | null> => {
   if (style.previewUrl) {
     return style.previewUrl;
@@ -190,12 +210,13 @@ export const getArtStylesByCategories = (
   const excludedIds = new Set((options?.excludeIds ?? []).map((id) => id?.trim()).filter(Boolean));
   const normalized = normalizeCategoryFilter(categories);
 
+  const allStyles = getAllArtStyles();
   let result: ArtStyle[];
 
   if (!normalized.length) {
-    result = ART_STYLES.slice();
+    result = allStyles.slice();
   } else {
-    result = ART_STYLES.filter((style) => {
+    result = allStyles.filter((style) => {
       const styleCategories = style.categories ?? [];
       return styleCategories.some((category) => normalized.includes(category.toLowerCase()));
     });
@@ -216,7 +237,7 @@ export const getArtStylesByCategories = (
 
 export const getArtStyleById = (id: string | undefined | null): ArtStyle | null => {
   if (!id) return null;
-  return ART_STYLES.find((style) => style.id === id) ?? null;
+  return getAllArtStyles().find((style) => style.id === id) ?? null;
 };
 
 export const getArtStylePrompt = (
@@ -0,0 +1,97 @@
+import type { ImageRecord } from "../types";
+
+/**
+ * Putting one book slot's replacement into the book right away, and taking it
+ * back out, for hosts with the "apply-replacement" capability. The workspace
+ * keeps which slots are applied (session-only, like host-mode assignments);
+ * the host call and the snapshot of the book image it overwrites are passed
+ * in, so the steps here don't depend on React or a host.
+ */
+
+/** A replacement the host has already put into the book. */
+export interface AppliedReplacement {
+  replacementId: string;
+  /** The "bookOriginal" snapshot that undo puts back. */
+  originalId: string;
+}
+
+/** Applied replacements by book slot (incoming id). */
+export type AppliedReplacements = Record<string, AppliedReplacement>;
+
+export interface BookImageApplyDeps {
+  /** Puts `item` into the book slot; rejects when the host refuses (a failed ack). */
+  applyToHost: (incomingId: string, item: ImageRecord) => Promise<void>;
+  /** The slot's "bookOriginal" snapshot: an existing one, or a new one to add to history. */
+  snapshotBookImage: (
+    bookImage: ImageRecord,
+  ) => Promise<{ parentId: string; snapshot: ImageRecord | null }>;
+  addToHistory: (record: ImageRecord) => void;
+}
+
+/** Whether the slot's assigned replacement differs from what is in the book. */
+export const isReplacementPending = (
+  applied: AppliedReplacements,
+  incomingId: string,
+  replacement: ImageRecord | null | undefined,
+): boolean => !!replacement?.imageData && replacement.id !== applied[incomingId]?.replacementId;
+
+export const withAppliedReplacement = (
+  applied: AppliedReplacements,
+  incomingId: string,
+  entry: AppliedReplacement,
+): AppliedReplacements => ({ ...applied, [incomingId]: entry });
+
+/** The slot goes back to pending; its assignment stays so it can be applied again. */
+export const withoutAppliedReplacement = (
+  applied: AppliedReplacements,
+  incomingId: string,
+): AppliedReplacements => {
+  if (!(incomingId in applied)) return applied;
+  const next = { ...applied };
+  delete next[incomingId];
+  return next;
+};
+
+/**
+ * Snapshots the book image before the host overwrites it, so undo has
+ * something to put back, then applies `replacement`. The snapshot is made once
+ * per slot, so re-applying a reassigned slot still undoes to the original.
+ */
+export const applyBookImageReplacement = async (
+  deps: BookImageApplyDeps,
+  incomingId: string,
+  bookImage: ImageRecord,
+  replacement: ImageRecord,
+): Promise<AppliedReplacement> => {
+  const { parentId: originalId, snapshot } = await deps.snapshotBookImage(bookImage);
+  if (snapshot) {
+    deps.addToHistory(snapshot);
+  }
+  await deps.applyToHost(incomingId, replacement);
+  return { replacementId: replacement.id, originalId };
+};
+
+/**
+ * Runs one slot's apply or undo, marking the slot busy meanwhile. A failure is
+ * reported as a message rather than thrown; the slot's state is whatever
+ * `update` had set before it failed.
+ */
+export const runBookSlotUpdate = async (
+  incomingId: string,
+  update: () => Promise<void>,
+  handlers: {
+    onBusyChange: (incomingId: string, busy: boolean) => void;
+    onError: (message: string) => void;
+  },
+): Promise<void> => {
+  handlers.onBusyChange(incomingId, true);
+  try {
+    await update();
+  } catch (error) {
+    handlers.onError(
+      `Could not update the book: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  } finally {
+    handlers.onBusyChange(incomingId, false);
+  }
+};
@@ -0,0 +1,118 @@
+import type { ThumbnailStripsSnapshot } from "../types";
+
+/**
+ * How much of the browser's storage the history uses, and which images it
+ * would give up first. Without a history folder the browser backend is the
+ * only copy of an image's bytes, and when IndexedDB runs out of room it evicts
+ * them least-recently-used first, leaving the entry's metadata behind. Pinned
+ * images are skipped by eviction, and persistent storage stops the browser
+ * from clearing the whole database under storage pressure.
+ */
+
+/** Which strips' images are never evicted. */
+export interface StoragePinSettings {
+  starred: boolean;
+  characters: boolean;
+}
+
+export const DEFAULT_STORAGE_PIN_SETTINGS: StoragePinSettings = {
+  starred: true,
+  characters: true,
+};
+
+export const normalizeStoragePinSettings = (value: unknown): StoragePinSettings => {
+  if (!value || typeof value !== "object") return DEFAULT_STORAGE_PIN_SETTINGS;
+  const raw = value as Partial<Record<keyof StoragePinSettings, unknown>>;
+  return {
+    starred: typeof raw.starred === "boolean" ? raw.starred : DEFAULT_STORAGE_PIN_SETTINGS.starred,
+    characters:
+      typeof raw.characters === "boolean"
+        ? raw.characters
+        : DEFAULT_STORAGE_PIN_SETTINGS.characters,
+  };
+};
+
+/** The ids eviction must skip under `settings`. */
+export const getPinnedImageIds = (
+  strips: ThumbnailStripsSnapshot,
+  settings: StoragePinSettings,
+): string[] => {
+  const ids = new Set<string>();
+  if (settings.starred) strips.itemIdsByStrip.starred?.forEach((id) => ids.add(id));
+  if (settings.characters) strips.itemIdsByStrip.characters?.forEach((id) => ids.add(id));
+  return [...ids];
+};
+
+export interface HistoryStorageBreakdown {
+  /** Entries whose bytes are in the browser cache. */
+  cachedIds: string[];
+  /** Entries whose bytes were evicted (or never cached); only the metadata is left. */
+  metadataOnlyIds: string[];
+  /** Cached entries that eviction skips. */
+  pinnedIds: string[];
+}
+
+export const summarizeHistoryStorage = (
+  entryIds: string[],
+  cachedIds: string[],
+  pinnedIds: string[],
+): HistoryStorageBreakdown => {
+  const cached = new Set(cachedIds);
+  const pinned = new Set(pinnedIds);
+  return {
+    cachedIds: entryIds.filter((id) => cached.has(id)),
+    metadataOnlyIds: entryIds.filter((id) => !cached.has(id)),
+    pinnedIds: entryIds.filter((id) => cached.has(id) && pinned.has(id)),
+  };
+};
+
+/** Whether `error` is IndexedDB saying it has run out of room. */
+export const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return (
+    error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    error.code === 22
+  );
+};
+
+/** The least-recently-used cached id that isn't pinned, or null when all are. */
+export const pickEvictionVictim = (lruOrder: string[], pinnedIds: string[]): string | null => {
+  const pinned = new Set(pinnedIds);
+  return lruOrder.find((id) => !pinned.has(id)) ?? null;
+};
+
+export interface BrowserStorageEstimate {
+  usageBytes: number;
+  quotaBytes: number;
+  /** True when the browser won't clear this site's storage under pressure. */
+  persisted: boolean;
+}
+
+/** Null where the Storage API is unavailable (older browsers, insecure contexts). */
+export const estimateBrowserStorage = async (): Promise<BrowserStorageEstimate | null> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  try {
+    const estimate = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return {
+      usageBytes: estimate.usage ?? 0,
+      quotaBytes: estimate.quota ?? 0,
+      persisted,
+    };
+  } catch (error) {
+    console.error("Failed to estimate browser storage", error);
+    return null;
+  }
+};
+
+/** Asks the browser to keep this site's storage; resolves to whether it agreed. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error("Failed to request persistent storage", error);
+    return false;
+  }
+};
@@ -5,7 +5,7 @@ import {
   isPngBlob,
 } from "copy-image-clipboard";
 
-import { injectPngTextMetadataIntoBlob, type PngTextMetadata } from "./pngMetadata";
+import { hasPngMetadata, injectPngMetadataIntoBlob, type PngMetadata } from "./pngMetadata";
 
 export type ClipboardUploadHandler = (file: File) => void | Promise<void>;
 
@@ -208,7 +208,7 @@ const canWriteImageAndText = (): boolean =>
 
 export const handleCopy = async (
   imageData: string | null | undefined,
-  pngTextMetadata?: PngTextMetadata,
+  pngMetadata?: PngMetadata,
   caption?: string | null,
 ): Promise<boolean> => {
   if (!imageData) return false;
@@ -218,15 +218,13 @@ export const handleCopy = async (
   try {
     const normalizedBlob = await getNormalizedImageBlob(imageData);
 
-    const hasMetadata =
-      !!pngTextMetadata &&
-      Object.values(pngTextMetadata).some((v) => typeof v === "string" && v.trim().length > 0);
+    const hasMetadata = hasPngMetadata(pngMetadata);
 
     // Build the image blob we will place on the clipboard (PNG + any metadata).
     let imageBlob = normalizedBlob;
     if (hasMetadata) {
       const pngBlob = await convertBlobToPngWithFallback(normalizedBlob);
-      imageBlob = await injectPngTextMetadataIntoBlob(pngBlob, pngTextMetadata || {});
+      imageBlob = await injectPngMetadataIntoBlob(pngBlob, pngMetadata || {});
     }
 
     // When the image has caption text, write BOTH representations as a single
@@ -0,0 +1,338 @@
+import type { ImageCredits } from "../types";
+import { getPngPictureBytes, injectPngMetadata, readPngTextMetadata } from "./pngMetadata";
+
+/**
+ * C2PA-style content credentials: a claim that says "this picture was made
+ * (or edited) by an AI model", naming the model and the source images, signed
+ * so that any later change to the claim or to the picture shows up.
+ *
+ * Modeled on C2PA's claim/assertion vocabulary (c2pa.created / c2pa.edited
+ * actions, IPTC digital source types, ingredients), but carried as signed
+ * JSON in a PNG iTXt chunk rather than a JUMBF box, and signed with an ECDSA
+ * P-256 key generated in this browser, not a certificate. So a valid signature
+ * shows the picture and claim are unchanged since signing; it says nothing
+ * about who signed beyond "whoever held this key". The public key travels in
+ * the manifest, and the UI notes when it is this computer's own key.
+ */
+
+export const CONTENT_CREDENTIALS_PNG_KEYWORD = "bloom-ai-image-tools:content-credentials";
+export const CONTENT_CREDENTIALS_KEY_STORAGE_KEY = "contentCredentials.signingKey";
+export const CONTENT_CREDENTIALS_CLAIM_GENERATOR = "Bloom AI Image Tools";
+
+const IPTC_DIGITAL_SOURCE_TYPE = "http://cv.iptc.org/newscodes/digitalsourcetype/";
+const SIGNING_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+export interface ContentCredentialsAction {
+  action: "c2pa.created" | "c2pa.edited";
+  digitalSourceType: string;
+  /** The model that did it. */
+  softwareAgent: string;
+  when: string;
+  description?: string;
+}
+
+export interface ContentCredentialsIngredient {
+  title: string;
+  /** parentOf = the image that was edited; componentOf = a reference image. */
+  relationship: "parentOf" | "componentOf";
+  /** SHA-256 of the ingredient's picture, hex; null when it couldn't be read. */
+  hash: string | null;
+  /** The ingredient's own credits, when it had any. */
+  credits?: ImageCredits | null;
+}
+
+export interface ContentCredentialsClaim {
+  version: number;
+  claimGenerator: string;
+  /** SHA-256 over the picture's chunks (see getPngPictureBytes), hex. */
+  contentHash: string;
+  toolId: string;
+  actions: ContentCredentialsAction[];
+  ingredients: ContentCredentialsIngredient[];
+}
+
+export interface ContentCredentialsManifest {
+  /** The claim as the exact JSON text that was signed. */
+  claim: string;
+  algorithm: "ES256";
+  /** Base64 ECDSA signature (IEEE P1363) over the UTF-8 bytes of `claim`. */
+  signature: string;
+  publicKey: JsonWebKey;
+}
+
+export type ContentCredentialsStatus = "valid" | "image-changed" | "invalid-signature";
+
+export interface ContentCredentialsVerification {
+  status: ContentCredentialsStatus;
+  claim: ContentCredentialsClaim;
+  /** True when it was signed with this browser's own key. */
+  signedHere: boolean;
+  /** Short id of the signing key, for telling keys apart. */
+  keyFingerprint: string;
+}
+
+export interface ContentCredentialsSource {
+  title: string;
+  relationship: ContentCredentialsIngredient["relationship"];
+  /** The source image as a data URL or URL. */
+  imageData: string;
+  credits?: ImageCredits | null;
+}
+
+export interface ContentCredentialsDetails {
+  model: string;
+  toolId: string;
+  /** What was asked for, e.g. the tool's title. */
+  description?: string;
+  sources: ContentCredentialsSource[];
+  when?: number;
+}
+
+type KeyStorage = Pick<Storage, "getItem" | "setItem">;
+
+const textEncoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new Uint8Array(bytes)));
+
+/** SHA-256 of the picture, ignoring PNG metadata; of the whole file otherwise. */
+const hashPicture = async (bytes: Uint8Array): Promise<string> =>
+  sha256Hex(getPngPictureBytes(bytes) ?? bytes);
+
+const readImageBytes = async (imageData: string): Promise<Uint8Array> =>
+  new Uint8Array(await (await fetch(imageData)).arrayBuffer());
+
+const getDefaultStorage = (): KeyStorage | null =>
+  typeof window !== "undefined" && window.localStorage ? window.localStorage : null;
+
+/**
+ * This browser's signing key, made on first use and kept in localStorage (as
+ * JWK; WebCrypto keys can't go there directly). Without storage the key only
+ * lasts for the session.
+ */
+let sessionKeyPair: Promise<{ privateKey: CryptoKey; publicJwk: JsonWebKey }> | null = null;
+
+const loadOrCreateSigningKey = async (
+  storage: KeyStorage | null,
+): Promise<{ privateKey: CryptoKey; publicJwk: JsonWebKey }> => {
+  const stored = storage?.getItem(CONTENT_CREDENTIALS_KEY_STORAGE_KEY);
+  if (stored) {
+    try {
+      const { privateJwk, publicJwk } = JSON.parse(stored) as {
+        privateJwk: JsonWebKey;
+        publicJwk: JsonWebKey;
+      };
+      const privateKey = await crypto.subtle.importKey(
+        "jwk",
+        privateJwk,
+        SIGNING_ALGORITHM,
+        false,
+        ["sign"],
+      );
+      return { privateKey, publicJwk };
+    } catch (error) {
+      console.warn("Stored content-credentials key is unreadable; making a new one.", error);
+    }
+  }
+
+  const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ["sign", "verify"]);
+  const privateJwk = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  storage?.setItem(CONTENT_CREDENTIALS_KEY_STORAGE_KEY, JSON.stringify({ privateJwk, publicJwk }));
+  return { privateKey: pair.privateKey, publicJwk };
+};
+
+const getSigningKey = (storage: KeyStorage | null) => {
+  if (storage) return loadOrCreateSigningKey(storage);
+  sessionKeyPair ??= loadOrCreateSigningKey(null);
+  return sessionKeyPair;
+};
+
+const getKeyFingerprint = async (publicJwk: JsonWebKey): Promise<string> =>
+  (await sha256Hex(textEncoder.encode(`${publicJwk.crv}:${publicJwk.x}:${publicJwk.y}`))).slice(
+    0,
+    16,
+  );
+
+const getOwnPublicKey = (storage: KeyStorage | null): JsonWebKey | null => {
+  try {
+    const stored = storage?.getItem(CONTENT_CREDENTIALS_KEY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as { publicJwk: JsonWebKey }).publicJwk : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Signs a claim about `pngBytes` and returns the PNG with the manifest added. */
+export const signContentCredentials = async (
+  pngBytes: Uint8Array,
+  details: ContentCredentialsDetails,
+  storage: KeyStorage | null = getDefaultStorage(),
+): Promise<Uint8Array> => {
+  const when = new Date(details.when ?? Date.now()).toISOString();
+  const isEdit = details.sources.some((source) => source.relationship === "parentOf");
+  const ingredients = await Promise.all(
+    details.sources.map(async (source): Promise<ContentCredentialsIngredient> => {
+      let hash: string | null = null;
+      try {
+        hash = await hashPicture(await readImageBytes(source.imageData));
+      } catch {
+        // An unreadable source is still named; it just can't be matched later.
+      }
+      return {
+        title: source.title,
+        relationship: source.relationship,
+        hash,
+        ...(source.credits ? { credits: source.credits } : {}),
+      };
+    }),
+  );
+  const claim: ContentCredentialsClaim = {
+    version: 1,
+    claimGenerator: CONTENT_CREDENTIALS_CLAIM_GENERATOR,
+    contentHash: await hashPicture(pngBytes),
+    toolId: details.toolId,
+    actions: [
+      {
+        action: isEdit ? "c2pa.edited" : "c2pa.created",
+        digitalSourceType: `${IPTC_DIGITAL_SOURCE_TYPE}${
+          isEdit ? "compositeWithTrainedAlgorithmicMedia" : "trainedAlgorithmicMedia"
+        }`,
+        softwareAgent: details.model,
+        when,
+        ...(details.description ? { description: details.description } : {}),
+      },
+    ],
+    ingredients,
+  };
+
+  const claimText = JSON.stringify(claim);
+  const { privateKey, publicJwk } = await getSigningKey(storage);
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_PARAMS,
+    privateKey,
+    textEncoder.encode(claimText),
+  );
+  const manifest: ContentCredentialsManifest = {
+    claim: claimText,
+    algorithm: "ES256",
+    signature: toBase64(new Uint8Array(signature)),
+    publicKey: { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y },
+  };
+  return injectPngMetadata(pngBytes, {
+    internationalText: { [CONTENT_CREDENTIALS_PNG_KEYWORD]: JSON.stringify(manifest) },
+  });
+};
+
+/**
+ * Adds signed credentials to a generated PNG (data URL). Anything that isn't
+ * a PNG, or any failure, returns the image unchanged: credentials must never
+ * cost the user their result.
+ */
+export const attachContentCredentials = async (
+  imageData: string,
+  details: ContentCredentialsDetails,
+): Promise<string> => {
+  if (!imageData.startsWith("data:image/png") || typeof crypto === "undefined" || !crypto.subtle) {
+    return imageData;
+  }
+  try {
+    const signed = await signContentCredentials(await readImageBytes(imageData), details);
+    return `data:image/png;base64,${toBase64(signed)}`;
+  } catch (error) {
+    console.warn("Could not attach content credentials", error);
+    return imageData;
+  }
+};
+
+export const readContentCredentials = (bytes: Uint8Array): ContentCredentialsManifest | null => {
+  const text = readPngTextMetadata(bytes)[CONTENT_CREDENTIALS_PNG_KEYWORD];
+  if (!text) return null;
+  try {
+    const manifest = JSON.parse(text) as ContentCredentialsManifest;
+    return typeof manifest?.claim === "string" &&
+      typeof manifest.signature === "string" &&
+      manifest.publicKey
+      ? manifest
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Null when the image carries no (readable) credentials. */
+export const verifyContentCredentials = async (
+  bytes: Uint8Array,
+  storage: KeyStorage | null = getDefaultStorage(),
+): Promise<ContentCredentialsVerification | null> => {
+  const manifest = readContentCredentials(bytes);
+  if (!manifest) return null;
+
+  let claim: ContentCredentialsClaim;
+  try {
+    claim = JSON.parse(manifest.claim) as ContentCredentialsClaim;
+  } catch {
+    return null;
+  }
+  if (!claim || !Array.isArray(claim.actions)) return null;
+
+  let signatureOk = false;
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      "jwk",
+      manifest.publicKey,
+      SIGNING_ALGORITHM,
+      false,
+      ["verify"],
+    );
+    signatureOk = await crypto.subtle.verify(
+      SIGNATURE_PARAMS,
+      publicKey,
+      new Uint8Array(fromBase64(manifest.signature)),
+      textEncoder.encode(manifest.claim),
+    );
+  } catch {
+    signatureOk = false;
+  }
+
+  const keyFingerprint = await getKeyFingerprint(manifest.publicKey);
+  const ownKey = getOwnPublicKey(storage);
+  return {
+    status: !signatureOk
+      ? "invalid-signature"
+      : (await hashPicture(bytes)) === claim.contentHash
+        ? "valid"
+        : "image-changed",
+    claim,
+    signedHere: !!ownKey && (await getKeyFingerprint(ownKey)) === keyFingerprint,
+    keyFingerprint,
+  };
+};
+
+/** verifyContentCredentials for an image held as a data URL or URL. */
+export const verifyImageContentCredentials = async (
+  imageData: string,
+): Promise<ContentCredentialsVerification | null> => {
+  if (!imageData || typeof crypto === "undefined" || !crypto.subtle) return null;
+  try {
+    return await verifyContentCredentials(await readImageBytes(imageData));
+  } catch {
+    return null;
+  }
+};
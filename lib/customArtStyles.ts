@@ -0,0 +1,134 @@
+import JSON5 from "json5";
+import type { ArtStyleDefinition } from "../types";
+
+/**
+ * User-defined ("house") art styles, created from a sample image in the art
+ * style chooser. They are ArtStyleDefinitions like the bundled catalog's,
+ * except that the sample image is stored inline as a small data URL so a
+ * style stays self-contained in PersistedImageToolsState and in export files.
+ * The workspace registers the current list with lib/artStyles
+ * (registerCustomArtStyles); every style lookup goes through there.
+ */
+
+export const CUSTOM_ART_STYLE_ID_PREFIX = "user:";
+export const CUSTOM_ART_STYLES_FILE_VERSION = 1;
+
+export const isCustomArtStyleId = (styleId: string | null | undefined): boolean =>
+  !!styleId && styleId.startsWith(CUSTOM_ART_STYLE_ID_PREFIX);
+
+/** A fresh id for a style named `name`, e.g. "user:our-watercolor-k3f9". */
+export const createCustomArtStyleId = (name: string): string => {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "style";
+  return `${CUSTOM_ART_STYLE_ID_PREFIX}${slug}-${Math.random().toString(36).slice(2, 6)}`;
+};
+
+const asTrimmedString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const isUsableImageUrl = (value: string) => /^(data:image\/|https?:\/\/)/i.test(value);
+
+/** "Line Art, Educational" (or an array) -> distinct, trimmed category names. */
+export const parseArtStyleCategories = (value: unknown): string[] => {
+  const values = Array.isArray(value)
+    ? value.map(asTrimmedString)
+    : asTrimmedString(value).split(",");
+  const categories: string[] = [];
+  for (const raw of values) {
+    const category = raw.trim();
+    if (
+      category &&
+      !categories.some((existing) => existing.toLowerCase() === category.toLowerCase())
+    ) {
+      categories.push(category);
+    }
+  }
+  return categories;
+};
+
+/**
+ * Validate one style from persisted state or an imported file. Returns null
+ * when it can't be used; unknown fields and unusable image URLs are dropped.
+ */
+export const normalizeCustomArtStyle = (raw: unknown): ArtStyleDefinition | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const entry = raw as Record<string, unknown>;
+  const id = asTrimmedString(entry.id);
+  const name = asTrimmedString(entry.name);
+  const promptDetail = asTrimmedString(entry.promptDetail);
+  if (!isCustomArtStyleId(id) || id === CUSTOM_ART_STYLE_ID_PREFIX || !name || !promptDetail) {
+    return null;
+  }
+
+  const categories = parseArtStyleCategories(entry.categories);
+  const sampleImageUrl = asTrimmedString(entry.sampleImageUrl);
+  return {
+    id,
+    name,
+    promptDetail,
+    description: asTrimmedString(entry.description),
+    ...(categories.length ? { categories } : {}),
+    ...(isUsableImageUrl(sampleImageUrl) ? { sampleImageUrl } : {}),
+  };
+};
+
+export const normalizeCustomArtStyles = (value: unknown): ArtStyleDefinition[] => {
+  if (!Array.isArray(value)) return [];
+  const styles: ArtStyleDefinition[] = [];
+  for (const raw of value) {
+    const style = normalizeCustomArtStyle(raw);
+    if (style && !styles.some((existing) => existing.id === style.id)) {
+      styles.push(style);
+    }
+  }
+  return styles;
+};
+
+/** The JSON5 text of an export file. */
+export const serializeCustomArtStyles = (styles: ArtStyleDefinition[]): string =>
+  `// Bloom AI Image Tools: house art styles. Import this file from "Choose an Art Style".\n${JSON5.stringify(
+    { version: CUSTOM_ART_STYLES_FILE_VERSION, styles },
+    null,
+    2,
+  )}\n`;
+
+/**
+ * Read an export file. Accepts the `{ version, styles }` wrapper or a bare
+ * array. Throws when the text isn't JSON5 or holds no usable style; styles
+ * that fail validation are skipped.
+ */
+export const parseCustomArtStylesFile = (text: string): ArtStyleDefinition[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON5.parse(text);
+  } catch {
+    throw new Error("That file isn't a valid art styles file (it could not be read as JSON5).");
+  }
+  const rawStyles = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { styles?: unknown } | null)?.styles;
+  const styles = normalizeCustomArtStyles(rawStyles);
+  if (!styles.length) {
+    throw new Error("That file doesn't contain any art styles that can be imported.");
+  }
+  return styles;
+};
+
+/** `incoming` added to `existing`; a style with the same id replaces the old one in place. */
+export const mergeCustomArtStyles = (
+  existing: ArtStyleDefinition[],
+  incoming: ArtStyleDefinition[],
+): ArtStyleDefinition[] => {
+  const merged = existing.map(
+    (style) => incoming.find((candidate) => candidate.id === style.id) ?? style,
+  );
+  incoming.forEach((style) => {
+    if (!existing.some((candidate) => candidate.id === style.id)) {
+      merged.push(style);
+    }
+  });
+  return merged;
+};
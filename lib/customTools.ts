@@ -0,0 +1,240 @@
+import JSON5 from "json5";
+import BookmarkBorderOutlinedIcon from "@mui/icons-material/BookmarkBorderOutlined";
+import type { CustomToolSpec, ToolDefinition, ToolParameter } from "../types";
+import { TOOLS, withAspectRatioParameter } from "../components/tools/tools-registry";
+import { getArtStylePrompt } from "./artStyles";
+
+/**
+ * User-defined tools ("Save as tool"). A CustomToolSpec is plain data — a
+ * prompt template with `{{param}}` placeholders plus a parameter list — so it
+ * can live in PersistedImageToolsState and round-trip through a JSON5 file.
+ * The workspace registers the current list here; everything that looks tools
+ * up by id goes through getAllTools() so user tools behave like built-ins.
+ */
+
+export const CUSTOM_TOOL_ID_PREFIX = "user:";
+export const CUSTOM_TOOLS_FILE_VERSION = 1;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+const PARAMETER_TYPES: readonly ToolParameter["type"][] = [
+  "text",
+  "select",
+  "textarea",
+  "art-style",
+  "aspect-ratio",
+  "size",
+  "checkbox",
+  "mask",
+];
+
+const REFERENCE_MODES: readonly CustomToolSpec["referenceImages"][] = ["0", "0+", "1", "1+"];
+
+export const isCustomToolId = (toolId: string | null | undefined): boolean =>
+  !!toolId && toolId.startsWith(CUSTOM_TOOL_ID_PREFIX);
+
+/** Distinct placeholder names in a template, in order of first appearance. */
+export const extractTemplatePlaceholders = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+};
+
+/**
+ * Fill a template's placeholders. Art-style params expand to the style's
+ * prompt text, masks are never inlined (they travel as an image), and unknown
+ * or empty params become "".
+ */
+export const renderPromptTemplate = (
+  template: string,
+  parameters: ToolParameter[],
+  params: Record<string, string>,
+): string => {
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const param = parameters.find((candidate) => candidate.name === name);
+    const value = params[name]?.trim() ?? "";
+    if (param?.type === "mask") {
+      return "";
+    }
+    if (param?.type === "art-style") {
+      return getArtStylePrompt(value, "full")?.trim() ?? "";
+    }
+    return value;
+  });
+  // Empty optional params can leave runs of blank lines behind.
+  return rendered.replace(/\n{3,}/g, "\n\n").trim();
+};
+
+/** A fresh id for a tool titled `title`, e.g. "user:make-it-snow-k3f9". */
+export const createCustomToolId = (title: string): string => {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "tool";
+  return `${CUSTOM_TOOL_ID_PREFIX}${slug}-${Math.random().toString(36).slice(2, 6)}`;
+};
+
+const asTrimmedString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const normalizeParameter = (raw: unknown): ToolParameter | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const entry = raw as Record<string, unknown>;
+  const name = asTrimmedString(entry.name);
+  const type = entry.type as ToolParameter["type"];
+  if (!/^[A-Za-z_][\w-]*$/.test(name) || !PARAMETER_TYPES.includes(type)) {
+    return null;
+  }
+
+  const parameter: ToolParameter = {
+    name,
+    label: asTrimmedString(entry.label) || name,
+    type,
+  };
+  const options = Array.isArray(entry.options)
+    ? entry.options.map(asTrimmedString).filter(Boolean)
+    : [];
+  if (type === "select") {
+    if (!options.length) return null;
+    parameter.options = options;
+  }
+  const placeholder = asTrimmedString(entry.placeholder);
+  if (placeholder) parameter.placeholder = placeholder;
+  if (typeof entry.defaultValue === "string") parameter.defaultValue = entry.defaultValue;
+  if (entry.optional === true) parameter.optional = true;
+  return parameter;
+};
+
+/**
+ * Validate one spec from persisted state or an imported file. Returns null
+ * when it can't be used; unknown fields are dropped.
+ */
+export const normalizeCustomToolSpec = (raw: unknown): CustomToolSpec | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const entry = raw as Record<string, unknown>;
+  const id = asTrimmedString(entry.id);
+  const title = asTrimmedString(entry.title);
+  const promptTemplate = asTrimmedString(entry.promptTemplate);
+  if (!isCustomToolId(id) || id === CUSTOM_TOOL_ID_PREFIX || !title || !promptTemplate) {
+    return null;
+  }
+
+  const parameters: ToolParameter[] = [];
+  if (Array.isArray(entry.parameters)) {
+    for (const rawParameter of entry.parameters) {
+      const parameter = normalizeParameter(rawParameter);
+      if (parameter && !parameters.some((existing) => existing.name === parameter.name)) {
+        parameters.push(parameter);
+      }
+    }
+  }
+
+  const referenceImages = REFERENCE_MODES.includes(
+    entry.referenceImages as CustomToolSpec["referenceImages"],
+  )
+    ? (entry.referenceImages as CustomToolSpec["referenceImages"])
+    : "0";
+  const editImage = entry.editImage !== false;
+  const description = asTrimmedString(entry.description);
+
+  return {
+    id,
+    title,
+    ...(description ? { description } : {}),
+    promptTemplate,
+    parameters,
+    referenceImages,
+    editImage,
+    // Batch runs edit each ticked image, so only editing tools can join one.
+    allowBatch: editImage && entry.allowBatch === true,
+  };
+};
+
+export const normalizeCustomToolSpecs = (value: unknown): CustomToolSpec[] => {
+  if (!Array.isArray(value)) return [];
+  const specs: CustomToolSpec[] = [];
+  for (const raw of value) {
+    const spec = normalizeCustomToolSpec(raw);
+    if (spec && !specs.some((existing) => existing.id === spec.id)) {
+      specs.push(spec);
+    }
+  }
+  return specs;
+};
+
+export const customToolToDefinition = (spec: CustomToolSpec): ToolDefinition =>
+  withAspectRatioParameter({
+    id: spec.id,
+    title: spec.title,
+    description: spec.description ?? "",
+    group: "custom",
+    icon: BookmarkBorderOutlinedIcon,
+    parameters: spec.parameters,
+    promptTemplate: (params) => renderPromptTemplate(spec.promptTemplate, spec.parameters, params),
+    referenceImages: spec.referenceImages,
+    editImage: spec.editImage !== false,
+    allowBatch: spec.allowBatch === true,
+  });
+
+let registeredCustomTools: ToolDefinition[] = [];
+
+/**
+ * Make these user tools visible to getAllTools(). The workspace calls this
+ * whenever its list changes, before the new list reaches React state.
+ */
+export const registerCustomTools = (specs: CustomToolSpec[]) => {
+  registeredCustomTools = specs.map(customToolToDefinition);
+};
+
+/** Built-in tools followed by the registered user tools. */
+export const getAllTools = (): ToolDefinition[] =>
+  registeredCustomTools.length ? [...TOOLS, ...registeredCustomTools] : TOOLS;
+
+/** The JSON5 text of an export file. */
+export const serializeCustomTools = (specs: CustomToolSpec[]): string =>
+  `// Bloom AI Image Tools: user-defined tools. Import this file from "My Tools".\n${JSON5.stringify(
+    { version: CUSTOM_TOOLS_FILE_VERSION, tools: specs },
+    null,
+    2,
+  )}\n`;
+
+/**
+ * Read an export file. Accepts the `{ version, tools }` wrapper or a bare
+ * array. Throws when the text isn't JSON5 or holds no usable tool; tools that
+ * fail validation are skipped.
+ */
+export const parseCustomToolsFile = (text: string): CustomToolSpec[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON5.parse(text);
+  } catch {
+    throw new Error("That file isn't a valid tools file (it could not be read as JSON5).");
+  }
+  const rawTools = Array.isArray(parsed) ? parsed : (parsed as { tools?: unknown } | null)?.tools;
+  const specs = normalizeCustomToolSpecs(rawTools);
+  if (!specs.length) {
+    throw new Error("That file doesn't contain any tools that can be imported.");
+  }
+  return specs;
+};
+
+/** `incoming` added to `existing`; a tool with the same id replaces the old one in place. */
+export const mergeCustomToolSpecs = (
+  existing: CustomToolSpec[],
+  incoming: CustomToolSpec[],
+): CustomToolSpec[] => {
+  const merged = existing.map(
+    (spec) => incoming.find((candidate) => candidate.id === spec.id) ?? spec,
+  );
+  incoming.forEach((spec) => {
+    if (!existing.some((candidate) => candidate.id === spec.id)) {
+      merged.push(spec);
+    }
+  });
+  return merged;
+};
@@ -0,0 +1,14 @@
+/**
+ * Saves `blob` as a file named `fileName` through a temporary link. The object
+ * URL is released a moment later, once the browser has started the download.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,99 @@
+/**
+ * Edit lineage: every result's `parentId` points at the image it was made
+ * from, so history forms a forest. These helpers work on anything with an
+ * id/parentId (ImageRecord, HistoryEntry) and tolerate broken links — a parent
+ * that was deleted or never loaded just makes its child a root.
+ */
+
+export interface LineageItem {
+  id: string;
+  parentId: string | null;
+  timestamp: number;
+}
+
+export interface LineageNode<T extends LineageItem> {
+  item: T;
+  depth: number;
+  /** Oldest first. */
+  children: LineageNode<T>[];
+}
+
+const indexById = <T extends LineageItem>(items: readonly T[]) =>
+  new Map(items.map((item) => [item.id, item]));
+
+const indexChildren = <T extends LineageItem>(items: readonly T[]) => {
+  const childrenByParent = new Map<string, T[]>();
+  items.forEach((item) => {
+    if (!item.parentId || item.parentId === item.id) return;
+    const siblings = childrenByParent.get(item.parentId) ?? [];
+    siblings.push(item);
+    childrenByParent.set(item.parentId, siblings);
+  });
+  childrenByParent.forEach((siblings) => siblings.sort((a, b) => a.timestamp - b.timestamp));
+  return childrenByParent;
+};
+
+/** Ids from `id` up to its oldest known ancestor, `id` first. */
+export const getAncestorIds = <T extends LineageItem>(
+  items: readonly T[],
+  id: string,
+): string[] => {
+  const byId = indexById(items);
+  const path: string[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current.id)) {
+    path.push(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * The whole tree `id` belongs to, rooted at its oldest known ancestor. Null
+ * when `id` isn't in `items`.
+ */
+export const buildLineageTree = <T extends LineageItem>(
+  items: readonly T[],
+  id: string,
+): LineageNode<T> | null => {
+  const byId = indexById(items);
+  const root = byId.get(getAncestorIds(items, id).pop() ?? "");
+  if (!root) return null;
+  const childrenByParent = indexChildren(items);
+  const visited = new Set<string>();
+
+  const build = (item: T, depth: number): LineageNode<T> => {
+    visited.add(item.id);
+    return {
+      item,
+      depth,
+      children: (childrenByParent.get(item.id) ?? [])
+        .filter((child) => !visited.has(child.id))
+        .map((child) => build(child, depth + 1)),
+    };
+  };
+
+  return build(root, 0);
+};
+
+/** `id` and every descendant, parents before children. */
+export const collectBranchIds = <T extends LineageItem>(
+  items: readonly T[],
+  id: string,
+): string[] => {
+  if (!items.some((item) => item.id === id)) return [];
+  const childrenByParent = indexChildren(items);
+  const ids: string[] = [];
+  const queue = [id];
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    if (ids.includes(next)) continue;
+    ids.push(next);
+    (childrenByParent.get(next) ?? []).forEach((child) => queue.push(child.id));
+  }
+  return ids;
+};
+
+/** Depth-first (display) order of a tree's nodes. */
+export const flattenLineageTree = <T extends LineageItem>(
+  root: LineageNode<T>,
+): LineageNode<T>[] => [root, ...root.children.flatMap(flattenLineageTree)];
@@ -0,0 +1,191 @@
+import type { ImageRecord } from "../types";
+import { getArtStyleById, getStyleIdFromImageRecord } from "./artStyles";
+import { getModelNameById } from "./modelsCatalog";
+import { getToolById } from "./toolHelpers";
+
+/**
+ * Search over history images: free text matched against what an image was
+ * made with (prompt, caption, name, parameters, tool, model, style, date),
+ * narrowed by facets. The query is plain data so the workspace can persist it.
+ */
+
+export type ImageOrigin = NonNullable<ImageRecord["origin"]>;
+
+export type HistoryCostRange = "free" | "low" | "medium" | "high";
+
+export interface HistorySearchQuery {
+  text: string;
+  toolIds: string[];
+  models: string[];
+  origins: ImageOrigin[];
+  starredOnly: boolean;
+  costRanges: HistoryCostRange[];
+}
+
+export const EMPTY_HISTORY_SEARCH: HistorySearchQuery = {
+  text: "",
+  toolIds: [],
+  models: [],
+  origins: [],
+  starredOnly: false,
+  costRanges: [],
+};
+
+export const IMAGE_ORIGINS: ImageOrigin[] = ["generated", "uploaded", "bookImages", "bookOriginal"];
+
+export const IMAGE_ORIGIN_LABELS: Record<ImageOrigin, string> = {
+  generated: "Generated",
+  uploaded: "Uploaded",
+  bookImages: "Book image",
+  bookOriginal: "Book original",
+};
+
+/** Upper bounds in USD; a cost falls in the first range it doesn't reach. */
+export const HISTORY_COST_RANGES: { id: HistoryCostRange; label: string; below: number }[] = [
+  { id: "free", label: "Free", below: Number.MIN_VALUE },
+  { id: "low", label: "Under $0.05", below: 0.05 },
+  { id: "medium", label: "$0.05–$0.25", below: 0.25 },
+  { id: "high", label: "$0.25+", below: Number.POSITIVE_INFINITY },
+];
+
+/** Records from before `origin` was tracked are generated results. */
+export const getImageOrigin = (item: ImageRecord): ImageOrigin => item.origin ?? "generated";
+
+export const getCostRange = (cost: number): HistoryCostRange => {
+  const value = Number.isFinite(cost) && cost > 0 ? cost : 0;
+  return HISTORY_COST_RANGES.find((range) => value < range.below)?.id ?? "high";
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** The day an image was made, both as YYYY-MM-DD and as e.g. "October 19 2026". */
+const describeDate = (timestamp: number): string[] => {
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return [];
+  const date = new Date(timestamp);
+  const month = date.toLocaleString("en-US", { month: "long" });
+  return [
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    `${month} ${date.getDate()} ${date.getFullYear()}`,
+  ];
+};
+
+/** The lower-cased text a free-text query is matched against. */
+export const buildHistorySearchText = (item: ImageRecord): string => {
+  const styleId = getStyleIdFromImageRecord(item);
+  const parts = [
+    item.promptUsed,
+    item.caption,
+    item.name,
+    ...Object.entries(item.parameters || {}).map(([key, value]) => `${key} ${value}`),
+    item.toolId,
+    getToolById(item.toolId)?.title,
+    item.model,
+    getModelNameById(item.model),
+    styleId,
+    getArtStyleById(styleId)?.name,
+    ...describeDate(item.timestamp),
+  ];
+  return parts
+    .filter((part): part is string => typeof part === "string" && !!part)
+    .join("\n")
+    .toLowerCase();
+};
+
+export const isHistorySearchActive = (query: HistorySearchQuery): boolean =>
+  !!query.text.trim() ||
+  query.toolIds.length > 0 ||
+  query.models.length > 0 ||
+  query.origins.length > 0 ||
+  query.starredOnly ||
+  query.costRanges.length > 0;
+
+/**
+ * Builds a matcher for `query`. Every word of the text has to appear
+ * somewhere in the image's search text; within a facet any selected value
+ * matches, and every facet in use has to match.
+ */
+export const createHistorySearchMatcher = (
+  query: HistorySearchQuery,
+): ((item: ImageRecord) => boolean) => {
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const textCache = new Map<string, string>();
+  return (item) => {
+    if (query.starredOnly && !item.isStarred) return false;
+    if (query.toolIds.length && !query.toolIds.includes(item.toolId)) return false;
+    if (query.models.length && !query.models.includes(item.model)) return false;
+    if (query.origins.length && !query.origins.includes(getImageOrigin(item))) return false;
+    if (query.costRanges.length && !query.costRanges.includes(getCostRange(item.cost))) {
+      return false;
+    }
+    if (!words.length) return true;
+    const text = textCache.get(item.id) ?? buildHistorySearchText(item);
+    textCache.set(item.id, text);
+    return words.every((word) => text.includes(word));
+  };
+};
+
+export interface HistorySearchFacets {
+  toolIds: string[];
+  models: string[];
+  origins: ImageOrigin[];
+  costRanges: HistoryCostRange[];
+}
+
+/** The facet values present in `items`, so chips are only offered for them. */
+export const collectHistorySearchFacets = (items: ImageRecord[]): HistorySearchFacets => {
+  const toolIds = new Set<string>();
+  const models = new Set<string>();
+  const origins = new Set<ImageOrigin>();
+  const costRanges = new Set<HistoryCostRange>();
+  items.forEach((item) => {
+    if (item.toolId) toolIds.add(item.toolId);
+    if (item.model) models.add(item.model);
+    origins.add(getImageOrigin(item));
+    costRanges.add(getCostRange(item.cost));
+  });
+  return {
+    toolIds: [...toolIds].sort(),
+    models: [...models].sort(),
+    origins: IMAGE_ORIGINS.filter((origin) => origins.has(origin)),
+    costRanges: HISTORY_COST_RANGES.map((range) => range.id).filter((id) => costRanges.has(id)),
+  };
+};
+
+/**
+ * Only the ids whose image matches. Ids without a loaded image can't be
+ * checked, so they are dropped while a search is active.
+ */
+export const filterItemIdsBySearch = (
+  itemIds: string[],
+  itemsById: Record<string, ImageRecord>,
+  matches: (item: ImageRecord) => boolean,
+): string[] =>
+  itemIds.filter((id) => {
+    const item = itemsById[id];
+    return !!item && matches(item);
+  });
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+export const normalizeHistorySearchQuery = (value: unknown): HistorySearchQuery => {
+  if (!value || typeof value !== "object") return EMPTY_HISTORY_SEARCH;
+  const raw = value as Partial<Record<keyof HistorySearchQuery, unknown>>;
+  const costRangeIds = HISTORY_COST_RANGES.map((range) => range.id as string);
+  return {
+    text: typeof raw.text === "string" ? raw.text : "",
+    toolIds: stringList(raw.toolIds),
+    models: stringList(raw.models),
+    origins: stringList(raw.origins).filter((origin): origin is ImageOrigin =>
+      (IMAGE_ORIGINS as string[]).includes(origin),
+    ),
+    starredOnly: raw.starredOnly === true,
+    costRanges: stringList(raw.costRanges).filter((range): range is HistoryCostRange =>
+      costRangeIds.includes(range),
+    ),
+  };
+};
+
+/** Adds `value` to a facet's selection, or removes it if already selected. */
+export const toggleFacetValue = <T extends string>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
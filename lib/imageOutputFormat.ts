@@ -0,0 +1,212 @@
+import { getMimeTypeFromUrl } from "./imageUtils";
+
+/**
+ * The file format images are written in when they leave the editor: saved to
+ * a Bloom book's history folder, committed to the book, or downloaded. Every
+ * canvas step inside the editor stays PNG (lossless, keeps transparency and
+ * metadata); the conversion happens once, on the way out.
+ *
+ * "auto" keeps PNG for images with any transparent pixel and uses JPEG for
+ * the rest, which is what photographic art wants.
+ */
+export type ImageOutputFormat = "auto" | "png" | "jpeg" | "webp";
+
+/**
+ * Whether a result is shrunk when it replaces a book image. Results often
+ * come back at 2K–4K while a page shows them far smaller. Only the committed
+ * file is shrunk; history keeps the full-resolution original.
+ *   - "book-image": to the long edge of the book image it replaces (or
+ *     `maxLongEdge` when the host didn't say how big that is).
+ *   - "max-long-edge": to `maxLongEdge`.
+ */
+export type CommitResizeMode = "off" | "book-image" | "max-long-edge";
+
+export interface ImageOutputSettings {
+  format: ImageOutputFormat;
+  /** 0.5–1; used by JPEG and WebP. */
+  quality: number;
+  commitResize: CommitResizeMode;
+  /** Pixels. */
+  maxLongEdge: number;
+}
+
+export const IMAGE_OUTPUT_FORMATS: ReadonlyArray<{ value: ImageOutputFormat; label: string }> = [
+  { value: "auto", label: "Auto (PNG if any transparency, else JPEG)" },
+  { value: "png", label: "PNG" },
+  { value: "jpeg", label: "JPEG" },
+  { value: "webp", label: "WebP" },
+];
+
+export const COMMIT_RESIZE_MODES: ReadonlyArray<{ value: CommitResizeMode; label: string }> = [
+  { value: "off", label: "Keep full size" },
+  { value: "book-image", label: "Shrink to the size of the image it replaces" },
+  { value: "max-long-edge", label: "Shrink to a maximum size" },
+];
+
+export const MIN_IMAGE_OUTPUT_QUALITY = 0.5;
+export const MAX_IMAGE_OUTPUT_QUALITY = 1;
+// Smaller than this and a full-page picture looks soft even on screen.
+export const MIN_COMMIT_LONG_EDGE = 256;
+
+export const DEFAULT_IMAGE_OUTPUT_SETTINGS: ImageOutputSettings = {
+  format: "png",
+  quality: 0.85,
+  commitResize: "off",
+  maxLongEdge: 1600,
+};
+
+export const normalizeImageOutputSettings = (value: unknown): ImageOutputSettings => {
+  if (!value || typeof value !== "object") return DEFAULT_IMAGE_OUTPUT_SETTINGS;
+  const raw = value as Partial<Record<keyof ImageOutputSettings, unknown>>;
+  const format = IMAGE_OUTPUT_FORMATS.some((option) => option.value === raw.format)
+    ? (raw.format as ImageOutputFormat)
+    : DEFAULT_IMAGE_OUTPUT_SETTINGS.format;
+  const quality =
+    typeof raw.quality === "number" && Number.isFinite(raw.quality)
+      ? Math.min(MAX_IMAGE_OUTPUT_QUALITY, Math.max(MIN_IMAGE_OUTPUT_QUALITY, raw.quality))
+      : DEFAULT_IMAGE_OUTPUT_SETTINGS.quality;
+  const commitResize = COMMIT_RESIZE_MODES.some((option) => option.value === raw.commitResize)
+    ? (raw.commitResize as CommitResizeMode)
+    : DEFAULT_IMAGE_OUTPUT_SETTINGS.commitResize;
+  const maxLongEdge =
+    typeof raw.maxLongEdge === "number" && Number.isFinite(raw.maxLongEdge)
+      ? Math.max(MIN_COMMIT_LONG_EDGE, Math.round(raw.maxLongEdge))
+      : DEFAULT_IMAGE_OUTPUT_SETTINGS.maxLongEdge;
+  return { format, quality, commitResize, maxLongEdge };
+};
+
+/** The book image a result replaces, as far as sizing goes (see IBloomHostBookImage). */
+export interface CommitTargetSize {
+  width?: number;
+  height?: number;
+  isPlaceholder?: boolean;
+}
+
+/**
+ * The long edge, in pixels, a result committed over `target` should be shrunk
+ * to, or null to commit it at full size. Callers never enlarge: a result
+ * already smaller than this is committed as it is.
+ */
+export const resolveCommitLongEdge = (
+  settings: ImageOutputSettings,
+  target: CommitTargetSize | null | undefined,
+): number | null => {
+  switch (settings.commitResize) {
+    case "book-image": {
+      // A placeholder's size says nothing about the picture that goes there.
+      const bookLongEdge = target?.isPlaceholder
+        ? 0
+        : Math.max(target?.width ?? 0, target?.height ?? 0);
+      return bookLongEdge > 0
+        ? Math.max(MIN_COMMIT_LONG_EDGE, Math.round(bookLongEdge))
+        : settings.maxLongEdge;
+    }
+    case "max-long-edge":
+      return settings.maxLongEdge;
+    default:
+      return null;
+  }
+};
+
+/** True when any pixel of RGBA data is less than fully opaque. */
+export const hasTransparentPixels = (rgba: ArrayLike<number>): boolean => {
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] < 255) return true;
+  }
+  return false;
+};
+
+export const resolveOutputMimeType = (
+  settings: ImageOutputSettings,
+  hasTransparency: boolean,
+): string => {
+  switch (settings.format) {
+    case "jpeg":
+      return "image/jpeg";
+    case "webp":
+      return "image/webp";
+    case "auto":
+      return hasTransparency ? "image/png" : "image/jpeg";
+    default:
+      return "image/png";
+  }
+};
+
+/** Decoded size of a base64 data URL's payload, in bytes. */
+export const getDataUrlByteSize = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+};
+
+export const formatByteSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export interface EncodedOutputImage {
+  dataUrl: string;
+  mimeType: string;
+  byteSize: number;
+}
+
+const loadImage = (source: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for encoding"));
+    img.src = source;
+  });
+
+const unchanged = (dataUrl: string, mimeType: string): EncodedOutputImage => ({
+  dataUrl,
+  mimeType,
+  byteSize: getDataUrlByteSize(dataUrl),
+});
+
+/**
+ * Encodes a data-URL image in the chosen output format. An image already in
+ * that format is returned as it is, so PNGs keep their metadata and nothing
+ * is recompressed twice. JPEG has no alpha, so transparent areas become white.
+ * A browser that can't write the format (toDataURL falls back to PNG) gets
+ * the original back, with its real mime type.
+ */
+export const encodeImageForOutput = async (
+  imageData: string,
+  settings: ImageOutputSettings,
+): Promise<EncodedOutputImage> => {
+  const sourceMimeType = getMimeTypeFromUrl(imageData) ?? "image/png";
+  if (settings.format === "png" && sourceMimeType === "image/png") {
+    return unchanged(imageData, sourceMimeType);
+  }
+
+  const img = await loadImage(imageData);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const mimeType = resolveOutputMimeType(
+    settings,
+    settings.format === "auto" &&
+      hasTransparentPixels(ctx.getImageData(0, 0, canvas.width, canvas.height).data),
+  );
+  if (mimeType === sourceMimeType) {
+    return unchanged(imageData, sourceMimeType);
+  }
+  if (mimeType === "image/jpeg") {
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const encoded = canvas.toDataURL(mimeType, settings.quality);
+  if (getMimeTypeFromUrl(encoded) !== mimeType) {
+    return unchanged(imageData, sourceMimeType);
+  }
+  return unchanged(encoded, mimeType);
+};
@@ -0,0 +1,296 @@
+import type { ImageCredits, ImageRecord, ModelReasoningLevel } from "../types";
+import { getAncestorIds } from "./historyLineage";
+import { readPngTextMetadata, type PngMetadata } from "./pngMetadata";
+
+/**
+ * Where an image came from, written into PNGs on download and copy and read
+ * back when a file is added again, so a re-imported image keeps its tool,
+ * prompt, model, credits, caption and name, and reattaches to its lineage
+ * when its ancestors are still in history.
+ *
+ * Carried twice: as JSON in an iTXt chunk (what we read back) and as an XMP
+ * packet with the standard Dublin Core / IPTC fields, for other software.
+ * Ancestors are identified by id AND a SHA-256 of their image bytes, so a
+ * file is only reattached to the very images it was made from.
+ */
+
+export const IMAGE_PROVENANCE_VERSION = 1;
+export const IMAGE_PROVENANCE_PNG_KEYWORD = "bloom-ai-image-tools:provenance";
+export const XMP_PNG_KEYWORD = "XML:com.adobe.xmp";
+const MAX_PROVENANCE_ANCESTORS = 20;
+
+export interface ImageProvenanceAncestor {
+  id: string;
+  toolId: string;
+  model: string;
+  promptUsed: string;
+  timestamp: number;
+  /** SHA-256 of the image bytes, hex; null when hashing isn't available. */
+  contentHash: string | null;
+}
+
+export interface ImageProvenance {
+  version: number;
+  id: string;
+  contentHash: string | null;
+  toolId: string;
+  promptUsed: string;
+  model: string;
+  reasoningLevel: ModelReasoningLevel | null;
+  parameters: Record<string, string>;
+  sourceSummary: string | null;
+  timestamp: number;
+  caption: string | null;
+  name: string | null;
+  credits: ImageCredits | null;
+  /** The parent first, then its parent, and so on. */
+  lineage: ImageProvenanceAncestor[];
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** SHA-256 of the bytes behind a data URL or URL; null if they can't be read. */
+export const hashImageData = async (imageData: string): Promise<string | null> => {
+  if (!imageData || typeof crypto === "undefined" || !crypto.subtle) return null;
+  try {
+    const bytes = await (await fetch(imageData)).arrayBuffer();
+    return toHex(await crypto.subtle.digest("SHA-256", bytes));
+  } catch {
+    return null;
+  }
+};
+
+// Mask parameters hold a whole image as a data URL; that belongs in history,
+// not in every exported file.
+const withoutImageParameters = (parameters: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(parameters ?? {}).filter(([, value]) => !String(value).startsWith("data:")),
+  );
+
+export const buildImageProvenance = async (
+  image: ImageRecord,
+  history: readonly ImageRecord[],
+): Promise<ImageProvenance> => {
+  const byId = new Map(history.map((item) => [item.id, item]));
+  const ancestors = getAncestorIds(history, image.id)
+    .slice(1, MAX_PROVENANCE_ANCESTORS + 1)
+    .flatMap((id) => byId.get(id) ?? []);
+
+  return {
+    version: IMAGE_PROVENANCE_VERSION,
+    id: image.id,
+    contentHash: await hashImageData(image.imageData),
+    toolId: image.toolId,
+    promptUsed: image.promptUsed,
+    model: image.model,
+    reasoningLevel: image.reasoningLevel ?? null,
+    parameters: withoutImageParameters(image.parameters),
+    sourceSummary: image.sourceSummary ?? null,
+    timestamp: image.timestamp,
+    caption: image.caption ?? null,
+    name: image.name ?? null,
+    credits: image.credits ?? null,
+    lineage: await Promise.all(
+      ancestors.map(async (ancestor) => ({
+        id: ancestor.id,
+        toolId: ancestor.toolId,
+        model: ancestor.model,
+        promptUsed: ancestor.promptUsed,
+        timestamp: ancestor.timestamp,
+        contentHash: await hashImageData(ancestor.imageData),
+      })),
+    ),
+  };
+};
+
+const escapeXml = (value: string) =>
+  value.replace(
+    /[<>&"']/g,
+    (char) =>
+      ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[char] ?? char,
+  );
+
+const IPTC_DIGITAL_SOURCE_TYPE = "http://cv.iptc.org/newscodes/digitalsourcetype/";
+
+/** An XMP packet with the fields other image software understands. */
+export const buildProvenanceXmp = (provenance: ImageProvenance): string => {
+  const altText = (tag: string, value: string | null | undefined) =>
+    value?.trim()
+      ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value.trim())}</rdf:li></rdf:Alt></${tag}>`
+      : "";
+  const attribute = (name: string, value: string | null | undefined) =>
+    value?.trim() ? ` ${name}="${escapeXml(value.trim())}"` : "";
+  const credits = provenance.credits;
+  // Made by a model: from scratch, or by editing an earlier image.
+  const digitalSourceType = provenance.model
+    ? `${IPTC_DIGITAL_SOURCE_TYPE}${
+        provenance.lineage.length
+          ? "compositeWithTrainedAlgorithmicMedia"
+          : "trainedAlgorithmicMedia"
+      }`
+    : null;
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/"' +
+      ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"' +
+      ' xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"' +
+      ' xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"' +
+      attribute("xmp:CreatorTool", "Bloom AI Image Tools") +
+      attribute(
+        "xmp:CreateDate",
+        provenance.timestamp > 0 ? new Date(provenance.timestamp).toISOString() : null,
+      ) +
+      attribute("Iptc4xmpExt:DigitalSourceType", digitalSourceType) +
+      attribute("xmpRights:WebStatement", credits?.licenseUrl) +
+      ">",
+    altText("dc:title", provenance.name),
+    altText("dc:description", provenance.caption || provenance.promptUsed),
+    credits?.creator?.trim()
+      ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(credits.creator.trim())}</rdf:li></rdf:Seq></dc:creator>`
+      : "",
+    altText("dc:rights", credits?.copyrightNotice),
+    altText("xmpRights:UsageTerms", credits?.licenseRightsStatement),
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export const imageProvenanceToPngMetadata = (provenance: ImageProvenance): PngMetadata => ({
+  internationalText: {
+    [IMAGE_PROVENANCE_PNG_KEYWORD]: JSON.stringify(provenance),
+    [XMP_PNG_KEYWORD]: buildProvenanceXmp(provenance),
+  },
+});
+
+const asString = (value: unknown): string => (typeof value === "string" ? value : "");
+const asNullableString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value : null;
+const asNumber = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : 0;
+const asHash = (value: unknown): string | null =>
+  typeof value === "string" && /^[0-9a-f]{64}$/.test(value) ? value : null;
+
+/** Null for anything that isn't a provenance block this version can read. */
+export const parseImageProvenance = (json: string): ImageProvenance | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") return null;
+  const raw = parsed as Partial<Record<keyof ImageProvenance, unknown>>;
+  // Later versions only add fields, so read what this one knows.
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    return null;
+  }
+  if (!asString(raw.toolId)) return null;
+
+  const parameters =
+    raw.parameters && typeof raw.parameters === "object"
+      ? Object.fromEntries(
+          Object.entries(raw.parameters as Record<string, unknown>).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string",
+          ),
+        )
+      : {};
+  const credits =
+    raw.credits && typeof raw.credits === "object" ? (raw.credits as ImageCredits) : null;
+
+  return {
+    version: raw.version,
+    id: asString(raw.id),
+    contentHash: asHash(raw.contentHash),
+    toolId: asString(raw.toolId),
+    promptUsed: asString(raw.promptUsed),
+    model: asString(raw.model),
+    reasoningLevel: (asNullableString(raw.reasoningLevel) as ModelReasoningLevel | null) ?? null,
+    parameters,
+    sourceSummary: asNullableString(raw.sourceSummary),
+    timestamp: asNumber(raw.timestamp),
+    caption: asNullableString(raw.caption),
+    name: asNullableString(raw.name),
+    credits,
+    lineage: (Array.isArray(raw.lineage) ? raw.lineage : [])
+      .filter(
+        (entry: unknown): entry is Partial<Record<keyof ImageProvenanceAncestor, unknown>> =>
+          !!entry && typeof entry === "object",
+      )
+      .filter((entry) => asString(entry.id))
+      .map((entry) => ({
+        id: asString(entry.id),
+        toolId: asString(entry.toolId),
+        model: asString(entry.model),
+        promptUsed: asString(entry.promptUsed),
+        timestamp: asNumber(entry.timestamp),
+        contentHash: asHash(entry.contentHash),
+      })),
+  };
+};
+
+export const readImageProvenance = (pngBytes: Uint8Array): ImageProvenance | null => {
+  const json = readPngTextMetadata(pngBytes)[IMAGE_PROVENANCE_PNG_KEYWORD];
+  return json ? parseImageProvenance(json) : null;
+};
+
+/**
+ * The nearest ancestor named in `provenance` that is still in history and
+ * still has the same bytes, or null. Ids alone aren't trusted: they are short
+ * and another history could reuse one.
+ */
+export const findProvenanceParent = async (
+  provenance: ImageProvenance,
+  history: readonly ImageRecord[],
+): Promise<ImageRecord | null> => {
+  for (const ancestor of provenance.lineage) {
+    const candidate = history.find((item) => item.id === ancestor.id);
+    if (!candidate || !ancestor.contentHash) continue;
+    if ((await hashImageData(candidate.imageData)) === ancestor.contentHash) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Record fields to restore for an added file that carries provenance; {} when
+ * it doesn't. The file is still a new "uploaded" record at no cost (the spend
+ * was counted when it was made). Credits come from the file itself, so this
+ * doesn't invent any.
+ */
+export const restoreImageRecordFieldsFromFile = async (
+  file: Blob,
+  history: readonly ImageRecord[],
+): Promise<Partial<ImageRecord>> => {
+  let provenance: ImageProvenance | null = null;
+  try {
+    provenance = readImageProvenance(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.warn("Could not read provenance from the added image", error);
+  }
+  if (!provenance) return {};
+
+  const parent = await findProvenanceParent(provenance, history);
+  return {
+    parentId: parent?.id ?? null,
+    toolId: provenance.toolId,
+    parameters: provenance.parameters,
+    model: provenance.model,
+    reasoningLevel: provenance.reasoningLevel,
+    promptUsed: provenance.promptUsed,
+    sourceSummary: provenance.sourceSummary,
+    caption: provenance.caption,
+    name: provenance.name,
+    credits: provenance.credits,
+    origin: "uploaded",
+  };
+};
@@ -0,0 +1,199 @@
+/**
+ * Inpainting masks. A mask is an opaque PNG the same size as the image being
+ * edited: white marks the region the model may change, black marks pixels
+ * that must stay exactly as they are. Grey values feather the edge.
+ *
+ * The model is only *asked* to respect the mask, so after generation we
+ * composite locally: every pixel where the mask is black is copied straight
+ * from the original, which keeps untouched pixels bit-identical no matter
+ * what the model did to them.
+ */
+
+/** Overlay color the mask editor paints with (the mask itself is grayscale). */
+export const MASK_OVERLAY_RGB = { r: 255, g: 59, b: 48 } as const;
+
+/** Coverage weight (0–255) of one mask pixel: luminance gated by alpha. */
+const maskWeightAt = (mask: Uint8ClampedArray, index: number): number => {
+  const luminance = (mask[index] * 299 + mask[index + 1] * 587 + mask[index + 2] * 114) / 1000;
+  return Math.round((luminance * mask[index + 3]) / 255);
+};
+
+/**
+ * Blend `edited` over `original` through `mask`. All three buffers are RGBA
+ * pixel data of the same dimensions. Pixels with zero mask weight are copied
+ * verbatim from `original`; full weight copies `edited`; anything between is
+ * linearly interpolated.
+ */
+export const compositeMaskedPixels = (
+  original: Uint8ClampedArray,
+  edited: Uint8ClampedArray,
+  mask: Uint8ClampedArray,
+): Uint8ClampedArray => {
+  if (original.length !== edited.length || original.length !== mask.length) {
+    throw new Error("Mask compositing needs images of identical dimensions.");
+  }
+  const out = new Uint8ClampedArray(original.length);
+  for (let i = 0; i < original.length; i += 4) {
+    const weight = maskWeightAt(mask, i);
+    if (weight === 0) {
+      out[i] = original[i];
+      out[i + 1] = original[i + 1];
+      out[i + 2] = original[i + 2];
+      out[i + 3] = original[i + 3];
+      continue;
+    }
+    if (weight === 255) {
+      out[i] = edited[i];
+      out[i + 1] = edited[i + 1];
+      out[i + 2] = edited[i + 2];
+      out[i + 3] = edited[i + 3];
+      continue;
+    }
+    const t = weight / 255;
+    for (let c = 0; c < 4; c += 1) {
+      out[i + c] = Math.round(original[i + c] + (edited[i + c] - original[i + c]) * t);
+    }
+  }
+  return out;
+};
+
+/** True when at least one mask pixel lets the edit through. */
+export const maskHasCoverage = (mask: Uint8ClampedArray): boolean => {
+  for (let i = 0; i < mask.length; i += 4) {
+    if (maskWeightAt(mask, i) > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * Convert the mask editor's painted layer (overlay color, coverage in the
+ * alpha channel) into opaque grayscale mask pixels.
+ */
+export const paintedLayerToMaskPixels = (painted: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(painted.length);
+  for (let i = 0; i < painted.length; i += 4) {
+    const value = painted[i + 3];
+    out[i] = value;
+    out[i + 1] = value;
+    out[i + 2] = value;
+    out[i + 3] = 255;
+  }
+  return out;
+};
+
+/** Inverse of paintedLayerToMaskPixels, used to reopen a saved mask for editing. */
+export const maskPixelsToPaintedLayer = (mask: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i += 4) {
+    out[i] = MASK_OVERLAY_RGB.r;
+    out[i + 1] = MASK_OVERLAY_RGB.g;
+    out[i + 2] = MASK_OVERLAY_RGB.b;
+    out[i + 3] = maskWeightAt(mask, i);
+  }
+  return out;
+};
+
+/**
+ * Convert grayscale mask pixels to the alpha-mask convention used by OpenAI's
+ * Images edit endpoint: fully transparent where the model may edit, opaque
+ * black where it must not.
+ */
+export const maskPixelsToEditAlpha = (mask: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i += 4) {
+    out[i + 3] = 255 - maskWeightAt(mask, i);
+  }
+  return out;
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  if (typeof Image === "undefined") {
+    return Promise.reject(new Error("Image element not available in this environment."));
+  }
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for mask compositing."));
+    img.src = dataUrl;
+  });
+};
+
+/** Draw `img` stretched to width x height and read its pixels back. */
+const readPixels = (img: HTMLImageElement, width: number, height: number): ImageData => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not create canvas context for mask compositing.");
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Paste the masked region of `editedDataUrl` back over `originalDataUrl`. The
+ * result always has the original's dimensions: the edited image and the mask
+ * are scaled to fit if the model returned a different size. Returns a PNG
+ * data URL.
+ */
+export const compositeMaskedEdit = async (
+  originalDataUrl: string,
+  editedDataUrl: string,
+  maskDataUrl: string,
+): Promise<string> => {
+  if (typeof document === "undefined") {
+    return editedDataUrl;
+  }
+
+  const [original, edited, mask] = await Promise.all([
+    loadImage(originalDataUrl),
+    loadImage(editedDataUrl),
+    loadImage(maskDataUrl),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const originalPixels = readPixels(original, width, height);
+  const editedPixels = readPixels(edited, width, height);
+  const maskPixels = readPixels(mask, width, height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not create canvas context for mask compositing.");
+  }
+  const composite = ctx.createImageData(width, height);
+  composite.data.set(
+    compositeMaskedPixels(originalPixels.data, editedPixels.data, maskPixels.data),
+  );
+  ctx.putImageData(composite, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+/** Re-encode a mask as an alpha mask (see maskPixelsToEditAlpha). Returns a PNG data URL. */
+export const toEditAlphaMask = async (maskDataUrl: string): Promise<string> => {
+  if (typeof document === "undefined") {
+    return maskDataUrl;
+  }
+
+  const mask = await loadImage(maskDataUrl);
+  const width = mask.naturalWidth;
+  const height = mask.naturalHeight;
+  const maskPixels = readPixels(mask, width, height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not create canvas context for mask compositing.");
+  }
+  const alphaMask = ctx.createImageData(width, height);
+  alphaMask.data.set(maskPixelsToEditAlpha(maskPixels.data));
+  ctx.putImageData(alphaMask, 0, 0);
+  return canvas.toDataURL("image/png");
+};
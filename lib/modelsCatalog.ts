@@ -33,7 +33,7 @@ export const getModelNameById = (modelId: string | null | undefined) => {
 };
 
 /**
- * Resolves the ordered list of OpenRouter model keys to send for a request.
+ * Resolves the ordered list of model keys to send for a request.
  * Returns `[id, fallbackId]` when the catalog entry declares a fallback, so
  * OpenRouter can route to the successor key once a `...-preview` key is retired.
  * Falls back to just the requested id for unknown models (e.g. env overrides).
@@ -45,6 +45,18 @@ export const getRequestModelIds = (modelId: string | null | undefined): string[]
   return fallbackId && fallbackId !== id ? [id, fallbackId] : [id];
 };
 
+/**
+ * Whether running this model needs the user's OpenRouter key. False for the
+ * localhost dummy and for models served by another provider (see
+ * `ModelInfo.provider`), which bring their own credentials or need none.
+ */
+export const modelRequiresOpenRouterKey = (modelId: string | null | undefined): boolean => {
+  if (canUseLocalDummyModelWithoutApiKey(modelId)) {
+    return false;
+  }
+  return (getModelInfoById(modelId)?.provider ?? "openrouter") === "openrouter";
+};
+
 export const MODEL_REASONING_LEVELS: ModelReasoningLevel[] = [
   "default",
   "none",
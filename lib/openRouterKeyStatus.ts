@@ -1,11 +1,10 @@
 import {
   fetchOpenRouterCredits,
+  getOpenRouterBaseUrl,
   OPENROUTER_KEYS_URL,
   OpenRouterApiError,
 } from "../services/openRouterService";
 
-const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
-
 export interface OpenRouterKeyStatus {
   label: string | null;
   name: string | null;
@@ -55,7 +54,7 @@ export async function fetchOpenRouterKeyStatus(
   // meaningful "remaining" of its own, so we fall back to the account balance
   // to give the credits gauge something real to display.
   const [response, accountCredits] = await Promise.all([
-    fetch(`${OPENROUTER_BASE_URL}/key`, {
+    fetch(`${getOpenRouterBaseUrl()}/key`, {
       method: "GET",
       headers: {
         Authorization: `Bearer ${key}`,
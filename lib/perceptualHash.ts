@@ -0,0 +1,198 @@
+import type { ImageRecord } from "../types";
+
+/**
+ * Perceptual hashes for finding visually similar history images. A difference
+ * hash (dHash) compares the brightness of neighbouring cells in a 9×8
+ * grayscale thumbnail, giving 64 bits that barely change when an image is
+ * re-encoded, resized or slightly retouched. The number of differing bits
+ * (Hamming distance) measures how alike two images look. Everything runs
+ * locally; nothing is sent anywhere.
+ */
+
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+/** The canvas the image is drawn into before it is averaged down to the hash grid. */
+const SAMPLE_SIZE = 64;
+
+/** At or below this distance two images count as near-duplicates. */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+/** At or below this distance an image is offered by "Find similar". */
+export const SIMILAR_MAX_DISTANCE = 16;
+
+const isHash = (value: unknown): value is string =>
+  typeof value === "string" && /^[0-9a-f]{16}$/.test(value);
+
+/**
+ * Averages an RGBA buffer down to a columns×rows grayscale grid. Each output
+ * cell covers an equal area of the source, so large images don't alias.
+ */
+export const downsampleToGrayscale = (
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  columns = HASH_COLUMNS,
+  rows = HASH_ROWS,
+): number[] => {
+  const sums = Array.from({ length: columns * rows }, () => 0);
+  const counts = Array.from({ length: columns * rows }, () => 0);
+  for (let y = 0; y < height; y += 1) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x += 1) {
+      const column = Math.min(columns - 1, Math.floor((x * columns) / width));
+      const offset = (y * width + x) * 4;
+      const luma = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+      sums[row * columns + column] += luma;
+      counts[row * columns + column] += 1;
+    }
+  }
+  return sums.map((sum, index) => (counts[index] ? sum / counts[index] : 0));
+};
+
+/** The 16-hex-digit dHash of a 9×8 grayscale grid (row by row). */
+export const differenceHashFromGrayscale = (grid: ArrayLike<number>): string => {
+  let hex = "";
+  let nibble = 0;
+  let bit = 0;
+  for (let row = 0; row < HASH_ROWS; row += 1) {
+    for (let column = 0; column < HASH_COLUMNS - 1; column += 1) {
+      const left = grid[row * HASH_COLUMNS + column];
+      const right = grid[row * HASH_COLUMNS + column + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bit += 1;
+      if (bit % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+/** How many bits two hashes differ in; Infinity when either isn't a hash. */
+export const hammingDistance = (a: string, b: string): number => {
+  if (!isHash(a) || !isHash(b)) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    let diff = parseInt(a[index], 16) ^ parseInt(b[index], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/** Reads a record's stored hash, ignoring anything malformed. */
+export const getPerceptualHash = (item: ImageRecord): string | null =>
+  isHash(item.perceptualHash) ? item.perceptualHash : null;
+
+/**
+ * Hashes an image in the browser. Transparent areas are flattened onto
+ * white, the way thumbnails show them. Resolves null when the image can't be
+ * decoded (or there is no DOM, e.g. in tests).
+ */
+export const computePerceptualHash = (dataUrl: string): Promise<string | null> => {
+  if (!dataUrl || typeof Image === "undefined" || typeof document === "undefined") {
+    return Promise.resolve(null);
+  }
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = SAMPLE_SIZE;
+      canvas.height = SAMPLE_SIZE;
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) {
+        resolve(null);
+        return;
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      resolve(differenceHashFromGrayscale(downsampleToGrayscale(data, SAMPLE_SIZE, SAMPLE_SIZE)));
+    };
+    img.onerror = () => resolve(null);
+    img.src = dataUrl;
+  });
+};
+
+export interface SimilarImageMatch {
+  id: string;
+  distance: number;
+}
+
+/** Images within `maxDistance` of `targetId`, closest first (ties keep `ids` order). */
+export const findSimilarImages = (
+  targetId: string,
+  ids: string[],
+  hashesById: Record<string, string | null | undefined>,
+  maxDistance = SIMILAR_MAX_DISTANCE,
+): SimilarImageMatch[] => {
+  const targetHash = hashesById[targetId];
+  if (!targetHash) return [];
+  return ids
+    .filter((id) => id !== targetId)
+    .flatMap((id) => {
+      const hash = hashesById[id];
+      const distance = hash ? hammingDistance(targetHash, hash) : Number.POSITIVE_INFINITY;
+      return distance <= maxDistance ? [{ id, distance }] : [];
+    })
+    .sort((a, b) => a.distance - b.distance);
+};
+
+/**
+ * Groups of two or more images that are near-duplicates of each other,
+ * linked transitively (A~B and B~C put all three together). Groups and their
+ * members follow the order of `ids`.
+ */
+export const groupNearDuplicates = (
+  ids: string[],
+  hashesById: Record<string, string | null | undefined>,
+  maxDistance = NEAR_DUPLICATE_MAX_DISTANCE,
+): string[][] => {
+  const hashed = ids.filter((id) => !!hashesById[id]);
+  const parent = new Map(hashed.map((id) => [id, id] as const));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root) ?? root;
+    parent.set(id, root);
+    return root;
+  };
+  hashed.forEach((a, index) => {
+    for (const b of hashed.slice(index + 1)) {
+      if (hammingDistance(hashesById[a] ?? "", hashesById[b] ?? "") <= maxDistance) {
+        parent.set(find(b), find(a));
+      }
+    }
+  });
+  const groups = new Map<string, string[]>();
+  hashed.forEach((id) => {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+};
+
+/**
+ * Which images of a near-duplicate group to suggest deleting. Starred images
+ * and ones in use (`keepIds`) are always kept; if none of those is in the
+ * group, the newest image is kept instead.
+ */
+export const suggestDuplicatesToDelete = (
+  group: ImageRecord[],
+  keepIds: ReadonlySet<string>,
+): string[] => {
+  const isKept = (item: ImageRecord) => !!item.isStarred || keepIds.has(item.id);
+  const newest = group.reduce<ImageRecord | null>(
+    (best, item) => (!best || item.timestamp > best.timestamp ? item : best),
+    null,
+  );
+  const keepNewest = !group.some(isKept);
+  return group
+    .filter((item) => !isKept(item) && !(keepNewest && item.id === newest?.id))
+    .map((item) => item.id);
+};
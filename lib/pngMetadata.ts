@@ -1,6 +1,7 @@
 const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
 
 const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
 
 const crc32Table = (() => {
   const table = new Uint32Array(256);
@@ -57,17 +58,11 @@ const sanitizeKeyword = (keyword: string): string => {
   return withoutNull.length > maxLen ? withoutNull.slice(0, maxLen) : withoutNull;
 };
 
-const buildTextChunk = (keyword: string, text: string): Uint8Array => {
-  const safeKeyword = sanitizeKeyword(keyword);
-  const keywordBytes = textEncoder.encode(safeKeyword);
-  const textBytes = textEncoder.encode(text ?? "");
-
-  const data = new Uint8Array(keywordBytes.length + 1 + textBytes.length);
-  data.set(keywordBytes, 0);
-  data[keywordBytes.length] = 0;
-  data.set(textBytes, keywordBytes.length + 1);
+const readChunkType = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
 
-  const typeBytes = textEncoder.encode("tEXt");
+const buildChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeBytes = textEncoder.encode(type);
   const crcBytes = new Uint8Array(typeBytes.length + data.length);
   crcBytes.set(typeBytes, 0);
   crcBytes.set(data, typeBytes.length);
@@ -81,76 +76,215 @@ const buildTextChunk = (keyword: string, text: string): Uint8Array => {
   return total;
 };
 
+const buildTextChunk = (keyword: string, text: string): Uint8Array => {
+  const keywordBytes = textEncoder.encode(sanitizeKeyword(keyword));
+  const textBytes = textEncoder.encode(text ?? "");
+
+  const data = new Uint8Array(keywordBytes.length + 1 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data[keywordBytes.length] = 0;
+  data.set(textBytes, keywordBytes.length + 1);
+
+  return buildChunk("tEXt", data);
+};
+
+// iTXt: keyword, NUL, compression flag + method (0 0 = uncompressed), an empty
+// language tag and translated keyword (each NUL-terminated), then UTF-8 text.
+// Unlike tEXt it is defined as UTF-8, so prompts and captions in any script
+// survive, and it is where XMP lives ("XML:com.adobe.xmp").
+const buildInternationalTextChunk = (keyword: string, text: string): Uint8Array => {
+  const keywordBytes = textEncoder.encode(sanitizeKeyword(keyword));
+  const textBytes = textEncoder.encode(text ?? "");
+
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length);
+  data.set(keywordBytes, 0);
+  // Bytes after the keyword are already zero: NUL, flag 0, method 0, two empty strings.
+  data.set(textBytes, keywordBytes.length + 5);
+
+  return buildChunk("iTXt", data);
+};
+
 export type PngTextMetadata = Record<string, string | null | undefined>;
 
-export const injectPngTextMetadata = (
-  pngBytes: Uint8Array,
-  fields: PngTextMetadata,
-): Uint8Array => {
-  if (!isValidPng(pngBytes)) {
-    throw new Error("injectPngTextMetadata: invalid PNG signature");
-  }
+/** Metadata to write: `text` as tEXt chunks, `internationalText` as iTXt. */
+export interface PngMetadata {
+  text?: PngTextMetadata;
+  internationalText?: PngTextMetadata;
+}
 
-  const entries = Object.entries(fields).filter(([, value]) => {
-    const v = (value ?? "").trim();
-    return v.length > 0;
+const nonEmptyEntries = (fields: PngTextMetadata | undefined): [string, string][] =>
+  Object.entries(fields ?? {}).flatMap(([key, value]) => {
+    const trimmed = (value ?? "").trim();
+    return trimmed ? [[key, trimmed] as [string, string]] : [];
   });
 
-  if (entries.length === 0) return pngBytes;
+export const hasPngMetadata = (metadata: PngMetadata | undefined): boolean =>
+  nonEmptyEntries(metadata?.text).length > 0 ||
+  nonEmptyEntries(metadata?.internationalText).length > 0;
+
+const TEXT_CHUNK_TYPES = new Set(["tEXt", "iTXt", "zTXt"]);
+
+const readChunkKeyword = (bytes: Uint8Array, dataStart: number, dataEnd: number): string => {
+  const nul = bytes.indexOf(0, dataStart);
+  const end = nul >= 0 && nul < dataEnd ? nul : dataEnd;
+  return textDecoder.decode(bytes.subarray(dataStart, end));
+};
+
+/**
+ * Inserts text chunks right after IHDR. A keyword that is already present is
+ * replaced rather than repeated, so re-exporting an imported file doesn't
+ * stack up stale copies.
+ */
+export const injectPngMetadata = (pngBytes: Uint8Array, metadata: PngMetadata): Uint8Array => {
+  if (!isValidPng(pngBytes)) {
+    throw new Error("injectPngMetadata: invalid PNG signature");
+  }
+
+  const textEntries = nonEmptyEntries(metadata.text);
+  const internationalEntries = nonEmptyEntries(metadata.internationalText);
+  if (textEntries.length === 0 && internationalEntries.length === 0) return pngBytes;
 
   // PNG structure: signature (8) + chunks.
   // First chunk must be IHDR. Insert metadata immediately after IHDR.
   const signatureLen = 8;
   if (pngBytes.length < signatureLen + 12) {
-    throw new Error("injectPngTextMetadata: PNG too small");
+    throw new Error("injectPngMetadata: PNG too small");
   }
 
   const ihdrLen = readUint32BE(pngBytes, signatureLen);
-  const ihdrType = String.fromCharCode(
-    pngBytes[signatureLen + 4],
-    pngBytes[signatureLen + 5],
-    pngBytes[signatureLen + 6],
-    pngBytes[signatureLen + 7],
-  );
-  if (ihdrType !== "IHDR") {
-    throw new Error("injectPngTextMetadata: missing IHDR chunk");
+  if (readChunkType(pngBytes, signatureLen + 4) !== "IHDR") {
+    throw new Error("injectPngMetadata: missing IHDR chunk");
   }
 
   const ihdrTotalLen = 4 + 4 + ihdrLen + 4;
   const afterIhdr = signatureLen + ihdrTotalLen;
   if (afterIhdr > pngBytes.length) {
-    throw new Error("injectPngTextMetadata: IHDR chunk overruns file");
+    throw new Error("injectPngMetadata: IHDR chunk overruns file");
   }
 
-  const textChunks = entries.map(([k, v]) => buildTextChunk(k, (v ?? "").trim()));
-  const insertedBytesLen = textChunks.reduce((sum, chunk) => sum + chunk.length, 0);
-
-  const out = new Uint8Array(pngBytes.length + insertedBytesLen);
-  out.set(pngBytes.slice(0, afterIhdr), 0);
+  const newChunks = [
+    ...textEntries.map(([k, v]) => buildTextChunk(k, v)),
+    ...internationalEntries.map(([k, v]) => buildInternationalTextChunk(k, v)),
+  ];
+  const replacedKeywords = new Set(
+    [...textEntries, ...internationalEntries].map(([k]) => sanitizeKeyword(k)),
+  );
 
+  const keptChunks: Uint8Array[] = [];
   let offset = afterIhdr;
-  for (const chunk of textChunks) {
-    out.set(chunk, offset);
-    offset += chunk.length;
+  while (offset + 12 <= pngBytes.length) {
+    const length = readUint32BE(pngBytes, offset);
+    const chunkEnd = offset + 12 + length;
+    if (chunkEnd > pngBytes.length) break;
+    const type = readChunkType(pngBytes, offset + 4);
+    const isReplaced =
+      TEXT_CHUNK_TYPES.has(type) &&
+      replacedKeywords.has(readChunkKeyword(pngBytes, offset + 8, offset + 8 + length));
+    if (!isReplaced) keptChunks.push(pngBytes.subarray(offset, chunkEnd));
+    offset = chunkEnd;
   }
+  // Anything after the last whole chunk is kept as it was.
+  const trailing = pngBytes.subarray(offset);
 
-  out.set(pngBytes.slice(afterIhdr), offset);
+  const parts = [pngBytes.subarray(0, afterIhdr), ...newChunks, ...keptChunks, trailing];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let writeOffset = 0;
+  for (const part of parts) {
+    out.set(part, writeOffset);
+    writeOffset += part.length;
+  }
   return out;
 };
 
-export const injectPngTextMetadataIntoBlob = async (
+export const injectPngTextMetadata = (pngBytes: Uint8Array, fields: PngTextMetadata): Uint8Array =>
+  injectPngMetadata(pngBytes, { text: fields });
+
+/**
+ * Reads every tEXt and uncompressed iTXt chunk, keyed by keyword (the first
+ * occurrence wins). Returns {} for anything that isn't a PNG.
+ */
+export const readPngTextMetadata = (pngBytes: Uint8Array): Record<string, string> => {
+  const out: Record<string, string> = {};
+  if (!isValidPng(pngBytes)) return out;
+
+  let offset = 8;
+  while (offset + 12 <= pngBytes.length) {
+    const length = readUint32BE(pngBytes, offset);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > pngBytes.length) break;
+    const type = readChunkType(pngBytes, offset + 4);
+    if (type === "IEND") break;
+
+    if (type === "tEXt" || type === "iTXt") {
+      const keyword = readChunkKeyword(pngBytes, dataStart, dataEnd);
+      const keywordEnd = pngBytes.indexOf(0, dataStart);
+      let textStart = keywordEnd >= 0 && keywordEnd < dataEnd ? keywordEnd + 1 : dataEnd;
+      let isCompressed = false;
+      if (type === "iTXt") {
+        isCompressed = pngBytes[textStart] !== 0;
+        textStart += 2;
+        // Skip the language tag and translated keyword.
+        for (let skipped = 0; skipped < 2 && textStart <= dataEnd; skipped += 1) {
+          const nul = pngBytes.indexOf(0, textStart);
+          textStart = nul >= 0 && nul < dataEnd ? nul + 1 : dataEnd;
+        }
+      }
+      if (!isCompressed && !(keyword in out) && textStart <= dataEnd) {
+        out[keyword] = textDecoder.decode(pngBytes.subarray(textStart, dataEnd));
+      }
+    }
+
+    offset = dataEnd + 4;
+  }
+  return out;
+};
+
+// Chunks that make up the picture itself; everything else (text, XMP, color
+// hints) is metadata that can change without the picture changing.
+const PICTURE_CHUNK_TYPES = new Set(["IHDR", "PLTE", "IDAT", "tRNS"]);
+
+/**
+ * The picture's own chunks, concatenated, without metadata: a hash over this
+ * still matches after text chunks are added, replaced or stripped. Null for
+ * anything that isn't a PNG.
+ */
+export const getPngPictureBytes = (pngBytes: Uint8Array): Uint8Array | null => {
+  if (!isValidPng(pngBytes)) return null;
+
+  const parts: Uint8Array[] = [];
+  let offset = 8;
+  while (offset + 12 <= pngBytes.length) {
+    const length = readUint32BE(pngBytes, offset);
+    const chunkEnd = offset + 12 + length;
+    if (chunkEnd > pngBytes.length) break;
+    const type = readChunkType(pngBytes, offset + 4);
+    if (PICTURE_CHUNK_TYPES.has(type)) parts.push(pngBytes.subarray(offset, chunkEnd));
+    if (type === "IEND") break;
+    offset = chunkEnd;
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let writeOffset = 0;
+  for (const part of parts) {
+    out.set(part, writeOffset);
+    writeOffset += part.length;
+  }
+  return out;
+};
+
+export const injectPngMetadataIntoBlob = async (
   blob: Blob,
-  fields: PngTextMetadata,
+  metadata: PngMetadata,
 ): Promise<Blob> => {
-  const entries = Object.entries(fields).filter(([, value]) => {
-    const v = (value ?? "").trim();
-    return v.length > 0;
-  });
-  if (entries.length === 0) return blob;
+  if (!hasPngMetadata(metadata)) return blob;
 
   const bytes = new Uint8Array(await blob.arrayBuffer());
-  const updated = injectPngTextMetadata(bytes, fields);
+  const updated = injectPngMetadata(bytes, metadata);
   const buffer = updated.buffer as ArrayBuffer;
   const arrayBuffer = buffer.slice(updated.byteOffset, updated.byteOffset + updated.byteLength);
   return new Blob([arrayBuffer], { type: "image/png" });
 };
+
+export const injectPngTextMetadataIntoBlob = (blob: Blob, fields: PngTextMetadata): Promise<Blob> =>
+  injectPngMetadataIntoBlob(blob, { text: fields });
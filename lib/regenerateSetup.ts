@@ -0,0 +1,97 @@
+import type { ImageRecord, ModelReasoningLevel, ToolParams } from "../types";
+import { getModelInfoById } from "./modelsCatalog";
+import {
+  getReferenceConstraints,
+  getToolById,
+  toolRequiresEditImage,
+  withoutMaskParams,
+} from "./toolHelpers";
+
+/** The workspace inputs of a run, besides the tool and its parameters. */
+export interface RegenerateInputs {
+  /** Null when the recorded model is no longer in the catalog. */
+  modelId: string | null;
+  reasoningLevel: ModelReasoningLevel | null;
+  /** The Image to Edit; null for tools that don't edit an image or when the source is gone. */
+  targetImageId: string | null;
+  referenceImageIds: string[];
+}
+
+/** What a recorded run needs to be put back into the workspace (or run again). */
+export interface RegenerateSetup extends RegenerateInputs {
+  toolId: string;
+  parameters: ToolParams;
+}
+
+/** Whether `item` was made by a tool that can still run it again. */
+export const canRegenerate = (item: ImageRecord): boolean => {
+  if (item.origin && item.origin !== "generated") {
+    return false;
+  }
+  const tool = getToolById(item.toolId);
+  return !!tool && !tool.localOnly;
+};
+
+/**
+ * Reconstruct the inputs of the run that produced `item` from what its record
+ * stores. Returns null for images no tool made (uploads, book images) and for
+ * tools that no longer exist.
+ *
+ * A result's `parentId` is its edit source, except that edits of a book image
+ * are parented to the "bookOriginal" snapshot of it; the live book image is
+ * targeted instead so a rerun still lands in the same book slot (and, the
+ * snapshot being deduped per slot, under the same parent). Inputs that have
+ * since been deleted are dropped rather than failing the whole setup.
+ */
+export const resolveRegenerateSetup = (
+  item: ImageRecord,
+  history: readonly ImageRecord[],
+): RegenerateSetup | null => {
+  const tool = getToolById(item.toolId);
+  if (!tool || !canRegenerate(item)) {
+    return null;
+  }
+
+  const byId = new Map(history.map((entry) => [entry.id, entry]));
+  const parent = item.parentId ? byId.get(item.parentId) : undefined;
+  const requiresEditImage = toolRequiresEditImage(tool);
+
+  let targetImageId: string | null = null;
+  if (requiresEditImage && parent) {
+    targetImageId =
+      parent.origin === "bookOriginal" && parent.incomingSlotId && byId.has(parent.incomingSlotId)
+        ? parent.incomingSlotId
+        : parent.id;
+  }
+
+  // Records from before references were tracked: a non-editing tool's parent
+  // was its first reference.
+  const recordedReferenceIds =
+    item.referenceImageIds ?? (!requiresEditImage && parent ? [parent.id] : []);
+  const { max } = getReferenceConstraints(tool.referenceImages);
+  const referenceImageIds = recordedReferenceIds
+    .filter((id) => byId.has(id) && id !== targetImageId)
+    .slice(0, max);
+
+  return {
+    toolId: tool.id,
+    parameters: withoutMaskParams(tool, item.parameters ?? {}),
+    modelId: item.model && getModelInfoById(item.model) ? item.model : null,
+    reasoningLevel: item.reasoningLevel ?? null,
+    targetImageId,
+    referenceImageIds,
+  };
+};
+
+/**
+ * The tool form's params with a recorded run's laid over them, for putting the
+ * run back or running it again. Whatever the form still holds from an earlier
+ * edit is kept, except a mask: it was drawn on that edit's image, not this one.
+ */
+export const mergeRegenerateParams = (
+  current: ToolParams | undefined,
+  setup: RegenerateSetup,
+): ToolParams => ({
+  ...withoutMaskParams(getToolById(setup.toolId), current ?? {}),
+  ...setup.parameters,
+});
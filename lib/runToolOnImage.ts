@@ -1,4 +1,5 @@
 import {
+  GenerationStreamProgress,
   GenerationTimingState,
   ImageRecord,
   ModelInfo,
@@ -12,8 +13,7 @@ import {
   type EditImageOptions,
 } from "../services/openRouterService";
 import { BREAK_COMIC_CAPTIONS_PROMPT, BREAK_COMIC_TEXT_MODEL } from "./breakComic";
-import { canUseLocalDummyModelWithoutApiKey } from "./localModels";
-import { resolveToolReasoningLevel } from "./modelsCatalog";
+import { modelRequiresOpenRouterKey, resolveToolReasoningLevel } from "./modelsCatalog";
 import { removeBackgroundFromImage } from "./backgroundRemoval";
 import { applyPostProcessingPipeline } from "./postProcessing";
 import {
@@ -24,7 +24,9 @@ import {
 import { ensureDataUrl, getImageDimensions } from "./imageUtils";
 import { pickSizeTokenForLongEdge } from "./imageSizes";
 import { getGifSheetAspectRatio, parseGifFrameCount } from "./gifAnimationPrompt";
-import { getRequestedAspectRatioValue } from "./toolHelpers";
+import { getMaskParamName, getRequestedAspectRatioValue } from "./toolHelpers";
+import { compositeMaskedEdit } from "./maskCompositing";
+import { attachContentCredentials, ContentCredentialsSource } from "./contentCredentials";
 import {
   createPromptDurationKey,
   createToolDurationKey,
@@ -52,6 +54,8 @@ export interface RunToolOnImageArgs {
   generationTiming: GenerationTimingState;
   /** OpenRouter key to use for network calls; unused for local-only tools (remove_background). */
   resolvedApiKey: string | undefined;
+  /** The user's keys for providers other than OpenRouter (see EditImageOptions). */
+  providerApiKeys?: EditImageOptions["providerApiKeys"];
   /**
    * True in E2E, where an env-provided key means the model id should come from
    * the dev server's env rather than the UI's per-tool model selection.
@@ -62,6 +66,8 @@ export interface RunToolOnImageArgs {
   onProgressStart: (estimatedDurationMs: number) => void;
   /** Called to advance the loading overlay's phase label; a no-op for single-phase tools. */
   onPhase: (index: number) => void;
+  /** When set, the image request streams (where the provider can) and reports progress here. */
+  onStreamProgress?: (progress: GenerationStreamProgress) => void;
 }
 
 export interface RunToolOnImageResult {
@@ -112,10 +118,12 @@ export async function runToolOnImage(args: RunToolOnImageArgs): Promise<RunToolO
     reasoningByTool,
     generationTiming,
     resolvedApiKey,
+    providerApiKeys,
     useEnvDefaultModelId,
     signal,
     onProgressStart,
     onPhase,
+    onStreamProgress,
   } = args;
 
   const targetImageResolution =
@@ -235,7 +243,7 @@ export async function runToolOnImage(args: RunToolOnImageArgs): Promise<RunToolO
     };
   }
 
-  const canRunWithoutApiKey = canUseLocalDummyModelWithoutApiKey(toolModel?.id);
+  const canRunWithoutApiKey = !modelRequiresOpenRouterKey(toolModel?.id);
   if (!resolvedApiKey && !canRunWithoutApiKey) {
     throw new MissingApiKeyError();
   }
@@ -276,11 +284,20 @@ export async function runToolOnImage(args: RunToolOnImageArgs): Promise<RunToolO
   onProgressStart(resolveEstimatedDurationMs(generationTiming, promptDurationKey, toolDurationKey));
   onPhase(0);
 
+  // An inpainting mask only applies to the image it was drawn on, so it is
+  // ignored for tools that run without a target.
+  const maskParamName = getMaskParamName(tool);
+  const maskData =
+    maskParamName && targetImageData ? params[maskParamName]?.trim() || undefined : undefined;
+
   const editOptions: EditImageOptions = {
     signal,
     imageConfig,
     reasoningLevel: reasoningLevelForRequest,
     imageLabels,
+    mask: maskData,
+    onStreamProgress,
+    providerApiKeys,
   };
   const result = await editImage(
     sourceImages,
@@ -294,6 +311,44 @@ export async function runToolOnImage(args: RunToolOnImageArgs): Promise<RunToolO
   processedImages = await Promise.all(
     returnedImages.map((image) => applyPostProcessingPipeline(image, tool.postProcessingFunctions)),
   );
+  if (maskData && targetImageData) {
+    // Paste only the masked region back over the original so every pixel
+    // outside the mask stays bit-identical, whatever the model did there.
+    processedImages = await Promise.all(
+      processedImages.map((image) => compositeMaskedEdit(targetImageData, image, maskData)),
+    );
+  }
+  // Sign each result with what made it: the AI action, the model, and the
+  // images it was made from (with their credits). Last, so the signed hash
+  // covers the final pixels.
+  const credentialSources: ContentCredentialsSource[] = [
+    ...(targetImageData && targetImage
+      ? [
+          {
+            title: targetImage.name || targetImage.imageFileName || "Edited image",
+            relationship: "parentOf" as const,
+            imageData: targetImageData,
+            credits: targetImage.credits,
+          },
+        ]
+      : []),
+    ...constrainedReferences.map((reference, index) => ({
+      title: reference.name || reference.imageFileName || "Reference image",
+      relationship: "componentOf" as const,
+      imageData: referenceImageData[index],
+      credits: reference.credits,
+    })),
+  ];
+  processedImages = await Promise.all(
+    processedImages.map((image) =>
+      attachContentCredentials(image, {
+        model: result.model,
+        toolId: tool.id,
+        description: tool.title,
+        sources: credentialSources,
+      }),
+    ),
+  );
   processedImageData = processedImages[0];
   durationMs = result.duration;
   cost = result.cost;
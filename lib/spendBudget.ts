@@ -0,0 +1,207 @@
+import { OutputBudgetExhaustedError } from "../services/openRouterApi";
+import type { ImageRecord } from "../types";
+
+/**
+ * Spending caps for a shared OpenRouter key. Every generation, free ones
+ * included, and every failed attempt is appended to a ledger that is persisted
+ * with the editor state (in Bloom, the book's `.ai-image-editor/` folder next
+ * to its history), and a run is refused before it starts when its estimated
+ * cost would take the session or the book past its cap. The estimate is the
+ * catalog's per-image price, so a cap can be overshot by the difference
+ * between estimated and actual cost of the last run, but never by a runaway
+ * batch.
+ */
+
+/**
+ * Where the image a run worked from came from (ImageRecord.origin), or "blank"
+ * for a run that started from nothing.
+ */
+export type SpendLedgerOrigin = NonNullable<ImageRecord["origin"]> | "blank";
+
+export interface SpendLedgerEntry {
+  id: string;
+  /** Epoch ms the generation finished. */
+  at: number;
+  costUsd: number;
+  toolId: string;
+  model: string;
+  /** The host's id for the book the run was made in (see ImageRecordData.bookId). */
+  bookId?: string | null;
+  /** Images the run returned; absent on entries written before it was tracked (one image). */
+  imageCount?: number;
+  /** Absent on entries written before it was tracked. */
+  origin?: SpendLedgerOrigin;
+  /**
+   * Set for an attempt that produced no image: how it ended ("error",
+   * "rate limited", "cancelled", ...). Kept for usage reports; costs 0 unless
+   * the attempt was billed anyway (see failedAttemptLedgerEntry).
+   */
+  failure?: string;
+}
+
+export interface SpendBudget {
+  /** Max USD per editor session (since it was opened); null = no cap. */
+  sessionCapUsd: number | null;
+  /** Max USD over this book's entries in the ledger; null = no cap. */
+  bookCapUsd: number | null;
+}
+
+export const DEFAULT_SPEND_BUDGET: SpendBudget = { sessionCapUsd: null, bookCapUsd: null };
+
+/** Older entries are dropped so the ledger can't grow without bound; caps then undercount. */
+export const MAX_SPEND_LEDGER_ENTRIES = 5000;
+
+/** Failed attempts are capped on their own so a run of errors can't push out generations. */
+export const MAX_FAILED_ATTEMPT_ENTRIES = 1000;
+
+export interface SpendTotals {
+  sessionUsd: number;
+  bookUsd: number;
+}
+
+export type BudgetCheck =
+  | { ok: true }
+  | { ok: false; scope: "session" | "book"; capUsd: number; spentUsd: number };
+
+const normalizeCap = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null;
+
+export const normalizeSpendBudget = (value: unknown): SpendBudget => {
+  if (!value || typeof value !== "object") {
+    return DEFAULT_SPEND_BUDGET;
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    sessionCapUsd: normalizeCap(raw.sessionCapUsd),
+    bookCapUsd: normalizeCap(raw.bookCapUsd),
+  };
+};
+
+const isSpendLedgerEntry = (value: unknown): value is SpendLedgerEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.at === "number" &&
+    typeof entry.costUsd === "number" &&
+    Number.isFinite(entry.costUsd) &&
+    typeof entry.toolId === "string" &&
+    typeof entry.model === "string"
+  );
+};
+
+/**
+ * The newest MAX_SPEND_LEDGER_ENTRIES generations and MAX_FAILED_ATTEMPT_ENTRIES
+ * free failures, in order. A failure that was billed counts as a generation, so
+ * the caps still see it.
+ */
+const trimSpendLedger = (ledger: SpendLedgerEntry[]): SpendLedgerEntry[] => {
+  let generationsLeft = MAX_SPEND_LEDGER_ENTRIES;
+  let failedLeft = MAX_FAILED_ATTEMPT_ENTRIES;
+  const kept: SpendLedgerEntry[] = [];
+  for (let index = ledger.length - 1; index >= 0; index -= 1) {
+    const entry = ledger[index];
+    if (entry.failure && entry.costUsd <= 0 ? failedLeft-- > 0 : generationsLeft-- > 0) {
+      kept.push(entry);
+    }
+  }
+  return kept.reverse();
+};
+
+export const normalizeSpendLedger = (value: unknown): SpendLedgerEntry[] =>
+  Array.isArray(value) ? trimSpendLedger(value.filter(isSpendLedgerEntry)) : [];
+
+export const appendSpendLedgerEntries = (
+  ledger: SpendLedgerEntry[],
+  entries: SpendLedgerEntry[],
+): SpendLedgerEntry[] => trimSpendLedger([...ledger, ...entries]);
+
+/** The origin to record for a run on `target` (null when there was none). */
+export const getRunOrigin = (target: ImageRecord | null): SpendLedgerOrigin =>
+  target ? (target.origin ?? "generated") : "blank";
+
+/**
+ * The ledger entry for an attempt that produced no image. Most cost nothing,
+ * but one that spent its whole output budget reasoning was billed in full; its
+ * cost is recorded so the caps count it.
+ */
+export const failedAttemptLedgerEntry = (
+  attempt: Omit<SpendLedgerEntry, "costUsd" | "imageCount"> & { failure: string },
+  error: unknown,
+): SpendLedgerEntry => {
+  const billed =
+    error instanceof OutputBudgetExhaustedError && Number.isFinite(error.costUsd) ? error : null;
+  return {
+    ...attempt,
+    costUsd: billed ? billed.costUsd : 0,
+    model: billed?.model || attempt.model,
+  };
+};
+
+/**
+ * Union of two copies of the ledger (e.g. the one in browser storage and the
+ * one in a linked history folder), oldest first. Entries are keyed by id, so
+ * merging is idempotent.
+ */
+export const mergeSpendLedgers = (
+  a: SpendLedgerEntry[],
+  b: SpendLedgerEntry[],
+): SpendLedgerEntry[] => {
+  const byId = new Map<string, SpendLedgerEntry>();
+  [...a, ...b].forEach((entry) => byId.set(entry.id, entry));
+  return trimSpendLedger(Array.from(byId.values()).sort((x, y) => x.at - y.at));
+};
+
+/**
+ * The session total counts entries since `sessionStartedAt`; the book total
+ * leaves out entries stamped with another book's id (a ledger copied along
+ * with a book). Unstamped entries, from before books were recorded, count.
+ */
+export const getSpendTotals = (
+  ledger: SpendLedgerEntry[],
+  sessionStartedAt: number,
+  bookId: string | null = null,
+): SpendTotals =>
+  ledger.reduce<SpendTotals>(
+    (totals, entry) => ({
+      sessionUsd: totals.sessionUsd + (entry.at >= sessionStartedAt ? entry.costUsd : 0),
+      bookUsd:
+        totals.bookUsd + (!bookId || !entry.bookId || entry.bookId === bookId ? entry.costUsd : 0),
+    }),
+    { sessionUsd: 0, bookUsd: 0 },
+  );
+
+/**
+ * Whether a run estimated at `estimatedCostUsd` may start. `pendingUsd` is the
+ * estimate of runs already in flight (a batch starts several at once) that
+ * aren't in the ledger yet. A cap that is already used up blocks even runs
+ * with no known price.
+ */
+export const checkSpendBudget = (
+  budget: SpendBudget,
+  totals: SpendTotals,
+  estimatedCostUsd: number,
+  pendingUsd = 0,
+): BudgetCheck => {
+  const scopes = [
+    { scope: "session" as const, capUsd: budget.sessionCapUsd, spentUsd: totals.sessionUsd },
+    { scope: "book" as const, capUsd: budget.bookCapUsd, spentUsd: totals.bookUsd },
+  ];
+  for (const { scope, capUsd, spentUsd } of scopes) {
+    if (capUsd === null) continue;
+    const committed = spentUsd + pendingUsd;
+    if (committed >= capUsd || committed + estimatedCostUsd > capUsd) {
+      return { ok: false, scope, capUsd, spentUsd };
+    }
+  }
+  return { ok: true };
+};
+
+/** The message to show when `check` blocks a run; null when it doesn't. */
+export const describeBudgetStop = (check: BudgetCheck): string | null => {
+  if (check.ok === true) {
+    return null;
+  }
+  const where = check.scope === "session" ? "this session" : "this book";
+  return `Spending cap reached: $${check.spentUsd.toFixed(2)} of the $${check.capUsd.toFixed(2)} allowed for ${where} has been used. Raise the cap in Settings to keep generating.`;
+};
@@ -1,5 +1,5 @@
 import { ToolDefinition, ToolParams } from "../types";
-import { TOOLS } from "../components/tools/tools-registry";
+import { getAllTools } from "./customTools";
 import { AUTO_ASPECT_RATIO, DEFAULT_CREATE_ASPECT_RATIO } from "./aspectRatios";
 
 export type ReferenceMode = ToolDefinition["referenceImages"];
@@ -10,7 +10,7 @@ export const getToolById = (toolId: string | null): ToolDefinition | null => {
   if (!toolId) {
     return null;
   }
-  return TOOLS.find((tool) => tool.id === toolId) ?? null;
+  return getAllTools().find((tool) => tool.id === toolId) ?? null;
 };
 
 export const getToolReferenceMode = (toolId: string | null): ReferenceMode => {
@@ -93,3 +93,47 @@ export const toolRequiresReferenceImage = (tool: ToolDefinition | null): boolean
 
 export const toolSupportsBatch = (tool: ToolDefinition | null | undefined): boolean =>
   Boolean(tool?.allowBatch);
+
+export const MAX_TOOL_VARIANTS = 4;
+
+/**
+ * Whether a run of `tool` can be asked for several candidates to pick from.
+ * Derived-result tools already produce a set of images (split pieces, a GIF
+ * and its sheet), and local tools return the same pixels every time.
+ */
+export const toolSupportsVariants = (tool: ToolDefinition | null | undefined): boolean =>
+  !!tool && !tool.derivedResultMode && !tool.localOnly && tool.id !== "remove_background";
+
+/** How many candidates one run of `tool` makes (1 = no chooser). */
+export const resolveToolVariantCount = (
+  tool: ToolDefinition | null | undefined,
+  variantsByTool: Record<string, number>,
+): number => {
+  if (!tool || !toolSupportsVariants(tool)) {
+    return 1;
+  }
+  const requested = Math.floor(variantsByTool[tool.id] ?? 1);
+  return Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_TOOL_VARIANTS) : 1;
+};
+
+/** Name of the tool's inpainting-mask parameter, or null if it has none. */
+export const getMaskParamName = (tool: ToolDefinition | null | undefined): string | null =>
+  tool?.parameters.find((param) => param.type === "mask")?.name ?? null;
+
+/**
+ * Params with any mask cleared. A mask only makes sense for the exact image it
+ * was drawn on, so it is dropped before batch runs and before params are
+ * recorded in history or persisted (it is also a sizeable data URL).
+ */
+export const withoutMaskParams = (
+  tool: ToolDefinition | null | undefined,
+  params: ToolParams,
+): ToolParams => {
+  const maskParamName = getMaskParamName(tool);
+  if (!maskParamName || !params[maskParamName]) {
+    return params;
+  }
+  const next = { ...params };
+  delete next[maskParamName];
+  return next;
+};
@@ -0,0 +1,128 @@
+import type { SpendLedgerEntry } from "./spendBudget";
+
+/**
+ * AI usage totals for accounting (e.g. grant reporting): images made, what
+ * they cost and generation attempts that failed. Everything comes from the
+ * spend ledger, which records each generation as it finishes, free or not, so
+ * images deleted from history since still count and uploads and book images,
+ * which no run made, never do. "Origin" is where the image a run worked from
+ * came from.
+ */
+
+export type UsageGroupBy = "tool" | "model" | "day" | "origin";
+
+export const USAGE_GROUP_BY_OPTIONS: UsageGroupBy[] = ["tool", "model", "day", "origin"];
+
+export interface UsageTotals {
+  images: number;
+  failedAttempts: number;
+  costUsd: number;
+}
+
+export interface UsageReportRow extends UsageTotals {
+  key: string;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  /** The book the report is limited to; null = everything in the ledger. */
+  bookId: string | null;
+  generatedAt: number;
+  rows: UsageReportRow[];
+  totals: UsageTotals;
+}
+
+export interface BuildUsageReportOptions {
+  ledger: readonly SpendLedgerEntry[];
+  groupBy: UsageGroupBy;
+  /**
+   * Leave out usage stamped with another book's id (a ledger copied along
+   * with a book). Unstamped entries, from before books were recorded, are kept.
+   */
+  bookId?: string | null;
+  now?: number;
+}
+
+/** Calendar day in UTC, so a report reads the same wherever it is opened. */
+export const formatUsageDay = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+const UNKNOWN_KEY = "(unknown)";
+
+const keyFor = (groupBy: UsageGroupBy, entry: SpendLedgerEntry): string => {
+  switch (groupBy) {
+    case "tool":
+      return entry.toolId || UNKNOWN_KEY;
+    case "model":
+      return entry.model || UNKNOWN_KEY;
+    case "day":
+      return entry.at > 0 ? formatUsageDay(entry.at) : UNKNOWN_KEY;
+    case "origin":
+      return entry.origin ?? UNKNOWN_KEY;
+  }
+};
+
+/** Entries from before image counts were recorded made one image. */
+const imagesOf = (entry: SpendLedgerEntry): number =>
+  entry.failure ? 0 : Math.max(1, Math.floor(entry.imageCount ?? 1));
+
+export const buildUsageReport = ({
+  ledger,
+  groupBy,
+  bookId = null,
+  now = Date.now(),
+}: BuildUsageReportOptions): UsageReport => {
+  const rowsByKey = new Map<string, UsageReportRow>();
+
+  ledger
+    .filter((entry) => !bookId || !entry.bookId || entry.bookId === bookId)
+    .forEach((entry) => {
+      const key = keyFor(groupBy, entry);
+      let row = rowsByKey.get(key);
+      if (!row) {
+        row = { key, images: 0, failedAttempts: 0, costUsd: 0 };
+        rowsByKey.set(key, row);
+      }
+      row.images += imagesOf(entry);
+      row.failedAttempts += entry.failure ? 1 : 0;
+      row.costUsd += entry.costUsd;
+    });
+
+  const rows = Array.from(rowsByKey.values()).sort((a, b) =>
+    groupBy === "day" ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd || b.images - a.images,
+  );
+  const totals = rows.reduce<UsageTotals>(
+    (sum, row) => ({
+      images: sum.images + row.images,
+      failedAttempts: sum.failedAttempts + row.failedAttempts,
+      costUsd: sum.costUsd + row.costUsd,
+    }),
+    { images: 0, failedAttempts: 0, costUsd: 0 },
+  );
+
+  return { groupBy, bookId, generatedAt: now, rows, totals };
+};
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageReportToCsv = (report: UsageReport): string =>
+  [
+    [report.groupBy, "images", "failed_attempts", "cost_usd"],
+    ...report.rows.map((row) => [row.key, row.images, row.failedAttempts, row.costUsd.toFixed(4)]),
+    ["total", report.totals.images, report.totals.failedAttempts, report.totals.costUsd.toFixed(4)],
+  ]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\r\n");
+
+export const usageReportToJson = (report: UsageReport): string =>
+  JSON.stringify(
+    {
+      ...report,
+      generatedAt: new Date(report.generatedAt).toISOString(),
+    },
+    null,
+    2,
+  );
@@ -0,0 +1,236 @@
+import { ImageRecord, ThumbnailStripId, ThumbnailStripsSnapshot } from "../types";
+import { replaceStripItems, setStripPinState, THUMBNAIL_STRIP_ORDER } from "./thumbnailStrips";
+
+/**
+ * Undo/redo for the workspace operations that used to be irreversible: book
+ * slot assignments, strip edits, deletions and metadata edits. Each entry is a
+ * list of changes that records both sides, so undo applies the `before` side
+ * and redo the `after` side. Entries are plain data (no closures) so the stack
+ * can be saved and survive a reload. A deleted image's bytes are held once, in
+ * `images`, rather than in the entry, so the entries stay small.
+ */
+
+/** The per-image fields the user edits directly. */
+export type ImageMetadataEdit = Partial<Pick<ImageRecord, "caption" | "name" | "isStarred">>;
+
+/**
+ * A history image as it was just before it was deleted, and where it was in
+ * use. On the stack `record.imageData` is empty; the bytes are in
+ * WorkspaceUndoHistory.images (see withDeletedImageBytes).
+ */
+export interface DeletedImage {
+  record: ImageRecord;
+  historyIndex: number;
+  wasTarget: boolean;
+  wasRightPanel: boolean;
+  /** Its position among the reference images, or -1. */
+  referenceIndex: number;
+}
+
+export type WorkspaceChange =
+  | { kind: "slot"; incomingId: string; before: string | null; after: string | null }
+  | { kind: "strip-items"; stripId: ThumbnailStripId; before: string[]; after: string[] }
+  | { kind: "strip-pin"; stripId: ThumbnailStripId; before: boolean; after: boolean }
+  | { kind: "metadata"; imageId: string; before: ImageMetadataEdit; after: ImageMetadataEdit }
+  | { kind: "delete"; images: DeletedImage[] };
+
+export interface WorkspaceUndoEntry {
+  /** What the entry does, e.g. "Delete image". */
+  label: string;
+  changes: WorkspaceChange[];
+}
+
+export interface WorkspaceUndoHistory {
+  undo: WorkspaceUndoEntry[];
+  redo: WorkspaceUndoEntry[];
+  /** Deleted images' data URLs by image id, for the entries that still refer to them. */
+  images: Record<string, string>;
+}
+
+export type UndoDirection = "undo" | "redo";
+
+/** Deleted images' bytes are kept while an entry refers to them, so the stack is kept short. */
+export const MAX_UNDO_ENTRIES = 50;
+
+export const EMPTY_UNDO_HISTORY: WorkspaceUndoHistory = { undo: [], redo: [], images: {} };
+
+const deletedImagesOf = (entry: WorkspaceUndoEntry): DeletedImage[] =>
+  entry.changes.flatMap((change) => (change.kind === "delete" ? change.images : []));
+
+/** Ids of the deleted images the stacks still refer to. */
+export const getReferencedUndoImageIds = (
+  history: Pick<WorkspaceUndoHistory, "undo" | "redo">,
+): Set<string> =>
+  new Set(
+    [...history.undo, ...history.redo].flatMap((entry) =>
+      deletedImagesOf(entry).map((image) => image.record.id),
+    ),
+  );
+
+const pickImages = (images: Record<string, string>, ids: Set<string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(images).filter(([id]) => ids.has(id)));
+
+/**
+ * Adds a new entry; anything that could be redone is dropped, along with the
+ * bytes only dropped entries referred to.
+ */
+export const recordUndoEntry = (
+  history: WorkspaceUndoHistory,
+  entry: WorkspaceUndoEntry,
+): WorkspaceUndoHistory => {
+  if (!entry.changes.length) return history;
+  const images = { ...history.images };
+  const changes = entry.changes.map((change): WorkspaceChange => {
+    if (change.kind !== "delete") return change;
+    return {
+      ...change,
+      images: change.images.map((image) => {
+        if (image.record.imageData) {
+          images[image.record.id] = image.record.imageData;
+        }
+        return { ...image, record: { ...image.record, imageData: "" } };
+      }),
+    };
+  });
+  const undo = [...history.undo, { ...entry, changes }].slice(-MAX_UNDO_ENTRIES);
+  return {
+    undo,
+    redo: [],
+    images: pickImages(images, getReferencedUndoImageIds({ undo, redo: [] })),
+  };
+};
+
+/** `entry` with its deleted images' bytes put back, ready to apply. */
+export const withDeletedImageBytes = (
+  entry: WorkspaceUndoEntry,
+  history: WorkspaceUndoHistory,
+): WorkspaceUndoEntry => ({
+  ...entry,
+  changes: entry.changes.map((change) =>
+    change.kind === "delete"
+      ? {
+          ...change,
+          images: change.images.map((image) => ({
+            ...image,
+            record: {
+              ...image.record,
+              imageData: history.images[image.record.id] ?? image.record.imageData,
+            },
+          })),
+        }
+      : change,
+  ),
+});
+
+/** Takes the entry to apply in `direction` and moves it to the other stack. */
+export const takeUndoEntry = (
+  history: WorkspaceUndoHistory,
+  direction: UndoDirection,
+): { entry: WorkspaceUndoEntry; history: WorkspaceUndoHistory } | null => {
+  const from = direction === "undo" ? history.undo : history.redo;
+  const entry = from[from.length - 1];
+  if (!entry) return null;
+  const rest = from.slice(0, -1);
+  return direction === "undo"
+    ? { entry, history: { ...history, undo: rest, redo: [...history.redo, entry] } }
+    : { entry, history: { ...history, undo: [...history.undo, entry], redo: rest } };
+};
+
+/** The side of a change that `direction` puts in place. */
+export const pickChangeSide = <T>(change: { before: T; after: T }, direction: UndoDirection): T =>
+  direction === "undo" ? change.before : change.after;
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/** The strip changes between two snapshots. Which strip is active isn't undoable. */
+export const diffThumbnailStrips = (
+  before: ThumbnailStripsSnapshot,
+  after: ThumbnailStripsSnapshot,
+): WorkspaceChange[] => {
+  if (before === after) return [];
+  const changes: WorkspaceChange[] = [];
+  THUMBNAIL_STRIP_ORDER.forEach((stripId) => {
+    const beforeIds = before.itemIdsByStrip[stripId] || [];
+    const afterIds = after.itemIdsByStrip[stripId] || [];
+    if (!sameIds(beforeIds, afterIds)) {
+      changes.push({ kind: "strip-items", stripId, before: beforeIds, after: afterIds });
+    }
+    const wasPinned = before.pinnedStripIds.includes(stripId);
+    const isPinned = after.pinnedStripIds.includes(stripId);
+    if (wasPinned !== isPinned) {
+      changes.push({ kind: "strip-pin", stripId, before: wasPinned, after: isPinned });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Puts the strip side of `changes` in place. Ids outside `existingIds` are
+ * left out, so undoing a reorder can't bring back an image deleted since.
+ */
+export const applyStripChanges = (
+  strips: ThumbnailStripsSnapshot,
+  changes: WorkspaceChange[],
+  direction: UndoDirection,
+  existingIds: Set<string>,
+): ThumbnailStripsSnapshot =>
+  changes.reduce((next, change) => {
+    if (change.kind === "strip-items") {
+      const ids = pickChangeSide(change, direction);
+      return replaceStripItems(
+        next,
+        change.stripId,
+        change.stripId === "bookImages" ? ids : ids.filter((id) => existingIds.has(id)),
+      );
+    }
+    if (change.kind === "strip-pin") {
+      return setStripPinState(next, change.stripId, pickChangeSide(change, direction));
+    }
+    return next;
+  }, strips);
+
+/** Puts deleted images back where they were in the history. */
+export const restoreDeletedImages = (
+  history: ImageRecord[],
+  images: DeletedImage[],
+): ImageRecord[] => {
+  const present = new Set(history.map((item) => item.id));
+  const next = [...history];
+  [...images]
+    .sort((a, b) => a.historyIndex - b.historyIndex)
+    .forEach(({ record, historyIndex }) => {
+      if (present.has(record.id)) return;
+      next.splice(Math.min(historyIndex, next.length), 0, record);
+      present.add(record.id);
+    });
+  return next;
+};
+
+export const normalizeWorkspaceUndoHistory = (value: unknown): WorkspaceUndoHistory => {
+  if (!value || typeof value !== "object") return EMPTY_UNDO_HISTORY;
+  const raw = value as Partial<Record<keyof WorkspaceUndoHistory, unknown>>;
+  const entries = (list: unknown): WorkspaceUndoEntry[] =>
+    Array.isArray(list)
+      ? list
+          .filter(
+            (entry): entry is WorkspaceUndoEntry =>
+              !!entry &&
+              typeof entry === "object" &&
+              typeof (entry as WorkspaceUndoEntry).label === "string" &&
+              Array.isArray((entry as WorkspaceUndoEntry).changes),
+          )
+          .slice(-MAX_UNDO_ENTRIES)
+      : [];
+  const undo = entries(raw.undo);
+  const redo = entries(raw.redo);
+  const images =
+    raw.images && typeof raw.images === "object"
+      ? Object.fromEntries(
+          Object.entries(raw.images as Record<string, unknown>).filter(
+            (image): image is [string, string] => typeof image[1] === "string",
+          ),
+        )
+      : {};
+  return { undo, redo, images: pickImages(images, getReferencedUndoImageIds({ undo, redo })) };
+};
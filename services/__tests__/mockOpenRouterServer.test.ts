@@ -0,0 +1,172 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vite-plus/test";
+import {
+  MOCK_IMAGE_DATA_URL,
+  mockResponses,
+  startMockOpenRouterServer,
+  type MockOpenRouterServer,
+} from "../../dev/mockOpenRouterServer";
+import { failedAttemptLedgerEntry, getSpendTotals } from "../../lib/spendBudget";
+import type { GenerationStreamProgress } from "../../types";
+import { OpenRouterApiError, OutputBudgetExhaustedError } from "../openRouterApi";
+import { editImage, getOpenRouterBaseUrl } from "../openRouterService";
+
+const RETIRED_MODEL = "mock/retired-image-preview";
+const SUCCESSOR_MODEL = "mock/image";
+
+// No catalog entry declares a fallbackId today, so give the retired key one.
+vi.mock("../../lib/modelsCatalog", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../lib/modelsCatalog")>();
+  return {
+    ...actual,
+    getRequestModelIds: (modelId: string | null | undefined) =>
+      modelId === RETIRED_MODEL
+        ? [RETIRED_MODEL, SUCCESSOR_MODEL]
+        : actual.getRequestModelIds(modelId),
+  };
+});
+
+const MODEL = "google/gemini-3.1-flash-image";
+
+let server: MockOpenRouterServer;
+
+const run = (modelId = MODEL) => editImage([], "Draw a fox", "sk-test", modelId);
+
+beforeAll(async () => {
+  server = await startMockOpenRouterServer();
+});
+afterAll(async () => {
+  await server.close();
+});
+beforeEach(() => {
+  vi.stubGlobal("window", {
+    location: { origin: "http://localhost:3000", hostname: "localhost" },
+    __bloomOpenRouterBaseUrl: server.url,
+  });
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+afterEach(() => {
+  server.reset();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("editImage against the mock OpenRouter server", () => {
+  it("sends requests to the overridden base URL", async () => {
+    expect(getOpenRouterBaseUrl()).toBe(server.url);
+    server.script(mockResponses.image({ cost: 0.04 }));
+
+    const result = await run();
+
+    expect(result.imageData).toBe(MOCK_IMAGE_DATA_URL);
+    expect(result.cost).toBe(0.04);
+    expect(server.requests.map((request) => request.path)).toEqual(["/chat/completions"]);
+    expect(server.requests[0].body.model).toBe(MODEL);
+  });
+
+  it("retries an empty completion and then succeeds", async () => {
+    server.script(mockResponses.empty(), mockResponses.image({ cost: 0.02 }));
+
+    const result = await run();
+
+    expect(result.cost).toBe(0.02);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("reports the text when the model never returns an image", async () => {
+    server.script(
+      mockResponses.textOnly("I can't draw that."),
+      mockResponses.textOnly("I can't draw that."),
+      mockResponses.textOnly("I can't draw that."),
+    );
+
+    await expect(run()).rejects.toThrow("I can't draw that.");
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it("fails a truncated completion without retrying", async () => {
+    server.script(mockResponses.truncated());
+
+    await expect(run()).rejects.toThrow("spent its whole output budget thinking");
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("maps 402 and 429 to error reasons", async () => {
+    server.script(mockResponses.insufficientCredits());
+    const credits = await run().catch((error: unknown) => error);
+    expect(credits).toBeInstanceOf(OpenRouterApiError);
+    expect((credits as OpenRouterApiError).reason).toBe("insufficient-credits");
+
+    server.script(mockResponses.rateLimited());
+    const rateLimited = await run().catch((error: unknown) => error);
+    expect((rateLimited as OpenRouterApiError).reason).toBe("rate-limited");
+  });
+
+  it("fails over from a retired model to its successor", async () => {
+    server.script(mockResponses.modelNotFound(RETIRED_MODEL), mockResponses.image());
+
+    const result = await run(RETIRED_MODEL);
+
+    expect(result.imageData).toBe(MOCK_IMAGE_DATA_URL);
+    expect(server.requests.map((request) => request.body.model)).toEqual([
+      RETIRED_MODEL,
+      SUCCESSOR_MODEL,
+    ]);
+  });
+});
+
+describe("streamed editImage against the mock OpenRouter server", () => {
+  const runStreamed = (onStreamProgress: (progress: GenerationStreamProgress) => void) =>
+    editImage([], "Draw a fox", "sk-test", MODEL, { onStreamProgress });
+
+  it("reports reasoning, text and the image as they stream, then the cost", async () => {
+    server.script(mockResponses.image({ reasoning: "Planning the fox.", cost: 0.03 }));
+    const stages: string[] = [];
+
+    const result = await runStreamed((progress) => stages.push(progress.stage));
+
+    expect(server.requests[0].body.stream).toBe(true);
+    expect(stages[0]).toBe("waiting");
+    expect(stages.at(-1)).toBe("image");
+    expect(result.imageData).toBe(MOCK_IMAGE_DATA_URL);
+    expect(result.cost).toBe(0.03);
+  });
+
+  it("stops at a length finish without retrying", async () => {
+    server.script(mockResponses.truncated({ reasoning: "Thinking hard." }));
+
+    await expect(runStreamed(() => undefined)).rejects.toThrow(
+      "spent its whole output budget thinking",
+    );
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("records what a truncated run was billed as a failed attempt", async () => {
+    server.script(mockResponses.truncated({ reasoning: "Thinking hard.", cost: 0.05 }));
+
+    const error = await runStreamed(() => undefined).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(OutputBudgetExhaustedError);
+
+    const entry = failedAttemptLedgerEntry(
+      { id: "run", at: 1000, toolId: "generate_image", model: MODEL, failure: "error" },
+      error,
+    );
+    expect(entry).toMatchObject({ costUsd: 0.05, model: "mock/model", failure: "error" });
+    expect(getSpendTotals([entry], 0)).toEqual({ sessionUsd: 0.05, bookUsd: 0.05 });
+  });
+
+  it("surfaces an error that arrives after the 200", async () => {
+    server.script(mockResponses.midStreamError());
+
+    await expect(runStreamed(() => undefined)).rejects.toThrow("upstream connection reset");
+  });
+});
@@ -11,6 +11,7 @@ import {
   Tombstone,
 } from "./types";
 import { blobToBase64 } from "../../lib/imageUtils";
+import { HistoryStorageBreakdown, summarizeHistoryStorage } from "../../lib/browserStorage";
 
 const BROADCAST_CHANNEL_NAME = "bloom-history";
 
@@ -202,35 +203,48 @@ export class HistoryStore {
   }
 
   async delete(id: string): Promise<void> {
-    if (!this.entries.has(id)) return;
-    const entry = this.entries.get(id);
+    await this.deleteMany([id]);
+  }
+
+  /**
+   * Delete several images as one operation (e.g. a whole lineage branch),
+   * telling subscribers and peers once. In a folder the images go to the
+   * trash: their files stay until the tombstone expires (TOMBSTONE_TTL_MS) or
+   * they are deleted permanently from "Recently deleted".
+   */
+  async deleteMany(ids: string[]): Promise<void> {
+    const removed = ids.flatMap((id) => {
+      const entry = this.entries.get(id);
+      return entry ? [entry] : [];
+    });
+    if (!removed.length) return;
 
-    this.entries.delete(id);
+    removed.forEach((entry) => this.entries.delete(entry.id));
 
     if (this.folderBinding) {
-      // Tombstone-first deletion: ensure the tombstone is on disk before the
-      // bytes/sidecar so a racing reader can never resurrect.
-      try {
-        await folder.writeTombstone(this.folderBinding, { id, deletedAt: Date.now() });
-      } catch (error) {
-        console.error("Failed to write tombstone", error);
-      }
-      if (entry) {
+      // The tombstones alone hide the images from every reader; the files
+      // stay as the trash.
+      const deletedAt = Date.now();
+      for (const entry of removed) {
         try {
-          await folder.deleteImageAndSidecar(this.folderBinding, id, entry.imageMime);
+          await folder.writeTombstone(this.folderBinding, { id: entry.id, deletedAt });
         } catch (error) {
-          console.error("Failed to delete image/sidecar", error);
+          console.error("Failed to write tombstone", error);
         }
       }
     } else {
       // Browser-only: record so a future folder attach knows about the delete.
-      await browser.recordBrowserTombstone(id);
+      for (const entry of removed) {
+        await browser.recordBrowserTombstone(entry.id);
+      }
     }
 
-    await browser.deleteEntry(id);
+    for (const entry of removed) {
+      await browser.deleteEntry(entry.id);
+    }
 
     this.emit();
-    this.broadcast({ type: "deleted", id });
+    this.broadcast({ type: "deleted", id: removed[0].id });
   }
 
   async updateMeta(id: string, patch: Partial<HistoryEntry>): Promise<void> {
@@ -280,6 +294,28 @@ export class HistoryStore {
     return blobToBase64(blob);
   }
 
+  // ---------- browser storage ----------
+
+  /**
+   * Which entries still have their bytes in the browser cache, and which are
+   * pinned. Read from IndexedDB rather than memory so it is right before
+   * hydration too.
+   */
+  async storageBreakdown(): Promise<HistoryStorageBreakdown> {
+    const [entries, cachedIds, pinnedIds] = await Promise.all([
+      browser.readAllEntries(),
+      browser.listCachedBytesIds(),
+      browser.readEvictionPins(),
+    ]);
+    const entryIds = entries.sort(sortByTimestampAsc).map((entry) => entry.id);
+    return summarizeHistoryStorage(entryIds, cachedIds, pinnedIds);
+  }
+
+  /** Replace the set of ids whose bytes are never evicted to make room. */
+  async setEvictionPins(ids: string[]): Promise<void> {
+    await browser.writeEvictionPins(ids);
+  }
+
   // ---------- app state file ----------
 
   async writeAppState(state: AppStateFile): Promise<void> {
@@ -371,6 +407,14 @@ export class HistoryStore {
       }
     }
 
+    for (const id of plan.staleTombstones) {
+      try {
+        await folder.deleteTombstoneFile(this.folderBinding, id);
+      } catch (error) {
+        console.error("Failed to remove stale tombstone", error);
+      }
+    }
+
     // Re-read app-state.json if changed.
     try {
       const nextAppState = await folder.readAppStateFile(this.folderBinding);
@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vite-plus/test";
-import { diffFolderAgainstMemory, synthesizeEntryForOrphan } from "../folder/scan";
+import {
+  diffFolderAgainstMemory,
+  listTrashedEntries,
+  synthesizeEntryForOrphan,
+} from "../folder/scan";
 import type { HistoryEntry, Tombstone } from "../types";
 import type { FolderScanResult } from "../folder/FolderHistoryBackend";
 
@@ -47,7 +51,7 @@ describe("diffFolderAgainstMemory", () => {
     expect(plan.toRemoveFromMemory).toEqual([]);
   });
 
-  it("tombstones remove from memory and schedule file deletion", () => {
+  it("tombstones remove from memory and keep the files as trash", () => {
     const memory = new Map<string, HistoryEntry>([["x", makeEntry({ id: "x" })]]);
     const tombstones = new Map<string, Tombstone>([["x", { id: "x", deletedAt: 1500 }]]);
     const images = [{ id: "x", fileName: "x.png", mime: "image/png", lastModified: 1000 }];
@@ -58,7 +62,26 @@ describe("diffFolderAgainstMemory", () => {
       tombstoneTtlMs: TTL,
     });
     expect(plan.toRemoveFromMemory).toEqual(["x"]);
-    expect(plan.toDeleteFiles).toEqual([{ id: "x", imageMime: "image/png" }]);
+    expect(plan.toDeleteFiles).toEqual([]);
+    expect(plan.orphanImages).toEqual([]);
+  });
+
+  it("a restore newer than the tombstone wins and clears the stale tombstone", () => {
+    const memory = new Map<string, HistoryEntry>([
+      ["x", makeEntry({ id: "x", restoredAt: 1800, metaUpdatedAt: 1800 })],
+    ]);
+    const sidecars = new Map<string, HistoryEntry>([["x", makeEntry({ id: "x" })]]);
+    const tombstones = new Map<string, Tombstone>([["x", { id: "x", deletedAt: 1500 }]]);
+    const images = [{ id: "x", fileName: "x.png", mime: "image/png", lastModified: 1000 }];
+    const plan = diffFolderAgainstMemory({
+      scan: makeScan({ sidecars, tombstones, images }),
+      memory,
+      now: 2000,
+      tombstoneTtlMs: TTL,
+    });
+    expect(plan.staleTombstones).toEqual(["x"]);
+    expect(plan.toRemoveFromMemory).toEqual([]);
+    expect(plan.toRewriteSidecar.map((e) => e.id)).toEqual(["x"]);
   });
 
   it("tombstone wins over a sidecar present in the same scan (resurrection guard)", () => {
@@ -164,6 +187,20 @@ describe("diffFolderAgainstMemory", () => {
     expect(plan.expiredTombstones.sort()).toEqual(["new", "old"].sort());
   });
 
+  it("empties the trash: files of an expired tombstone are deleted", () => {
+    const tombstones = new Map<string, Tombstone>([["old", { id: "old", deletedAt: 0 }]]);
+    const sidecars = new Map<string, HistoryEntry>([["old", makeEntry({ id: "old" })]]);
+    const images = [{ id: "old", fileName: "old.png", mime: "image/png", lastModified: 0 }];
+    const plan = diffFolderAgainstMemory({
+      scan: makeScan({ sidecars, tombstones, images }),
+      memory: new Map(),
+      now: TTL + 1,
+      tombstoneTtlMs: TTL,
+    });
+    expect(plan.expiredTombstones).toEqual(["old"]);
+    expect(plan.toDeleteFiles).toEqual([{ id: "old", imageMime: "image/png" }]);
+  });
+
   it("non-expired tombstones are not GC'd", () => {
     const tombstones = new Map<string, Tombstone>([["fresh", { id: "fresh", deletedAt: 1000 }]]);
     const plan = diffFolderAgainstMemory({
@@ -176,6 +213,33 @@ describe("diffFolderAgainstMemory", () => {
   });
 });
 
+describe("listTrashedEntries", () => {
+  it("lists unexpired, unrestored tombstones whose files are still there, newest first", () => {
+    const tombstones = new Map<string, Tombstone>([
+      ["a", { id: "a", deletedAt: 1500 }],
+      ["b", { id: "b", deletedAt: 1700 }],
+      ["gone", { id: "gone", deletedAt: 1600 }],
+      ["back", { id: "back", deletedAt: 1600 }],
+      ["old", { id: "old", deletedAt: 0 }],
+    ]);
+    const sidecars = new Map<string, HistoryEntry>(
+      ["a", "b", "gone", "old"].map((id) => [id, makeEntry({ id })]),
+    );
+    sidecars.set("back", makeEntry({ id: "back", restoredAt: 1650 }));
+    const images = ["a", "b", "back", "old"].map((id) => ({
+      id,
+      fileName: `${id}.png`,
+      mime: "image/png",
+      lastModified: 1000,
+    }));
+    const trash = listTrashedEntries(makeScan({ sidecars, tombstones, images }), 2000, 1900);
+    expect(trash.map((item) => [item.entry.id, item.deletedAt])).toEqual([
+      ["b", 1700],
+      ["a", 1500],
+    ]);
+  });
+});
+
 describe("synthesizeEntryForOrphan", () => {
   it("produces a minimum-viable HistoryEntry", () => {
     const entry = synthesizeEntryForOrphan({
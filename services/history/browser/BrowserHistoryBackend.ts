@@ -1,5 +1,6 @@
 import { createStore, del, get, keys, set, UseStore } from "idb-keyval";
 import type { HistoryEntry, WalEntry } from "../types";
+import { isQuotaError, pickEvictionVictim } from "../../../lib/browserStorage";
 
 /**
  * IndexedDB-backed cache and write-ahead log. Three logical stores share one
@@ -10,6 +11,7 @@ import type { HistoryEntry, WalEntry } from "../types";
  *   bytes:<id>   -> Blob                  (lazy cache of image bytes)
  *   wal:<seq>    -> WalEntry              (pending folder writes)
  *   meta:lru     -> string[]              (LRU order, most-recent-used last)
+ *   meta:eviction-pins -> string[]        (ids whose bytes are never evicted)
  *   meta:wal-seq -> number                (monotonic seq counter for wal keys)
  *   meta:folder-imported -> 1             (one-shot guard for migration)
  *   meta:tombstones -> Record<string, number>  (browser-mode deletions, kept
@@ -23,6 +25,7 @@ const ENTRY_PREFIX = "entry:";
 const BYTES_PREFIX = "bytes:";
 const WAL_PREFIX = "wal:";
 const META_LRU = "meta:lru";
+const META_EVICTION_PINS = "meta:eviction-pins";
 const META_WAL_SEQ = "meta:wal-seq";
 const META_FOLDER_IMPORTED = "meta:folder-imported";
 const META_TOMBSTONES = "meta:tombstones";
@@ -35,15 +38,6 @@ const store = (): UseStore | null => {
   return storeSingleton;
 };
 
-const isQuotaError = (error: unknown): boolean => {
-  if (!(error instanceof DOMException)) return false;
-  return (
-    error.name === "QuotaExceededError" ||
-    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
-    error.code === 22
-  );
-};
-
 // ---------- entries ----------
 
 export const writeEntry = async (entry: HistoryEntry): Promise<void> => {
@@ -135,15 +129,35 @@ const removeFromLru = async (id: string): Promise<void> => {
   if (next.length !== order.length) await writeLru(next);
 };
 
+export const readEvictionPins = async (): Promise<string[]> => {
+  const s = store();
+  if (!s) return [];
+  try {
+    return ((await get(META_EVICTION_PINS, s)) as string[] | undefined) ?? [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeEvictionPins = async (ids: string[]): Promise<void> => {
+  const s = store();
+  if (!s) return;
+  try {
+    await set(META_EVICTION_PINS, ids, s);
+  } catch (error) {
+    console.error("Failed to write eviction pins", error);
+  }
+};
+
 const evictOldest = async (): Promise<boolean> => {
   const s = store();
   if (!s) return false;
   const order = await readLru();
-  const victim = order[0];
+  const victim = pickEvictionVictim(order, await readEvictionPins());
   if (!victim) return false;
   try {
     await del(`${BYTES_PREFIX}${victim}`, s);
-    await writeLru(order.slice(1));
+    await writeLru(order.filter((id) => id !== victim));
     return true;
   } catch (error) {
     console.error("Failed to evict LRU victim", error);
@@ -152,8 +166,8 @@ const evictOldest = async (): Promise<boolean> => {
 };
 
 /**
- * Cache image bytes. If we hit a quota error we evict the oldest entry and
- * retry, up to a reasonable bound. If we still can't write, we give up
+ * Cache image bytes. If we hit a quota error we evict the oldest unpinned
+ * entry and retry, up to a reasonable bound. If we still can't write, we give up
  * quietly — the bytes can always be reloaded from the folder.
  */
 export const writeBytes = async (id: string, blob: Blob): Promise<void> => {
@@ -172,7 +186,7 @@ export const writeBytes = async (id: string, blob: Blob): Promise<void> => {
       }
       const evicted = await evictOldest();
       if (!evicted) {
-        console.warn("Quota exceeded and nothing to evict; dropping bytes for", id);
+        console.warn("Quota exceeded and nothing unpinned to evict; dropping bytes for", id);
         return;
       }
       attempts += 1;
@@ -282,6 +296,20 @@ export const recordBrowserTombstone = async (id: string): Promise<void> => {
   }
 };
 
+/** Drops one tombstone, for an image whose deletion was undone. */
+export const forgetBrowserTombstone = async (id: string): Promise<void> => {
+  const s = store();
+  if (!s) return;
+  try {
+    const current = ((await get(META_TOMBSTONES, s)) as Record<string, number> | undefined) ?? {};
+    if (!(id in current)) return;
+    delete current[id];
+    await set(META_TOMBSTONES, current, s);
+  } catch (error) {
+    console.error("Failed to forget browser tombstone", error);
+  }
+};
+
 export const readBrowserTombstones = async (): Promise<Record<string, number>> => {
   const s = store();
   if (!s) return {};
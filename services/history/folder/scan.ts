@@ -6,7 +6,10 @@ import type { FolderScanResult } from "./FolderHistoryBackend";
  * uses this to update its in-memory snapshot and to enqueue any folder writes.
  *
  * Critical invariants enforced here:
- *   - A tombstone removes the entry from memory AND schedules an image-delete.
+ *   - A tombstone removes the entry from memory. Its image and sidecar stay on
+ *     disk as trash until the tombstone expires; then both are deleted.
+ *   - A restore newer than the tombstone (`restoredAt` in memory or on the
+ *     sidecar) wins: the stale tombstone is deleted and the entry stays.
  *   - A sidecar present without image bytes is invalid; remove it from memory
  *     and delete the stray sidecar so the UI never renders a broken thumbnail.
  *   - Newer `metaUpdatedAt` on disk wins over memory (LWW for stars/notes).
@@ -19,7 +22,7 @@ export interface ReconcilePlan {
   toAdd: HistoryEntry[];
   /** Ids in memory that should be removed because of a tombstone. */
   toRemoveFromMemory: string[];
-  /** Image files to delete from disk (tombstone present but image still on disk). */
+  /** Image files to delete from disk (trash past its TTL, or a sidecar without bytes). */
   toDeleteFiles: Array<{ id: string; imageMime: string }>;
   /** Entries whose on-disk sidecar is newer; replace memory. */
   toUpdateInMemory: HistoryEntry[];
@@ -29,6 +32,8 @@ export interface ReconcilePlan {
   orphanImages: Array<{ id: string; mime: string; lastModified: number; fileName: string }>;
   /** Tombstones older than `now - ttl`; delete the tombstone file. */
   expiredTombstones: string[];
+  /** Tombstones a later restore overrides; delete the tombstone file. */
+  staleTombstones: string[];
 }
 
 export interface DiffInput {
@@ -51,25 +56,35 @@ export const diffFolderAgainstMemory = (input: DiffInput): ReconcilePlan => {
     toRewriteSidecar: [],
     orphanImages: [],
     expiredTombstones: [],
+    staleTombstones: [],
   };
 
   // Index of image bytes on disk, by id.
   const imageById = new Map<string, FolderScanResult["images"][number]>();
   for (const img of scan.images) imageById.set(img.id, img);
 
-  // Step 1: tombstones win over everything.
+  // Step 1: tombstones win over everything but a later restore.
+  const tombstoned = new Set<string>();
   for (const [id, tomb] of scan.tombstones) {
+    if (isRestoredSince(tomb, memory.get(id), scan.sidecars.get(id))) {
+      plan.staleTombstones.push(id);
+      continue;
+    }
+    tombstoned.add(id);
     if (memory.has(id)) plan.toRemoveFromMemory.push(id);
-    const img = imageById.get(id);
-    if (img) plan.toDeleteFiles.push({ id, imageMime: img.mime });
     if (now - tomb.deletedAt > tombstoneTtlMs) {
       plan.expiredTombstones.push(id);
+      const img = imageById.get(id);
+      const sidecar = scan.sidecars.get(id);
+      if (img || sidecar) {
+        plan.toDeleteFiles.push({ id, imageMime: img?.mime ?? sidecar?.imageMime ?? "image/png" });
+      }
     }
   }
 
   // Step 2: sidecars present on disk -> add or reconcile.
   for (const [id, sidecar] of scan.sidecars) {
-    if (scan.tombstones.has(id)) continue; // tombstoned
+    if (tombstoned.has(id)) continue; // in the trash
     const diskImage = imageById.get(id);
     if (!diskImage) {
       if (memory.has(id)) plan.toRemoveFromMemory.push(id);
@@ -92,7 +107,7 @@ export const diffFolderAgainstMemory = (input: DiffInput): ReconcilePlan => {
 
   // Step 3: image bytes with no sidecar = orphan to recover.
   for (const img of scan.images) {
-    if (scan.tombstones.has(img.id)) continue;
+    if (tombstoned.has(img.id)) continue;
     if (scan.sidecars.has(img.id)) continue;
     plan.orphanImages.push({
       id: img.id,
@@ -104,6 +119,36 @@ export const diffFolderAgainstMemory = (input: DiffInput): ReconcilePlan => {
   return plan;
 };
 
+/** True when `entry` (in memory or on disk) was restored after `tomb` was written. */
+export const isRestoredSince = (
+  tomb: Tombstone,
+  ...entries: Array<HistoryEntry | null | undefined>
+): boolean => entries.some((entry) => (entry?.restoredAt ?? 0) > tomb.deletedAt);
+
+/** A deleted image still in the trash: its tombstone hasn't expired and its bytes exist. */
+export interface TrashedHistoryEntry {
+  entry: HistoryEntry;
+  deletedAt: number;
+}
+
+/** The trash in a folder scan, most recently deleted first. */
+export const listTrashedEntries = (
+  scan: FolderScanResult,
+  now: number,
+  tombstoneTtlMs: number,
+): TrashedHistoryEntry[] => {
+  const imageIds = new Set(scan.images.map((img) => img.id));
+  const trashed: TrashedHistoryEntry[] = [];
+  for (const [id, tomb] of scan.tombstones) {
+    const sidecar = scan.sidecars.get(id);
+    if (!sidecar || !imageIds.has(id)) continue;
+    if (now - tomb.deletedAt > tombstoneTtlMs) continue;
+    if (isRestoredSince(tomb, sidecar)) continue;
+    trashed.push({ entry: sidecar, deletedAt: tomb.deletedAt });
+  }
+  return trashed.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
 /**
  * Build a synthesized HistoryEntry for an orphan image file (one with bytes
  * but no sidecar — e.g. a user dropped a PNG into the folder by hand, or the
@@ -1,4 +1,5 @@
 import type { ImageCredits, ModelReasoningLevel, ThumbnailStripsSnapshot } from "../../types";
+import type { SpendLedgerEntry } from "../../lib/spendBudget";
 
 /**
  * Metadata for a single image in the history. Bytes are stored separately
@@ -8,6 +9,10 @@ import type { ImageCredits, ModelReasoningLevel, ThumbnailStripsSnapshot } from
 export interface HistoryEntry {
   id: string;
   parentId: string | null;
+  /** Reference images the run was given (see ImageRecordData.referenceImageIds). */
+  referenceImageIds?: string[] | null;
+  /** The book the result was made in (see ImageRecordData.bookId). */
+  bookId?: string | null;
   incomingSlotId?: string;
   toolId: string;
   parameters: Record<string, string>;
@@ -18,6 +23,8 @@ export interface HistoryEntry {
   durationMs: number;
   cost: number;
   resolution?: { width: number; height: number };
+  /** Perceptual hash of the bytes (see ImageRecordData.perceptualHash). */
+  perceptualHash?: string | null;
   origin?: "generated" | "uploaded" | "bookImages" | "bookOriginal";
   isStarred?: boolean;
   sourceStyleId?: string | null;
@@ -32,12 +39,20 @@ export interface HistoryEntry {
   imageMime: string;
   /** Bumped every time mutable metadata changes; LWW key during reconcile. */
   metaUpdatedAt: number;
+  /**
+   * When the image was last brought back from the trash. A tombstone older
+   * than this is stale (e.g. synced back in from another machine) and loses.
+   */
+  restoredAt?: number;
 }
 
 /** Sidecar file shape on disk: HistoryEntry serialized verbatim. */
 export type HistoryEntrySidecar = HistoryEntry;
 
-/** Tombstone record written when a user deletes an image. */
+/**
+ * Tombstone record written when a user deletes an image. The image and its
+ * sidecar stay on disk until the tombstone expires, so it can be restored.
+ */
 export interface Tombstone {
   id: string;
   deletedAt: number;
@@ -54,6 +69,8 @@ export interface AppStateFile {
   /** Per-tool model selection mirrored for folder sync (toolId -> model id). */
   modelByTool?: Record<string, string>;
   selectedArtStyleId?: string | null;
+  /** Spend ledger mirrored so a book's spending cap follows its history folder. */
+  spendLedger?: SpendLedgerEntry[];
   /** Persisted at write time; used for `mtime`-style conflict resolution. */
   savedAt: number;
 }
@@ -63,7 +80,10 @@ export const APP_STATE_FILE_NAME = "app-state.json";
 export const IMAGES_DIR_NAME = "images";
 export const TOMBSTONES_DIR_NAME = "tombstones";
 
-/** Tombstones older than this are GC'd on next scan. */
+/**
+ * Tombstones older than this are GC'd on next scan, together with the image
+ * bytes they kept in the trash ("Recently deleted").
+ */
 export const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
 export type FolderStatus = "none" | "attached" | "error";
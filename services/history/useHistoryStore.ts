@@ -10,6 +10,7 @@ import {
 import type { ImageRecord, ThumbnailStripsSnapshot } from "../../types";
 import { imageFileNameForEntry } from "./ids";
 import { supportsFolderStorage } from "./folder/FolderHistoryBackend";
+import type { HistoryStorageBreakdown } from "../../lib/browserStorage";
 
 const DEFAULT_STRIPS: ThumbnailStripsSnapshot = {
   activeStripId: "history",
@@ -23,6 +24,8 @@ export const historyEntryToImageRecord = (
 ): ImageRecord => ({
   id: entry.id,
   parentId: entry.parentId ?? null,
+  referenceImageIds: entry.referenceImageIds ?? null,
+  bookId: entry.bookId ?? null,
   incomingSlotId: entry.incomingSlotId,
   imageData: dataUrl ?? "",
   imageFileName: imageFileNameForEntry(entry),
@@ -39,6 +42,7 @@ export const historyEntryToImageRecord = (
   caption: entry.caption ?? null,
   credits: entry.credits ?? null,
   resolution: entry.resolution,
+  perceptualHash: entry.perceptualHash ?? null,
   isStarred: entry.isStarred ?? false,
   origin: entry.origin,
 });
@@ -46,6 +50,8 @@ export const historyEntryToImageRecord = (
 export const imageRecordToHistoryEntry = (record: ImageRecord, mime: string): HistoryEntry => ({
   id: record.id,
   parentId: record.parentId ?? null,
+  referenceImageIds: record.referenceImageIds ?? null,
+  bookId: record.bookId ?? null,
   incomingSlotId: record.incomingSlotId,
   toolId: record.toolId,
   parameters: record.parameters ?? {},
@@ -56,6 +62,7 @@ export const imageRecordToHistoryEntry = (record: ImageRecord, mime: string): Hi
   durationMs: record.durationMs,
   cost: record.cost,
   resolution: record.resolution,
+  perceptualHash: record.perceptualHash ?? null,
   origin: record.origin,
   isStarred: record.isStarred ?? false,
   sourceStyleId: record.sourceStyleId ?? null,
@@ -79,6 +86,8 @@ export interface UseHistoryStoreResult {
   /** Add an image. `dataUrl` must be a base64 data URL. */
   addImage: (record: ImageRecord) => Promise<void>;
   deleteImage: (id: string) => Promise<void>;
+  /** Delete several images as one tombstone operation (e.g. a lineage branch). */
+  deleteImages: (ids: string[]) => Promise<void>;
   setStarred: (id: string, starred: boolean) => Promise<void>;
   /** Generic metadata patch. */
   updateRecord: (id: string, patch: Partial<ImageRecord>) => Promise<void>;
@@ -93,6 +102,11 @@ export interface UseHistoryStoreResult {
   detachFolder: () => Promise<void>;
   /** Force a reconcile (e.g. after explicit user "refresh" gesture). */
   refresh: () => Promise<void>;
+
+  /** Which images have bytes in the browser cache vs. metadata only. */
+  storageBreakdown: () => Promise<HistoryStorageBreakdown>;
+  /** Ids whose bytes the browser cache never evicts. */
+  setEvictionPins: (ids: string[]) => Promise<void>;
 }
 
 /**
@@ -198,6 +212,13 @@ export const useHistoryStore = (): UseHistoryStoreResult => {
     [store],
   );
 
+  const deleteImages = useCallback(
+    async (ids: string[]) => {
+      await store.deleteMany(ids);
+    },
+    [store],
+  );
+
   const setStarred = useCallback(
     async (id: string, starred: boolean) => {
       await store.updateMeta(id, { isStarred: starred });
@@ -263,6 +284,15 @@ export const useHistoryStore = (): UseHistoryStoreResult => {
     await store.reconcileWithFolder();
   }, [store]);
 
+  const storageBreakdown = useCallback(() => store.storageBreakdown(), [store]);
+
+  const setEvictionPins = useCallback(
+    async (ids: string[]) => {
+      await store.setEvictionPins(ids);
+    },
+    [store],
+  );
+
   return {
     history,
     folderStatus: snapshot.folderStatus,
@@ -272,6 +302,7 @@ export const useHistoryStore = (): UseHistoryStoreResult => {
     appState,
     addImage,
     deleteImage,
+    deleteImages,
     setStarred,
     updateRecord,
     ensureImageData,
@@ -279,5 +310,7 @@ export const useHistoryStore = (): UseHistoryStoreResult => {
     attachFolder,
     detachFolder,
     refresh,
+    storageBreakdown,
+    setEvictionPins,
   };
 };
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vite-plus/test";
+import {
+  HOST_PROTOCOL_VERSION,
+  EDITOR_CAPABILITIES,
+  getEditorHandshake,
+  hostSupports,
+  negotiateHostProtocol,
+} from "../hostProtocol";
+
+describe("negotiateHostProtocol", () => {
+  it("uses every capability a host on the same version advertises", () => {
+    const protocol = negotiateHostProtocol(getEditorHandshake());
+
+    expect(protocol.hostVersion).toBe(HOST_PROTOCOL_VERSION);
+    expect(protocol.degraded).toBe(false);
+    expect(protocol.mismatchMessage).toBeNull();
+    EDITOR_CAPABILITIES.forEach((capability) =>
+      expect(hostSupports(protocol, capability)).toBe(true),
+    );
+  });
+
+  it("treats a host without a version as legacy", () => {
+    const protocol = negotiateHostProtocol({});
+
+    expect(protocol.hostVersion).toBe(0);
+    expect(protocol.degraded).toBe(true);
+    expect(protocol.mismatchMessage).toContain("did not send a protocol version");
+    expect(hostSupports(protocol, "commit-single-image")).toBe(true);
+    expect(hostSupports(protocol, "commit-result-file")).toBe(false);
+    expect(hostSupports(protocol, "progress-events")).toBe(false);
+  });
+
+  it("only uses what the host advertised and ignores names it doesn't know", () => {
+    const protocol = negotiateHostProtocol({
+      protocolVersion: HOST_PROTOCOL_VERSION + 1,
+      capabilities: ["progress-events", "teleport-images"],
+    });
+
+    expect(protocol.degraded).toBe(false);
+    expect([...protocol.capabilities]).toEqual(["progress-events"]);
+    expect(protocol.mismatchMessage).toContain(
+      `Host speaks protocol version ${HOST_PROTOCOL_VERSION + 1}`,
+    );
+    expect(protocol.mismatchMessage).toContain("commit-result-file");
+  });
+
+  it("has no capabilities before init", () => {
+    expect(hostSupports(null, "commit-single-image")).toBe(false);
+  });
+});
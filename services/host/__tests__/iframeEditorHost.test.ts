@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from "vite-plus/test";
+import {
+  HostChannelMessage,
+  IHostInitPayload,
+  createIframeHostBridge,
+  createInMemoryHostBridge,
+} from "../hostBridge";
+import { connectIframeEditor } from "../iframeEditorHost";
+import { HOST_PROTOCOL_VERSION, getEditorHandshake } from "../hostProtocol";
+
+const CHANNEL = "cms-image-tools";
+
+const initPayload: IHostInitPayload = {
+  book: { id: "doc-1", title: "Article" },
+  bookImages: [{ id: "hero", src: "https://cms.invalid/hero.png" }],
+  references: [],
+  httpBase: "https://cms.invalid/api/image-tools",
+  sessionToken: "token-1",
+};
+
+const connect = (overrides: Partial<Parameters<typeof connectIframeEditor>[0]> = {}) => {
+  const sent: HostChannelMessage[] = [];
+  const messageTarget = new EventTarget();
+  const host = connectIframeEditor({
+    channel: CHANNEL,
+    editorWindow: { postMessage: (message: HostChannelMessage) => sent.push(message) },
+    messageTarget,
+    getInitPayload: () => initPayload,
+    onCommit: () => {},
+    ...overrides,
+  });
+  const fromEditor = (message: object, origin = "") =>
+    messageTarget.dispatchEvent(
+      new MessageEvent("message", { data: { channel: CHANNEL, ...message }, origin }),
+    );
+  // Lets the host's async handlers post their answers.
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+  return { host, sent, fromEditor, settle };
+};
+
+describe("connectIframeEditor", () => {
+  it("answers ready with init carrying the host's protocol version and capabilities", async () => {
+    const { host, sent, fromEditor, settle } = connect({ onApply: () => {} });
+
+    fromEditor({ type: "ready", payload: getEditorHandshake() });
+    await settle();
+
+    expect(host.getEditorHandshake()).toEqual(getEditorHandshake());
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      channel: CHANNEL,
+      type: "init",
+      payload: {
+        ...initPayload,
+        protocolVersion: HOST_PROTOCOL_VERSION,
+        capabilities: ["commit-result-file", "change-events", "apply-replacement"],
+      },
+    });
+  });
+
+  it("acks a commit once the host's handler resolves, and reports handler errors", async () => {
+    const onCommit = vi.fn(async () => {});
+    const { sent, fromEditor, settle } = connect({
+      onCommit,
+      onApply: () => {
+        throw new Error("Document is locked.");
+      },
+    });
+    const replacement = { incomingId: "hero", resultId: "r1", credits: null };
+
+    fromEditor({ type: "commit", requestId: "c1", payload: { replacements: [replacement] } });
+    fromEditor({ type: "apply", requestId: "a1", payload: { replacement } });
+    await settle();
+
+    expect(onCommit).toHaveBeenCalledWith([replacement]);
+    expect(sent).toHaveLength(2);
+    expect(sent).toContainEqual({ channel: CHANNEL, type: "ack", requestId: "c1", ok: true });
+    expect(sent).toContainEqual({
+      channel: CHANNEL,
+      type: "ack",
+      requestId: "a1",
+      ok: false,
+      error: "Document is locked.",
+    });
+  });
+
+  it("ignores other channels and origins, and stops listening once disposed", async () => {
+    const onCancel = vi.fn();
+    const { host, fromEditor } = connect({ onCancel, editorOrigin: "https://editor.invalid" });
+
+    fromEditor({ type: "cancel", payload: {} }, "https://elsewhere.invalid");
+    fromEditor({ type: "cancel", payload: {} }, "https://editor.invalid");
+    host.dispose();
+    fromEditor({ type: "cancel", payload: {} }, "https://editor.invalid");
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("only pushes changes to an editor that advertised change-events", async () => {
+    const { host, sent, fromEditor, settle } = connect();
+
+    host.pushHistoryChanged([]);
+    fromEditor({ type: "ready", payload: { protocolVersion: 1, capabilities: [] } });
+    await settle();
+    host.pushHistoryChanged([]);
+    fromEditor({ type: "ready", payload: getEditorHandshake() });
+    await settle();
+    host.pushHistoryChanged([]);
+
+    expect(sent.map((message) => message.type)).toEqual(["init", "init", "history-changed"]);
+  });
+});
+
+describe("createInMemoryHostBridge", () => {
+  it("replays init on ready and delivers the host's pushes", async () => {
+    const bridge = createInMemoryHostBridge({
+      initPayload,
+      initialFiles: { "state.json": "{}" },
+    });
+    const onInit = vi.fn();
+    const onClose = vi.fn();
+    const onBookImages = vi.fn();
+    bridge.onInit(onInit);
+    bridge.onRequestClose(onClose);
+    const unsubscribe = bridge.onBookImagesChanged(onBookImages);
+
+    bridge.ready();
+    await Promise.resolve();
+    bridge.requestClose();
+    bridge.pushBookImagesChanged([]);
+    unsubscribe();
+    bridge.pushBookImagesChanged([]);
+
+    expect(onInit).toHaveBeenCalledWith(initPayload);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onBookImages).toHaveBeenCalledTimes(1);
+    await expect(bridge.getFile("state.json")).resolves.toBe("{}");
+  });
+});
+
+describe("createIframeHostBridge", () => {
+  it("posts apply and settles on the host's ack, rejecting a failed one", async () => {
+    const posted: HostChannelMessage[] = [];
+    const fakeWindow = Object.assign(new EventTarget(), {
+      parent: { postMessage: (message: HostChannelMessage) => posted.push(message) },
+    });
+    vi.stubGlobal("window", fakeWindow);
+    try {
+      const bridge = createIframeHostBridge({ channel: CHANNEL, hostName: "CMS" });
+      const ack = (requestId: string, ok: boolean, error?: string) =>
+        fakeWindow.dispatchEvent(
+          new MessageEvent("message", {
+            data: { channel: CHANNEL, type: "ack", requestId, ok, error },
+          }),
+        );
+      const replacement = { incomingId: "hero", resultId: "r1", credits: null };
+      const requestIdOf = (index: number) => {
+        const message = posted[index];
+        return message.type === "apply" ? message.requestId : "";
+      };
+
+      const applied = bridge.applyReplacement(replacement);
+      expect(posted[0]).toMatchObject({
+        channel: CHANNEL,
+        type: "apply",
+        payload: { replacement },
+      });
+      ack("someone-else", false);
+      ack(requestIdOf(0), true);
+      await expect(applied).resolves.toBeUndefined();
+
+      const refused = bridge.applyReplacement(replacement);
+      ack(requestIdOf(1), false, "Document is locked.");
+      await expect(refused).rejects.toThrow("Document is locked.");
+
+      const unexplained = bridge.applyReplacement(replacement);
+      ack(requestIdOf(2), false);
+      await expect(unexplained).rejects.toThrow("CMS request failed.");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,679 @@
+/**
+ * IHostBridge — the host-neutral seam between this editor and whatever embeds it.
+ * ==============================================================================
+ *
+ * The editor never talks to its host directly. Receiving the launch payload,
+ * reading/writing files, putting chosen images back into the document and opening an
+ * external browser for OAuth all go through `IHostBridge`. Bloom is one host
+ * (BloomHostBridge.ts only names a channel and adds diagnostics); any other editor —
+ * a web CMS, say — can host the same app by speaking the two planes below.
+ *
+ * CONTROL PLANE: window.postMessage between the editor <iframe> and its parent. Every
+ *   message is an object `{ channel, type, payload?, requestId? }`, where `channel` is
+ *   a string both sides agree on (Bloom uses "bloom-ai-image-tools").
+ *
+ *   editor → host
+ *     ready            { protocolVersion, capabilities }     once, on startup
+ *     commit           { replacements }     + requestId      host acks, then closes the editor
+ *     apply            { replacement }      + requestId      host acks; "apply-replacement"
+ *     cancel           {}                                    user closed without committing
+ *     log              { level, message }
+ *     open-external    { url }                               open in the system browser
+ *     saveCredentials  { apiKey, authMethod, openRouterUser }
+ *     analytics        { event, properties }
+ *     progress         { active, phaseLabel?, estimatedDurationMs? }; "progress-events"
+ *
+ *   host → editor
+ *     init                 IHostInitPayload                  answers ready (and may repeat)
+ *     request-close        —                                 the editor answers with cancel
+ *     ack                  requestId, ok, error?             answers commit/apply
+ *     book-images-changed  { bookImages }                    "change-events"
+ *     history-changed      { history }                       "change-events"
+ *
+ *   Anything marked with a capability is only sent when the other side advertised it
+ *   (see hostProtocol.ts). iframeEditorHost.ts is a working host side of this plane.
+ *
+ * FILE PLANE: plain HTTP, so image bytes never ride the message bus. The host serves
+ *   one endpoint under `init.httpBase`, scoped to the document being edited and gated
+ *   by `init.sessionToken`:
+ *
+ *     GET    {httpBase}/file?name=<name>&session=<token>   200 with the file, 404 if absent
+ *     POST   {httpBase}/file?name=<name>&session=<token>   body is the file; create/replace
+ *     DELETE {httpBase}/file?name=<name>&session=<token>   404 is fine
+ *
+ *   `name` is a path relative to the editor's folder, e.g. `state.json` or
+ *   `history/<id>.png`. Image files (.png, .jpg/.jpeg, .webp) travel as raw bytes;
+ *   everything else is JSON text sent with `Content-Type: application/json`. The token
+ *   is a query parameter, not a header, so requests stay "simple" and need no CORS
+ *   preflight. At commit the host reads result bytes from this same folder.
+ *
+ * IN-MEMORY BRIDGE: `createInMemoryHostBridge()` fakes both planes (a Map of files, an
+ *   immediate init) so the editor runs with no host at all — the dev harness and e2e
+ *   tests use it, and a host can use it to try its init payload before wiring HTTP.
+ */
+import { HistoryImageSidecar, ImageCredits } from "../../types";
+import { HostCapability, HostProtocolHandshake, getEditorHandshake } from "./hostProtocol";
+
+export interface IHostBookImage {
+  id: string;
+  src: string;
+  pageLabel?: string;
+  width?: number;
+  height?: number;
+  /** True when the slot is an empty placeholder; the editor shows its own
+   *  placeholder graphic instead of trying to load the book's placeHolder.png. */
+  isPlaceholder?: boolean;
+  /** The image's current IP credits as stored in the book. The editor carries
+   *  these along edit chains and returns per-result credits on commit. */
+  credits?: ImageCredits | null;
+}
+
+export interface IHostReferenceImage {
+  id: string;
+  src: string;
+  name?: string;
+}
+
+/**
+ * One image enumerated from the per-book `.ai-image-editor/history/` folder.
+ * The host scans the folder and supplies, for each image file, its id, a
+ * host-served URL for the bytes, and the parsed contents of the sibling
+ * `history/<id>.json` sidecar (or null/omitted for an image that has no
+ * sidecar yet — e.g. one dropped in by hand). The folder is the source of
+ * truth, so any file present here appears in the editor's history.
+ */
+export interface IHostHistoryImage {
+  /** Filename stem, matching `history/<id>.png` and `history/<id>.json`. */
+  id: string;
+  /** Host-served URL for the image bytes (referenced directly; never inlined). */
+  url: string;
+  /** Parsed `history/<id>.json`; null/omitted when no sidecar exists. */
+  metadata?: HistoryImageSidecar | null;
+}
+
+export interface IHostInitPayload {
+  book: { id: string; title: string };
+  bookImages: IHostBookImage[];
+  /** The book image the user launched the editor on (bookImages[].id), to be
+   *  pre-loaded into the "Image to Edit" slot. */
+  selectedBookImageId?: string;
+  historyFolderUrl?: string;
+  referenceFolderUrl?: string;
+  /** History enumerated by the host from `.ai-image-editor/history/`. The folder
+   *  is the source of truth; the editor builds its history from this list rather
+   *  than from `state.json`. */
+  history?: IHostHistoryImage[];
+  references: IHostReferenceImage[];
+  apiKey?: string | null;
+  openRouterUser?: string | null;
+  /** When true (e.g. a Bloom Playground/template book), the editor opens in a shared
+   *  "demo" context and must disable its OpenRouter credential-setting UI. */
+  demoOnly?: boolean;
+  /** When true, the editor exposes developer-only affordances — currently the
+   *  "Local Dummy (No AI)" model, a free deterministic engine offered on every
+   *  tool for exercising edit flows without an AI call. The host sends true
+   *  when it is itself in developer mode. Hostname gating is not enough when
+   *  hosted (a host may serve the editor from localhost even for end users), so
+   *  absent/false means hidden. Standalone dev builds are unaffected. */
+  showDeveloperTools?: boolean;
+  /** Root of the host's file endpoint (see the file plane above), e.g. Bloom's
+   *  `http://localhost:8089/bloom/api/aiImageEditor`. Always supplied by the host at
+   *  runtime (Bloom's port is whatever its server bound), never hard-coded outside the
+   *  dev harness. */
+  httpBase: string;
+  sessionToken: string;
+  /** The host's protocol version. Absent from hosts that predate versioning, which
+   *  the editor treats as version 0 (see negotiateHostProtocol). */
+  protocolVersion?: number;
+  /** The optional features the host supports. Names the editor doesn't know are
+   *  ignored. */
+  capabilities?: HostCapability[];
+}
+
+export interface IHostCommitReplacement {
+  /** The book image slot being replaced (the host-supplied bookImages[].id). */
+  incomingId: string;
+  /** For a generated/uploaded result: the editor result id. The host reads its
+   *  bytes from `.ai-image-editor/history/<resultId>.png` (written via the file
+   *  endpoint before commit), so large image bytes never cross the bridge. */
+  resultId?: string;
+  /** The file holding the result's bytes, relative to `.ai-image-editor/`, e.g.
+   *  `history/<resultId>.jpg` when the user's output format is JPEG, or
+   *  `commit/<resultId>.png` for a copy shrunk to fit the slot (history keeps the
+   *  full-resolution original; the editor deletes the copy once commit resolves).
+   *  Hosts that predate this read `history/<resultId>.png`, which is what
+   *  full-size PNG output writes. */
+  resultFileName?: string;
+  /** For an image that already has a host-served URL (e.g. another book image
+   *  reused as a replacement): that URL, which the host resolves to a file. */
+  sourceUrl?: string;
+  /** The result's IP credits, as determined by the editor: the source image's
+   *  credits when the result was made by editing it, or null when the result
+   *  has none (brand-new generation, in-editor upload). Always present so the
+   *  host never has to guess: it embeds exactly this — null means embed none,
+   *  NOT "keep the replaced slot's old credits". */
+  credits: ImageCredits | null;
+}
+
+/** What the editor is doing, for a host that advertises "progress-events". Sent when a
+ *  tool starts, when a multi-phase tool moves on, and when it finishes. */
+export interface IHostProgress {
+  active: boolean;
+  /** The current phase of a multi-phase tool, e.g. "Transcribing captions". */
+  phaseLabel?: string;
+  /** How long the run is expected to take in all, from when it started. */
+  estimatedDurationMs?: number;
+}
+
+// The host integration has TWO distinct planes, so the bridge is split into two
+// interfaces that happen to be implemented together:
+//
+//   IHostControl — the lifecycle/control channel. In the iframe bridge these ride
+//     window.postMessage to the host page, because each one has a side effect the
+//     editor iframe can't do itself: init is built by the host, commit must change the
+//     LIVE document (in Bloom, the page DOM via changeImage()), and cancel/close own
+//     the overlay.
+//
+//   IHostFiles — a plain file store under the document's editor folder. In the iframe
+//     bridge these go straight to the host's server over HTTP, NOT through
+//     postMessage, so image BYTES never ride the message bus.
+//
+// `IHostBridge` is just "implements both". Consumers should depend on the narrowest
+// piece they need — e.g. hostFilePersistence only needs IHostFiles. The in-memory
+// bridge fakes both planes, which is why the split is invisible there.
+
+/** Lifecycle/control channel (postMessage-backed in the iframe bridge). */
+export interface IHostControl {
+  ready: () => void;
+  onInit: (callback: (payload: IHostInitPayload) => void) => () => void;
+  onRequestClose: (callback: () => void) => () => void;
+  /** The book's images changed while the editor is open (e.g. the user edited the
+   *  book in another host window). Carries the full current list, as in `init`. */
+  onBookImagesChanged: (callback: (bookImages: IHostBookImage[]) => void) => () => void;
+  /** The `.ai-image-editor/history/` folder changed on disk. Carries the full
+   *  enumeration, as in `init`; it includes files this editor wrote itself. */
+  onHistoryChanged: (callback: (history: IHostHistoryImage[]) => void) => () => void;
+  commit: (replacements: IHostCommitReplacement[]) => Promise<void>;
+  /** Put one replacement into the book now, leaving the editor open (unlike commit,
+   *  after which the host closes the overlay). Resolves once the host has applied
+   *  it. Only call this when the host advertised "apply-replacement". */
+  applyReplacement: (replacement: IHostCommitReplacement) => Promise<void>;
+  cancel: () => void;
+  log: (level: "info" | "warn" | "error", message: string) => void;
+  /** Ask the host to open a URL in the user's default browser (not the WebView).
+   *  Used for OpenRouter OAuth so login happens with the user's normal browser
+   *  identity; the resulting code is retrieved out-of-band via the localhost
+   *  callback + `pollOAuthCodeFromBloomHost`. */
+  openExternalUrl: (url: string) => void;
+  /** Hand newly obtained OpenRouter credentials up to the host to persist. The host owns
+   *  the key: it stores it per-user and re-supplies it in `init.apiKey` on each launch,
+   *  so the editor must NOT persist it itself (it would otherwise travel with the book).
+   *  A null apiKey clears the host's stored credentials (sign-out). */
+  saveCredentials: (creds: {
+    apiKey: string | null;
+    authMethod: "oauth" | "manual" | null;
+    openRouterUser?: string | null;
+  }) => void;
+  /** Report an analytics event for the host to record (Bloom forwards it to Segment). Fire
+   *  and forget: there is no ack, and a host that does not implement it is fine -- the editor
+   *  must never depend on this having gone anywhere.
+   *
+   *  NEVER pass prompt text, parameter values, image names, or anything else the user typed or
+   *  lifted out of their book: a prompt can contain arbitrary content. Counts, enum choices,
+   *  durations, costs and model ids only. */
+  trackEvent: (event: string, properties?: Record<string, string | number | boolean>) => void;
+  /** Tell the host what the editor is busy with. Only call this when the host
+   *  advertised "progress-events"; other hosts aren't expecting the message. */
+  reportProgress: (progress: IHostProgress) => void;
+}
+
+/** File store for the document's editor folder — `.ai-image-editor/` in a Bloom book
+ *  (HTTP-backed in the iframe bridge; bytes go straight to the host's server, never
+ *  over postMessage). Names are relative to that folder. */
+export interface IHostFiles {
+  /** Get a file from the editor folder. Returns null on 404.
+   *  Image files (.png, .jpg, .webp) are returned as base64 data URLs; JSON files as text. */
+  getFile: (name: string) => Promise<string | null>;
+  /** Write a file to the editor folder.
+   *  Image files (.png, .jpg, .webp) should be passed as base64 data URLs; JSON files as text. */
+  putFile: (name: string, data: string) => Promise<void>;
+  /** Delete a file from the editor folder. */
+  deleteFile: (name: string) => Promise<void>;
+  /** Clear all files in the editor folder (used by the harness reset). */
+  clearAllFiles: () => Promise<void>;
+}
+
+/** A full bridge implements both planes. */
+export type IHostBridge = IHostControl & IHostFiles;
+
+/** Messages the host sends down to the editor (init + lifecycle + request acks, and
+ *  change pushes for hosts with the "change-events" capability). */
+export type HostToEditorMessage =
+  | { type: "init"; payload: IHostInitPayload }
+  | { type: "request-close" }
+  | { type: "book-images-changed"; payload: { bookImages: IHostBookImage[] } }
+  | { type: "history-changed"; payload: { history: IHostHistoryImage[] } }
+  | { type: "ack"; requestId: string; ok: boolean; error?: string };
+
+/** Messages the editor sends up to the host. `commit` and `apply` carry a requestId
+ *  that the host echoes in its `ack`. */
+export type EditorToHostMessage =
+  | { type: "ready"; payload: HostProtocolHandshake }
+  | { type: "commit"; requestId: string; payload: { replacements: IHostCommitReplacement[] } }
+  | { type: "apply"; requestId: string; payload: { replacement: IHostCommitReplacement } }
+  | { type: "cancel"; payload: {} }
+  | { type: "log"; payload: { level: "info" | "warn" | "error"; message: string } }
+  | { type: "open-external"; payload: { url: string } }
+  | {
+      type: "saveCredentials";
+      payload: {
+        apiKey: string | null;
+        authMethod: "oauth" | "manual" | null;
+        openRouterUser?: string | null;
+      };
+    }
+  | {
+      type: "analytics";
+      payload: {
+        event: string;
+        properties?: Record<string, string | number | boolean>;
+      };
+    }
+  | { type: "progress"; payload: IHostProgress };
+
+/** What actually crosses postMessage: a message in either direction, tagged with the
+ *  channel both sides agreed on so unrelated messages on the window are ignored. */
+export type HostChannelMessage = { channel: string } & (HostToEditorMessage | EditorToHostMessage);
+
+const uuid = () => Math.random().toString(36).slice(2, 10);
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array<ArrayBuffer> => {
+  const base64 = dataUrl.split(",")[1] ?? dataUrl;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Image files in the folder move as bytes; everything else is JSON text.
+const imageFileMimeType = (name: string): string | null => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "webp":
+      return "image/webp";
+    default:
+      return null;
+  }
+};
+
+const bytesToDataUrl = (bytes: ArrayBuffer, mimeType = "image/png"): string => {
+  const uint8 = new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < uint8.length; i++) {
+    binary += String.fromCharCode(uint8[i]);
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export interface IframeHostBridgeOptions {
+  /** The postMessage channel both sides agree on. */
+  channel: string;
+  /** What the host is called in error messages, e.g. "Bloom". */
+  hostName?: string;
+}
+
+/**
+ * The editor side of a host that embeds it in an <iframe>: the control plane rides
+ * window.postMessage to the parent page on `options.channel`, and file I/O is plain
+ * HTTP against `httpBase`, gated by the per-launch `sessionToken` (both arrive in
+ * `init`). See the header for the message set and the REST contract.
+ */
+export const createIframeHostBridge = (options: IframeHostBridgeOptions): IHostBridge => {
+  const channel = options.channel;
+  const hostName = options.hostName ?? "Host";
+  const initListeners = new Set<(payload: IHostInitPayload) => void>();
+  const requestCloseListeners = new Set<() => void>();
+  const bookImagesChangedListeners = new Set<(bookImages: IHostBookImage[]) => void>();
+  const historyChangedListeners = new Set<(history: IHostHistoryImage[]) => void>();
+  const pendingRequests = new Map<
+    string,
+    { resolve: () => void; reject: (error: Error) => void }
+  >();
+
+  let httpBase = "";
+  let sessionToken = "";
+
+  // Session token is passed as a query param (not a custom header) so the file
+  // requests stay "simple" and avoid a CORS preflight against the host's server in dev.
+  const fileUrl = (name: string) =>
+    `${httpBase}/file?name=${encodeURIComponent(name)}&session=${encodeURIComponent(sessionToken)}`;
+
+  const targetOrigin = (() => {
+    if (typeof document === "undefined" || !document.referrer) {
+      return "*";
+    }
+
+    try {
+      return new URL(document.referrer).origin;
+    } catch {
+      return "*";
+    }
+  })();
+
+  const postToParent = (message: { channel: string } & EditorToHostMessage) => {
+    if (typeof window === "undefined" || window.parent === window) {
+      return;
+    }
+
+    window.parent.postMessage(message, targetOrigin);
+  };
+
+  const handleMessage = (event: MessageEvent<HostChannelMessage>) => {
+    const message = event.data;
+    if (!message || message.channel !== channel) {
+      return;
+    }
+
+    if (message.type === "init") {
+      httpBase = message.payload.httpBase ?? "";
+      sessionToken = message.payload.sessionToken ?? "";
+      initListeners.forEach((listener) => listener(message.payload));
+      return;
+    }
+
+    if (message.type === "request-close") {
+      requestCloseListeners.forEach((listener) => listener());
+      return;
+    }
+
+    if (message.type === "book-images-changed") {
+      bookImagesChangedListeners.forEach((listener) => listener(message.payload.bookImages));
+      return;
+    }
+
+    if (message.type === "history-changed") {
+      historyChangedListeners.forEach((listener) => listener(message.payload.history));
+      return;
+    }
+
+    if (message.type === "ack") {
+      const pending = pendingRequests.get(message.requestId);
+      if (!pending) {
+        return;
+      }
+
+      pendingRequests.delete(message.requestId);
+      if (message.ok) {
+        pending.resolve();
+      } else {
+        pending.reject(new Error(message.error || `${hostName} request failed.`));
+      }
+    }
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("message", handleMessage as EventListener);
+  }
+
+  // Posts a message that the host answers with an `ack` carrying the same requestId.
+  const request = (
+    send: (requestId: string) => Extract<EditorToHostMessage, { requestId: string }>,
+  ): Promise<void> => {
+    const requestId = uuid();
+    const promise = new Promise<void>((resolve, reject) => {
+      pendingRequests.set(requestId, { resolve, reject });
+    });
+    postToParent({ channel, ...send(requestId) });
+    return promise;
+  };
+
+  return {
+    ready() {
+      postToParent({ channel, type: "ready", payload: getEditorHandshake() });
+    },
+    onInit(callback) {
+      initListeners.add(callback);
+      return () => {
+        initListeners.delete(callback);
+      };
+    },
+    onRequestClose(callback) {
+      requestCloseListeners.add(callback);
+      return () => {
+        requestCloseListeners.delete(callback);
+      };
+    },
+    onBookImagesChanged(callback) {
+      bookImagesChangedListeners.add(callback);
+      return () => {
+        bookImagesChangedListeners.delete(callback);
+      };
+    },
+    onHistoryChanged(callback) {
+      historyChangedListeners.add(callback);
+      return () => {
+        historyChangedListeners.delete(callback);
+      };
+    },
+    async commit(replacements) {
+      await request((requestId) => ({
+        type: "commit",
+        requestId,
+        payload: { replacements },
+      }));
+    },
+    async applyReplacement(replacement) {
+      await request((requestId) => ({
+        type: "apply",
+        requestId,
+        payload: { replacement },
+      }));
+    },
+    cancel() {
+      postToParent({ channel, type: "cancel", payload: {} });
+    },
+    log(level, message) {
+      postToParent({ channel, type: "log", payload: { level, message } });
+    },
+    openExternalUrl(url) {
+      postToParent({ channel, type: "open-external", payload: { url } });
+    },
+    saveCredentials(creds) {
+      postToParent({
+        channel,
+        type: "saveCredentials",
+        payload: {
+          apiKey: creds.apiKey,
+          authMethod: creds.authMethod,
+          openRouterUser: creds.openRouterUser ?? null,
+        },
+      });
+    },
+    trackEvent(event, properties) {
+      postToParent({
+        channel,
+        type: "analytics",
+        payload: { event, properties },
+      });
+    },
+    reportProgress(progress) {
+      postToParent({ channel, type: "progress", payload: progress });
+    },
+    async getFile(name) {
+      if (!httpBase || !sessionToken) {
+        throw new Error(`${hostName} bridge is not initialized.`);
+      }
+      const response = await fetch(fileUrl(name));
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to read host file ${name}: ${response.status}`);
+      }
+      const imageMimeType = imageFileMimeType(name);
+      if (imageMimeType) {
+        const buffer = await response.arrayBuffer();
+        return bytesToDataUrl(buffer, imageMimeType);
+      }
+      return response.text();
+    },
+    async putFile(name, data) {
+      if (!httpBase || !sessionToken) {
+        throw new Error(`${hostName} bridge is not initialized.`);
+      }
+      const headers: Record<string, string> = {};
+      let body: string | Uint8Array<ArrayBuffer>;
+      if (imageFileMimeType(name)) {
+        body = dataUrlToBytes(data);
+      } else {
+        headers["Content-Type"] = "application/json";
+        body = data;
+      }
+      const response = await fetch(fileUrl(name), { method: "POST", body, headers });
+      if (!response.ok) {
+        throw new Error(`Failed to write host file ${name}: ${response.status}`);
+      }
+    },
+    async deleteFile(name) {
+      if (!httpBase || !sessionToken) {
+        throw new Error(`${hostName} bridge is not initialized.`);
+      }
+      const response = await fetch(fileUrl(name), { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete host file ${name}: ${response.status}`);
+      }
+    },
+    async clearAllFiles() {
+      // Best-effort: delete the well-known top-level files; history PNGs
+      // are cleaned up by the persistence's clear() in normal operation.
+      await Promise.allSettled([this.deleteFile("state.json"), this.deleteFile("connection.json")]);
+    },
+  };
+};
+
+export interface InMemoryHostBridgeOptions {
+  initPayload: IHostInitPayload;
+  onCommit?: (replacements: IHostCommitReplacement[]) => void;
+  onApply?: (replacement: IHostCommitReplacement) => void;
+  onCancel?: () => void;
+  onReady?: () => void;
+  onProgress?: (progress: IHostProgress) => void;
+  initialFiles?: Record<string, string>;
+  /** Prefixed to `log` and analytics output, e.g. "[BloomHarness]". */
+  logPrefix?: string;
+}
+
+/** The in-memory bridge, plus the change pushes and close request a real host sends
+ *  on its own. */
+export type InMemoryHostBridge = IHostBridge & {
+  pushBookImagesChanged: (bookImages: IHostBookImage[]) => void;
+  pushHistoryChanged: (history: IHostHistoryImage[]) => void;
+  requestClose: () => void;
+};
+
+/**
+ * A host bridge with no host behind it, for standalone dev and tests: files live in an
+ * in-memory Map, `ready()` replays the supplied init on the next microtask, and
+ * `openExternalUrl` just opens a browser tab. Commits, applies and cancels are handed
+ * to the option callbacks.
+ */
+export const createInMemoryHostBridge = (
+  options: InMemoryHostBridgeOptions,
+): InMemoryHostBridge => {
+  const logPrefix = options.logPrefix ?? "[InMemoryHost]";
+  const initListeners = new Set<(payload: IHostInitPayload) => void>();
+  const requestCloseListeners = new Set<() => void>();
+  const bookImagesChangedListeners = new Set<(bookImages: IHostBookImage[]) => void>();
+  const historyChangedListeners = new Set<(history: IHostHistoryImage[]) => void>();
+  const fileStore = new Map<string, string>(Object.entries(options.initialFiles ?? {}));
+
+  return {
+    ready() {
+      options.onReady?.();
+      queueMicrotask(() => {
+        initListeners.forEach((listener) => listener(options.initPayload));
+      });
+    },
+    onInit(callback) {
+      initListeners.add(callback);
+      return () => {
+        initListeners.delete(callback);
+      };
+    },
+    onRequestClose(callback) {
+      requestCloseListeners.add(callback);
+      return () => {
+        requestCloseListeners.delete(callback);
+      };
+    },
+    onBookImagesChanged(callback) {
+      bookImagesChangedListeners.add(callback);
+      return () => {
+        bookImagesChangedListeners.delete(callback);
+      };
+    },
+    onHistoryChanged(callback) {
+      historyChangedListeners.add(callback);
+      return () => {
+        historyChangedListeners.delete(callback);
+      };
+    },
+    pushBookImagesChanged(bookImages) {
+      bookImagesChangedListeners.forEach((listener) => listener(bookImages));
+    },
+    pushHistoryChanged(history) {
+      historyChangedListeners.forEach((listener) => listener(history));
+    },
+    requestClose() {
+      requestCloseListeners.forEach((listener) => listener());
+    },
+    async commit(replacements) {
+      options.onCommit?.(replacements);
+    },
+    async applyReplacement(replacement) {
+      options.onApply?.(replacement);
+    },
+    cancel() {
+      options.onCancel?.();
+    },
+    log(level, message) {
+      console[level](`${logPrefix} ${message}`);
+    },
+    openExternalUrl(url) {
+      if (typeof window !== "undefined") {
+        window.open(url, "_blank", "noopener,noreferrer");
+      }
+    },
+    saveCredentials() {
+      // No real host to persist to; the editor keeps the
+      // key in its own state (and localStorage) as usual.
+    },
+    trackEvent(event, properties) {
+      // No analytics service here; log it so a developer can see
+      // exactly what a real host would have been sent.
+      console.info(`${logPrefix} analytics: ${event}`, properties);
+    },
+    reportProgress(progress) {
+      options.onProgress?.(progress);
+    },
+    async getFile(name) {
+      return fileStore.get(name) ?? null;
+    },
+    async putFile(name, data) {
+      fileStore.set(name, data);
+    },
+    async deleteFile(name) {
+      fileStore.delete(name);
+    },
+    async clearAllFiles() {
+      fileStore.clear();
+    },
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * Versioning for the editor ⇄ host channel (see hostBridge.ts).
+ *
+ * The editor says which protocol version it speaks, and which optional features it
+ * can use, in `ready`; the host answers with its own in `init`. Optional features are
+ * gated on capabilities, never on a version number, so a host and the editor can ship
+ * them independently. The version changes only when an existing message changes
+ * meaning.
+ *
+ * Hosts that predate this send neither field. They are treated as version 0 and get
+ * the LEGACY capability set, which is what the editor assumed of every host back then.
+ */
+
+/** The protocol version this editor speaks. */
+export const HOST_PROTOCOL_VERSION = 1;
+
+export type HostCapability =
+  /** The host reads result bytes from `IHostCommitReplacement.resultFileName`, so
+   *  results may be .jpg/.webp or commit-sized copies. Without it the host only reads
+   *  `history/<resultId>.png`. */
+  | "commit-result-file"
+  /** The host applies a one-image commit ("Use this Image") while the editor stays
+   *  open. Without it the editor assigns the result to its slot instead, and the
+   *  user commits all slots at once. */
+  | "commit-single-image"
+  /** The host takes `apply` messages: one replacement put into the book straight
+   *  away, with the overlay left open. Without it replacements only go in with
+   *  the final commit. */
+  | "apply-replacement"
+  /** The host wants `progress` messages while a tool runs, e.g. to show a busy
+   *  indicator outside the editor. */
+  | "progress-events"
+  /** `book-images-changed` and `history-changed` are understood: the host pushes
+   *  them when the book or the history folder changes while the editor is open. */
+  | "change-events";
+
+export const HOST_CAPABILITIES: readonly HostCapability[] = [
+  "commit-result-file",
+  "commit-single-image",
+  "apply-replacement",
+  "progress-events",
+  "change-events",
+];
+
+/** Everything this editor can use; sent in `ready`. */
+export const EDITOR_CAPABILITIES: readonly HostCapability[] = HOST_CAPABILITIES;
+
+/** What a host that sends no protocol version is assumed to support. */
+export const LEGACY_HOST_CAPABILITIES: readonly HostCapability[] = ["commit-single-image"];
+
+/** The versioning fields of `ready` (editor → host) and `init` (host → editor). */
+export interface HostProtocolHandshake {
+  protocolVersion: number;
+  capabilities: HostCapability[];
+}
+
+/** What the editor and its host agreed on. */
+export interface HostProtocol {
+  /** The host's protocol version; 0 for a host that predates versioning. */
+  hostVersion: number;
+  /** Capabilities both sides have. Unknown names from a newer host are dropped. */
+  capabilities: ReadonlySet<HostCapability>;
+  /** True when the host is older than this editor, so some features are off. */
+  degraded: boolean;
+  /** Describes a version mismatch for the host log; null when versions match. */
+  mismatchMessage: string | null;
+}
+
+export const getEditorHandshake = (): HostProtocolHandshake => ({
+  protocolVersion: HOST_PROTOCOL_VERSION,
+  capabilities: [...EDITOR_CAPABILITIES],
+});
+
+const isCapability = (value: unknown): value is HostCapability =>
+  HOST_CAPABILITIES.includes(value as HostCapability);
+
+/** Works out the shared protocol from the versioning fields of the host's `init`. */
+export const negotiateHostProtocol = (
+  init: Partial<Record<keyof HostProtocolHandshake, unknown>>,
+): HostProtocol => {
+  const hostVersion =
+    typeof init.protocolVersion === "number" &&
+    Number.isInteger(init.protocolVersion) &&
+    init.protocolVersion > 0
+      ? init.protocolVersion
+      : 0;
+  const hostCapabilities =
+    hostVersion === 0
+      ? LEGACY_HOST_CAPABILITIES
+      : Array.isArray(init.capabilities)
+        ? init.capabilities.filter(isCapability)
+        : [];
+  const capabilities = new Set(
+    hostCapabilities.filter((capability) => EDITOR_CAPABILITIES.includes(capability)),
+  );
+
+  let mismatchMessage: string | null = null;
+  if (hostVersion === 0) {
+    mismatchMessage = `Host did not send a protocol version; the editor speaks version ${HOST_PROTOCOL_VERSION}. Running with legacy features only.`;
+  } else if (hostVersion !== HOST_PROTOCOL_VERSION) {
+    const disabled = EDITOR_CAPABILITIES.filter((capability) => !capabilities.has(capability));
+    mismatchMessage =
+      `Host speaks protocol version ${hostVersion}; the editor speaks version ${HOST_PROTOCOL_VERSION}.` +
+      (disabled.length ? ` Not supported by the host: ${disabled.join(", ")}.` : "");
+  }
+
+  return {
+    hostVersion,
+    capabilities,
+    degraded: hostVersion < HOST_PROTOCOL_VERSION,
+    mismatchMessage,
+  };
+};
+
+export const hostSupports = (
+  protocol: HostProtocol | null | undefined,
+  capability: HostCapability,
+): boolean => Boolean(protocol?.capabilities.has(capability));
@@ -0,0 +1,184 @@
+/**
+ * The host side of the iframe control plane (see hostBridge.ts), for pages that embed
+ * the editor app in an <iframe> — a web CMS, say. It answers `ready` with `init`, hands
+ * commits/applies to the host's own handlers and acks them, and sends the host's
+ * change pushes and close requests down to the editor.
+ *
+ * This covers postMessage only. The host still has to serve the file endpoint under
+ * `init.httpBase` and, on commit, read each result from the file it names.
+ */
+import {
+  EditorToHostMessage,
+  HostChannelMessage,
+  HostToEditorMessage,
+  IHostBookImage,
+  IHostCommitReplacement,
+  IHostHistoryImage,
+  IHostInitPayload,
+  IHostProgress,
+} from "./hostBridge";
+import { HOST_PROTOCOL_VERSION, HostCapability, HostProtocolHandshake } from "./hostProtocol";
+
+export interface IframeEditorHostOptions {
+  /** The postMessage channel both sides agree on. */
+  channel: string;
+  /** The editor iframe's window (`iframe.contentWindow`). */
+  editorWindow: Pick<Window, "postMessage">;
+  /** The editor's origin. When given, messages from any other origin are ignored and
+   *  messages to the editor are only delivered there. */
+  editorOrigin?: string;
+  /** Where the editor's messages arrive; the host page's window by default. */
+  messageTarget?: Pick<Window, "addEventListener" | "removeEventListener">;
+  /** Builds `init`; the protocol fields are filled in here. */
+  getInitPayload: () =>
+    | Omit<IHostInitPayload, "protocolVersion" | "capabilities">
+    | Promise<Omit<IHostInitPayload, "protocolVersion" | "capabilities">>;
+  /** What to advertise. Defaults to "commit-result-file" and "change-events", plus
+   *  "apply-replacement" and "progress-events" when their handlers are given. */
+  capabilities?: HostCapability[];
+  /** Put the replacements into the document. Resolve when done; the editor is then
+   *  expected to be closed by the host. */
+  onCommit: (replacements: IHostCommitReplacement[]) => void | Promise<void>;
+  onApply?: (replacement: IHostCommitReplacement) => void | Promise<void>;
+  onCancel?: () => void;
+  onLog?: (level: "info" | "warn" | "error", message: string) => void;
+  onOpenExternal?: (url: string) => void;
+  onSaveCredentials?: (
+    creds: Extract<EditorToHostMessage, { type: "saveCredentials" }>["payload"],
+  ) => void;
+  onAnalytics?: (event: string, properties?: Record<string, string | number | boolean>) => void;
+  onProgress?: (progress: IHostProgress) => void;
+}
+
+export interface IframeEditorHost {
+  /** The editor's handshake from `ready`; null until it arrives. */
+  getEditorHandshake: () => HostProtocolHandshake | null;
+  /** Sent only when the editor advertised "change-events". */
+  pushBookImagesChanged: (bookImages: IHostBookImage[]) => void;
+  /** Sent only when the editor advertised "change-events". */
+  pushHistoryChanged: (history: IHostHistoryImage[]) => void;
+  /** Ask the editor to close; it answers with `cancel`. */
+  requestClose: () => void;
+  /** Stop listening for the editor's messages. */
+  dispose: () => void;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export const connectIframeEditor = (options: IframeEditorHostOptions): IframeEditorHost => {
+  const { channel, editorWindow } = options;
+  const targetOrigin = options.editorOrigin ?? "*";
+  const messageTarget = options.messageTarget ?? window;
+  const capabilities: HostCapability[] = options.capabilities ?? [
+    "commit-result-file",
+    "change-events",
+    ...(options.onApply ? (["apply-replacement"] as const) : []),
+    ...(options.onProgress ? (["progress-events"] as const) : []),
+  ];
+  let editorHandshake: HostProtocolHandshake | null = null;
+
+  const postToEditor = (message: HostToEditorMessage) => {
+    editorWindow.postMessage({ channel, ...message }, targetOrigin);
+  };
+
+  const editorSupports = (capability: HostCapability) =>
+    !!editorHandshake?.capabilities.includes(capability);
+
+  const sendInit = async () => {
+    try {
+      const payload = await options.getInitPayload();
+      postToEditor({
+        type: "init",
+        payload: { ...payload, protocolVersion: HOST_PROTOCOL_VERSION, capabilities },
+      });
+    } catch (error) {
+      options.onLog?.("error", `Could not build init: ${errorMessage(error)}`);
+    }
+  };
+
+  const answer = async (requestId: string, handle: () => void | Promise<void>) => {
+    try {
+      await handle();
+      postToEditor({ type: "ack", requestId, ok: true });
+    } catch (error) {
+      postToEditor({ type: "ack", requestId, ok: false, error: errorMessage(error) });
+    }
+  };
+
+  const handleMessage = (event: MessageEvent<HostChannelMessage>) => {
+    const message = event.data;
+    if (!message || message.channel !== channel) {
+      return;
+    }
+    if (options.editorOrigin && event.origin !== options.editorOrigin) {
+      return;
+    }
+    if (event.source && event.source !== editorWindow) {
+      return;
+    }
+
+    switch (message.type) {
+      case "ready":
+        editorHandshake = message.payload;
+        void sendInit();
+        return;
+      case "commit":
+        void answer(message.requestId, () => options.onCommit(message.payload.replacements));
+        return;
+      case "apply": {
+        const onApply = options.onApply;
+        void answer(message.requestId, () => {
+          if (!onApply) {
+            throw new Error("This host does not apply single replacements.");
+          }
+          return onApply(message.payload.replacement);
+        });
+        return;
+      }
+      case "cancel":
+        options.onCancel?.();
+        return;
+      case "log":
+        options.onLog?.(message.payload.level, message.payload.message);
+        return;
+      case "open-external":
+        options.onOpenExternal?.(message.payload.url);
+        return;
+      case "saveCredentials":
+        options.onSaveCredentials?.(message.payload);
+        return;
+      case "analytics":
+        options.onAnalytics?.(message.payload.event, message.payload.properties);
+        return;
+      case "progress":
+        options.onProgress?.(message.payload);
+        return;
+      default:
+        // Host-to-editor messages echoed back, or types from a newer editor.
+        return;
+    }
+  };
+
+  messageTarget.addEventListener("message", handleMessage as EventListener);
+
+  return {
+    getEditorHandshake: () => editorHandshake,
+    pushBookImagesChanged(bookImages) {
+      if (editorSupports("change-events")) {
+        postToEditor({ type: "book-images-changed", payload: { bookImages } });
+      }
+    },
+    pushHistoryChanged(history) {
+      if (editorSupports("change-events")) {
+        postToEditor({ type: "history-changed", payload: { history } });
+      }
+    },
+    requestClose() {
+      postToEditor({ type: "request-close" });
+    },
+    dispose() {
+      messageTarget.removeEventListener("message", handleMessage as EventListener);
+    },
+  };
+};
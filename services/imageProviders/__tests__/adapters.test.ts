@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vite-plus/test";
+import type { ModelInfo } from "../../../types";
+import { getImageProviderAdapter } from "..";
+import { automatic1111Adapter, resolveAutomatic1111Dimensions } from "../automatic1111Adapter";
+import { openAIImagesAdapter } from "../openAIImagesAdapter";
+import { openRouterChatAdapter } from "../openRouterChatAdapter";
+import { createOpenRouterStreamAccumulator } from "../openRouterStream";
+import type { ImageProviderRequestInput } from "../types";
+
+const PNG = "data:image/png;base64,AAAA";
+const MASK = "data:image/png;base64,MMMM";
+
+const makeInput = (over: Partial<ImageProviderRequestInput> = {}): ImageProviderRequestInput => ({
+  modelId: "google/gemini-3.1-flash-image",
+  modelInfo: null,
+  prompt: "Make it blue",
+  images: [],
+  imageLabels: [],
+  imageConfig: { aspectRatio: "16:9", size: "4k" },
+  reasoningEffort: null,
+  apiKey: "sk-test",
+  ...over,
+});
+
+const makeModel = (over: Partial<ModelInfo>): ModelInfo => ({
+  id: "test/model",
+  name: "Test",
+  description: "",
+  pricing: "",
+  ...over,
+});
+
+const requestBody = async (input: ImageProviderRequestInput) =>
+  JSON.parse((await openRouterChatAdapter.buildRequest(input)).init.body as string);
+
+describe("getImageProviderAdapter", () => {
+  it("defaults to OpenRouter", () => {
+    expect(getImageProviderAdapter(undefined).id).toBe("openrouter");
+    expect(getImageProviderAdapter("automatic1111").id).toBe("automatic1111");
+  });
+});
+
+describe("openRouterChatAdapter", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", { location: { origin: "http://localhost:3000" } });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends image_config for Gemini models", async () => {
+    const body = await requestBody(makeInput());
+
+    expect(body.image_config).toEqual({ aspect_ratio: "16:9", image_size: "4K" });
+    expect(body.size).toBeUndefined();
+  });
+
+  it("caps image_config at the model's maxImageSize", async () => {
+    const body = await requestBody(
+      makeInput({
+        modelId: "openai/gpt-5.4-image-2",
+        modelInfo: makeModel({ imageSizeMode: "image-config", maxImageSize: "2K" }),
+      }),
+    );
+
+    expect(body.image_config.image_size).toBe("2K");
+  });
+
+  it("sends pixel size for pixel-size models", async () => {
+    const body = await requestBody(makeInput({ modelId: "openai/gpt-5-image" }));
+
+    expect(body.size).toBe("1536x1024");
+    expect(body.image_config).toBeUndefined();
+  });
+
+  it("labels images and appends the mask after the sources", async () => {
+    const body = await requestBody(
+      makeInput({ images: [PNG, PNG], imageLabels: [null, "Maria"], mask: MASK }),
+    );
+    const content = body.messages[0].content;
+
+    expect(content.map((part: any) => part.type)).toEqual([
+      "text",
+      "image_url",
+      "text",
+      "image_url",
+      "text",
+      "image_url",
+    ]);
+    expect(content[2].text).toContain('"Maria"');
+    expect(content[5].image_url.url).toBe(MASK);
+  });
+
+  it("only sends reasoning when an effort is chosen", async () => {
+    expect((await requestBody(makeInput())).reasoning).toBeUndefined();
+    expect((await requestBody(makeInput({ reasoningEffort: "low" }))).reasoning).toEqual({
+      effort: "low",
+      exclude: true,
+    });
+  });
+
+  it("collects images from every response shape and reads the cost", () => {
+    const parsed = openRouterChatAdapter.parseResponse(
+      {
+        model: "google/gemini-3.1-flash-image",
+        usage: { cost: 0.07 },
+        choices: [
+          {
+            finish_reason: "stop",
+            message: {
+              content: [{ type: "image_url", image_url: { url: "data:image/png;base64,A" } }],
+              images: [
+                { type: "image_url", image_url: { url: "data:image/png;base64,A" } },
+                { type: "image_url", image_url: { url: "data:image/png;base64,B" } },
+              ],
+            },
+          },
+        ],
+      },
+      makeInput(),
+    );
+
+    expect(parsed.images).toEqual(["data:image/png;base64,A", "data:image/png;base64,B"]);
+    expect(parsed.cost).toBe(0.07);
+    expect(parsed.truncated).toBe(false);
+  });
+
+  it("flags a MAX_TOKENS finish as truncated", () => {
+    const parsed = openRouterChatAdapter.parseResponse(
+      { choices: [{ native_finish_reason: "MAX_TOKENS", message: { content: "" } }] },
+      makeInput(),
+    );
+
+    expect(parsed.images).toEqual([]);
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.model).toBe("google/gemini-3.1-flash-image");
+  });
+});
+
+describe("openAIImagesAdapter", () => {
+  it("charges the catalog per-image price", () => {
+    const parsed = openAIImagesAdapter.parseResponse(
+      { data: [{ b64_json: "AAA" }, { b64_json: "BBB" }] },
+      makeInput({ modelInfo: makeModel({ pricePerImageUsd: 0.04 }) }),
+    );
+
+    expect(parsed.images).toEqual(["data:image/png;base64,AAA", "data:image/png;base64,BBB"]);
+    expect(parsed.cost).toBeCloseTo(0.08);
+  });
+
+  it("sends the key it is given and fails without one", async () => {
+    const request = await openAIImagesAdapter.buildRequest(makeInput({ apiKey: "sk-openai" }));
+
+    expect((request.init.headers as Record<string, string>).Authorization).toBe("Bearer sk-openai");
+    await expect(openAIImagesAdapter.buildRequest(makeInput({ apiKey: " " }))).rejects.toThrow(
+      /Settings/,
+    );
+  });
+});
+
+describe("automatic1111Adapter", () => {
+  it("sizes output from the aspect ratio and size preset", () => {
+    expect(resolveAutomatic1111Dimensions("16:9", "1k")).toEqual({ width: 1024, height: 576 });
+    expect(resolveAutomatic1111Dimensions("2:3", "512k")).toEqual({ width: 344, height: 512 });
+    expect(resolveAutomatic1111Dimensions(undefined, undefined)).toEqual({
+      width: 1024,
+      height: 1024,
+    });
+  });
+
+  it("inpaints through img2img with the mask as-is", async () => {
+    const request = await automatic1111Adapter.buildRequest(
+      makeInput({
+        images: [PNG, PNG],
+        mask: MASK,
+        modelInfo: makeModel({ providerBaseUrl: "http://gpu-box:7860/" }),
+      }),
+    );
+    const body = JSON.parse(request.init.body as string);
+
+    expect(request.url).toBe("http://gpu-box:7860/sdapi/v1/img2img");
+    expect(body.init_images).toEqual(["AAAA"]);
+    expect(body.mask).toBe("MMMM");
+  });
+
+  it("generates through txt2img without sources", async () => {
+    const request = await automatic1111Adapter.buildRequest(makeInput());
+
+    expect(request.url).toBe("http://127.0.0.1:7860/sdapi/v1/txt2img");
+  });
+
+  it("wraps returned base64 images as data URLs at no cost", () => {
+    const parsed = automatic1111Adapter.parseResponse({ images: ["QQQ"] }, makeInput());
+
+    expect(parsed.images).toEqual(["data:image/png;base64,QQQ"]);
+    expect(parsed.cost).toBe(0);
+  });
+});
+
+describe("createOpenRouterStreamAccumulator", () => {
+  const event = (chunk: unknown) => `data: ${JSON.stringify(chunk)}\n\n`;
+
+  it("joins deltas split across reads into a non-streamed response", () => {
+    const accumulator = createOpenRouterStreamAccumulator();
+    const body =
+      ": OPENROUTER PROCESSING\n\n" +
+      event({ model: "m", choices: [{ delta: { reasoning: "Hmm" } }] }) +
+      event({ choices: [{ delta: { content: "Here " } }] }) +
+      event({
+        choices: [{ delta: { images: [{ type: "image_url", image_url: { url: PNG } }] } }],
+      }) +
+      event({ choices: [{ delta: {}, finish_reason: "stop" }] }) +
+      event({ choices: [], usage: { cost: 0.01 } }) +
+      "data: [DONE]\n\n";
+
+    // Cut mid-way through the second event.
+    const cut = body.indexOf("Here");
+    expect(accumulator.push(body.slice(0, cut))).toBe(false);
+    expect(accumulator.progress()).toMatchObject({ stage: "thinking", reasoningChars: 3 });
+    expect(accumulator.push(body.slice(cut))).toBe(true);
+
+    const parsed = openRouterChatAdapter.parseResponse(accumulator.result(), makeInput());
+    expect(parsed.images).toEqual([PNG]);
+    expect(parsed.text).toBe("Here");
+    expect(parsed.cost).toBe(0.01);
+    expect(parsed.model).toBe("m");
+  });
+
+  it("finishes once the usage arrives after the output budget runs out", () => {
+    const accumulator = createOpenRouterStreamAccumulator();
+
+    expect(accumulator.push(event({ choices: [{ delta: {}, finish_reason: "length" }] }))).toBe(
+      false,
+    );
+    expect(accumulator.push(event({ choices: [], usage: { cost: 0.02 } }))).toBe(true);
+    const parsed = openRouterChatAdapter.parseResponse(accumulator.result(), makeInput());
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.cost).toBe(0.02);
+  });
+});
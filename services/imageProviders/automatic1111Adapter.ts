@@ -0,0 +1,124 @@
+import { getAspectRatioNumber } from "../../lib/aspectRatios";
+import { dataUrlToParts, normalizeErrorString, previewMessage } from "./shared";
+import type { ImageProviderAdapter } from "./types";
+
+const DEFAULT_AUTOMATIC1111_BASE_URL = "http://127.0.0.1:7860";
+
+// Stable Diffusion checkpoints are trained near 1 megapixel and degrade well
+// before "4K", so the UI's size presets map to a modest long edge.
+const LONG_EDGE_BY_SIZE: Record<string, number> = {
+  "512k": 512,
+  "1k": 1024,
+  "2k": 1536,
+  "4k": 2048,
+};
+
+const roundToMultipleOf8 = (value: number) => Math.max(64, Math.round(value / 8) * 8);
+
+/** Output width/height for a txt2img/img2img request. */
+export const resolveAutomatic1111Dimensions = (
+  aspectRatio?: string,
+  size?: string,
+): { width: number; height: number } => {
+  const longEdge = LONG_EDGE_BY_SIZE[size?.toLowerCase() ?? ""] ?? 1024;
+  const ratio = getAspectRatioNumber(aspectRatio) ?? 1;
+  return ratio >= 1
+    ? { width: longEdge, height: roundToMultipleOf8(longEdge / ratio) }
+    : { width: roundToMultipleOf8(longEdge * ratio), height: longEdge };
+};
+
+/**
+ * A self-hosted Automatic1111-compatible server (A1111, Forge, SD.Next, or a
+ * ComfyUI bridge exposing the same API). Edits go to `/sdapi/v1/img2img` with
+ * our mask as-is (white = inpaint); generation goes to `/sdapi/v1/txt2img`.
+ * Only the first source image is used: the API has no notion of references.
+ * No key, no cost.
+ */
+export const automatic1111Adapter: ImageProviderAdapter = {
+  id: "automatic1111",
+  label: "The image server",
+  logTag: "automatic1111",
+  usesOpenRouterKey: false,
+  maxNoImageAttempts: 1,
+
+  async buildRequest(input) {
+    const baseUrl = (input.modelInfo?.providerBaseUrl || DEFAULT_AUTOMATIC1111_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    const { width, height } = resolveAutomatic1111Dimensions(
+      input.imageConfig?.aspectRatio,
+      input.imageConfig?.size,
+    );
+    const body: Record<string, any> = {
+      prompt: input.prompt,
+      width,
+      height,
+      n_iter: 1,
+      batch_size: 1,
+    };
+    const isEdit = input.images.length > 0;
+    if (isEdit) {
+      body.init_images = [dataUrlToParts(input.images[0]).base64];
+      if (input.mask) {
+        body.mask = dataUrlToParts(input.mask).base64;
+        body.inpainting_fill = 1; // start from the original pixels
+        body.inpaint_full_res = false;
+      }
+    }
+
+    return {
+      url: `${baseUrl}/sdapi/v1/${isEdit ? "img2img" : "txt2img"}`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      summary: {
+        endpoint: isEdit ? "img2img" : "txt2img",
+        width,
+        height,
+        hasMask: !!body.mask,
+        ignoredReferenceImages: Math.max(0, input.images.length - 1),
+      },
+    };
+  },
+
+  parseResponse(data, input) {
+    const images = Array.isArray(data?.images)
+      ? data.images
+          .filter((entry: unknown): entry is string => typeof entry === "string" && !!entry)
+          .map((base64: string) =>
+            base64.startsWith("data:image") ? base64 : `data:image/png;base64,${base64}`,
+          )
+      : [];
+
+    return {
+      images,
+      model: input.modelId,
+      cost: 0,
+      finishReason: null,
+      truncated: false,
+      summary: { hadImagesArray: Array.isArray(data?.images) },
+    };
+  },
+
+  getErrorDetail(data) {
+    return (
+      normalizeErrorString(data?.detail) ||
+      normalizeErrorString(data?.error) ||
+      normalizeErrorString(data?.errors) ||
+      normalizeErrorString(data?.message)
+    );
+  },
+
+  isModelUnavailable() {
+    // The server runs whatever checkpoint is loaded; there's no model id to fail over from.
+    return false;
+  },
+
+  toRequestError({ status, statusText, rawText, detailMessage }) {
+    const message = detailMessage || rawText || statusText || "";
+    return new Error(`Image server request failed: ${status} ${previewMessage(message)}`);
+  },
+};
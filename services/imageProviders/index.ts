@@ -0,0 +1,24 @@
+import type { ImageProviderId } from "../../types";
+import { automatic1111Adapter } from "./automatic1111Adapter";
+import { openAIImagesAdapter } from "./openAIImagesAdapter";
+import { openRouterChatAdapter } from "./openRouterChatAdapter";
+import type { ImageProviderAdapter } from "./types";
+
+export type {
+  ImageConfig,
+  ImageProviderAdapter,
+  ImageProviderHttpRequest,
+  ImageProviderRequestInput,
+  ParsedImageResponse,
+} from "./types";
+
+const ADAPTERS: Record<ImageProviderId, ImageProviderAdapter> = {
+  openrouter: openRouterChatAdapter,
+  "openai-images": openAIImagesAdapter,
+  automatic1111: automatic1111Adapter,
+};
+
+/** The adapter for a model's `provider`; models without one go through OpenRouter. */
+export const getImageProviderAdapter = (
+  providerId: ImageProviderId | null | undefined,
+): ImageProviderAdapter => (providerId && ADAPTERS[providerId]) || openRouterChatAdapter;
@@ -0,0 +1,109 @@
+import { toEditAlphaMask } from "../../lib/maskCompositing";
+import { mapAspectRatioToOpenAISize } from "./openRouterChatAdapter";
+import { dataUrlToBlob, normalizeErrorString, previewMessage } from "./shared";
+import type { ImageProviderAdapter, ImageProviderHttpRequest } from "./types";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// OpenAI's Images API takes its own model names ("gpt-image-1"), while our
+// registry keys follow OpenRouter's vendor-prefixed form ("openai/gpt-image-1").
+const toOpenAIModelName = (modelId: string) => modelId.replace(/^openai\//, "");
+
+/**
+ * OpenAI Images API: `/images/edits` (multipart) when there are source images,
+ * `/images/generations` (JSON) otherwise. Masks use OpenAI's alpha convention,
+ * so ours is re-encoded with the editable area transparent. The API has no
+ * per-request cost in its response; we charge the catalog's per-image price.
+ */
+export const openAIImagesAdapter: ImageProviderAdapter = {
+  id: "openai-images",
+  label: "OpenAI",
+  logTag: "openAIImages",
+  usesOpenRouterKey: false,
+  // An OK response without an image is not a transient hiccup here.
+  maxNoImageAttempts: 1,
+
+  async buildRequest(input): Promise<ImageProviderHttpRequest> {
+    // The user's own key, entered in Settings (see EditImageOptions.providerApiKeys).
+    const apiKey = input.apiKey.trim();
+    if (!apiKey) {
+      throw new Error("OpenAI API key is missing. Add it in Settings to use this model.");
+    }
+
+    const baseUrl = (input.modelInfo?.providerBaseUrl || DEFAULT_OPENAI_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    const model = toOpenAIModelName(input.modelId);
+    const size = mapAspectRatioToOpenAISize(input.imageConfig?.aspectRatio);
+    const summary = { endpoint: "", size, hasMask: !!input.mask };
+
+    if (!input.images.length) {
+      summary.endpoint = "generations";
+      return {
+        url: `${baseUrl}/images/generations`,
+        init: {
+          method: "POST",
+          headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ model, prompt: input.prompt, size, n: 1 }),
+        },
+        summary,
+      };
+    }
+
+    const form = new FormData();
+    form.append("model", model);
+    form.append("prompt", input.prompt);
+    form.append("size", size);
+    form.append("n", "1");
+    input.images.forEach((dataUrl, index) => {
+      form.append("image[]", dataUrlToBlob(dataUrl), `image-${index}.png`);
+    });
+    if (input.mask) {
+      form.append("mask", dataUrlToBlob(await toEditAlphaMask(input.mask)), "mask.png");
+    }
+    summary.endpoint = "edits";
+    return {
+      url: `${baseUrl}/images/edits`,
+      // No Content-Type: fetch sets the multipart boundary itself.
+      init: { method: "POST", headers: { Authorization: `Bearer ${apiKey}` }, body: form },
+      summary,
+    };
+  },
+
+  parseResponse(data, input) {
+    const images: string[] = [];
+    if (Array.isArray(data?.data)) {
+      for (const entry of data.data) {
+        if (typeof entry?.b64_json === "string" && entry.b64_json) {
+          images.push(`data:image/png;base64,${entry.b64_json}`);
+        }
+      }
+    }
+    const revisedPrompt = normalizeErrorString(data?.data?.[0]?.revised_prompt);
+
+    return {
+      images,
+      text: revisedPrompt,
+      model: input.modelId,
+      cost: (input.modelInfo?.pricePerImageUsd ?? 0) * images.length,
+      finishReason: null,
+      truncated: false,
+      summary: { usage: data?.usage ?? null },
+    };
+  },
+
+  getErrorDetail(data) {
+    return normalizeErrorString(data?.error?.message) || normalizeErrorString(data?.message);
+  },
+
+  isModelUnavailable(status, detailMessage) {
+    const msg = (detailMessage || "").toLowerCase();
+    return status === 404 || msg.includes("model_not_found") || msg.includes("does not exist");
+  },
+
+  toRequestError({ status, statusText, rawText, detailMessage }) {
+    const message = detailMessage || rawText || statusText || "";
+    return new Error(`OpenAI request failed: ${status} ${previewMessage(message)}`);
+  },
+};
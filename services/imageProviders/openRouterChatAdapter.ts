@@ -0,0 +1,218 @@
+import type { ModelInfo } from "../../types";
+import { getOpenAIOrientation } from "../../lib/aspectRatios";
+import {
+  buildOpenRouterHeaders,
+  getOpenRouterBaseUrl,
+  getOpenRouterErrorDetail,
+  isModelUnavailableError,
+  toOpenRouterRequestError,
+} from "../openRouterApi";
+import {
+  capImageSizeTier,
+  dataUrlToParts,
+  extractTextContent,
+  mapSizeToImageSizeTier,
+  normalizeErrorString,
+} from "./shared";
+import { readOpenRouterStream } from "./openRouterStream";
+import type { ImageProviderAdapter, ImageProviderRequestInput } from "./types";
+
+/**
+ * Maps an aspect ratio to OpenAI size format.
+ * GPT image models support: "1024x1024", "1536x1024" (landscape), "1024x1536" (portrait)
+ */
+export function mapAspectRatioToOpenAISize(aspectRatio?: string): string {
+  switch (getOpenAIOrientation(aspectRatio)) {
+    case "portrait":
+      return "1024x1536";
+    case "landscape":
+      return "1536x1024";
+    case "square":
+    default:
+      return "1024x1024";
+  }
+}
+
+/**
+ * How to ask this model for an output size. Registry entries declare it
+ * (`imageSizeMode` / `maxImageSize`); ids that aren't in the registry (env
+ * overrides) are inferred from their vendor prefix:
+ * - google/* (Gemini): image_config with image_size "1K"|"2K"|"4K"
+ * - openai/gpt-5.4-image*: image_config, but only up to "2K"
+ * - other OpenAI (gpt-image-1, DALL-E, etc.): size as pixel dimensions
+ */
+export const resolveOpenRouterImageSizing = (
+  modelId: string,
+  modelInfo: ModelInfo | null,
+): { mode: "image-config" | "pixel-size"; maxImageSize?: "1K" | "2K" | "4K" } => {
+  if (modelInfo?.imageSizeMode) {
+    return { mode: modelInfo.imageSizeMode, maxImageSize: modelInfo.maxImageSize };
+  }
+  if (modelId.startsWith("google/")) {
+    return { mode: "image-config", maxImageSize: modelInfo?.maxImageSize };
+  }
+  if (modelId.startsWith("openai/gpt-5.4-image")) {
+    return { mode: "image-config", maxImageSize: modelInfo?.maxImageSize ?? "2K" };
+  }
+  return { mode: "pixel-size" };
+};
+
+const buildContent = (input: ImageProviderRequestInput): any[] => {
+  const content: any[] = [{ type: "text", text: input.prompt }];
+  if (!input.images.length) {
+    return content;
+  }
+  input.images.forEach((dataUrl, index) => {
+    const label = input.imageLabels[index]?.trim();
+    if (label) {
+      content.push({
+        type: "text",
+        text: `The next image shows "${label}". When the instructions mention "${label}", they refer to the subject of this image.`,
+      });
+    }
+    const { base64, mimeType } = dataUrlToParts(dataUrl);
+    content.push({
+      type: "image_url",
+      image_url: { url: `data:${mimeType};base64,${base64}` },
+    });
+  });
+  if (input.mask) {
+    content.push({
+      type: "text",
+      text: "The next image is a mask for the first image. Only change the area that is white in the mask; keep everything in the black area exactly as it is. Return the full edited image, not the mask.",
+    });
+    const { base64, mimeType } = dataUrlToParts(input.mask);
+    content.push({
+      type: "image_url",
+      image_url: { url: `data:${mimeType};base64,${base64}` },
+    });
+  }
+  return content;
+};
+
+/**
+ * OpenRouter's `/chat/completions` with image output modality. Gemini
+ * endpoints fail to return an image in several transient ways (an empty
+ * response, or text without the image), so a no-image answer is retried;
+ * running out of output tokens is not (see `truncated`).
+ */
+export const openRouterChatAdapter: ImageProviderAdapter = {
+  id: "openrouter",
+  label: "OpenRouter",
+  logTag: "openRouter",
+  usesOpenRouterKey: true,
+  maxNoImageAttempts: 3,
+
+  async buildRequest(input) {
+    const { modelId, modelInfo, imageConfig, reasoningEffort } = input;
+    const sizing = resolveOpenRouterImageSizing(modelId, modelInfo);
+    const body: Record<string, any> = {
+      model: modelId,
+      messages: [
+        {
+          role: "user",
+          content: buildContent(input),
+        },
+      ],
+      modalities: ["text", "image"],
+      stream: input.stream === true,
+      // The generated image is billed as output tokens in the SAME budget as any
+      // reasoning/commentary text. Without an explicit ceiling, a "thinking"
+      // model (e.g. Gemini 3 Flash) can spend the default completion budget on
+      // reasoning and hit finish_reason="length" (MAX_TOKENS) BEFORE it emits the
+      // image — surfacing as "did not return an image." Give image requests ample
+      // headroom so reasoning + image both fit. (Image output itself is small:
+      // <=2520 tokens even at 4K, so this budget is almost entirely for thinking.)
+      max_tokens: 64_000,
+      // Provider-specific image size parameters — only include what the model accepts
+      ...(sizing.mode === "image-config"
+        ? {
+            image_config: {
+              aspect_ratio: imageConfig?.aspectRatio?.trim() || "1:1",
+              image_size: capImageSizeTier(
+                mapSizeToImageSizeTier(imageConfig?.size),
+                sizing.maxImageSize,
+              ),
+            },
+          }
+        : { size: mapAspectRatioToOpenAISize(imageConfig?.aspectRatio) }),
+    };
+    if (reasoningEffort) {
+      // We only need the image output, not the model's reasoning text — except
+      // when streaming, where the reasoning is what shows the model at work.
+      body.reasoning = { effort: reasoningEffort, exclude: !body.stream };
+    }
+
+    return {
+      url: `${getOpenRouterBaseUrl()}/chat/completions`,
+      init: {
+        method: "POST",
+        headers: buildOpenRouterHeaders(input.apiKey),
+        body: JSON.stringify(body),
+      },
+      summary: {
+        stream: body.stream,
+        modalities: body.modalities,
+        maxTokens: body.max_tokens,
+        sizeOpenAI: body.size,
+        imageConfigGemini: body.image_config,
+      },
+    };
+  },
+
+  parseResponse(data, input) {
+    // Interleaved image models can return MORE THAN ONE image (e.g. one per
+    // panel), so collect them all in order rather than stopping at the first.
+    const choice = data?.choices?.[0];
+    const contentArray = choice?.message?.content;
+    const imagesArray = choice?.message?.images;
+    const finishReason = choice?.finish_reason ?? choice?.native_finish_reason ?? null;
+    const text = extractTextContent(contentArray) || normalizeErrorString(choice?.message?.text);
+
+    const images: string[] = [];
+    const addImage = (url: unknown) => {
+      if (typeof url === "string" && url.startsWith("data:image") && !images.includes(url)) {
+        images.push(url);
+      }
+    };
+    // Content array (some models return images here)
+    if (Array.isArray(contentArray)) {
+      for (const part of contentArray) {
+        if (part?.type === "image_url" && part?.image_url?.url) addImage(part.image_url.url);
+      }
+    }
+    // Images array (Gemini models return images here)
+    if (Array.isArray(imagesArray)) {
+      for (const part of imagesArray) {
+        if (part?.type === "image_url" && part?.image_url?.url) addImage(part.image_url.url);
+      }
+    }
+    // OpenAI-style b64_json data array (DALL·E / gpt-image)
+    if (images.length === 0 && Array.isArray(data?.data)) {
+      for (const entry of data.data) {
+        if (entry?.b64_json) addImage(`data:image/png;base64,${entry.b64_json}`);
+      }
+    }
+
+    return {
+      images,
+      text: text || undefined,
+      model: (data?.model as string) || input.modelId,
+      cost: (data?.usage?.cost as number) ?? 0,
+      finishReason,
+      refusal: normalizeErrorString(choice?.message?.refusal),
+      truncated: finishReason === "length" || finishReason === "MAX_TOKENS",
+      summary: {
+        cost: (data?.usage?.cost as number) ?? null,
+        usage: data?.usage ?? null,
+        hadContentArray: Array.isArray(contentArray),
+        hadImagesArray: Array.isArray(imagesArray),
+      },
+    };
+  },
+
+  readStream: readOpenRouterStream,
+  getErrorDetail: getOpenRouterErrorDetail,
+  isModelUnavailable: isModelUnavailableError,
+  toRequestError: toOpenRouterRequestError,
+};
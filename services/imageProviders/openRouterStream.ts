@@ -0,0 +1,149 @@
+import type { GenerationStreamProgress } from "../../types";
+
+/**
+ * OpenRouter's streamed `/chat/completions` (`stream: true`): server-sent
+ * events, each `data:` line a chunk whose `choices[0].delta` carries the next
+ * piece of reasoning, text or images; `usage` (with the cost) rides on the
+ * last chunk, and `data: [DONE]` ends the stream. Lines starting with ":" are
+ * keep-alive comments. An error after the 200 arrives as a chunk with `error`.
+ */
+
+export interface OpenRouterStreamAccumulator {
+  /** Feeds decoded body text; returns true once nothing useful can follow. */
+  push: (text: string) => boolean;
+  progress: () => GenerationStreamProgress;
+  /** What arrived, in the shape of a non-streamed response, for parseResponse. */
+  result: () => any;
+}
+
+const isTruncatedFinish = (finishReason: unknown) =>
+  finishReason === "length" || finishReason === "MAX_TOKENS";
+
+export const createOpenRouterStreamAccumulator = (): OpenRouterStreamAccumulator => {
+  let buffer = "";
+  let finished = false;
+  let id: string | undefined;
+  let model: string | undefined;
+  let usage: unknown = null;
+  let error: unknown = null;
+  let finishReason: string | null = null;
+  let reasoning = "";
+  let text = "";
+  let refusal = "";
+  const images: unknown[] = [];
+  let stage: GenerationStreamProgress["stage"] = "waiting";
+
+  const handleChunk = (chunk: any) => {
+    id = chunk?.id ?? id;
+    model = chunk?.model ?? model;
+    if (chunk?.usage) usage = chunk.usage;
+    if (chunk?.error) {
+      error = chunk.error;
+      finished = true;
+    }
+    const choice = chunk?.choices?.[0];
+    const delta = choice?.delta ?? {};
+    if (typeof delta.reasoning === "string" && delta.reasoning) {
+      reasoning += delta.reasoning;
+      stage = "thinking";
+    }
+    if (typeof delta.content === "string" && delta.content) {
+      text += delta.content;
+      stage = "writing";
+    }
+    if (typeof delta.refusal === "string") refusal += delta.refusal;
+    if (Array.isArray(delta.images) && delta.images.length) {
+      images.push(...delta.images);
+      stage = "image";
+    }
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    // The budget is gone, so no image can follow; stop reading once the usage
+    // chunk has brought the cost rather than waiting on the rest of the stream.
+    if (isTruncatedFinish(finishReason) && usage) finished = true;
+  };
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (payload === "[DONE]") {
+      finished = true;
+      return;
+    }
+    try {
+      handleChunk(JSON.parse(payload));
+    } catch {
+      // A malformed chunk is skipped; the rest of the stream still counts.
+    }
+  };
+
+  return {
+    push: (incoming) => {
+      buffer += incoming;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (finished) break;
+        handleLine(line);
+      }
+      return finished;
+    },
+    progress: () => ({
+      stage,
+      reasoningChars: reasoning.length,
+      text,
+      imagesReceived: images.length,
+    }),
+    result: () => ({
+      id,
+      model,
+      ...(error ? { error } : {}),
+      choices: [
+        {
+          finish_reason: finishReason,
+          message: {
+            role: "assistant",
+            content: text,
+            images,
+            ...(refusal ? { refusal } : {}),
+            ...(reasoning ? { reasoning } : {}),
+          },
+        },
+      ],
+      usage,
+    }),
+  };
+};
+
+/**
+ * Reads a streamed response to the end (or until the model has finished for
+ * good), reporting progress after every network read. Falls back to plain
+ * JSON when the server answered without streaming.
+ */
+export const readOpenRouterStream = async (
+  response: Response,
+  onProgress: (progress: GenerationStreamProgress) => void,
+): Promise<any> => {
+  const reader = response.body?.getReader();
+  if (!reader || !response.headers.get("content-type")?.includes("text/event-stream")) {
+    const rawText = await response.text();
+    return rawText ? JSON.parse(rawText) : null;
+  }
+
+  const accumulator = createOpenRouterStreamAccumulator();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const finished = accumulator.push(decoder.decode(value, { stream: true }));
+      onProgress(accumulator.progress());
+      if (finished) break;
+    }
+  } finally {
+    // Closing the connection is what tells OpenRouter to stop the generation
+    // (and its billing, for providers that support cancellation). An aborted
+    // fetch has closed it already.
+    void reader.cancel().catch(() => undefined);
+  }
+  return accumulator.result();
+};
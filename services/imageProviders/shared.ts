@@ -0,0 +1,87 @@
+/** Wire-format helpers shared by the image-provider adapters and openRouterService. */
+
+export function normalizeErrorString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+export function dataUrlToParts(dataUrl: string): { base64: string; mimeType: string } {
+  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/);
+  if (!match) {
+    throw new Error("Invalid image data URL");
+  }
+
+  return {
+    mimeType: match[1] || "image/png",
+    base64: match[2],
+  };
+}
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { base64, mimeType } = dataUrlToParts(dataUrl);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const extractTextContent = (messageContent: unknown): string => {
+  if (typeof messageContent === "string") {
+    return messageContent.trim();
+  }
+
+  if (!Array.isArray(messageContent)) {
+    return "";
+  }
+
+  return messageContent
+    .map((part) => {
+      if (typeof part === "string") {
+        return part;
+      }
+      if (part?.type === "text" && typeof part.text === "string") {
+        return part.text;
+      }
+      return "";
+    })
+    .join("\n")
+    .trim();
+};
+
+/** Trim a long error body to something that fits in a message. */
+export const previewMessage = (message: string, maxChars = 500): string =>
+  message.length > maxChars ? `${message.slice(0, maxChars)}…` : message;
+
+/**
+ * Maps the UI's size token to the "1K"/"2K"/"4K" tiers used by Gemini-style
+ * image_config (uppercase K required). The UI's 512k preset maps to the lowest
+ * supported tier.
+ */
+export function mapSizeToImageSizeTier(size?: string): "1K" | "2K" | "4K" {
+  switch (size?.toLowerCase()) {
+    case "512k":
+      return "1K";
+    case "2k":
+      return "2K";
+    case "4k":
+      return "4K";
+    case "1k":
+    default:
+      return "1K";
+  }
+}
+
+const IMAGE_SIZE_TIER_RANK = { "1K": 1, "2K": 2, "4K": 3 } as const;
+
+/** The smaller of two size tiers (e.g. a "4K" request on a "2K"-capped model). */
+export const capImageSizeTier = (
+  tier: "1K" | "2K" | "4K",
+  max: "1K" | "2K" | "4K" | undefined,
+): "1K" | "2K" | "4K" =>
+  max && IMAGE_SIZE_TIER_RANK[tier] > IMAGE_SIZE_TIER_RANK[max] ? max : tier;
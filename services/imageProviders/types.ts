@@ -0,0 +1,110 @@
+import type { GenerationStreamProgress, ImageProviderId, ModelInfo } from "../../types";
+
+export interface ImageConfig {
+  /** Explicit aspect ratio, for example "1:1" or "16:9". */
+  aspectRatio?: string;
+  /** Size: "512k", "1k", "2k", "4k" */
+  size?: string;
+}
+
+/** Everything an adapter needs to build one HTTP request. */
+export interface ImageProviderRequestInput {
+  /** The model key for THIS request (the chosen model or one of its fallbacks). */
+  modelId: string;
+  /** Catalog entry of the chosen model, or null for ids not in the registry (env overrides). */
+  modelInfo: ModelInfo | null;
+  prompt: string;
+  /** Source images as data URLs: the image to edit first, then references. */
+  images: string[];
+  /** Optional names aligned by index with `images` (see EditImageOptions.imageLabels). */
+  imageLabels: (string | null | undefined)[];
+  /** Optional inpainting mask for `images[0]`; white = may change. */
+  mask?: string;
+  imageConfig?: ImageConfig;
+  /** Reasoning effort to send, or null to leave it to the model. */
+  reasoningEffort: string | null;
+  /**
+   * Credential for the provider: the OpenRouter key, or the user's key for
+   * this provider (EditImageOptions.providerApiKeys). May be "".
+   */
+  apiKey: string;
+  /** Ask for a streamed response; only set for adapters with `readStream`. */
+  stream?: boolean;
+}
+
+export interface ImageProviderHttpRequest {
+  url: string;
+  /** Everything but the abort signal, which editImage adds. */
+  init: Omit<RequestInit, "signal">;
+  /** Request parameters worth logging (never image bytes). */
+  summary: Record<string, unknown>;
+}
+
+/** A successful (2xx) response, normalized across providers. */
+export interface ParsedImageResponse {
+  /** Every returned image as a data URL, in order. Empty when the model produced none. */
+  images: string[];
+  /** The model's text-channel response, if any. */
+  text?: string;
+  /** Model id reported by the provider (falls back to the requested id). */
+  model: string;
+  /** Cost of this attempt in USD. */
+  cost: number;
+  finishReason: string | null;
+  refusal?: string;
+  /**
+   * True when the output budget ran out before an image was produced. Retrying
+   * the same request would just pay for that again, so editImage fails fast.
+   */
+  truncated: boolean;
+  /** Counts/metadata for the response log (never image bytes). */
+  summary: Record<string, unknown>;
+}
+
+export interface ImageProviderErrorInput {
+  status: number;
+  statusText: string;
+  rawText: string;
+  detailMessage: string | undefined;
+  modelId: string;
+}
+
+/**
+ * One image backend. editImage owns the generic loop (model failover, retries,
+ * cancellation, logging); the adapter owns everything that depends on the
+ * provider's wire format and semantics.
+ */
+export interface ImageProviderAdapter {
+  id: ImageProviderId;
+  /** Human-facing provider name used in error messages. */
+  label: string;
+  /** Console log prefix, e.g. "[openRouter] image request". */
+  logTag: string;
+  /** Whether requests need the user's OpenRouter key (false for self-hosted backends). */
+  usesOpenRouterKey: boolean;
+  /**
+   * Attempts per model when a request succeeds but returns no image. Only
+   * worth > 1 for providers whose empty responses are transient.
+   */
+  maxNoImageAttempts: number;
+  buildRequest(input: ImageProviderRequestInput): Promise<ImageProviderHttpRequest>;
+  parseResponse(data: any, input: ImageProviderRequestInput): ParsedImageResponse;
+  /**
+   * For providers that can stream: reads a 2xx streamed response, reporting
+   * progress as it arrives, and resolves to the body `parseResponse` takes.
+   * Providers without it always get a plain request and the time estimate.
+   */
+  readStream?(
+    response: Response,
+    onProgress: (progress: GenerationStreamProgress) => void,
+  ): Promise<any>;
+  /** Pull a human-readable message out of an error response body. */
+  getErrorDetail(data: any): string | undefined;
+  /**
+   * True when the error means this particular model key can't serve the
+   * request, so editImage should fail over to the next candidate id.
+   */
+  isModelUnavailable(status: number, detailMessage: string | undefined): boolean;
+  /** The error to throw for a non-2xx response that isn't a failover case. */
+  toRequestError(input: ImageProviderErrorInput): Error;
+}
@@ -0,0 +1,172 @@
+import { isLocalhostHostname } from "../lib/localModels";
+import { getModelNameById } from "../lib/modelsCatalog";
+import { normalizeErrorString, previewMessage } from "./imageProviders/shared";
+
+/**
+ * OpenRouter endpoint, credentials and error semantics shared by the image
+ * adapter (services/imageProviders/openRouterChatAdapter) and the text/credits
+ * calls in openRouterService.
+ */
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const OPENROUTER_KEYS_URL = "https://openrouter.ai/settings/keys";
+
+declare global {
+  interface Window {
+    /** Localhost-only stand-in for OPENROUTER_BASE_URL; see getOpenRouterBaseUrl. */
+    __bloomOpenRouterBaseUrl?: string;
+  }
+}
+
+/**
+ * Where OpenRouter API requests go. OPENROUTER_BASE_URL unless pointed at a
+ * stand-in such as dev/mockOpenRouterServer.ts, either for the whole build by
+ * `VITE_OPENROUTER_BASE_URL`, or per page by a spec setting
+ * `window.__bloomOpenRouterBaseUrl`. The window hook is honoured on localhost
+ * only, like the Local Dummy model's test hooks, so nothing in a deployed page
+ * can send a user's key somewhere else.
+ */
+export const getOpenRouterBaseUrl = (): string => {
+  const pageOverride =
+    typeof window !== "undefined" && isLocalhostHostname(window.location?.hostname)
+      ? window.__bloomOpenRouterBaseUrl
+      : undefined;
+  const configured =
+    pageOverride ||
+    (typeof import.meta !== "undefined" && (import.meta as any).env?.VITE_OPENROUTER_BASE_URL) ||
+    (typeof process !== "undefined" && process.env?.VITE_OPENROUTER_BASE_URL) ||
+    "";
+  return configured.trim().replace(/\/+$/, "") || OPENROUTER_BASE_URL;
+};
+
+export type OpenRouterApiErrorReason = "insufficient-credits" | "rate-limited";
+
+export class OpenRouterApiError extends Error {
+  status: number;
+  reason?: OpenRouterApiErrorReason;
+  detailMessage?: string;
+  infoUrl?: string;
+
+  constructor(
+    message: string,
+    options: {
+      status: number;
+      reason?: OpenRouterApiErrorReason;
+      detailMessage?: string;
+      infoUrl?: string;
+    },
+  ) {
+    super(message);
+    this.name = "OpenRouterApiError";
+    this.status = options.status;
+    this.reason = options.reason;
+    this.detailMessage = options.detailMessage;
+    this.infoUrl = options.infoUrl;
+    Object.setPrototypeOf(this, OpenRouterApiError.prototype);
+  }
+}
+
+/**
+ * The model spent its whole output budget reasoning and returned no image.
+ * Unlike other failures the attempt was billed in full, so the cost OpenRouter
+ * reported travels with the error for the spend ledger.
+ */
+export class OutputBudgetExhaustedError extends Error {
+  costUsd: number;
+  model: string;
+
+  constructor(message: string, options: { costUsd: number; model: string }) {
+    super(message);
+    this.name = "OutputBudgetExhaustedError";
+    this.costUsd = options.costUsd;
+    this.model = options.model;
+    Object.setPrototypeOf(this, OutputBudgetExhaustedError.prototype);
+  }
+}
+
+/**
+ * Detects OpenRouter errors that mean "this particular model key cannot serve
+ * the request" — a retired/renamed key, or one whose endpoints don't offer the
+ * requested output modality. These are the cases where failing over to the next
+ * candidate model id is the right move (unlike credits/rate-limit/no-image,
+ * which are not model-identity problems and must not switch models).
+ *
+ * We try candidate ids ONE PER REQUEST rather than handing OpenRouter a `models`
+ * array, because OpenRouter rejects the whole array with a 400 if any id in it
+ * is unrecognized. That makes the array useless for the case we care about most
+ * — a not-yet-published successor key — but a standalone follow-up request to
+ * the successor works fine once it goes live.
+ */
+export function isModelUnavailableError(
+  status: number,
+  detailMessage: string | null | undefined,
+): boolean {
+  const msg = (detailMessage || "").toLowerCase();
+  // 404 "No endpoints found that support the requested output modalities: ..."
+  if (status === 404 && (msg.includes("no endpoints") || msg.includes("modalit"))) {
+    return true;
+  }
+  // "<id> is not a valid model ID" — unknown/retired key (usually 400 or 404).
+  return msg.includes("not a valid model");
+}
+
+export function getOpenRouterErrorDetail(data: any): string | undefined {
+  return (
+    normalizeErrorString(data?.error?.metadata?.raw) ||
+    normalizeErrorString(data?.error?.message) ||
+    normalizeErrorString(data?.message)
+  );
+}
+
+/**
+ * OpenRouter's raw 429 message ("...is temporarily rate-limited upstream.
+ * Please retry shortly, or add your own key...") is confusing for end users.
+ * Rewrite it into something approachable that names the model in plain terms.
+ */
+export function buildRateLimitMessage(modelId: string): string {
+  const friendlyName = getModelNameById(modelId) || modelId;
+  return `Apparently, the AI server running ${friendlyName} is too busy at the moment, and they would like us to try again later. You could wait and retry, or use a different model.`;
+}
+
+export const buildOpenRouterHeaders = (apiKey: string): Record<string, string> => ({
+  Authorization: `Bearer ${apiKey}`,
+  "Content-Type": "application/json",
+  "HTTP-Referer": window.location.origin,
+  "X-Title": "Bloom AI Image Tools",
+});
+
+/**
+ * The error to throw for a failed (non-2xx) OpenRouter request that isn't a
+ * model-failover case: out of credits, rate limited, or anything else.
+ */
+export const toOpenRouterRequestError = (input: {
+  status: number;
+  statusText: string;
+  rawText: string;
+  detailMessage: string | undefined;
+  modelId: string;
+}): OpenRouterApiError => {
+  const { status, statusText, rawText, detailMessage, modelId } = input;
+  if (status === 402 && detailMessage) {
+    return new OpenRouterApiError(detailMessage, {
+      status,
+      reason: "insufficient-credits",
+      detailMessage,
+      infoUrl: OPENROUTER_KEYS_URL,
+    });
+  }
+
+  if (status === 429) {
+    return new OpenRouterApiError(buildRateLimitMessage(modelId), {
+      status,
+      reason: "rate-limited",
+      detailMessage,
+    });
+  }
+
+  const message = detailMessage || rawText || statusText || "";
+  return new OpenRouterApiError(`OpenRouter request failed: ${status} ${previewMessage(message)}`, {
+    status,
+    detailMessage,
+  });
+};
@@ -1,63 +1,33 @@
-import type { ModelReasoningLevel } from "../types";
-import { getOpenAIOrientation } from "../lib/aspectRatios";
+import type { GenerationStreamProgress, ImageProviderId, ModelReasoningLevel } from "../types";
 import { canUseLocalDummyModelWithoutApiKey, LOCAL_DUMMY_MODEL_ID } from "../lib/localModels";
-import { getModelNameById, getRequestModelIds } from "../lib/modelsCatalog";
+import { getModelInfoById, getRequestModelIds } from "../lib/modelsCatalog";
+import {
+  buildOpenRouterHeaders,
+  buildRateLimitMessage,
+  getOpenRouterBaseUrl,
+  getOpenRouterErrorDetail,
+  isModelUnavailableError,
+  OpenRouterApiError,
+  OutputBudgetExhaustedError,
+  toOpenRouterRequestError,
+} from "./openRouterApi";
+import { getImageProviderAdapter, type ImageConfig } from "./imageProviders";
+import {
+  dataUrlToParts,
+  extractTextContent,
+  normalizeErrorString,
+  previewMessage,
+} from "./imageProviders/shared";
+
+export {
+  getOpenRouterBaseUrl,
+  OPENROUTER_KEYS_URL,
+  OpenRouterApiError,
+  type OpenRouterApiErrorReason,
+  OutputBudgetExhaustedError,
+} from "./openRouterApi";
+export type { ImageConfig } from "./imageProviders";
 
-/**
- * Detects OpenRouter errors that mean "this particular model key cannot serve
- * the request" — a retired/renamed key, or one whose endpoints don't offer the
- * requested output modality. These are the cases where failing over to the next
- * candidate model id is the right move (unlike credits/rate-limit/no-image,
- * which are not model-identity problems and must not switch models).
- *
- * We try candidate ids ONE PER REQUEST rather than handing OpenRouter a `models`
- * array, because OpenRouter rejects the whole array with a 400 if any id in it
- * is unrecognized. That makes the array useless for the case we care about most
- * — a not-yet-published successor key — but a standalone follow-up request to
- * the successor works fine once it goes live.
- */
-function isModelUnavailableError(
-  status: number,
-  detailMessage: string | null | undefined,
-): boolean {
-  const msg = (detailMessage || "").toLowerCase();
-  // 404 "No endpoints found that support the requested output modalities: ..."
-  if (status === 404 && (msg.includes("no endpoints") || msg.includes("modalit"))) {
-    return true;
-  }
-  // "<id> is not a valid model ID" — unknown/retired key (usually 400 or 404).
-  return msg.includes("not a valid model");
-}
-
-const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
-export const OPENROUTER_KEYS_URL = "https://openrouter.ai/settings/keys";
-
-export type OpenRouterApiErrorReason = "insufficient-credits" | "rate-limited";
-
-export class OpenRouterApiError extends Error {
-  status: number;
-  reason?: OpenRouterApiErrorReason;
-  detailMessage?: string;
-  infoUrl?: string;
-
-  constructor(
-    message: string,
-    options: {
-      status: number;
-      reason?: OpenRouterApiErrorReason;
-      detailMessage?: string;
-      infoUrl?: string;
-    },
-  ) {
-    super(message);
-    this.name = "OpenRouterApiError";
-    this.status = options.status;
-    this.reason = options.reason;
-    this.detailMessage = options.detailMessage;
-    this.infoUrl = options.infoUrl;
-    Object.setPrototypeOf(this, OpenRouterApiError.prototype);
-  }
-}
 // Pick an image-generation-capable model; override with env OPENROUTER_IMAGE_MODEL if needed.
 // Note: google/gemini-3.1-flash-lite-preview (aka "Nano Banana") supports image output,
 // whereas google/gemini-2.5-flash only supports text output.
@@ -94,13 +64,6 @@ export interface GenerateTextResult {
   cost: number;
 }
 
-export interface ImageConfig {
-  /** Explicit aspect ratio, for example "1:1" or "16:9". */
-  aspectRatio?: string;
-  /** Size: "512k", "1k", "2k", "4k" */
-  size?: string;
-}
-
 export interface EditImageOptions {
   signal?: AbortSignal;
   imageConfig?: ImageConfig;
@@ -112,6 +75,25 @@ export interface EditImageOptions {
    * (e.g. a character called "Maria"). Use null/"" for unlabeled images.
    */
   imageLabels?: (string | null | undefined)[];
+  /**
+   * Optional inpainting mask (data URL) for the first image: white marks the
+   * region the model may change, black must be left alone. Sent as an extra,
+   * explicitly described image after the sources. The caller still composites
+   * locally (see lib/maskCompositing), so this only steers the model.
+   */
+  mask?: string;
+  /**
+   * Streams the response, where the provider can, and reports what has arrived
+   * after each read. Cancelling a streamed request closes the connection, which
+   * stops the generation instead of paying for an answer nobody will see.
+   */
+  onStreamProgress?: (progress: GenerationStreamProgress) => void;
+  /**
+   * Keys for providers that don't use OpenRouter (e.g. OpenAI's Images API),
+   * supplied at runtime from the user's settings. Never a build variable: those
+   * end up in the bundle every user downloads.
+   */
+  providerApiKeys?: Partial<Record<ImageProviderId, string>>;
 }
 
 export interface GenerateTextOptions {
@@ -129,68 +111,6 @@ export interface FetchOpenRouterCreditsOptions {
   signal?: AbortSignal;
 }
 
-function normalizeErrorString(value: unknown): string | undefined {
-  if (typeof value !== "string") {
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  return trimmed || undefined;
-}
-
-function getOpenRouterErrorDetail(data: any): string | undefined {
-  return (
-    normalizeErrorString(data?.error?.metadata?.raw) ||
-    normalizeErrorString(data?.error?.message) ||
-    normalizeErrorString(data?.message)
-  );
-}
-
-/**
- * OpenRouter's raw 429 message ("...is temporarily rate-limited upstream.
- * Please retry shortly, or add your own key...") is confusing for end users.
- * Rewrite it into something approachable that names the model in plain terms.
- */
-function buildRateLimitMessage(modelId: string): string {
-  const friendlyName = getModelNameById(modelId) || modelId;
-  return `Apparently, the AI server running ${friendlyName} is too busy at the moment, and they would like us to try again later. You could wait and retry, or use a different model.`;
-}
-
-function dataUrlToParts(dataUrl: string): { base64: string; mimeType: string } {
-  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL");
-  }
-
-  return {
-    mimeType: match[1] || "image/png",
-    base64: match[2],
-  };
-}
-
-const extractTextContent = (messageContent: unknown): string => {
-  if (typeof messageContent === "string") {
-    return messageContent.trim();
-  }
-
-  if (!Array.isArray(messageContent)) {
-    return "";
-  }
-
-  return messageContent
-    .map((part) => {
-      if (typeof part === "string") {
-        return part;
-      }
-      if (part?.type === "text" && typeof part.text === "string") {
-        return part.text;
-      }
-      return "";
-    })
-    .join("\n")
-    .trim();
-};
-
 const stripMarkdownCodeFence = (text: string): string => {
   const trimmed = text.trim();
   const match = trimmed.match(/^```[\w-]*\s*\r?\n([\s\S]*?)\r?\n```$/);
@@ -202,29 +122,6 @@ const stripMarkdownCodeFence = (text: string): string => {
   return match[1].trim();
 };
 
-/**
- * Maps an explicit aspect ratio to Gemini's aspect_ratio format.
- */
-function mapAspectRatioToGeminiAspectRatio(aspectRatio?: string): string {
-  return aspectRatio?.trim() || "1:1";
-}
-
-/**
- * Maps an aspect ratio to OpenAI size format.
- * GPT image models support: "1024x1024", "1536x1024" (landscape), "1024x1536" (portrait)
- */
-function mapAspectRatioToOpenAISize(aspectRatio?: string): string {
-  switch (getOpenAIOrientation(aspectRatio)) {
-    case "portrait":
-      return "1024x1536";
-    case "landscape":
-      return "1536x1024";
-    case "square":
-    default:
-      return "1024x1024";
-  }
-}
-
 const getNow = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
 
 const resolveLocalDummyDimensions = (aspectRatio?: string) => {
@@ -578,26 +475,6 @@ const createLocalDummyImage = async (
   return canvas.toDataURL("image/png");
 };
 
-/**
- * Maps size parameter to Gemini image_size format.
- * Gemini supports: "1K", "2K", "4K" (note: uppercase K required).
- * The UI exposes a 512k preset for Gemini 3.1 Flash, which maps to Gemini's
- * lowest supported image-size tier.
- */
-function mapSizeToGeminiImageSize(size?: string): string {
-  switch (size?.toLowerCase()) {
-    case "512k":
-      return "1K";
-    case "2k":
-      return "2K";
-    case "4k":
-      return "4K";
-    case "1k":
-    default:
-      return "1K";
-  }
-}
-
 /**
  * `.catch` handler for response-body reads: rethrow a cancellation so it
  * propagates, but treat any other read failure as an empty body (the callers
@@ -611,10 +488,11 @@ const rethrowIfAbort = (error: unknown): string => {
 };
 
 /**
- * Uses OpenRouter image endpoints to generate or edit an image.
+ * Generates or edits an image with the model's image provider (OpenRouter
+ * unless the catalog entry names another; see services/imageProviders).
  * @param base64Images - Source images for editing/reference (data URLs). Empty array for generation.
  * @param prompt - Instruction sent to the model.
- * @param apiKey - OpenRouter API key. Sources (handled by caller):
+ * @param apiKey - OpenRouter API key (ignored by providers that don't use it). Sources (handled by caller):
  *   1. Playwright tests: injected via Vite's define from BLOOM_OPENROUTER_KEY_FOR_PLAYWRIGHT_TESTS
  *   2. App OAuth flow: obtained via OpenRouter OAuth and stored in localStorage
  *   3. App manual entry (future): user-provided key
@@ -642,51 +520,19 @@ export const editImage = async (
     };
   }
 
-  const key = apiKey?.trim();
-  if (!key) {
+  const modelInfo = getModelInfoById(modelToUse);
+  const adapter = getImageProviderAdapter(modelInfo?.provider);
+
+  const key = apiKey?.trim() ?? "";
+  if (adapter.usesOpenRouterKey && !key) {
     throw new Error("OpenRouter API key is missing. Connect to OpenRouter to continue.");
   }
 
-  const { signal, imageConfig } = options ?? {};
+  const { signal, imageConfig, onStreamProgress } = options ?? {};
+  const streamResponse = !!(onStreamProgress && adapter.readStream);
   const reasoningLevel = options?.reasoningLevel ?? "default";
   const localStartTime = getNow();
   const images = (base64Images || []).filter((x) => !!x);
-  const hasImage = images.length > 0;
-
-  const content: any[] = [{ type: "text", text: prompt }];
-  if (hasImage) {
-    const labels = options?.imageLabels ?? [];
-    images.forEach((dataUrl, index) => {
-      const label = labels[index]?.trim();
-      if (label) {
-        content.push({
-          type: "text",
-          text: `The next image shows "${label}". When the instructions mention "${label}", they refer to the subject of this image.`,
-        });
-      }
-      const { base64, mimeType } = dataUrlToParts(dataUrl);
-      content.push({
-        type: "image_url",
-        image_url: { url: `data:${mimeType};base64,${base64}` },
-      });
-    });
-  }
-
-  // Build image generation parameters for different providers.
-  // - google/* (Gemini): uses image_config with image_size "1K"|"2K"|"4K"
-  // - openai/gpt-5.4-image*: uses image_config but only supports "1K"|"2K" (not "4K")
-  // - other OpenAI (gpt-image-1, DALL-E, etc.): uses size as pixel dimensions
-  const isGeminiModel = modelToUse.startsWith("google/");
-  const isGpt54ImageModel = modelToUse.startsWith("openai/gpt-5.4-image");
-  const usesImageConfig = isGeminiModel || isGpt54ImageModel;
-
-  const geminiAspectRatio = mapAspectRatioToGeminiAspectRatio(imageConfig?.aspectRatio);
-  const rawImageSize = mapSizeToGeminiImageSize(imageConfig?.size);
-  // gpt-5.4-image-2 caps at "2K"; cap any "4K" request to "2K" for those models
-  const resolvedImageSize = !isGeminiModel && rawImageSize === "4K" ? "2K" : rawImageSize;
-
-  // OpenAI-style size (pixel dimensions) for models that don't support image_config
-  const openAISize = mapAspectRatioToOpenAISize(imageConfig?.aspectRatio);
 
   // Ordered model keys to try, one HTTP request each (see
   // isModelUnavailableError for why we don't send these as a `models` array).
@@ -694,42 +540,12 @@ export const editImage = async (
   // renamed/successor key listed via the catalog's `fallbackId`.
   const candidateModelIds = getRequestModelIds(modelToUse);
 
-  const body: Record<string, any> = {
-    // `model` is set per candidate inside the failover loop below.
-    messages: [
-      {
-        role: "user",
-        content,
-      },
-    ],
-    modalities: ["text", "image"],
-    stream: false,
-    // The generated image is billed as output tokens in the SAME budget as any
-    // reasoning/commentary text. Without an explicit ceiling, a "thinking"
-    // model (e.g. Gemini 3 Flash) can spend the default completion budget on
-    // reasoning and hit finish_reason="length" (MAX_TOKENS) BEFORE it emits the
-    // image — surfacing as "did not return an image." Give image requests ample
-    // headroom so reasoning + image both fit. (Image output itself is small:
-    // <=2520 tokens even at 4K, so this budget is almost entirely for thinking.)
-    max_tokens: 64_000,
-    // Provider-specific image size parameters — only include what the model accepts
-    ...(usesImageConfig
-      ? {
-          image_config: {
-            aspect_ratio: geminiAspectRatio,
-            image_size: resolvedImageSize,
-          },
-        }
-      : { size: openAISize }),
-  };
-
-  // Gemini image endpoints fail to return an image in several DIFFERENT ways,
-  // all observed with the exact same request resent. Every attempt uses the
-  // reasoning effort the user asked for — we never silently change it:
-  //   - empty response: finish_reason="stop" with 0 completion tokens (costs
-  //     only the prompt). Transient; a plain retry usually succeeds.
-  //   - text without image: the model answers the text part of a combined
-  //     image+text prompt but skips the image. Also transient; retry.
+  // Providers fail to return an image in different ways; each adapter decides
+  // how many no-image attempts are worth making (maxNoImageAttempts) and flags
+  // truncation. Every attempt uses the reasoning effort the user asked for —
+  // we never silently change it:
+  //   - transient no-image (e.g. Gemini's empty response, or text without the
+  //     image): the same request resent usually succeeds, so retry.
   //   - truncation: reasoning consumes the same output-token budget as the
   //     image, so finish_reason="length"/MAX_TOKENS arrives before the image.
   //     The whole budget was spent (and billed) on thinking, so retrying the
@@ -741,7 +557,7 @@ export const editImage = async (
   // mandatory for this endpoint and cannot be disabled"). "default" (and an
   // explicit "none" request) omit the reasoning parameter entirely and leave
   // the decision to the model.
-  const MAX_IMAGE_ATTEMPTS = 3;
+  const maxImageAttempts = adapter.maxNoImageAttempts;
   const effort: string | null =
     reasoningLevel === "default" || reasoningLevel === "none" ? null : reasoningLevel;
 
@@ -751,182 +567,134 @@ export const editImage = async (
     const modelForRequest = candidateModelIds[modelIndex];
     const hasFallbackModel = modelIndex < candidateModelIds.length - 1;
     const nextModelId = hasFallbackModel ? candidateModelIds[modelIndex + 1] : null;
-    body.model = modelForRequest;
+    const requestInput = {
+      modelId: modelForRequest,
+      modelInfo,
+      prompt,
+      images,
+      imageLabels: options?.imageLabels ?? [],
+      mask: images.length > 0 ? options?.mask : undefined,
+      imageConfig,
+      reasoningEffort: effort,
+      apiKey: adapter.usesOpenRouterKey ? key : (options?.providerApiKeys?.[adapter.id] ?? ""),
+      stream: streamResponse,
+    };
+    const request = await adapter.buildRequest(requestInput);
     let modelUnavailable = false;
 
-    for (let attempt = 0; attempt < MAX_IMAGE_ATTEMPTS; attempt += 1) {
-      if (effort) {
-        // We only need the image output, not the model's reasoning text.
-        body.reasoning = { effort, exclude: true };
-      } else {
-        delete body.reasoning;
-      }
-
+    for (let attempt = 0; attempt < maxImageAttempts; attempt += 1) {
       // Log the request parameters (never the image bytes) so the full request is
       // visible in the console without opening the Network panel.
-      console.log("[openRouter] image request", {
+      console.log(`[${adapter.logTag}] image request`, {
         model: modelForRequest,
         attempt: attempt + 1,
-        attemptsPlanned: MAX_IMAGE_ATTEMPTS,
+        attemptsPlanned: maxImageAttempts,
         reasoningLevelRequested: reasoningLevel,
         reasoningEffortSent: effort ?? "(omitted — model default)",
-        modalities: body.modalities,
-        maxTokens: body.max_tokens,
-        sizeOpenAI: body.size,
-        imageConfigGemini: body.image_config,
+        ...request.summary,
         inputImageCount: images.length,
         promptChars: prompt.length,
         promptPreview: prompt.length > 300 ? `${prompt.slice(0, 300)}…` : prompt,
       });
 
-      const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${key}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": window.location.origin,
-          "X-Title": "Bloom AI Image Tools",
-        },
-        body: JSON.stringify(body),
-        signal,
-      });
+      const response = await fetch(request.url, { ...request.init, signal });
 
-      // If the user cancelled while the body was streaming, the read rejects with
-      // AbortError — rethrow it so cancel propagates instead of being swallowed
-      // into an empty body and treated as a retryable "no image" response.
-      const rawText = await response.text().catch(rethrowIfAbort);
+      let rawText = "";
       let data: any = null;
-      try {
-        data = rawText ? JSON.parse(rawText) : null;
-      } catch {
-        data = { _nonJsonBody: rawText };
+      if (response.ok && streamResponse && adapter.readStream && onStreamProgress) {
+        onStreamProgress({ stage: "waiting", reasoningChars: 0, text: "", imagesReceived: 0 });
+        data = await adapter.readStream(response, onStreamProgress);
+      } else {
+        // If the user cancelled while the body was streaming, the read rejects with
+        // AbortError — rethrow it so cancel propagates instead of being swallowed
+        // into an empty body and treated as a retryable "no image" response.
+        rawText = await response.text().catch(rethrowIfAbort);
+        try {
+          data = rawText ? JSON.parse(rawText) : null;
+        } catch {
+          data = { _nonJsonBody: rawText };
+        }
+      }
+
+      // A streamed request can still fail after its 200 (e.g. the upstream
+      // provider errors mid-generation); the error arrives as a chunk.
+      if (streamResponse && response.ok && data?.error) {
+        throw adapter.toRequestError({
+          status: Number(data.error.code) || 502,
+          statusText: "",
+          rawText: JSON.stringify(data.error),
+          detailMessage: adapter.getErrorDetail(data),
+          modelId: modelForRequest,
+        });
       }
 
       if (!response.ok) {
-        const detailMessage = getOpenRouterErrorDetail(data);
+        const detailMessage = adapter.getErrorDetail(data);
 
         // Retired/renamed key, or one with no image-output endpoint: try the next
         // candidate model instead of failing the whole request.
-        if (hasFallbackModel && isModelUnavailableError(response.status, detailMessage)) {
+        if (hasFallbackModel && adapter.isModelUnavailable(response.status, detailMessage)) {
           console.warn(
-            `[openRouter] model "${modelForRequest}" unavailable (${response.status}); ` +
+            `[${adapter.logTag}] model "${modelForRequest}" unavailable (${response.status}); ` +
               `falling over to "${nextModelId}".`,
           );
           modelUnavailable = true;
           break;
         }
 
-        if (response.status === 402 && detailMessage) {
-          throw new OpenRouterApiError(detailMessage, {
-            status: response.status,
-            reason: "insufficient-credits",
-            detailMessage,
-            infoUrl: OPENROUTER_KEYS_URL,
-          });
-        }
-
-        if (response.status === 429) {
-          throw new OpenRouterApiError(buildRateLimitMessage(modelForRequest), {
-            status: response.status,
-            reason: "rate-limited",
-            detailMessage,
-          });
-        }
-
-        const message = detailMessage || rawText || response.statusText || "";
-        const preview = message.length > 500 ? `${message.slice(0, 500)}…` : message;
-        throw new OpenRouterApiError(`OpenRouter request failed: ${response.status} ${preview}`, {
+        throw adapter.toRequestError({
           status: response.status,
+          statusText: response.statusText,
+          rawText,
           detailMessage,
+          modelId: modelForRequest,
         });
       }
 
-      // Try to extract image(s) from chat-style response. Interleaved image
-      // models can return MORE THAN ONE image (e.g. one per panel), so collect
-      // them all in order rather than stopping at the first.
-      const choice = data?.choices?.[0];
-      const contentArray = choice?.message?.content;
-      const imagesArray = choice?.message?.images;
-      const finishReason = choice?.finish_reason ?? choice?.native_finish_reason ?? null;
-      const returnedText =
-        extractTextContent(contentArray) || normalizeErrorString(choice?.message?.text);
-
-      const collectedImages: string[] = [];
-      const addImage = (url: unknown) => {
-        if (
-          typeof url === "string" &&
-          url.startsWith("data:image") &&
-          !collectedImages.includes(url)
-        ) {
-          collectedImages.push(url);
-        }
-      };
-      // Content array (some models return images here)
-      if (Array.isArray(contentArray)) {
-        for (const part of contentArray) {
-          if (part?.type === "image_url" && part?.image_url?.url) addImage(part.image_url.url);
-        }
-      }
-      // Images array (Gemini models return images here)
-      if (Array.isArray(imagesArray)) {
-        for (const part of imagesArray) {
-          if (part?.type === "image_url" && part?.image_url?.url) addImage(part.image_url.url);
-        }
-      }
-      // OpenAI-style b64_json data array (DALL·E / gpt-image)
-      if (collectedImages.length === 0 && Array.isArray(data?.data)) {
-        for (const entry of data.data) {
-          if (entry?.b64_json) addImage(`data:image/png;base64,${entry.b64_json}`);
-        }
-      }
+      const parsed = adapter.parseResponse(data, requestInput);
 
       // Log the response shape (counts/metadata only — never the image bytes).
-      console.log("[openRouter] image response", {
+      console.log(`[${adapter.logTag}] image response`, {
         status: response.status,
-        model: (data?.model as string) || modelForRequest,
+        model: parsed.model,
         attempt: attempt + 1,
         reasoningEffortSent: effort ?? "(omitted — model default)",
-        finishReason,
-        imagesReturned: collectedImages.length,
-        textChars: returnedText?.length ?? 0,
-        textPreview: returnedText ? returnedText.slice(0, 400) : null,
-        cost: (data?.usage?.cost as number) ?? null,
-        usage: data?.usage ?? null,
+        finishReason: parsed.finishReason,
+        imagesReturned: parsed.images.length,
+        textChars: parsed.text?.length ?? 0,
+        textPreview: parsed.text ? parsed.text.slice(0, 400) : null,
+        ...parsed.summary,
       });
 
-      if (collectedImages.length > 0) {
+      if (parsed.images.length > 0) {
         return {
-          imageData: collectedImages[0],
-          images: collectedImages,
+          imageData: parsed.images[0],
+          images: parsed.images,
           duration: getNow() - localStartTime,
-          model: (data?.model as string) || modelForRequest,
-          cost: (data?.usage?.cost as number) ?? 0,
-          text: extractTextContent(contentArray) || undefined,
+          model: parsed.model,
+          cost: parsed.cost,
+          text: parsed.text,
         };
       }
 
       // No image. Diagnose what came back so the failure isn't opaque.
-      const refusal = normalizeErrorString(choice?.message?.refusal);
-      console.warn("[openRouter] No image in response.", {
+      console.warn(`[${adapter.logTag}] No image in response.`, {
         attempt,
         effort,
-        model: (data?.model as string) || modelForRequest,
-        finishReason,
-        refusal: refusal || null,
-        textPreview: returnedText ? returnedText.slice(0, 800) : null,
-        hadContentArray: Array.isArray(contentArray),
-        hadImagesArray: Array.isArray(imagesArray),
+        model: parsed.model,
+        finishReason: parsed.finishReason,
+        refusal: parsed.refusal || null,
+        textPreview: parsed.text ? parsed.text.slice(0, 800) : null,
       });
 
       const detail =
-        refusal ||
-        returnedText ||
-        (finishReason ? `finish_reason="${finishReason}"` : "") ||
+        parsed.refusal ||
+        parsed.text ||
+        (parsed.finishReason ? `finish_reason="${parsed.finishReason}"` : "") ||
         "no text either";
-      lastNoImageDetail = detail.length > 300 ? `${detail.slice(0, 300)}…` : detail;
+      lastNoImageDetail = previewMessage(detail, 300);
 
-      const truncated = finishReason === "length" || finishReason === "MAX_TOKENS";
-      if (truncated) {
+      if (parsed.truncated) {
         // The full output-token budget was spent (and billed) on reasoning, so
         // resending the same request would likely just burn it again. Tell the
         // user what to change instead of retrying or silently lowering it.
@@ -941,15 +709,16 @@ export const editImage = async (
           : reasoningLevel === "low"
             ? "Reasoning is already at the lowest level; try a smaller image size."
             : 'Try setting it to "low" in the model settings.';
-        throw new Error(
+        throw new OutputBudgetExhaustedError(
           `The model spent its whole output budget thinking before producing the image. ` +
             `The reasoning level is currently ${currentLevel}. ${suggestion}`,
+          { costUsd: parsed.cost, model: parsed.model },
         );
       }
 
-      if (attempt < MAX_IMAGE_ATTEMPTS - 1) {
+      if (attempt < maxImageAttempts - 1) {
         console.warn(
-          `[openRouter] No image in response (attempt ${attempt + 1}/${MAX_IMAGE_ATTEMPTS}); retrying.`,
+          `[${adapter.logTag}] No image in response (attempt ${attempt + 1}/${maxImageAttempts}); retrying.`,
         );
       }
     }
@@ -964,7 +733,7 @@ export const editImage = async (
   }
 
   throw new Error(
-    `OpenRouter did not return an image. The model responded with: ${lastNoImageDetail}`,
+    `${adapter.label} did not return an image. The model responded with: ${lastNoImageDetail}`,
   );
 };
 
@@ -1024,14 +793,9 @@ export const generateText = async (
     let modelUnavailable = false;
 
     for (let attempt = 0; attempt < MAX_TEXT_ATTEMPTS; attempt += 1) {
-      const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
+      const response = await fetch(`${getOpenRouterBaseUrl()}/chat/completions`, {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${key}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": window.location.origin,
-          "X-Title": "Bloom AI Image Tools",
-        },
+        headers: buildOpenRouterHeaders(key),
         body: requestBody,
         signal: options?.signal,
       });
@@ -1058,28 +822,12 @@ export const generateText = async (
           break;
         }
 
-        if (response.status === 402 && detailMessage) {
-          throw new OpenRouterApiError(detailMessage, {
-            status: response.status,
-            reason: "insufficient-credits",
-            detailMessage,
-            infoUrl: OPENROUTER_KEYS_URL,
-          });
-        }
-
-        if (response.status === 429) {
-          throw new OpenRouterApiError(buildRateLimitMessage(modelForRequest), {
-            status: response.status,
-            reason: "rate-limited",
-            detailMessage,
-          });
-        }
-
-        const message = detailMessage || rawText || response.statusText || "";
-        const preview = message.length > 500 ? `${message.slice(0, 500)}…` : message;
-        throw new OpenRouterApiError(`OpenRouter request failed: ${response.status} ${preview}`, {
+        throw toOpenRouterRequestError({
           status: response.status,
+          statusText: response.statusText,
+          rawText,
           detailMessage,
+          modelId: modelForRequest,
         });
       }
 
@@ -1136,7 +884,7 @@ export const fetchOpenRouterCredits = async (
     throw new Error("OpenRouter API key is missing. Connect to OpenRouter to continue.");
   }
 
-  const response = await fetch(`${OPENROUTER_BASE_URL}/credits`, {
+  const response = await fetch(`${getOpenRouterBaseUrl()}/credits`, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${key}`,
@@ -1157,9 +905,8 @@ export const fetchOpenRouterCredits = async (
   if (!response.ok) {
     const detailMessage = getOpenRouterErrorDetail(data);
     const message = detailMessage || rawText || response.statusText || "";
-    const preview = message.length > 500 ? `${message.slice(0, 500)}…` : message;
     throw new OpenRouterApiError(
-      `Failed to fetch OpenRouter credits: ${response.status} ${preview}`,
+      `Failed to fetch OpenRouter credits: ${response.status} ${previewMessage(message)}`,
       {
         status: response.status,
         detailMessage,
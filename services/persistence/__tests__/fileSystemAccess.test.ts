@@ -1,8 +1,13 @@
 import { describe, expect, it } from "vite-plus/test";
 import { ImageRecord } from "../../../types";
 import {
+  deletePersistedHistoryItems,
+  listHistoryImageFiles,
+  listTrashedHistoryItems,
   readFolderPersistedState,
   readImageFile,
+  readTrashedHistoryImage,
+  restoreTrashedHistoryItem,
   writeHistoryImageRecord,
   writeImageFile,
 } from "../fileSystemAccess";
@@ -445,3 +450,32 @@ describe("writeImageFile", () => {
     expect(persisted?.thumbnailStrips?.itemIdsByStrip.reference).toEqual(["book-page"]);
   });
 });
+
+describe("history folder trash", () => {
+  it("keeps deleted images listed without their bytes until restored", async () => {
+    const root = makeDir();
+    const binding = {
+      directoryHandle: createMockDirectoryHandle(root) as unknown as FileSystemDirectoryHandle,
+      directoryName: "dropbox-history",
+    };
+    const kept = await writeHistoryImageRecord(binding, buildImageRecord({ id: "kept" }));
+    const doomed = await writeHistoryImageRecord(binding, buildImageRecord({ id: "doomed" }));
+
+    await deletePersistedHistoryItems(binding, [doomed]);
+
+    expect((await listHistoryImageFiles(binding)).map((file) => file.id)).toEqual([kept.id]);
+    const trash = await listTrashedHistoryItems(binding);
+    expect(trash.map((item) => item.record.id)).toEqual(["doomed"]);
+    expect(trash[0].record.imageData).toBe("");
+    expect((await readTrashedHistoryImage(binding, trash[0].record))?.size).toBeGreaterThan(0);
+
+    const restored = await restoreTrashedHistoryItem(binding, "doomed");
+
+    expect(restored?.imageData).toBe(SAMPLE_PNG_DATA_URL);
+    expect(await listTrashedHistoryItems(binding)).toEqual([]);
+    expect((await listHistoryImageFiles(binding)).map((file) => file.id).sort()).toEqual([
+      "doomed",
+      "kept",
+    ]);
+  });
+});
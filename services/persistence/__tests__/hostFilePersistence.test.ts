@@ -1,7 +1,13 @@
 import { describe, expect, it } from "vite-plus/test";
-import { createBloomHostPersistence } from "../bloomHostPersistence";
-import { IBloomHostBridge, IBloomHostHistoryImage } from "../../host/BloomHostBridge";
-import { HistoryImageSidecar, ImageRecord, PersistedImageToolsState } from "../../../types";
+import { createHostFilePersistence } from "../hostFilePersistence";
+import { IHostBridge, IHostHistoryImage } from "../../host/hostBridge";
+import {
+  ExternalHistoryChange,
+  HistoryImageSidecar,
+  ImageRecord,
+  PersistedImageToolsState,
+} from "../../../types";
+import { DEFAULT_IMAGE_OUTPUT_SETTINGS } from "../../../lib/imageOutputFormat";
 
 const makeSidecar = (id: string, over: Partial<HistoryImageSidecar> = {}): HistoryImageSidecar => ({
   id,
@@ -51,7 +57,7 @@ const makeUiState = (over: Partial<PersistedImageToolsState> = {}): PersistedIma
 const createBridge = () => {
   const fileStore = new Map<string, string>();
 
-  const bridge: IBloomHostBridge = {
+  const bridge: IHostBridge = {
     ready() {},
     onInit() {
       return () => {};
@@ -59,12 +65,20 @@ const createBridge = () => {
     onRequestClose() {
       return () => {};
     },
+    onBookImagesChanged() {
+      return () => {};
+    },
+    onHistoryChanged() {
+      return () => {};
+    },
     async commit() {},
+    async applyReplacement() {},
     cancel() {},
     log() {},
     openExternalUrl() {},
     saveCredentials() {},
     trackEvent() {},
+    reportProgress() {},
     async getFile(name) {
       return fileStore.get(name) ?? null;
     },
@@ -82,10 +96,10 @@ const createBridge = () => {
   return { bridge, fileStore };
 };
 
-describe("createBloomHostPersistence", () => {
+describe("createHostFilePersistence", () => {
   it("builds history from the host-enumerated folder, ordered by timestamp", async () => {
     const { bridge } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       {
         id: "edit-2",
         url: "https://host/history/edit-2.png",
@@ -99,7 +113,7 @@ describe("createBloomHostPersistence", () => {
       // Orphan: a file dropped into the folder with no sidecar.
       { id: "orphan-1", url: "https://host/history/orphan-1.png" },
     ];
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     const restored = await persistence.load();
     const history = restored?.appState.history ?? [];
@@ -127,7 +141,7 @@ describe("createBloomHostPersistence", () => {
       // (Bloom's BL-16603); toEqual below pins that the sidecar keeps every field.
       licenseRightsStatement: "Not to be used in advertising.",
     };
-    const persistence = createBloomHostPersistence(bridge, { historyImages: [] });
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
 
     await persistence.save(
       makeUiState({
@@ -153,7 +167,7 @@ describe("createBloomHostPersistence", () => {
     expect(uncreditedSidecar.credits).toBeUndefined();
 
     // A next session gets the credits back via the host-enumerated sidecar.
-    const reloaded = createBloomHostPersistence(bridge, {
+    const reloaded = createHostFilePersistence(bridge, {
       historyImages: [
         {
           id: "credited",
@@ -184,10 +198,10 @@ describe("createBloomHostPersistence", () => {
         }),
       ),
     );
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       { id: "edit-1", url: "https://host/history/edit-1.png", metadata: makeSidecar("edit-1") },
     ];
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     const restored = await persistence.load();
 
@@ -197,14 +211,14 @@ describe("createBloomHostPersistence", () => {
 
   it("returns null when there is no state.json and no enumerated history", async () => {
     const { bridge } = createBridge();
-    const persistence = createBloomHostPersistence(bridge, { historyImages: [] });
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
 
     expect(await persistence.load()).toBeNull();
   });
 
   it("writes png + sidecar for a freshly generated image and UI-only state.json", async () => {
     const { bridge, fileStore } = createBridge();
-    const persistence = createBloomHostPersistence(bridge, { historyImages: [] });
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
 
     await persistence.save(
       makeUiState({
@@ -229,9 +243,230 @@ describe("createBloomHostPersistence", () => {
     expect(savedMeta.appState.history).toEqual([]);
   });
 
+  it("rewrites an image whose bytes changed but whose data URL kept its length", async () => {
+    const { bridge, fileStore } = createBridge();
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
+    const saveImage = (imageData: string) =>
+      persistence.save(
+        makeUiState({
+          appState: {
+            targetImageId: null,
+            referenceImageIds: [],
+            rightPanelImageId: null,
+            history: [makeRecord("gen-1", imageData)],
+          },
+        }),
+      );
+
+    // Long enough that only a sample of it would be compared, edited between samples.
+    const original = `data:image/png;base64,${"A".repeat(9000)}`;
+    const edited = `${original.slice(0, 23)}B${original.slice(24)}`;
+    await saveImage(original);
+    await saveImage(edited);
+
+    expect(fileStore.get("history/gen-1.png")).toBe(edited);
+  });
+
+  it("writes images in the output format and records the mime in the sidecar", async () => {
+    const { bridge, fileStore } = createBridge();
+    const encoded: string[] = [];
+    const persistence = createHostFilePersistence(bridge, {
+      historyImages: [
+        {
+          id: "old-1",
+          url: "https://host/history/old-1.jpg",
+          metadata: makeSidecar("old-1", { imageMime: "image/jpeg" }),
+        },
+      ],
+      hostReadsResultFiles: true,
+      encodeImage: async (imageData, settings) => {
+        encoded.push(imageData);
+        return settings.format === "jpeg"
+          ? { dataUrl: "data:image/jpeg;base64,jpg", mimeType: "image/jpeg", byteSize: 2 }
+          : { dataUrl: imageData, mimeType: "image/png", byteSize: 2 };
+      },
+    });
+    const history = [makeRecord("gen-1", "data:image/png;base64,abc")];
+    fileStore.set("history/old-1.jpg", "data:image/jpeg;base64,old");
+
+    await persistence.save(
+      makeUiState({
+        appState: { targetImageId: null, referenceImageIds: [], rightPanelImageId: null, history },
+        imageOutput: { ...DEFAULT_IMAGE_OUTPUT_SETTINGS, format: "jpeg" },
+      }),
+    );
+
+    expect(fileStore.get("history/gen-1.jpg")).toBe("data:image/jpeg;base64,jpg");
+    expect(fileStore.has("history/gen-1.png")).toBe(false);
+    const sidecar = JSON.parse(fileStore.get("history/gen-1.json")!) as HistoryImageSidecar;
+    expect(sidecar.imageMime).toBe("image/jpeg");
+    // A removed entry's file is deleted under the extension it has on disk.
+    expect(fileStore.has("history/old-1.jpg")).toBe(false);
+
+    // A commit right after reuses the file save wrote, without encoding again.
+    expect(await persistence.writeHistoryImage("gen-1", "data:image/png;base64,abc")).toBe(
+      "history/gen-1.jpg",
+    );
+    expect(encoded).toHaveLength(1);
+
+    // New bytes under the same id are encoded again; a deleted id starts over.
+    await persistence.writeHistoryImage("gen-1", "data:image/png;base64,xyz");
+    expect(encoded).toHaveLength(2);
+    await persistence.save(makeUiState());
+    await persistence.writeHistoryImage("gen-1", "data:image/png;base64,xyz");
+    expect(encoded).toHaveLength(3);
+  });
+
+  it("commits a shrunk copy outside history/ and keeps the full-size history file", async () => {
+    const { bridge, fileStore } = createBridge();
+    const persistence = createHostFilePersistence(bridge, {
+      historyImages: [],
+      hostReadsResultFiles: true,
+      encodeImage: async (imageData) => ({
+        dataUrl: imageData,
+        mimeType: "image/png",
+        byteSize: 1,
+      }),
+      resizeImage: async (imageData, maxLongEdge) =>
+        maxLongEdge < 2048 ? `data:image/png;base64,small${maxLongEdge}` : imageData,
+    });
+    const history = [makeRecord("gen-1", "data:image/png;base64,big")];
+    await persistence.save(
+      makeUiState({
+        appState: { targetImageId: null, referenceImageIds: [], rightPanelImageId: null, history },
+        imageOutput: { ...DEFAULT_IMAGE_OUTPUT_SETTINGS, commitResize: "book-image" },
+      }),
+    );
+
+    const shrunk = await persistence.writeCommitImage("gen-1", "data:image/png;base64,big", {
+      width: 800,
+      height: 600,
+    });
+    expect(shrunk.fileName).toBe("commit/gen-1.png");
+    expect(fileStore.get("commit/gen-1.png")).toBe("data:image/png;base64,small800");
+    expect(fileStore.get("history/gen-1.png")).toBe("data:image/png;base64,big");
+    await shrunk.release();
+    expect(fileStore.has("commit/gen-1.png")).toBe(false);
+
+    // Already small enough for the slot: the history file itself is used.
+    const fullSize = await persistence.writeCommitImage("gen-1", "data:image/png;base64,big", {
+      width: 3000,
+      height: 2000,
+    });
+    expect(fullSize.fileName).toBe("history/gen-1.png");
+    await fullSize.release();
+    expect(fileStore.has("history/gen-1.png")).toBe(true);
+  });
+
+  it("writes full-size PNG unless the host reads result files", async () => {
+    const { bridge, fileStore } = createBridge();
+    const persistence = createHostFilePersistence(bridge, {
+      historyImages: [],
+      encodeImage: async (imageData, settings) =>
+        settings.format === "png"
+          ? { dataUrl: imageData, mimeType: "image/png", byteSize: 1 }
+          : { dataUrl: "data:image/jpeg;base64,jpg", mimeType: "image/jpeg", byteSize: 1 },
+      resizeImage: async () => "data:image/png;base64,small",
+    });
+    const history = [makeRecord("gen-1", "data:image/png;base64,big")];
+    await persistence.save(
+      makeUiState({
+        appState: { targetImageId: null, referenceImageIds: [], rightPanelImageId: null, history },
+        imageOutput: {
+          ...DEFAULT_IMAGE_OUTPUT_SETTINGS,
+          format: "jpeg",
+          commitResize: "max-long-edge",
+        },
+      }),
+    );
+
+    expect(fileStore.get("history/gen-1.png")).toBe("data:image/png;base64,big");
+    const commitImage = await persistence.writeCommitImage("gen-1", "data:image/png;base64,big", {
+      width: 800,
+      height: 600,
+    });
+    expect(commitImage.fileName).toBe("history/gen-1.png");
+  });
+
+  it("reports history another writer added, changed or removed, but not its own writes", async () => {
+    const { bridge, fileStore } = createBridge();
+    const listed = (id: string, over: Partial<HistoryImageSidecar> = {}) => ({
+      id,
+      url: `https://host/history/${id}.png`,
+      metadata: makeSidecar(id, over),
+    });
+    const persistence = createHostFilePersistence(bridge, {
+      historyImages: [listed("kept-1"), listed("renamed-1"), listed("deleted-1")],
+    });
+    const changes: ExternalHistoryChange[] = [];
+    persistence.onExternalHistoryChange((change) => changes.push(change));
+    const history = [
+      makeRecord("kept-1", "https://host/history/kept-1.png"),
+      makeRecord("renamed-1", "https://host/history/renamed-1.png"),
+      makeRecord("deleted-1", "https://host/history/deleted-1.png"),
+      makeRecord("gen-1", "data:image/png;base64,abc"),
+    ];
+    await persistence.save(
+      makeUiState({
+        appState: { targetImageId: null, referenceImageIds: [], rightPanelImageId: null, history },
+      }),
+    );
+    const ownSidecar = JSON.parse(fileStore.get("history/gen-1.json")!) as HistoryImageSidecar;
+
+    persistence.applyHostHistory([
+      listed("kept-1"),
+      listed("renamed-1", { name: "Renamed elsewhere" }),
+      { id: "gen-1", url: "https://host/history/gen-1.png", metadata: ownSidecar },
+      listed("added-1", { timestamp: 5 }),
+    ]);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].upserted.map((record) => record.id)).toEqual(["renamed-1", "added-1"]);
+    expect(changes[0].upserted[0].name).toBe("Renamed elsewhere");
+    expect(changes[0].removedIds).toEqual(["deleted-1"]);
+
+    // The same listing again is no news.
+    persistence.applyHostHistory([
+      listed("kept-1"),
+      listed("renamed-1", { name: "Renamed elsewhere" }),
+      { id: "gen-1", url: "https://host/history/gen-1.png", metadata: ownSidecar },
+      listed("added-1", { timestamp: 5 }),
+    ]);
+    expect(changes).toHaveLength(1);
+  });
+
+  it("never deletes another writer's new entry or an unsaved result", async () => {
+    const { bridge, fileStore } = createBridge();
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
+    const changes: ExternalHistoryChange[] = [];
+    persistence.onExternalHistoryChange((change) => changes.push(change));
+    fileStore.set("history/added-1.png", "data:image/png;base64,theirs");
+    fileStore.set("history/added-1.json", JSON.stringify(makeSidecar("added-1")));
+
+    persistence.applyHostHistory([
+      {
+        id: "added-1",
+        url: "https://host/history/added-1.png",
+        metadata: makeSidecar("added-1"),
+      },
+    ]);
+    // A save from before the editor merged the new entry in.
+    const history = [makeRecord("gen-1", "data:image/png;base64,abc")];
+    await persistence.save(
+      makeUiState({
+        appState: { targetImageId: null, referenceImageIds: [], rightPanelImageId: null, history },
+      }),
+    );
+
+    expect(fileStore.has("history/added-1.png")).toBe(true);
+    expect(fileStore.has("history/added-1.json")).toBe(true);
+    // gen-1 was never listed by the host, so a listing without it removes nothing.
+    expect(changes.flatMap((change) => change.removedIds)).toEqual([]);
+  });
+
   it("does not persist book-image entries into the history folder", async () => {
     const { bridge, fileStore } = createBridge();
-    const persistence = createBloomHostPersistence(bridge, { historyImages: [] });
+    const persistence = createHostFilePersistence(bridge, { historyImages: [] });
 
     await persistence.save(
       makeUiState({
@@ -256,14 +491,14 @@ describe("createBloomHostPersistence", () => {
 
   it("updates a sidecar in place when metadata changes, without rewriting bytes", async () => {
     const { bridge, fileStore } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       {
         id: "edit-1",
         url: "https://host/history/edit-1.png",
         metadata: makeSidecar("edit-1", { isStarred: false }),
       },
     ];
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     // URL-backed record (already on disk) with isStarred flipped on.
     await persistence.save(
@@ -285,7 +520,7 @@ describe("createBloomHostPersistence", () => {
 
   it("deletes both png and sidecar when a history item is removed", async () => {
     const { bridge, fileStore } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       { id: "keep", url: "https://host/history/keep.png", metadata: makeSidecar("keep") },
       { id: "drop", url: "https://host/history/drop.png", metadata: makeSidecar("drop") },
     ];
@@ -294,7 +529,7 @@ describe("createBloomHostPersistence", () => {
     fileStore.set("history/keep.json", JSON.stringify(makeSidecar("keep")));
     fileStore.set("history/drop.png", "data:image/png;base64,drop");
     fileStore.set("history/drop.json", JSON.stringify(makeSidecar("drop")));
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     await persistence.save(
       makeUiState({
@@ -314,10 +549,10 @@ describe("createBloomHostPersistence", () => {
 
   it("never writes the apiKey into the book folder (Bloom owns it)", async () => {
     const { bridge, fileStore } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       { id: "edit-1", url: "https://host/history/edit-1.png", metadata: makeSidecar("edit-1") },
     ];
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     await persistence.save(makeUiState({ auth: { apiKey: "sk-test-key", authMethod: "manual" } }));
 
@@ -335,7 +570,7 @@ describe("createBloomHostPersistence", () => {
 
   it("ignores and scrubs a legacy connection.json on load", async () => {
     const { bridge, fileStore } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       { id: "edit-1", url: "https://host/history/edit-1.png", metadata: makeSidecar("edit-1") },
     ];
     // Simulate an older build that stored the key alongside the book.
@@ -344,7 +579,7 @@ describe("createBloomHostPersistence", () => {
       "connection.json",
       JSON.stringify({ apiKey: "legacy-key", authMethod: "manual" }),
     );
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     const restored = await persistence.load();
 
@@ -356,12 +591,12 @@ describe("createBloomHostPersistence", () => {
 
   it("clears state.json, connection.json, and history images + sidecars", async () => {
     const { bridge, fileStore } = createBridge();
-    const historyImages: IBloomHostHistoryImage[] = [
+    const historyImages: IHostHistoryImage[] = [
       { id: "edit-1", url: "https://host/history/edit-1.png", metadata: makeSidecar("edit-1") },
     ];
     fileStore.set("history/edit-1.png", "data:image/png;base64,abc");
     fileStore.set("history/edit-1.json", JSON.stringify(makeSidecar("edit-1")));
-    const persistence = createBloomHostPersistence(bridge, { historyImages });
+    const persistence = createHostFilePersistence(bridge, { historyImages });
 
     await persistence.save(makeUiState({ auth: { apiKey: "sk", authMethod: "manual" } }));
     expect(fileStore.has("state.json")).toBe(true);
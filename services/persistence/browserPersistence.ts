@@ -1,4 +1,10 @@
-import { createStore, del, get, set } from "idb-keyval";
+import { createStore, del, get, keys, set } from "idb-keyval";
+import {
+  HistoryStorageBreakdown,
+  isQuotaError,
+  pickEvictionVictim,
+  summarizeHistoryStorage,
+} from "../../lib/browserStorage";
 import { ImageToolsStatePersistence, PersistedImageToolsState } from "../../types";
 import {
   IMAGE_TOOLS_DB_NAME,
@@ -16,11 +22,61 @@ const createIdbStore = () => {
 };
 
 const IMAGE_TOOLS_STATE_META_KEY = `${IMAGE_TOOLS_STATE_KEY}:meta`;
-const historyImageKey = (id: string) => `${IMAGE_TOOLS_STATE_KEY}:history-image:${id}`;
+const HISTORY_IMAGE_KEY_PREFIX = `${IMAGE_TOOLS_STATE_KEY}:history-image:`;
+const historyImageKey = (id: string) => `${HISTORY_IMAGE_KEY_PREFIX}${id}`;
+const EVICTION_PINS_KEY = `${IMAGE_TOOLS_STATE_KEY}:eviction-pins`;
 
 export const createBrowserImageToolsPersistence = (): ImageToolsStatePersistence => {
   const store = createIdbStore();
+  // Oldest history image first, which is the order they are evicted in.
   const lastSavedImageData = new Map<string, string>();
+  // Images whose bytes were evicted to make room, with the data evicted. It is
+  // still in the editor's memory until it is reloaded, but must not be written
+  // back.
+  const evictedImageData = new Map<string, string>();
+  let evictionPins: string[] | null = null;
+
+  const readEvictionPins = async (): Promise<string[]> => {
+    if (!store) return [];
+    if (!evictionPins) {
+      evictionPins = ((await get(EVICTION_PINS_KEY, store)) as string[] | undefined) ?? [];
+    }
+    return evictionPins;
+  };
+
+  const setEvictionPins = async (ids: string[]) => {
+    evictionPins = ids;
+    if (!store) return;
+    try {
+      await set(EVICTION_PINS_KEY, ids, store);
+    } catch (error) {
+      console.error("Failed to persist eviction pins", error);
+    }
+  };
+
+  /**
+   * Writes an image's bytes, evicting the oldest unpinned image's bytes when
+   * the browser is out of room. Without a history folder those bytes are the
+   * only copy; the entry keeps its details.
+   */
+  const writeHistoryImage = async (id: string, imageData: string): Promise<void> => {
+    if (!store) return;
+    for (;;) {
+      try {
+        await set(historyImageKey(id), imageData, store);
+        return;
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        const candidates = Array.from(lastSavedImageData.keys()).filter((other) => other !== id);
+        const victim = pickEvictionVictim(candidates, await readEvictionPins());
+        if (!victim) throw error;
+        console.warn("Browser storage is full; keeping only the details of", victim);
+        await del(historyImageKey(victim), store);
+        evictedImageData.set(victim, lastSavedImageData.get(victim) ?? "");
+        lastSavedImageData.delete(victim);
+      }
+    }
+  };
 
   const load = async (): Promise<PersistedImageToolsState | null> => {
     if (!store) return null;
@@ -94,10 +150,10 @@ export const createBrowserImageToolsPersistence = (): ImageToolsStatePersistence
       ];
 
       nextImageData.forEach((imageData, id) => {
-        if (lastSavedImageData.get(id) === imageData) {
+        if (lastSavedImageData.get(id) === imageData || evictedImageData.get(id) === imageData) {
           return;
         }
-        writeOps.push(set(historyImageKey(id), imageData, store));
+        writeOps.push(writeHistoryImage(id, imageData));
       });
 
       Array.from(lastSavedImageData.keys()).forEach((id) => {
@@ -111,7 +167,9 @@ export const createBrowserImageToolsPersistence = (): ImageToolsStatePersistence
 
       lastSavedImageData.clear();
       nextImageData.forEach((imageData, id) => {
-        lastSavedImageData.set(id, imageData);
+        if (evictedImageData.get(id) !== imageData) {
+          lastSavedImageData.set(id, imageData);
+        }
       });
     } catch (error) {
       console.error("Failed to persist image tools state", error);
@@ -127,6 +185,7 @@ export const createBrowserImageToolsPersistence = (): ImageToolsStatePersistence
       const historyIds = metadataState?.appState.history.map((item) => item.id) ?? [];
       await Promise.all(historyIds.map((id) => del(historyImageKey(id), store)));
       lastSavedImageData.clear();
+      evictedImageData.clear();
       await del(IMAGE_TOOLS_STATE_META_KEY, store);
       await del(IMAGE_TOOLS_STATE_KEY, store);
     } catch (error) {
@@ -134,5 +193,27 @@ export const createBrowserImageToolsPersistence = (): ImageToolsStatePersistence
     }
   };
 
-  return { load, save, clear };
+  /** Read from IndexedDB, so it also covers images evicted since the last load. */
+  const storageBreakdown = async (): Promise<HistoryStorageBreakdown | null> => {
+    if (!store) return null;
+    try {
+      const [metadataState, storedKeys, pinnedIds] = await Promise.all([
+        get(IMAGE_TOOLS_STATE_META_KEY, store) as Promise<PersistedImageToolsState | undefined>,
+        keys(store),
+        readEvictionPins(),
+      ]);
+      const cachedIds = storedKeys.flatMap((key) =>
+        typeof key === "string" && key.startsWith(HISTORY_IMAGE_KEY_PREFIX)
+          ? [key.slice(HISTORY_IMAGE_KEY_PREFIX.length)]
+          : [],
+      );
+      const entryIds = metadataState?.appState.history.map((item) => item.id) ?? [];
+      return summarizeHistoryStorage(entryIds, cachedIds, pinnedIds);
+    } catch (error) {
+      console.error("Failed to read browser storage breakdown", error);
+      return null;
+    }
+  };
+
+  return { load, save, clear, storageBreakdown, setEvictionPins };
 };
@@ -6,18 +6,29 @@ import {
   IMAGE_TOOLS_FS_HANDLE_STORE,
   IMAGE_TOOLS_FS_IMAGES_DIR,
 } from "./constants";
-import { ImageRecord, PersistedAppState, ThumbnailStripsSnapshot } from "../../types";
-import { APP_STATE_FILE_VERSION } from "../history/types";
+import {
+  ImageRecord,
+  PersistedAppState,
+  ThumbnailStripsSnapshot,
+  TrashedImageRecord,
+} from "../../types";
+import { APP_STATE_FILE_VERSION, TOMBSTONE_TTL_MS } from "../history/types";
 import type { AppStateFile, HistoryEntry } from "../history/types";
 import {
   deleteImageAndSidecar,
+  deleteTombstoneFile,
+  FolderScanResult,
   readAppStateFile,
+  readImageBlob,
   scanFolder,
   writeAppStateFile,
   writeImageAndSidecar,
+  writeSidecar,
   writeTombstone,
 } from "../history/folder/FolderHistoryBackend";
+import { isRestoredSince, listTrashedEntries } from "../history/folder/scan";
 import { imageFileNameForEntry } from "../history/ids";
+import { normalizeSpendLedger, SpendLedgerEntry } from "../../lib/spendBudget";
 
 export interface FileSystemImageBinding {
   directoryHandle: FileSystemDirectoryHandle;
@@ -27,6 +38,7 @@ export interface FileSystemImageBinding {
 export interface FolderPersistedState {
   appState: PersistedAppState;
   thumbnailStrips?: ThumbnailStripsSnapshot;
+  spendLedger: SpendLedgerEntry[];
 }
 
 type DirectoryPicker = (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>;
@@ -308,6 +320,8 @@ const getMimeTypeFromFileName = (fileName: string | null | undefined) => {
 const imageRecordToHistoryEntry = (record: ImageRecord, mime: string): HistoryEntry => ({
   id: record.id,
   parentId: record.parentId ?? null,
+  referenceImageIds: record.referenceImageIds ?? null,
+  bookId: record.bookId ?? null,
   incomingSlotId: record.incomingSlotId,
   toolId: record.toolId,
   parameters: record.parameters ?? {},
@@ -318,6 +332,7 @@ const imageRecordToHistoryEntry = (record: ImageRecord, mime: string): HistoryEn
   durationMs: record.durationMs,
   cost: record.cost,
   resolution: record.resolution,
+  perceptualHash: record.perceptualHash ?? null,
   origin: record.origin,
   isStarred: record.isStarred ?? false,
   sourceStyleId: record.sourceStyleId ?? null,
@@ -335,6 +350,8 @@ const imageRecordFromHistoryEntry = (
 ): ImageRecord => ({
   id: entry.id,
   parentId: entry.parentId ?? null,
+  referenceImageIds: entry.referenceImageIds ?? null,
+  bookId: entry.bookId ?? null,
   incomingSlotId: entry.incomingSlotId,
   imageData: "",
   imageFileName,
@@ -352,6 +369,7 @@ const imageRecordFromHistoryEntry = (
   name: entry.name ?? null,
   credits: entry.credits ?? null,
   resolution: entry.resolution,
+  perceptualHash: entry.perceptualHash ?? null,
   isStarred: entry.isStarred ?? false,
   origin: entry.origin,
 });
@@ -680,15 +698,11 @@ export const listHistoryImageFiles = async (binding: FileSystemImageBinding) =>
   try {
     const entriesById = new Map<string, HistoryImageFile>();
 
-    try {
-      const dir = await getImagesDirectoryHandle(binding.directoryHandle);
-      for (const entry of await scanHandle(dir)) {
-        entriesById.set(entry.id, entry);
-      }
-    } catch (error) {
-      if (!isNotFoundError(error)) {
-        console.error("Failed to list history images", error);
-      }
+    // The images folder's scan also has the tombstones: images in the trash
+    // aren't history.
+    const { images, tombstones } = await scanFolder(binding);
+    for (const { id, fileName, lastModified } of images) {
+      entriesById.set(id, { id, fileName, lastModified });
     }
 
     for (const entry of await scanHandle(binding.directoryHandle)) {
@@ -697,13 +711,52 @@ export const listHistoryImageFiles = async (binding: FileSystemImageBinding) =>
       }
     }
 
-    return Array.from(entriesById.values());
+    return Array.from(entriesById.values()).filter((entry) => !tombstones.has(entry.id));
   } catch (error) {
     console.error("Failed to list history images", error);
     return [];
   }
 };
 
+/**
+ * Takes trashed images (tombstoned, files kept) out of a scan so they don't
+ * load as history or get recovered as orphans. Trash past the tombstone TTL is
+ * deleted here, and tombstones a later restore overrides are cleared.
+ */
+const setAsideTrash = async (
+  binding: FileSystemImageBinding,
+  scan: FolderScanResult,
+): Promise<FolderScanResult> => {
+  const trashIds = new Set<string>();
+  const now = Date.now();
+  for (const [id, tomb] of scan.tombstones) {
+    const sidecar = scan.sidecars.get(id);
+    try {
+      if (isRestoredSince(tomb, sidecar)) {
+        await deleteTombstoneFile(binding, id);
+        continue;
+      }
+      trashIds.add(id);
+      if (now - tomb.deletedAt > TOMBSTONE_TTL_MS) {
+        const image = scan.images.find((candidate) => candidate.id === id);
+        await deleteImageAndSidecar(
+          binding,
+          id,
+          image?.mime ?? sidecar?.imageMime ?? getMimeTypeFromFileName(image?.fileName),
+        );
+        await deleteTombstoneFile(binding, id);
+      }
+    } catch (error) {
+      console.error("Failed to tidy history trash", { id, error });
+    }
+  }
+  return {
+    images: scan.images.filter((image) => !trashIds.has(image.id)),
+    sidecars: new Map([...scan.sidecars].filter(([id]) => !trashIds.has(id))),
+    tombstones: scan.tombstones,
+  };
+};
+
 export const readFolderPersistedState = async (
   binding: FileSystemImageBinding,
 ): Promise<FolderPersistedState | null> => {
@@ -712,7 +765,7 @@ export const readFolderPersistedState = async (
     return null;
   }
 
-  const scan = await scanFolder(binding);
+  const scan = await setAsideTrash(binding, await scanFolder(binding));
   const imageFilesById = new Map(scan.images.map((image) => [image.id, image.fileName] as const));
   const missingImageIds = Array.from(scan.sidecars.keys()).filter((id) => !imageFilesById.has(id));
 
@@ -814,6 +867,7 @@ export const readFolderPersistedState = async (
       history,
     },
     thumbnailStrips,
+    spendLedger: normalizeSpendLedger(appState.spendLedger),
   };
 };
 
@@ -832,10 +886,110 @@ export const deletePersistedHistoryItem = async (
   binding: FileSystemImageBinding,
   item: ImageRecord,
 ) => {
-  if (!item.imageFileName) {
-    return;
+  await deletePersistedHistoryItems(binding, [item]);
+};
+
+/**
+ * Delete several history images as one operation. Only tombstones are
+ * written: the files stay in the folder as the trash ("Recently deleted")
+ * until the tombstone expires or the image is deleted permanently.
+ */
+export const deletePersistedHistoryItems = async (
+  binding: FileSystemImageBinding,
+  items: ImageRecord[],
+) => {
+  const stored = items.filter((item) => !!item.imageFileName);
+  const deletedAt = Date.now();
+  for (const item of stored) {
+    await writeTombstone(binding, { id: item.id, deletedAt });
   }
+};
+
+/**
+ * Undo of deletePersistedHistoryItems. The rewritten sidecars carry
+ * `restoredAt`, so a stale copy of a tombstone synced back in later loses.
+ */
+export const restorePersistedHistoryItems = async (
+  binding: FileSystemImageBinding,
+  items: ImageRecord[],
+): Promise<ImageRecord[]> => {
+  for (const item of items) {
+    await deleteTombstoneFile(binding, item.id);
+  }
+  const restoredAt = Date.now();
+  const restored: ImageRecord[] = [];
+  for (const item of items) {
+    if (!item.imageData) {
+      restored.push(item);
+      continue;
+    }
+    const mime = getMimeTypeFromUrl(item.imageData) ?? getMimeTypeFromFileName(item.imageFileName);
+    const entry: HistoryEntry = { ...imageRecordToHistoryEntry(item, mime), restoredAt };
+    await writeImageAndSidecar(binding, entry, item.imageData);
+    restored.push({ ...item, imageFileName: imageFileNameForEntry(entry) });
+  }
+  return restored;
+};
+
+/**
+ * The folder's trash, most recently deleted first. Only the sidecars are read;
+ * readTrashedHistoryImage loads an image's bytes when it is shown.
+ */
+export const listTrashedHistoryItems = async (
+  binding: FileSystemImageBinding,
+): Promise<TrashedImageRecord[]> =>
+  listTrashedEntries(await scanFolder(binding), Date.now(), TOMBSTONE_TTL_MS).map(
+    ({ entry, deletedAt }) => ({
+      record: imageRecordFromHistoryEntry(entry, imageFileNameForEntry(entry)),
+      deletedAt,
+    }),
+  );
+
+/** A trashed image's file, for a thumbnail (a File reads from disk only when used). */
+export const readTrashedHistoryImage = (
+  binding: FileSystemImageBinding,
+  record: ImageRecord,
+): Promise<Blob | null> =>
+  readImageBlob(binding, {
+    id: record.id,
+    imageMime: getMimeTypeFromFileName(record.imageFileName),
+  });
+
+/**
+ * Bring an image back from the trash. The sidecar gets `restoredAt` before the
+ * tombstone goes, so the restore wins even if removing the tombstone fails.
+ */
+export const restoreTrashedHistoryItem = async (
+  binding: FileSystemImageBinding,
+  id: string,
+): Promise<ImageRecord | null> => {
+  const trashed = listTrashedEntries(await scanFolder(binding), Date.now(), TOMBSTONE_TTL_MS).find(
+    (item) => item.entry.id === id,
+  );
+  if (!trashed) {
+    return null;
+  }
+  const now = Date.now();
+  await writeSidecar(binding, { ...trashed.entry, restoredAt: now, metaUpdatedAt: now });
+  await deleteTombstoneFile(binding, id);
+  const imageFileName = imageFileNameForEntry(trashed.entry);
+  const imageData = await readImageFile(binding, imageFileName);
+  return {
+    ...imageRecordFromHistoryEntry(trashed.entry, imageFileName),
+    imageData: imageData ?? "",
+  };
+};
 
-  await writeTombstone(binding, { id: item.id, deletedAt: Date.now() });
-  await deleteImageAndSidecar(binding, item.id, getMimeTypeFromFileName(item.imageFileName));
+/**
+ * Remove a trashed image's files for good. The tombstone stays until it
+ * expires so a stale synced copy of the files can't bring the image back.
+ */
+export const purgeTrashedHistoryItem = async (binding: FileSystemImageBinding, id: string) => {
+  const trashed = listTrashedEntries(await scanFolder(binding), Date.now(), TOMBSTONE_TTL_MS).find(
+    (item) => item.entry.id === id,
+  );
+  if (!trashed) {
+    return;
+  }
+  await deleteImageAndSidecar(binding, id, trashed.entry.imageMime);
 };
@@ -0,0 +1,126 @@
+import { createStore, delMany, get, getMany, keys, setMany } from "idb-keyval";
+import { ImageRecord, TrashedImageRecord } from "../../types";
+import { blobToBase64 } from "../../lib/imageUtils";
+import { TOMBSTONE_TTL_MS } from "../history/types";
+import { IMAGE_TOOLS_DB_NAME, IMAGE_TOOLS_STATE_KEY, IMAGE_TOOLS_STORE_NAME } from "./constants";
+import {
+  FileSystemImageBinding,
+  listTrashedHistoryItems,
+  purgeTrashedHistoryItem,
+  readTrashedHistoryImage,
+  restoreTrashedHistoryItem,
+} from "./fileSystemAccess";
+
+/**
+ * "Recently deleted": history images deleted in the workspace can be put back
+ * until TOMBSTONE_TTL_MS after deletion. With a linked folder the trash is the
+ * folder's tombstoned files (see fileSystemAccess); without one, the deleted
+ * records and their bytes are kept in IndexedDB here. Listing reads metadata
+ * only; an image's bytes are read when its thumbnail is shown.
+ */
+export interface HistoryTrash {
+  /** Images that can still be restored, most recently deleted first, without their bytes. */
+  list: () => Promise<TrashedImageRecord[]>;
+  /** A trashed image's bytes, for its thumbnail. */
+  loadImage: (record: ImageRecord) => Promise<Blob | null>;
+  /** Takes an image out of the trash; resolves to it with its bytes, or null if it's gone. */
+  restore: (id: string) => Promise<ImageRecord | null>;
+  /** Removes a trashed image for good. */
+  purge: (id: string) => Promise<void>;
+}
+
+const TRASH_RECORD_KEY_PREFIX = `${IMAGE_TOOLS_STATE_KEY}:trash:`;
+const TRASH_IMAGE_KEY_PREFIX = `${IMAGE_TOOLS_STATE_KEY}:trash-image:`;
+
+const trashRecordKey = (id: string) => `${TRASH_RECORD_KEY_PREFIX}${id}`;
+const trashImageKey = (id: string) => `${TRASH_IMAGE_KEY_PREFIX}${id}`;
+
+const createIdbStore = () => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return createStore(IMAGE_TOOLS_DB_NAME, IMAGE_TOOLS_STORE_NAME);
+};
+
+/** Keeps images deleted from browser-only history, with their bytes, as trash. */
+export const trashBrowserHistoryItems = async (items: ImageRecord[]): Promise<void> => {
+  const store = createIdbStore();
+  const stored = items.filter((item) => !!item.imageData);
+  if (!store || !stored.length) return;
+  const deletedAt = Date.now();
+  const entries = await Promise.all(
+    stored.map(async (item) => {
+      const image = await (await fetch(item.imageData)).blob();
+      const trashed: TrashedImageRecord = { record: { ...item, imageData: "" }, deletedAt };
+      return [
+        [trashRecordKey(item.id), trashed],
+        [trashImageKey(item.id), image],
+      ] as Array<[string, TrashedImageRecord | Blob]>;
+    }),
+  );
+  await setMany(entries.flat(), store);
+};
+
+/** Drops images from the browser trash, e.g. when their deletion is undone. */
+export const forgetBrowserTrash = async (ids: string[]): Promise<void> => {
+  const store = createIdbStore();
+  if (!store || !ids.length) return;
+  await delMany(
+    ids.flatMap((id) => [trashRecordKey(id), trashImageKey(id)]),
+    store,
+  );
+};
+
+const listBrowserTrash = async (): Promise<TrashedImageRecord[]> => {
+  const store = createIdbStore();
+  if (!store) return [];
+  const recordKeys = (await keys(store)).filter(
+    (key): key is string => typeof key === "string" && key.startsWith(TRASH_RECORD_KEY_PREFIX),
+  );
+  const trashed = (await getMany(recordKeys, store)) as Array<TrashedImageRecord | undefined>;
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  const expiredIds = trashed.flatMap((item, index) =>
+    !item || item.deletedAt < cutoff
+      ? [recordKeys[index].slice(TRASH_RECORD_KEY_PREFIX.length)]
+      : [],
+  );
+  await forgetBrowserTrash(expiredIds);
+  return trashed
+    .filter((item): item is TrashedImageRecord => !!item && item.deletedAt >= cutoff)
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+const loadBrowserTrashImage = async (record: ImageRecord): Promise<Blob | null> => {
+  const store = createIdbStore();
+  if (!store) return null;
+  return ((await get(trashImageKey(record.id), store)) as Blob | undefined) ?? null;
+};
+
+const restoreBrowserTrashItem = async (id: string): Promise<ImageRecord | null> => {
+  const store = createIdbStore();
+  if (!store) return null;
+  const [trashed, image] = (await getMany([trashRecordKey(id), trashImageKey(id)], store)) as [
+    TrashedImageRecord | undefined,
+    Blob | undefined,
+  ];
+  if (!trashed || !image) return null;
+  const restored = { ...trashed.record, imageData: await blobToBase64(image) };
+  await forgetBrowserTrash([id]);
+  return restored;
+};
+
+/** The trash of the history's current home: the linked folder, or the browser. */
+export const createHistoryTrash = (binding: FileSystemImageBinding | null): HistoryTrash =>
+  binding
+    ? {
+        list: () => listTrashedHistoryItems(binding),
+        loadImage: (record) => readTrashedHistoryImage(binding, record),
+        restore: (id) => restoreTrashedHistoryItem(binding, id),
+        purge: (id) => purgeTrashedHistoryItem(binding, id),
+      }
+    : {
+        list: listBrowserTrash,
+        loadImage: loadBrowserTrashImage,
+        restore: restoreBrowserTrashItem,
+        purge: (id) => forgetBrowserTrash([id]),
+      };
@@ -0,0 +1,514 @@
+/**
+ * hostFilePersistence — the editor's state/history store when embedded in a host.
+ * ================================================================================
+ *
+ * Implements the editor's `ImageToolsStatePersistence` (load/save/clear) on top of the
+ * `IHostFiles` plane (it only needs file I/O, not the control channel), so that
+ * instead of localStorage everything lives in the book's
+ * per-book `.ai-image-editor/` folder (served over HTTP by Bloom's AiImageEditorApi).
+ * Used by HostedImageEditor; the browser/localStorage variant is used standalone.
+ * Bloom is the host it was written for, but nothing here depends on Bloom beyond the
+ * folder layout, so any host that serves the same file endpoint can use it.
+ *
+ * The split that makes this work:
+ *   - state.json        UI-only state (selection, params). History is blanked out here
+ *                       — the folder, not state.json, is the source of truth for history.
+ *                       The API key is NOT stored here: Bloom owns it (see below).
+ *   - history/<id>.png  the image bytes (written only when freshly generated; URL-
+ *                       backed images already live on disk), encoded in the user's
+ *                       output format, so it may be .jpg or .webp instead.
+ *   - history/<id>.json a per-image "sidecar" of the record minus its bytes, plus the
+ *                       image file's mime type.
+ *   - commit/<id>.<ext> a downscaled copy written for one commit when the output settings
+ *                       shrink committed images; removed once the host has taken it.
+ *
+ * THE API KEY IS NOT PERSISTED HERE. Bloom owns the OpenRouter key: it stores it
+ * per-user and supplies it back in the init payload (as the editable `initialApiKey`) on
+ * each launch, and the editor hands any newly obtained key up via bridge.saveCredentials.
+ * The key must never
+ * land in the per-book folder, which travels with shared/uploaded books. (An older build
+ * wrote it to connection.json; that file is now scrubbed on load.)
+ *
+ * `load` rebuilds history from the host-enumerated folder list (`options.historyImages`),
+ * recovering sidecar-less files with sane defaults. `save` diffs against last-written
+ * hashes to avoid re-POSTing unchanged bytes/sidecars and to DELETE removed entries.
+ * Book images (origin "bookImages") are re-supplied on every launch and are never
+ * written into history/.
+ */
+import {
+  ExternalHistoryChange,
+  HistoryImageSidecar,
+  ImageRecord,
+  ImageToolsStatePersistence,
+  PersistedImageToolsState,
+} from "../../types";
+import { IMAGE_TOOLS_STATE_VERSION } from "./constants";
+import { prepareStateForPersistence, restoreStateFromPersistence } from "./stateTransforms";
+import { IHostFiles, IHostHistoryImage } from "../host/hostBridge";
+import {
+  CommitTargetSize,
+  DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  EncodedOutputImage,
+  encodeImageForOutput,
+  ImageOutputSettings,
+  normalizeImageOutputSettings,
+  resolveCommitLongEdge,
+} from "../../lib/imageOutputFormat";
+import { hashImageData } from "../../lib/imageProvenance";
+import { getImageFileExtensionFromMimeType } from "../../lib/imageUtils";
+import { resizeImage as resizeImageToFit } from "../../lib/imageProcessing";
+
+export interface HostFilePersistenceOptions {
+  /** History enumerated by the host from `.ai-image-editor/history/`. The folder
+   *  is the source of truth, so the editor's history is built from this list
+   *  rather than from `state.json`. */
+  historyImages?: IHostHistoryImage[];
+  /** Encodes an image in the output format before it is written; tests swap in a
+   *  canvas-free one. */
+  encodeImage?: (imageData: string, settings: ImageOutputSettings) => Promise<EncodedOutputImage>;
+  /** Shrinks an image to fit a long edge (never enlarging); tests swap this too. */
+  resizeImage?: (imageData: string, maxLongEdge: number) => Promise<string>;
+  /** True for a host with the "commit-result-file" capability. Any other host
+   *  only reads `history/<id>.png`, so images are written as full-size PNG
+   *  whatever the output settings say. Defaults to false. */
+  hostReadsResultFiles?: boolean;
+}
+
+/** A file written for one commit. */
+export interface HostCommitImage {
+  /** Relative to `.ai-image-editor/`, for `IHostCommitReplacement.resultFileName`. */
+  fileName: string;
+  /** Removes the file once the host has taken it, if it was a commit-only copy. */
+  release: () => Promise<void>;
+}
+
+/** The host-file persistence, plus the image writes that commit needs. */
+export interface HostFilePersistence extends ImageToolsStatePersistence {
+  /** Writes an image's bytes into history/ in the current output format (or
+   *  reuses what save already wrote) and returns the file name, e.g.
+   *  `history/<id>.jpg`. */
+  writeHistoryImage: (id: string, imageData: string) => Promise<string>;
+  /**
+   * Writes the file a commit over `target` should use. When the output settings
+   * shrink committed images and this one is larger, that is a downscaled copy
+   * under commit/ (history keeps the full-resolution original); otherwise it is
+   * the history file itself.
+   */
+  writeCommitImage: (
+    id: string,
+    imageData: string,
+    target: CommitTargetSize | null | undefined,
+  ) => Promise<HostCommitImage>;
+  /**
+   * Takes a fresh enumeration of history/ from the host (its `history-changed`
+   * push) and reports what someone else added, changed or removed to
+   * `onExternalHistoryChange` listeners. Files this editor wrote, or is writing,
+   * are not reported back, and results it hasn't saved yet are never removed.
+   */
+  applyHostHistory: (history: IHostHistoryImage[]) => void;
+  onExternalHistoryChange: (listener: (change: ExternalHistoryChange) => void) => () => void;
+}
+
+// The only files a host without "commit-result-file" can read.
+const LEGACY_HOST_OUTPUT_SETTINGS: ImageOutputSettings = {
+  ...DEFAULT_IMAGE_OUTPUT_SETTINGS,
+  format: "png",
+  commitResize: "off",
+};
+
+const historyImageFile = (id: string, mimeType = "image/png") =>
+  `history/${id}.${getImageFileExtensionFromMimeType(mimeType)}`;
+const historySidecarFile = (id: string) => `history/${id}.json`;
+// Outside history/, so the host never enumerates a commit-sized copy as history.
+const commitImageFile = (id: string, mimeType: string) =>
+  `commit/${id}.${getImageFileExtensionFromMimeType(mimeType)}`;
+const isPersistableImageData = (imageData: string | null | undefined): imageData is string =>
+  typeof imageData === "string" && imageData.startsWith("data:image/");
+
+/** The mime type a host-served history URL's extension implies. */
+const mimeTypeFromHistoryUrl = (url: string): string => {
+  const extension = url.match(/\.([a-z0-9]+)(?:[?#].*)?$/i)?.[1]?.toLowerCase();
+  switch (extension) {
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "webp":
+      return "image/webp";
+    default:
+      return "image/png";
+  }
+};
+
+/** Strip the bytes off a history record to produce its `history/<id>.json` sidecar. */
+const sidecarJsonFromRecord = (record: ImageRecord, imageMime: string | undefined): string => {
+  const { imageData: _imageData, ...rest } = record;
+  const sidecar: HistoryImageSidecar = imageMime ? { ...rest, imageMime } : rest;
+  return JSON.stringify(sidecar);
+};
+
+/** A history item for which the host found no sidecar (e.g. a file dropped in by
+ *  hand). Mirrors the folder backend's recovery defaults so it still shows up. */
+const buildRecoveredRecord = (image: IHostHistoryImage): ImageRecord => ({
+  id: image.id,
+  parentId: null,
+  imageData: image.url,
+  imageFileName: null,
+  toolId: "unknown",
+  parameters: {},
+  sourceStyleId: null,
+  durationMs: 0,
+  cost: 0,
+  model: "",
+  timestamp: 0,
+  promptUsed: "Recovered image",
+  sourceSummary: "Recovered from history folder",
+  resolution: undefined,
+  isStarred: false,
+  origin: "generated",
+});
+
+const buildHistoryRecord = (image: IHostHistoryImage): ImageRecord => {
+  if (!image.metadata) {
+    return buildRecoveredRecord(image);
+  }
+  // The filename stem is authoritative for the id and the URL for the bytes,
+  // so they win over whatever the sidecar happened to record. The mime type
+  // describes the file, not the record.
+  const { imageMime: _imageMime, ...metadata } = image.metadata;
+  return { ...metadata, id: image.id, imageData: image.url };
+};
+
+/** Build the editor's history from the host-enumerated folder, oldest-first
+ *  (app state keeps history oldest-first; the strip reverses it for display). */
+const buildHistoryFromImages = (images: IHostHistoryImage[]): ImageRecord[] =>
+  images.map(buildHistoryRecord).sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+
+const createEmptyUiState = (): PersistedImageToolsState => ({
+  version: IMAGE_TOOLS_STATE_VERSION,
+  appState: {
+    targetImageId: null,
+    referenceImageIds: [],
+    rightPanelImageId: null,
+    history: [],
+  },
+  paramsByTool: {},
+  activeToolId: null,
+  auth: { apiKey: null, authMethod: null },
+});
+
+export const createHostFilePersistence = (
+  bridge: IHostFiles,
+  options?: HostFilePersistenceOptions,
+): HostFilePersistence => {
+  const historyImages = options?.historyImages ?? [];
+  const encodeImage = options?.encodeImage ?? encodeImageForOutput;
+  const resizeImage = options?.resizeImage ?? resizeImageToFit;
+  const hostReadsResultFiles = options?.hostReadsResultFiles ?? false;
+  // Taken from the state on every load/save, so images are written in whatever
+  // format the user has chosen by then.
+  let outputSettings = DEFAULT_IMAGE_OUTPUT_SETTINGS;
+  const readOutputSettings = (value: unknown): ImageOutputSettings =>
+    hostReadsResultFiles ? normalizeImageOutputSettings(value) : LEGACY_HOST_OUTPUT_SETTINGS;
+
+  // Bytes already written to history/<id>.png (data URLs only — URL-backed
+  // entries already live on disk), keyed by id, for write-dedup on save.
+  const lastSavedImageData = new Map<string, string>();
+  // Sidecar JSON already on disk, keyed by id. Seeded from the host enumeration
+  // so the first save doesn't rewrite unchanged sidecars, and so deletions can
+  // be detected for URL-backed entries (which never appear in lastSavedImageData).
+  const lastSavedSidecar = new Map<string, string>();
+  // Which file holds each id's bytes (history/<id>.png, .jpg or .webp), so a
+  // sidecar records the right mime and a deletion removes the right file.
+  const imageMimeById = new Map<string, string>();
+  historyImages.forEach((image) => {
+    imageMimeById.set(image.id, image.metadata?.imageMime ?? mimeTypeFromHistoryUrl(image.url));
+    if (image.metadata) {
+      lastSavedSidecar.set(image.id, JSON.stringify(image.metadata));
+    }
+  });
+  // Ids whose sidecars already carried a mime; only those (and images written
+  // here) get one, so loading doesn't rewrite every older sidecar.
+  const sidecarHasMime = new Set(
+    historyImages.filter((image) => image.metadata?.imageMime).map((image) => image.id),
+  );
+  // The file last written per id and the SHA-256 of the image it was encoded
+  // from, so a commit right after a save doesn't encode again.
+  const writtenImageById = new Map<string, { contentHash: string | null; fileName: string }>();
+  // Ids the host has listed in history/ at some point. Only those can have been
+  // removed by someone else; anything else is a result not on disk yet.
+  const hostListedIds = new Set(historyImages.map((image) => image.id));
+  // Ids whose image is being written right now: a push can list the file before
+  // this editor has recorded it.
+  const writingIds = new Set<string>();
+  // Ids another writer added that no save has included yet. A save that was
+  // already under way when they arrived must not delete them as removed.
+  const externallyAddedIds = new Set<string>();
+  const externalChangeListeners = new Set<(change: ExternalHistoryChange) => void>();
+  // Changes that arrived before anyone listened (a push during the first load).
+  const undeliveredChanges: ExternalHistoryChange[] = [];
+
+  const writeHistoryImage = async (id: string, imageData: string): Promise<string> => {
+    // Null when the image can't be hashed; it is then always written.
+    const contentHash = await hashImageData(imageData);
+    const written = writtenImageById.get(id);
+    if (contentHash && written?.contentHash === contentHash) {
+      return written.fileName;
+    }
+    const encoded = await encodeImage(imageData, outputSettings);
+    const fileName = historyImageFile(id, encoded.mimeType);
+    const previousMime = imageMimeById.get(id);
+    writingIds.add(id);
+    try {
+      await bridge.putFile(fileName, encoded.dataUrl);
+      if (previousMime && previousMime !== encoded.mimeType) {
+        // Same id, new format: don't leave the old file for the host to enumerate.
+        await bridge.deleteFile(historyImageFile(id, previousMime)).catch(() => {});
+      }
+    } finally {
+      writingIds.delete(id);
+    }
+    imageMimeById.set(id, encoded.mimeType);
+    sidecarHasMime.add(id);
+    writtenImageById.set(id, { contentHash, fileName });
+    return fileName;
+  };
+
+  const writeCommitImage = async (
+    id: string,
+    imageData: string,
+    target: CommitTargetSize | null | undefined,
+  ): Promise<HostCommitImage> => {
+    const maxLongEdge = resolveCommitLongEdge(outputSettings, target);
+    const resized = maxLongEdge ? await resizeImage(imageData, maxLongEdge) : imageData;
+    if (resized === imageData) {
+      return { fileName: await writeHistoryImage(id, imageData), release: async () => {} };
+    }
+    const encoded = await encodeImage(resized, outputSettings);
+    const fileName = commitImageFile(id, encoded.mimeType);
+    await bridge.putFile(fileName, encoded.dataUrl);
+    return {
+      fileName,
+      release: () => bridge.deleteFile(fileName).catch(() => {}),
+    };
+  };
+
+  const load = async (): Promise<PersistedImageToolsState | null> => {
+    try {
+      const history = buildHistoryFromImages(historyImages);
+
+      // state.json now holds UI-only state; any history array in it is ignored.
+      let base: PersistedImageToolsState | null = null;
+      const raw = await bridge.getFile("state.json");
+      if (raw) {
+        const parsed = JSON.parse(raw) as PersistedImageToolsState;
+        if (parsed.version === IMAGE_TOOLS_STATE_VERSION) {
+          outputSettings = readOutputSettings(parsed.imageOutput);
+          base = restoreStateFromPersistence({
+            ...parsed,
+            appState: { ...parsed.appState, history: [] },
+          });
+        }
+      }
+
+      if (!base && history.length === 0) {
+        return null;
+      }
+
+      const resolved = base ?? createEmptyUiState();
+      // Bloom owns the API key (persisted per-user by the host, supplied via the init
+      // payload), so the editor never sources it from the per-book folder. Drop any apiKey a legacy
+      // state.json may still hold, and scrub any legacy connection.json on disk.
+      const result: PersistedImageToolsState = {
+        ...resolved,
+        appState: { ...resolved.appState, history },
+        auth: { apiKey: null, authMethod: resolved.auth?.authMethod ?? null },
+      };
+      await bridge.deleteFile("connection.json").catch(() => {});
+
+      return result;
+    } catch (error) {
+      console.error("Failed to load bloom host persisted state", error);
+      return null;
+    }
+  };
+
+  const save = async (state: PersistedImageToolsState) => {
+    try {
+      const prepared = prepareStateForPersistence(state);
+      outputSettings = readOutputSettings(prepared.imageOutput);
+      // Book images are re-supplied by the host in `init` on every launch and live
+      // in history only transiently; they must not be written into history/.
+      const history = prepared.appState.history.filter((item) => item.origin !== "bookImages");
+
+      const currentIds = new Set<string>();
+      const nextImageData = new Map<string, string>();
+      const nextSidecar = new Map<string, string>();
+
+      history.forEach((item) => {
+        currentIds.add(item.id);
+        externallyAddedIds.delete(item.id);
+        if (isPersistableImageData(item.imageData)) {
+          nextImageData.set(item.id, item.imageData);
+        }
+      });
+
+      // state.json keeps only UI state; the folder is the source of truth for history.
+      // The API key is owned by the host (saved per-user) and must never be written into
+      // the per-book folder, which travels with shared/uploaded books — so null it here.
+      const uiOnlyState: PersistedImageToolsState = {
+        ...prepared,
+        appState: { ...prepared.appState, history: [] },
+        auth: { apiKey: null, authMethod: prepared.auth?.authMethod ?? null },
+      };
+
+      const writeOps: Array<Promise<unknown>> = [
+        bridge.putFile("state.json", JSON.stringify(uiOnlyState)),
+      ];
+
+      // Write changed image bytes (only freshly generated data-URL images; URL-backed
+      // entries are already on disk). These go first: the sidecars record the mime
+      // type each was encoded in.
+      await Promise.all(
+        [...nextImageData]
+          .filter(([id, imageData]) => lastSavedImageData.get(id) !== imageData)
+          .map(([id, imageData]) => writeHistoryImage(id, imageData)),
+      );
+      history.forEach((item) => {
+        nextSidecar.set(
+          item.id,
+          sidecarJsonFromRecord(
+            item,
+            sidecarHasMime.has(item.id) ? imageMimeById.get(item.id) : undefined,
+          ),
+        );
+      });
+
+      // Write changed sidecars.
+      nextSidecar.forEach((json, id) => {
+        if (lastSavedSidecar.get(id) !== json) {
+          writeOps.push(bridge.putFile(historySidecarFile(id), json));
+        }
+      });
+
+      // Delete both files for removed history items.
+      lastSavedSidecar.forEach((json, id) => {
+        if (externallyAddedIds.has(id)) {
+          nextSidecar.set(id, json);
+          return;
+        }
+        if (!currentIds.has(id)) {
+          writeOps.push(bridge.deleteFile(historyImageFile(id, imageMimeById.get(id))));
+          writeOps.push(bridge.deleteFile(historySidecarFile(id)));
+          imageMimeById.delete(id);
+          writtenImageById.delete(id);
+        }
+      });
+
+      await Promise.all(writeOps);
+
+      lastSavedImageData.clear();
+      nextImageData.forEach((imageData, id) => lastSavedImageData.set(id, imageData));
+      lastSavedSidecar.clear();
+      nextSidecar.forEach((json, id) => lastSavedSidecar.set(id, json));
+    } catch (error) {
+      console.error("Failed to save bloom host persisted state", error);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      const ids = new Set<string>([...lastSavedSidecar.keys(), ...lastSavedImageData.keys()]);
+      historyImages.forEach((image) => ids.add(image.id));
+      const deletions: Array<Promise<unknown>> = [];
+      ids.forEach((id) => {
+        deletions.push(bridge.deleteFile(historyImageFile(id, imageMimeById.get(id))));
+        deletions.push(bridge.deleteFile(historySidecarFile(id)));
+      });
+      await Promise.allSettled(deletions);
+
+      lastSavedImageData.clear();
+      lastSavedSidecar.clear();
+      imageMimeById.clear();
+      writtenImageById.clear();
+      await Promise.allSettled([
+        bridge.deleteFile("state.json"),
+        bridge.deleteFile("connection.json"),
+      ]);
+    } catch (error) {
+      console.error("Failed to clear bloom host persisted state", error);
+    }
+  };
+
+  const applyHostHistory = (images: IHostHistoryImage[]) => {
+    const upserted: ImageRecord[] = [];
+    const listedIds = new Set<string>();
+    images.forEach((image) => {
+      listedIds.add(image.id);
+      hostListedIds.add(image.id);
+      if (writingIds.has(image.id)) {
+        return;
+      }
+      const known = imageMimeById.has(image.id) || lastSavedSidecar.has(image.id);
+      const sidecarJson = image.metadata ? JSON.stringify(image.metadata) : null;
+      // A known file without a sidecar is one mid-write (image first, then
+      // sidecar); an unchanged sidecar is usually this editor's own write.
+      if (known && (!sidecarJson || sidecarJson === lastSavedSidecar.get(image.id))) {
+        return;
+      }
+      imageMimeById.set(image.id, image.metadata?.imageMime ?? mimeTypeFromHistoryUrl(image.url));
+      writtenImageById.delete(image.id);
+      if (image.metadata?.imageMime) {
+        sidecarHasMime.add(image.id);
+      }
+      if (sidecarJson) {
+        lastSavedSidecar.set(image.id, sidecarJson);
+      }
+      if (!known) {
+        externallyAddedIds.add(image.id);
+      }
+      upserted.push(buildHistoryRecord(image));
+    });
+
+    const removedIds = [...hostListedIds].filter((id) => !listedIds.has(id) && !writingIds.has(id));
+    removedIds.forEach((id) => {
+      hostListedIds.delete(id);
+      externallyAddedIds.delete(id);
+      lastSavedSidecar.delete(id);
+      lastSavedImageData.delete(id);
+      imageMimeById.delete(id);
+      sidecarHasMime.delete(id);
+      writtenImageById.delete(id);
+    });
+
+    if (!upserted.length && !removedIds.length) {
+      return;
+    }
+    const change: ExternalHistoryChange = {
+      upserted: upserted.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0)),
+      removedIds,
+    };
+    if (!externalChangeListeners.size) {
+      undeliveredChanges.push(change);
+      return;
+    }
+    externalChangeListeners.forEach((listener) => listener(change));
+  };
+
+  const onExternalHistoryChange = (listener: (change: ExternalHistoryChange) => void) => {
+    externalChangeListeners.add(listener);
+    undeliveredChanges.splice(0).forEach((change) => listener(change));
+    return () => {
+      externalChangeListeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    save,
+    clear,
+    writeHistoryImage,
+    writeCommitImage,
+    applyHostHistory,
+    onExternalHistoryChange,
+  };
+};
@@ -0,0 +1,157 @@
+import { createStore, del, delMany, get, getMany, keys, set, setMany } from "idb-keyval";
+import {
+  EMPTY_UNDO_HISTORY,
+  WorkspaceUndoHistory,
+  normalizeWorkspaceUndoHistory,
+} from "../../lib/workspaceUndo";
+import { IMAGE_TOOLS_DB_NAME, IMAGE_TOOLS_STATE_KEY, IMAGE_TOOLS_STORE_NAME } from "./constants";
+
+/**
+ * Keeps the workspace undo stack across reloads of the same tab. Deleted
+ * images' bytes make it too big for sessionStorage, so it goes to IndexedDB
+ * under a per-tab session id kept in sessionStorage: each tab has its own
+ * record, and a new tab (or a different book) starts with an empty stack. The
+ * stacks are one record; each deleted image's bytes are another, written once
+ * and removed when no entry refers to them any more.
+ */
+
+const UNDO_HISTORY_KEY_PREFIX = `${IMAGE_TOOLS_STATE_KEY}:undo-history:`;
+const UNDO_IMAGE_KEY_PREFIX = `${IMAGE_TOOLS_STATE_KEY}:undo-image:`;
+const UNDO_SESSION_STORAGE_KEY = "imageToolsUndoSession";
+/** A tab's record that hasn't been saved for this long belongs to a closed tab. */
+const ABANDONED_SESSION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface PersistedUndoHistory {
+  sessionId: string;
+  /** The hosted book's id, or "" when not hosted. */
+  scope: string;
+  savedAt: number;
+  history: Pick<WorkspaceUndoHistory, "undo" | "redo">;
+  /** Deleted images stored under their own keys (undoImageKey). */
+  imageIds: string[];
+}
+
+const undoHistoryKey = (sessionId: string) => `${UNDO_HISTORY_KEY_PREFIX}${sessionId}`;
+const undoImageKey = (sessionId: string, imageId: string) =>
+  `${UNDO_IMAGE_KEY_PREFIX}${sessionId}:${imageId}`;
+
+const createIdbStore = () => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return createStore(IMAGE_TOOLS_DB_NAME, IMAGE_TOOLS_STORE_NAME);
+};
+
+const getSessionId = (): string | null => {
+  if (typeof window === "undefined" || !window.sessionStorage) return null;
+  const existing = window.sessionStorage.getItem(UNDO_SESSION_STORAGE_KEY);
+  if (existing) return existing;
+  const created = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  window.sessionStorage.setItem(UNDO_SESSION_STORAGE_KEY, created);
+  return created;
+};
+
+// Image ids this tab has written, so a save only writes the new ones.
+let writtenImageIds: Set<string> | null = null;
+
+/** Removes the records (and images) of other tabs that were closed long ago. */
+const dropAbandonedSessions = async (
+  store: ReturnType<typeof createStore>,
+  sessionId: string,
+): Promise<void> => {
+  const historyKeys = (await keys(store)).filter(
+    (key): key is string =>
+      typeof key === "string" &&
+      key.startsWith(UNDO_HISTORY_KEY_PREFIX) &&
+      key !== undoHistoryKey(sessionId),
+  );
+  if (!historyKeys.length) return;
+  const records = (await getMany(historyKeys, store)) as Array<PersistedUndoHistory | undefined>;
+  const cutoff = Date.now() - ABANDONED_SESSION_MS;
+  const doomed = records.flatMap((record, index) =>
+    !record || (record.savedAt ?? 0) < cutoff
+      ? [
+          historyKeys[index],
+          ...(record?.imageIds ?? []).map((id) => undoImageKey(record?.sessionId ?? "", id)),
+        ]
+      : [],
+  );
+  if (doomed.length) {
+    await delMany(doomed, store);
+  }
+};
+
+export const loadUndoHistory = async (scope: string): Promise<WorkspaceUndoHistory> => {
+  const store = createIdbStore();
+  const sessionId = getSessionId();
+  if (!store || !sessionId) return EMPTY_UNDO_HISTORY;
+  try {
+    void dropAbandonedSessions(store, sessionId).catch((error) => {
+      console.error("Failed to drop old undo histories", error);
+    });
+    const saved = (await get(undoHistoryKey(sessionId), store)) as PersistedUndoHistory | undefined;
+    writtenImageIds = new Set(saved?.imageIds ?? []);
+    if (!saved || saved.scope !== scope) {
+      return EMPTY_UNDO_HISTORY;
+    }
+    const imageIds = saved.imageIds ?? [];
+    const images = (await getMany(
+      imageIds.map((id) => undoImageKey(sessionId, id)),
+      store,
+    )) as Array<string | undefined>;
+    return normalizeWorkspaceUndoHistory({
+      ...saved.history,
+      images: Object.fromEntries(imageIds.map((id, index) => [id, images[index]])),
+    });
+  } catch (error) {
+    console.error("Failed to load undo history", error);
+    return EMPTY_UNDO_HISTORY;
+  }
+};
+
+export const saveUndoHistory = async (
+  scope: string,
+  history: WorkspaceUndoHistory,
+): Promise<void> => {
+  const store = createIdbStore();
+  const sessionId = getSessionId();
+  if (!store || !sessionId) return;
+  try {
+    const written = writtenImageIds ?? new Set<string>();
+    writtenImageIds = written;
+    const imageIds = Object.keys(history.images);
+    const added = imageIds.filter((id) => !written.has(id));
+    const removed = [...written].filter((id) => !(id in history.images));
+    if (added.length) {
+      await setMany(
+        added.map((id) => [undoImageKey(sessionId, id), history.images[id]]),
+        store,
+      );
+      added.forEach((id) => written.add(id));
+    }
+
+    if (!history.undo.length && !history.redo.length) {
+      await del(undoHistoryKey(sessionId), store);
+    } else {
+      const record: PersistedUndoHistory = {
+        sessionId,
+        scope,
+        savedAt: Date.now(),
+        history: { undo: history.undo, redo: history.redo },
+        imageIds,
+      };
+      await set(undoHistoryKey(sessionId), record, store);
+    }
+
+    // Only once the record no longer lists them.
+    if (removed.length) {
+      await delMany(
+        removed.map((id) => undoImageKey(sessionId, id)),
+        store,
+      );
+      removed.forEach((id) => written.delete(id));
+    }
+  } catch (error) {
+    console.error("Failed to save undo history", error);
+  }
+};
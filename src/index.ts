@@ -2,3 +2,47 @@ export { ImageToolsWorkspace } from "../components/ImageToolsWorkspace";
 export type { ImageToolsWorkspaceProps } from "../components/ImageToolsWorkspace";
 export { default } from "../components/ImageToolsWorkspace";
 export * from "../types";
+
+// Hosting the editor app in another editor: the host-neutral bridge and its file-backed
+// persistence (see services/host/hostBridge.ts for the message set and REST contract).
+export { HostedImageEditor } from "../components/HostedImageEditor";
+export type { HostedImageEditorProps } from "../components/HostedImageEditor";
+export { createIframeHostBridge, createInMemoryHostBridge } from "../services/host/hostBridge";
+export type {
+  EditorToHostMessage,
+  HostChannelMessage,
+  HostToEditorMessage,
+  IHostBookImage,
+  IHostBridge,
+  IHostCommitReplacement,
+  IHostControl,
+  IHostFiles,
+  IHostHistoryImage,
+  IHostInitPayload,
+  IHostProgress,
+  IHostReferenceImage,
+  IframeHostBridgeOptions,
+  InMemoryHostBridge,
+  InMemoryHostBridgeOptions,
+} from "../services/host/hostBridge";
+export { connectIframeEditor } from "../services/host/iframeEditorHost";
+export type { IframeEditorHost, IframeEditorHostOptions } from "../services/host/iframeEditorHost";
+export {
+  EDITOR_CAPABILITIES,
+  HOST_CAPABILITIES,
+  HOST_PROTOCOL_VERSION,
+  LEGACY_HOST_CAPABILITIES,
+  getEditorHandshake,
+  hostSupports,
+  negotiateHostProtocol,
+} from "../services/host/hostProtocol";
+export type {
+  HostCapability,
+  HostProtocol,
+  HostProtocolHandshake,
+} from "../services/host/hostProtocol";
+export { createHostFilePersistence } from "../services/persistence/hostFilePersistence";
+export type {
+  HostFilePersistence,
+  HostFilePersistenceOptions,
+} from "../services/persistence/hostFilePersistence";
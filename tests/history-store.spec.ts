@@ -210,9 +210,9 @@ test.describe("HistoryStore", () => {
     }
   });
 
-  // ---------- T5: deletion writes a tombstone ----------
+  // ---------- T5: deletion writes a tombstone; the files stay as trash ----------
 
-  test("T5: delete writes tombstone and removes image files", async ({ page }) => {
+  test("T5: delete writes tombstone and keeps the image files as trash", async ({ page }) => {
     await page.evaluate(async (dataUrl) => {
       const store = (window as any).__bloomHistory;
       await store.add(
@@ -243,8 +243,8 @@ test.describe("HistoryStore", () => {
       };
     });
 
-    expect(layout.images).not.toContain("doomed.png");
-    expect(layout.images).not.toContain("doomed.json");
+    expect(layout.images).toContain("doomed.png");
+    expect(layout.images).toContain("doomed.json");
     expect(layout.tombstones).toContain("doomed.json");
 
     const inMemory = await page.evaluate(() =>
@@ -253,6 +253,56 @@ test.describe("HistoryStore", () => {
     expect(inMemory).not.toContain("doomed");
   });
 
+  test("T5b: an image put back after deletion wins over the tombstone on reconcile", async ({
+    page,
+  }) => {
+    // Delete, put the image back (as restoring from "Recently deleted" does,
+    // stamping `restoredAt`), then sync a stale copy of the tombstone back in.
+    await page.evaluate(async (dataUrl) => {
+      const store = (window as any).__bloomHistory;
+      await store.attachFolder();
+      const entry = {
+        id: "undeleted",
+        parentId: null,
+        toolId: "test",
+        parameters: {},
+        promptUsed: "x",
+        model: "m",
+        timestamp: 1,
+        durationMs: 0,
+        cost: 0,
+        imageMime: "image/png",
+        metaUpdatedAt: 1,
+      };
+      await store.add(entry, dataUrl);
+      await store.delete("undeleted");
+      const now = Date.now();
+      await store.add({ ...entry, restoredAt: now, metaUpdatedAt: now }, dataUrl);
+      // Writes the sidecar now rather than via the write-ahead log.
+      await store.updateMeta("undeleted", { restoredAt: now });
+
+      const fs = (window as any).__mockFsRead();
+      const tombstone = JSON.stringify({ id: "undeleted", deletedAt: now - 60_000 });
+      fs.root.dirs.tombstones.files["undeleted.json"] = {
+        type: "application/json",
+        lastModified: Date.now(),
+        dataB64: btoa(tombstone),
+      };
+      (window as any).__mockFsWrite(fs);
+      await store.reconcileWithFolder();
+    }, SAMPLE_PNG_DATA_URL);
+
+    const result = await page.evaluate(() => {
+      const fs = (window as any).__mockFsRead();
+      return {
+        memoryIds: (window as any).__bloomHistory.snapshot().entries.map((e: any) => e.id),
+        tombstones: Object.keys(fs?.root?.dirs?.tombstones?.files ?? {}),
+      };
+    });
+    expect(result.memoryIds).toContain("undeleted");
+    expect(result.tombstones).not.toContain("undeleted.json");
+  });
+
   // ---------- T6/T7: tombstone wins over a stale sidecar on disk ----------
 
   test("T6/T7: a tombstone prevents resurrection even when the sidecar is still on disk", async ({
@@ -260,7 +310,7 @@ test.describe("HistoryStore", () => {
   }) => {
     // Simulate the race: write an image (folder has it), then manually inject
     // a tombstone for it while also keeping the image+sidecar on disk.
-    // Reconcile must drop the image from memory and delete its files.
+    // Reconcile must drop the image from memory; the files stay as trash.
     await page.evaluate(async (dataUrl) => {
       const store = (window as any).__bloomHistory;
       await store.attachFolder();
@@ -311,8 +361,8 @@ test.describe("HistoryStore", () => {
       const fs = (window as any).__mockFsRead();
       return Object.keys(fs?.root?.dirs?.images?.files ?? {});
     });
-    expect(images).not.toContain("racey.png");
-    expect(images).not.toContain("racey.json");
+    expect(images).toContain("racey.png");
+    expect(images).toContain("racey.json");
   });
 
   // ---------- T9: sidecar without image is cleaned up ----------
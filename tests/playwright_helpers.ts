@@ -137,6 +137,16 @@ export const clearOpenRouterApiKey = async (page: Page) => {
   await closeSettingsDialog(page);
 };
 
+/**
+ * Sends the page's OpenRouter calls to a mock server (dev/mockOpenRouterServer.ts)
+ * instead of openrouter.ai. Call before navigating; pair with any non-empty key.
+ */
+export const useMockOpenRouter = async (page: Page, baseUrl: string) => {
+  await page.addInitScript((url: string) => {
+    window.__bloomOpenRouterBaseUrl = url;
+  }, baseUrl);
+};
+
 const currentDir = path.dirname(fileURLToPath(import.meta.url));
 
 export const SAMPLE_IMAGE_PATH = path.resolve(
@@ -1,9 +1,22 @@
 import type { ElementType, ReactNode } from "react";
+import type { SpendBudget, SpendLedgerEntry } from "./lib/spendBudget";
+import type { ImageOutputSettings } from "./lib/imageOutputFormat";
+import type { HistoryStorageBreakdown, StoragePinSettings } from "./lib/browserStorage";
+import type { HistorySearchQuery } from "./lib/historySearch";
 
 export interface ToolParameter {
   name: string;
   label: string;
-  type: "text" | "select" | "textarea" | "art-style" | "aspect-ratio" | "size" | "checkbox";
+  type:
+    | "text"
+    | "select"
+    | "textarea"
+    | "art-style"
+    | "aspect-ratio"
+    | "size"
+    | "checkbox"
+    /** Inpainting mask drawn on the "Image to Edit" (PNG data URL; "" = no mask). */
+    | "mask";
   options?: string[];
   placeholder?: string;
   defaultValue?: string;
@@ -65,8 +78,34 @@ export interface ModelInfo {
   badge?: string;
   initialReasoningLevel?: ModelReasoningLevel;
   supportedAspectRatios?: string[];
+  /**
+   * Which image-provider adapter (services/imageProviders) serves this model.
+   * Defaults to "openrouter". The adapter owns the request body, response
+   * parsing, cost extraction and retry policy for its backend.
+   */
+  provider?: ImageProviderId;
+  /**
+   * Endpoint root for providers other than OpenRouter, e.g.
+   * "http://localhost:7860" for a self-hosted Automatic1111-compatible server
+   * or "https://api.openai.com/v1" for OpenAI Images. Ignored by "openrouter".
+   */
+  providerBaseUrl?: string;
+  /**
+   * How the OpenRouter adapter requests an output size: Gemini-style
+   * `image_config` (aspect ratio + "1K"/"2K"/"4K") or OpenAI-style pixel
+   * `size`. When omitted it is inferred from the model id.
+   */
+  imageSizeMode?: "image-config" | "pixel-size";
+  /** Largest `image_config.image_size` the model accepts; bigger requests are capped. */
+  maxImageSize?: "1K" | "2K" | "4K";
 }
 
+/**
+ * Image backends editImage can talk to. See services/imageProviders for the
+ * adapter behind each id.
+ */
+export type ImageProviderId = "openrouter" | "openai-images" | "automatic1111";
+
 export interface ArtStyleDefinition {
   id: string;
   name: string;
@@ -87,7 +126,8 @@ export interface ToolDefinition {
   id: string;
   title: string;
   description: string;
-  group?: "default" | "enhance" | "localize" | "text" | "games" | "more";
+  /** "custom" is reserved for user-defined tools (see lib/customTools). */
+  group?: "default" | "enhance" | "localize" | "text" | "games" | "more" | "custom";
   icon: ElementType;
   parameters: ToolParameter[];
   promptTemplate: (params: Record<string, string>) => string;
@@ -202,6 +242,12 @@ export interface ImageCredits {
 export interface ImageRecordData {
   id: string;
   parentId: string | null;
+  /**
+   * Reference images the run was given, in order. Lets a result be
+   * regenerated with the same inputs; absent on records made before this was
+   * tracked, and on uploads and book images.
+   */
+  referenceImageIds?: string[] | null;
   incomingSlotId?: string;
   imageData: string; // Base64
   imageFileName?: string | null;
@@ -229,6 +275,12 @@ export interface ImageRecordData {
   promptUsed: string;
   sourceSummary?: string | null;
   resolution?: { width: number; height: number };
+  /**
+   * 64-bit difference hash of the image as 16 hex digits (see
+   * lib/perceptualHash). Worked out from the bytes the first time it's
+   * needed, then kept so similarity search doesn't decode every image again.
+   */
+  perceptualHash?: string | null;
   isStarred?: boolean;
   origin?: "generated" | "uploaded" | "bookImages" | "bookOriginal";
   /**
@@ -239,6 +291,11 @@ export interface ImageRecordData {
    * upload) must NOT inherit credits from anywhere — never fabricate.
    */
   credits?: ImageCredits | null;
+  /**
+   * The host's id for the book this result was made in, when hosted, so
+   * history copied along with another book can be told apart.
+   */
+  bookId?: string | null;
 }
 
 /** @deprecated Use ImageRecordData. */
@@ -246,21 +303,35 @@ export type ImageEntry = ImageRecordData;
 
 export type ImageRecord = ImageRecordData;
 
+/** A deleted history image still in the trash ("Recently deleted"). */
+export interface TrashedImageRecord {
+  /** Without its bytes (`imageData` is empty); see HistoryTrash.loadImage. */
+  record: ImageRecord;
+  deletedAt: number;
+}
+
 /**
  * Per-image history metadata persisted alongside the image bytes as a
  * `history/<id>.json` sidecar (Bloom-host path). It is everything in an
  * {@link ImageRecordData} except the image bytes themselves — those live in
- * the sibling `history/<id>.png` and are referenced by URL at runtime. The
- * folder is the source of truth: the host enumerates it and supplies each
- * image with its parsed sidecar (see `IBloomHostHistoryImage`).
+ * the sibling `history/<id>.png` (or `.jpg`/`.webp`, per the output format)
+ * and are referenced by URL at runtime. The folder is the source of truth: the
+ * host enumerates it and supplies each image with its parsed sidecar (see
+ * `IBloomHostHistoryImage`).
  */
-export type HistoryImageSidecar = Omit<ImageRecordData, "imageData">;
+export type HistoryImageSidecar = Omit<ImageRecordData, "imageData"> & {
+  /** Mime type of the sibling image file; absent on sidecars written before it was tracked. */
+  imageMime?: string;
+};
 
 /** @deprecated Use ImageRecord. */
 export type HistoryItem = ImageRecord;
 
 export type ViewMode = "single" | "compare";
 
+/** How the Result pane lays out a result against its source in "compare" view. */
+export type CompareMode = "swipe" | "side-by-side" | "onion-skin";
+
 export interface AppState {
   targetImageId: string | null; // Image chosen in the "Image to Edit" panel
   referenceImageIds: string[]; // Additional reference images ("like this")
@@ -283,6 +354,22 @@ export interface GenerationProgressState {
   phaseLabel?: string;
   phaseIndex?: number;
   phaseCount?: number;
+  /**
+   * Live progress from a streamed response. Only providers that stream set it;
+   * without it the overlay relies on `estimatedDurationMs` alone.
+   */
+  stream?: GenerationStreamProgress;
+}
+
+/** What a streaming image request has produced so far. */
+export interface GenerationStreamProgress {
+  /** What the model is working on, judged from the latest chunk. */
+  stage: "waiting" | "thinking" | "writing" | "image";
+  /** Characters of reasoning streamed so far (roughly 4 per token). */
+  reasoningChars: number;
+  /** The text-channel answer so far. */
+  text: string;
+  imagesReceived: number;
 }
 
 export interface GenerationTimingState {
@@ -315,6 +402,11 @@ export type ImageSlotActionKey = "upload" | "paste" | "copy" | "download" | "rem
 export interface AuthState {
   apiKey: string | null;
   authMethod: "oauth" | "manual" | null;
+  /**
+   * The user's key for models on OpenAI's Images API (provider "openai-images"),
+   * entered in Settings. Hosts never write it into the per-book folder.
+   */
+  openAIApiKey?: string | null;
 }
 
 export interface PersistedAppState {
@@ -324,6 +416,25 @@ export interface PersistedAppState {
   history: ImageRecord[];
 }
 
+/**
+ * A user-defined tool saved from the editor ("Save as tool"). Unlike
+ * ToolDefinition it is plain data, so it can be persisted and exported; see
+ * lib/customTools for how it becomes a ToolDefinition.
+ */
+export interface CustomToolSpec {
+  /** Always starts with "user:" so it can never collide with a built-in tool id. */
+  id: string;
+  title: string;
+  description?: string;
+  /** Prompt with `{{paramName}}` placeholders filled from `parameters`. */
+  promptTemplate: string;
+  parameters: ToolParameter[];
+  referenceImages: ToolDefinition["referenceImages"];
+  /** Defaults to true (edits the "Image to Edit"); false generates from scratch. */
+  editImage?: boolean;
+  allowBatch?: boolean;
+}
+
 export interface PersistedImageToolsState {
   version: number;
   appState: PersistedAppState;
@@ -334,6 +445,8 @@ export interface PersistedImageToolsState {
   modelByTool?: Record<string, string>;
   /** toolId -> reasoning-level override for that tool's selected model. */
   reasoningByTool?: Record<string, ModelReasoningLevel>;
+  /** toolId -> candidates made per run (pick-one chooser); absent = 1. */
+  variantsByTool?: Record<string, number>;
   /**
    * Last-measured cost + duration keyed by
    * `${toolId}|${modelId}|${reasoningLevel}|${sizeToken}`, shown in the per-tool
@@ -346,6 +459,19 @@ export interface PersistedImageToolsState {
   historyNewestFirst?: boolean;
   selectedArtStyleId?: string | null;
   thumbnailStrips?: ThumbnailStripsSnapshot;
+  /** User-defined tools, shown in the "My Tools" group. */
+  customTools?: CustomToolSpec[];
+  /** House art styles made in the art style chooser (see lib/customArtStyles). */
+  customArtStyles?: ArtStyleDefinition[];
+  spendBudget?: SpendBudget;
+  /** Cost of every paid generation, checked against `spendBudget`. */
+  spendLedger?: SpendLedgerEntry[];
+  /** Format images are saved, committed and downloaded in. */
+  imageOutput?: ImageOutputSettings;
+  /** Which strips' images the browser history cache never evicts. */
+  storagePins?: StoragePinSettings;
+  /** The search and facets filtering the thumbnail strips. */
+  historySearch?: HistorySearchQuery;
 }
 
 export interface HistoryManifest {
@@ -354,8 +480,25 @@ export interface HistoryManifest {
   thumbnailStrips?: ThumbnailStripsSnapshot;
 }
 
+/** History that changed in storage while the editor was open, made by something
+ *  other than this editor (e.g. another Bloom window). */
+export interface ExternalHistoryChange {
+  /** New entries, and entries whose metadata changed, as full records. */
+  upserted: ImageRecord[];
+  removedIds: string[];
+}
+
 export interface ImageToolsStatePersistence {
   load: () => Promise<PersistedImageToolsState | null>;
   save: (state: PersistedImageToolsState) => Promise<void>;
   clear: () => Promise<void>;
+  /** Only for storage that others can change underneath the editor. */
+  onExternalHistoryChange?: (listener: (change: ExternalHistoryChange) => void) => () => void;
+  /**
+   * Only for storage that gives up images' bytes when it runs out of room (the
+   * browser's): which history images it still holds in full.
+   */
+  storageBreakdown?: () => Promise<HistoryStorageBreakdown | null>;
+  /** Replaces the ids whose bytes are never given up to make room. */
+  setEvictionPins?: (ids: string[]) => Promise<void>;
 }